@@ -0,0 +1,108 @@
+// Generates the scheduled report exports that are due (see
+// src/lib/exportJobs.ts) and files them in their owners' "My Exports"
+// archive. Meant to run on a schedule, e.g. hourly from cron:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run exports
+//
+// Environment:
+//   SUPABASE_URL               falls back to VITE_SUPABASE_URL
+//   SUPABASE_SERVICE_ROLE_KEY  required; the job reads every user's
+//                              definitions and writes to the exports bucket
+
+import { randomUUID } from "node:crypto";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { ExportJobStore, runDueExports } from "@/lib/exportJobs";
+import { EXPORTS_BUCKET } from "@/lib/exportSchedule";
+import { reportTable } from "@/lib/reportExport";
+
+const env = process.env;
+
+function createSupabaseStore(supabase: ReturnType<typeof createClient<Database>>): ExportJobStore {
+  return {
+    async fetchDueDefinitions(now) {
+      // Exports are company-wide, so only owners who are still active CHs
+      // or admins get theirs
+      const { data, error } = await supabase
+        .from('export_definitions')
+        .select('*, bh:profiles!bh_id(full_name, e_code), owner:profiles!user_id!inner(role, is_active)')
+        .eq('active', true)
+        .in('owner.role', ['CH', 'admin'])
+        .eq('owner.is_active', true)
+        .lte('next_run_at', now.toISOString())
+        .order('next_run_at');
+
+      if (error) throw error;
+
+      return data || [];
+    },
+
+    loadReport(report, filters) {
+      return reportTable(supabase, report, filters);
+    },
+
+    async saveFile(definition, file) {
+      const id = randomUUID();
+      const path = `${definition.user_id}/${id}/${file.fileName}`;
+
+      const upload = await supabase.storage
+        .from(EXPORTS_BUCKET)
+        .upload(path, file.body, { contentType: file.contentType });
+      if (upload.error) throw upload.error;
+
+      const { error } = await supabase.from('export_files').insert({
+        id,
+        user_id: definition.user_id,
+        definition_id: definition.id,
+        file_name: file.fileName,
+        report: definition.report,
+        format: file.format,
+        period_start: file.periodStart,
+        period_end: file.periodEnd,
+        row_count: file.rowCount,
+        size_bytes: file.body.byteLength,
+        storage_path: path
+      });
+
+      // Without its row the file would never show up in the archive
+      if (error) {
+        await supabase.storage.from(EXPORTS_BUCKET).remove([path]);
+        throw error;
+      }
+    },
+
+    async markRun(definitionId, ranAt, nextRunAt) {
+      const { error } = await supabase
+        .from('export_definitions')
+        .update({ last_run_at: ranAt.toISOString(), next_run_at: nextRunAt.toISOString() })
+        .eq('id', definitionId);
+
+      if (error) throw error;
+    }
+  };
+}
+
+async function main() {
+  const url = env.SUPABASE_URL || env.VITE_SUPABASE_URL;
+  const serviceKey = env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  }
+
+  const supabase = createClient<Database>(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+
+  const summary = await runDueExports(createSupabaseStore(supabase));
+
+  summary.generated.forEach(entry => console.log(`  ${entry.fileName} (${entry.rowCount} rows)`));
+  console.log(`Exports generated: ${summary.generated.length}, failed: ${summary.failed.length}`);
+  summary.failed.forEach(failure => console.error(`  definition ${failure.definitionId}: ${failure.error}`));
+
+  if (summary.failed.length > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,142 @@
+// Sends the email digests that are due (see src/lib/digest.ts). Meant to run
+// on a schedule, e.g. hourly from cron:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run digests
+//
+// Environment:
+//   SUPABASE_URL               falls back to VITE_SUPABASE_URL
+//   SUPABASE_SERVICE_ROLE_KEY  required; digest_recipients() is service-role only
+//   MAIL_TRANSPORT             "file" (default) writes .eml files to MAIL_OUTBOX_DIR,
+//                              "stub" only prints what would be sent
+//   MAIL_OUTBOX_DIR            default ./mail-outbox
+//   MAIL_FROM                  default noreply@localhost
+//   APP_URL                    base of the links in the emails, default http://localhost:8080
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { DigestSource, sendDueDigests } from "@/lib/digest";
+import { createStubTransport, formatEml, MailTransport } from "@/lib/mailTransport";
+import { BranchCategory } from "@/lib/metrics";
+import { AWAITING_REVIEW_STATUSES } from "@/lib/reportWorkflow";
+import { rankBranchesByDue } from "@/lib/visitFrequency";
+
+const env = process.env;
+
+function createFileTransport(directory: string, from: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^\w.@-]/g, "_")}.eml`;
+      await writeFile(path.join(directory, name), formatEml(message, from));
+    }
+  };
+}
+
+function createSupabaseSource(supabase: ReturnType<typeof createClient<Database>>): DigestSource {
+  return {
+    async fetchRecipients() {
+      const { data, error } = await supabase.rpc('digest_recipients');
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        userId: row.user_id,
+        email: row.email,
+        fullName: row.full_name,
+        role: row.role,
+        zoneId: row.zone_id,
+        reviewDigest: row.review_digest,
+        overdueReminder: row.overdue_reminder,
+        lastReviewDigestAt: row.last_review_digest_at,
+        lastOverdueReminderAt: row.last_overdue_reminder_at
+      }));
+    },
+
+    async fetchPendingReviews(zoneId) {
+      const { data, error } = await supabase
+        .from('branch_visits')
+        .select(`
+          id,
+          visit_date,
+          status,
+          updated_at,
+          branches!inner(name, zone_id),
+          profiles:user_id(full_name)
+        `)
+        .in('status', AWAITING_REVIEW_STATUSES)
+        .eq('branches.zone_id', zoneId)
+        .order('updated_at');
+
+      if (error) throw error;
+
+      return (data || []).map(visit => ({
+        visitId: visit.id,
+        branchName: visit.branches?.name || "Unknown branch",
+        bhName: visit.profiles?.full_name || "Unknown BH",
+        visitDate: visit.visit_date,
+        status: visit.status,
+        submittedAt: visit.updated_at
+      }));
+    },
+
+    async fetchOverdueBranches(bhId) {
+      const [targets, lastVisits] = await Promise.all([
+        supabase.from('visit_frequency_targets').select('category, interval_days'),
+        supabase.rpc('branch_last_visits', { zone: null, bh: bhId })
+      ]);
+
+      if (targets.error) throw targets.error;
+      if (lastVisits.error) throw lastVisits.error;
+
+      const intervals: Partial<Record<BranchCategory, number>> = {};
+      (targets.data || []).forEach(target => {
+        intervals[target.category] = target.interval_days;
+      });
+
+      return rankBranchesByDue(lastVisits.data || [], intervals);
+    },
+
+    async markSent(userId, kind, sentAt) {
+      const column = kind === "review_digest" ? "last_review_digest_at" : "last_overdue_reminder_at";
+      const { error } = await supabase
+        .from('notification_preferences')
+        .update({ [column]: sentAt.toISOString() })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    }
+  };
+}
+
+async function main() {
+  const url = env.SUPABASE_URL || env.VITE_SUPABASE_URL;
+  const serviceKey = env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  }
+
+  const supabase = createClient<Database>(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+
+  const stub = createStubTransport();
+  const transport = env.MAIL_TRANSPORT === "stub"
+    ? stub
+    : createFileTransport(env.MAIL_OUTBOX_DIR || "mail-outbox", env.MAIL_FROM || "noreply@localhost");
+
+  const summary = await sendDueDigests(createSupabaseSource(supabase), transport, {
+    appUrl: env.APP_URL || "http://localhost:8080"
+  });
+
+  stub.sent.forEach(message => console.log(`[stub] ${message.to}: ${message.subject}`));
+  console.log(`Digests sent: ${summary.sent.length}, nothing to report: ${summary.empty.length}, failed: ${summary.failed.length}`);
+  summary.failed.forEach(failure => console.error(`  ${failure.kind} for ${failure.userId}: ${failure.error}`));
+
+  if (summary.failed.length > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -11,10 +11,12 @@ import Dashboard from "./pages/Dashboard";
 import AdminDashboard from "./pages/AdminDashboard";
 import RoleDashboard from "./pages/RoleDashboard";
 import NotFound from "./pages/NotFound";
+import RequireRole from "./components/auth/RequireRole";
 import BHDashboardLayout from "./components/bh/BHDashboardLayout";
 import BHDashboard from "./pages/BHDashboard";
 import NewVisit from "./pages/NewVisit";
 import MyVisits from "./pages/MyVisits";
+import BHCalendar from "./pages/BHCalendar";
 import ZHDashboardLayout from "./components/zh/ZHDashboardLayout";
 import ZHDashboard from "./pages/ZHDashboard";
 import ZHBranchMapping from "./pages/ZHBranchMapping";
@@ -24,6 +26,8 @@ import CHDashboardLayout from "./components/ch/CHDashboardLayout";
 import CHDashboard from "./pages/CHDashboard";
 import CHAnalytics from "./pages/CHAnalytics";
 import CHReports from "./pages/CHReports";
+import MyExports from "./pages/MyExports";
+import BranchDetails from "./pages/BranchDetails";
 
 const queryClient = new QueryClient();
 
@@ -32,30 +36,45 @@ const AppRoutes = () => (
     <Route path="/" element={<Index />} />
     <Route path="/auth" element={<Auth />} />
     <Route path="/dashboard" element={<Dashboard />} />
-    <Route path="/admin/dashboard" element={<AdminDashboard />} />
-    <Route path="visits" element={<MyVisits />} />
 
+    <Route element={<RequireRole roles={["admin"]} />}>
+      <Route path="/admin/dashboard" element={<AdminDashboard />} />
+    </Route>
     
     {/* BH routes with layout */}
-    <Route path="/bh" element={<BHDashboardLayout />}>
-      <Route path="dashboard" element={<BHDashboard />} />
-      <Route path="new-visit" element={<NewVisit />} />
-      <Route path="my-visits" element={<MyVisits />} />
+    <Route element={<RequireRole roles={["BH"]} />}>
+      <Route path="visits" element={<MyVisits />} />
+      <Route path="/bh" element={<BHDashboardLayout />}>
+        <Route path="dashboard" element={<BHDashboard />} />
+        <Route path="new-visit" element={<NewVisit />} />
+        <Route path="my-visits" element={<MyVisits />} />
+        <Route path="calendar" element={<BHCalendar />} />
+      </Route>
     </Route>
     
     {/* ZH routes with layout */}
-    <Route path="/zh" element={<ZHDashboardLayout />}>
-      <Route path="dashboard" element={<ZHDashboard />} />
-      <Route path="branch-mapping" element={<ZHBranchMapping />} />
-      <Route path="bh-management" element={<ZHBHManagement />} />
-      <Route path="review-reports" element={<ZHReviewReports />} />
+    <Route element={<RequireRole roles={["ZH"]} />}>
+      <Route path="/zh" element={<ZHDashboardLayout />}>
+        <Route path="dashboard" element={<ZHDashboard />} />
+        <Route path="branch-mapping" element={<ZHBranchMapping />} />
+        <Route path="bh-management" element={<ZHBHManagement />} />
+        <Route path="review-reports" element={<ZHReviewReports />} />
+      </Route>
     </Route>
     
     {/* CH routes with layout */}
-    <Route path="/ch" element={<CHDashboardLayout />}>
-      <Route path="dashboard" element={<CHDashboard />} />
-      <Route path="analytics" element={<CHAnalytics />} />
-      <Route path="reports" element={<CHReports />} />
+    <Route element={<RequireRole roles={["CH"]} />}>
+      <Route path="/ch" element={<CHDashboardLayout />}>
+        <Route path="dashboard" element={<CHDashboard />} />
+        <Route path="analytics" element={<CHAnalytics />} />
+        <Route path="reports" element={<CHReports />} />
+        <Route path="exports" element={<MyExports />} />
+      </Route>
+    </Route>
+    
+    {/* Pages shared by every role */}
+    <Route element={<RequireRole roles={["BH", "ZH", "CH", "admin"]} />}>
+      <Route path="/branches/:id" element={<BranchDetails />} />
     </Route>
     
     <Route path="/:role/dashboard" element={<RoleDashboard />} />
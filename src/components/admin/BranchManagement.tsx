@@ -0,0 +1,368 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { MapPin, Plus, Search, Pencil } from "lucide-react";
+import { Database } from "@/integrations/supabase/types";
+import { bulkUpdateBranches, createBranch, fetchAllBranches } from "@/services/adminService";
+import { fetchZones } from "@/services/zoneService";
+
+type BranchCategory = Database['public']['Tables']['branches']['Row']['category'];
+
+const CATEGORIES: BranchCategory[] = ["platinum", "diamond", "gold", "silver", "bronze"];
+
+// Sentinels for selects, which cannot have an empty value
+const KEEP = "__keep__";
+const NO_ZONE = "__none__";
+
+const formatCategoryName = (category: string) =>
+  category.charAt(0).toUpperCase() + category.slice(1);
+
+interface BranchManagementProps {
+  onChange?: () => void;
+}
+
+const BranchManagement = ({ onChange }: BranchManagementProps) => {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [dialogType, setDialogType] = useState<"create" | "bulk" | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // New branch form
+  const [newName, setNewName] = useState("");
+  const [newLocation, setNewLocation] = useState("");
+  const [newCategory, setNewCategory] = useState<BranchCategory>("bronze");
+  const [newZone, setNewZone] = useState<string>(NO_ZONE);
+
+  // Bulk edit form
+  const [bulkLocation, setBulkLocation] = useState("");
+  const [bulkCategory, setBulkCategory] = useState<string>(KEEP);
+  const [bulkZone, setBulkZone] = useState<string>(KEEP);
+
+  const { data: branches = [], isLoading, refetch } = useQuery({
+    queryKey: ['admin-branches'],
+    queryFn: fetchAllBranches
+  });
+
+  const { data: zones = [] } = useQuery({
+    queryKey: ['zones'],
+    queryFn: fetchZones
+  });
+
+  const zoneNames = Object.fromEntries(zones.map(zone => [zone.id, zone.name]));
+
+  const filteredBranches = useMemo(() => {
+    const term = searchQuery.trim().toLowerCase();
+    if (!term) return branches;
+    return branches.filter(branch =>
+      branch.name.toLowerCase().includes(term) ||
+      branch.location.toLowerCase().includes(term)
+    );
+  }, [branches, searchQuery]);
+
+  const allVisibleSelected = filteredBranches.length > 0 &&
+    filteredBranches.every(branch => selectedIds.includes(branch.id));
+
+  const toggleSelectAll = (checked: boolean) => {
+    const visibleIds = filteredBranches.map(branch => branch.id);
+    setSelectedIds(prev => checked
+      ? Array.from(new Set([...prev, ...visibleIds]))
+      : prev.filter(id => !visibleIds.includes(id))
+    );
+  };
+
+  const toggleSelected = (branchId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, branchId] : prev.filter(id => id !== branchId));
+  };
+
+  const openCreateDialog = () => {
+    setNewName("");
+    setNewLocation("");
+    setNewCategory("bronze");
+    setNewZone(NO_ZONE);
+    setDialogType("create");
+  };
+
+  const openBulkDialog = () => {
+    setBulkLocation("");
+    setBulkCategory(KEEP);
+    setBulkZone(KEEP);
+    setDialogType("bulk");
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsSaving(true);
+      await createBranch({
+        name: newName.trim(),
+        location: newLocation.trim(),
+        category: newCategory,
+        zone_id: newZone === NO_ZONE ? null : newZone
+      });
+      setDialogType(null);
+      refetch();
+      onChange?.();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBulkUpdate = async () => {
+    const updates: { location?: string; category?: BranchCategory; zone_id?: string | null } = {};
+    if (bulkLocation.trim()) updates.location = bulkLocation.trim();
+    if (bulkCategory !== KEEP) updates.category = bulkCategory as BranchCategory;
+    if (bulkZone !== KEEP) updates.zone_id = bulkZone === NO_ZONE ? null : bulkZone;
+
+    try {
+      setIsSaving(true);
+      await bulkUpdateBranches(selectedIds, updates);
+      setDialogType(null);
+      setSelectedIds([]);
+      refetch();
+      onChange?.();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <div className="flex flex-col md:flex-row gap-4 mb-4">
+          <div className="relative flex-1 min-w-0">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-500 h-4 w-4" />
+            <Input
+              placeholder="Search branches by name or location..."
+              className="pl-9 w-full"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={openBulkDialog} disabled={selectedIds.length === 0}>
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit selected ({selectedIds.length})
+            </Button>
+            <Button onClick={openCreateDialog} className="bg-blue-600 hover:bg-blue-700 text-white">
+              <Plus className="h-4 w-4 mr-1" />
+              New Branch
+            </Button>
+          </div>
+        </div>
+
+        <div className="border rounded-md overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allVisibleSelected}
+                    onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+                    aria-label="Select all branches"
+                  />
+                </TableHead>
+                <TableHead>Branch Name</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Zone</TableHead>
+                <TableHead>Assigned BHs</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-slate-500">
+                    Loading branches...
+                  </TableCell>
+                </TableRow>
+              ) : filteredBranches.length > 0 ? (
+                filteredBranches.map((branch) => (
+                  <TableRow key={branch.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(branch.id)}
+                        onCheckedChange={(checked) => toggleSelected(branch.id, checked === true)}
+                        aria-label={`Select ${branch.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{branch.name}</TableCell>
+                    <TableCell>
+                      <span className="flex items-center gap-1">
+                        <MapPin className="inline-block h-4 w-4 text-slate-400" />
+                        {branch.location}
+                      </span>
+                    </TableCell>
+                    <TableCell>{formatCategoryName(branch.category)}</TableCell>
+                    <TableCell>
+                      {branch.zone_id ? zoneNames[branch.zone_id] || "Unknown" : (
+                        <span className="text-slate-400">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{branch.bh_count}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-slate-500">
+                    {searchQuery ? "No branches match your search" : "No branches found"}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogType === "create"} onOpenChange={(open) => !open && setDialogType(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Branch</DialogTitle>
+            <DialogDescription>Add a branch so it can be assigned to BHs.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="admin-branch-name">Name</Label>
+              <Input id="admin-branch-name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="admin-branch-location">Location</Label>
+              <Input id="admin-branch-location" value={newLocation} onChange={(e) => setNewLocation(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={newCategory} onValueChange={(value) => setNewCategory(value as BranchCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>{formatCategoryName(category)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Zone</Label>
+              <Select value={newZone} onValueChange={setNewZone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ZONE}>No zone</SelectItem>
+                  {zones.map((zone) => (
+                    <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <Button
+              onClick={handleCreate}
+              disabled={isSaving || !newName.trim() || !newLocation.trim()}
+              className="bg-blue-600 hover:bg-blue-700 text-white w-full sm:w-auto"
+            >
+              {isSaving ? "Creating..." : "Create"}
+            </Button>
+            <Button variant="outline" onClick={() => setDialogType(null)} className="w-full sm:w-auto">
+              Cancel
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialogType === "bulk"} onOpenChange={(open) => !open && setDialogType(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit {selectedIds.length} Branch(es)</DialogTitle>
+            <DialogDescription>Only the fields you fill in will be changed.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="admin-bulk-location">Location</Label>
+              <Input
+                id="admin-bulk-location"
+                placeholder="Leave unchanged"
+                value={bulkLocation}
+                onChange={(e) => setBulkLocation(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={bulkCategory} onValueChange={setBulkCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Leave unchanged</SelectItem>
+                  {CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>{formatCategoryName(category)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Zone</Label>
+              <Select value={bulkZone} onValueChange={setBulkZone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Leave unchanged</SelectItem>
+                  <SelectItem value={NO_ZONE}>No zone</SelectItem>
+                  {zones.map((zone) => (
+                    <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <Button
+              onClick={handleBulkUpdate}
+              disabled={isSaving || (!bulkLocation.trim() && bulkCategory === KEEP && bulkZone === KEEP)}
+              className="bg-blue-600 hover:bg-blue-700 text-white w-full sm:w-auto"
+            >
+              {isSaving ? "Saving..." : "Apply"}
+            </Button>
+            <Button variant="outline" onClick={() => setDialogType(null)} className="w-full sm:w-auto">
+              Cancel
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default BranchManagement;
@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RISK_FIELDS, RISK_OPERATORS, RiskField, RiskRule } from "@/lib/riskRules";
+import { createRiskRule, deleteRiskRule, fetchRiskRules, updateRiskRule } from "@/services/riskService";
+
+type RuleDraft = Pick<RiskRule, "name" | "field" | "operator" | "threshold" | "severity"> & { weight: string };
+
+const NEW_RULE: RuleDraft = {
+  name: "",
+  field: "attrition_percentage",
+  operator: "gte",
+  threshold: "",
+  severity: "amber",
+  weight: "1",
+};
+
+const toDraft = (rule: RiskRule): RuleDraft => ({
+  name: rule.name,
+  field: rule.field,
+  operator: rule.operator,
+  threshold: rule.threshold,
+  severity: rule.severity,
+  weight: String(rule.weight),
+});
+
+const isYesNo = (field: RiskField) => RISK_FIELDS[field].kind === "yes_no";
+
+interface RuleInputsProps {
+  draft: RuleDraft;
+  onChange: (draft: RuleDraft) => void;
+}
+
+// Condition, severity and weight cells shared by the existing rules and the new-rule row
+const RuleInputs = ({ draft, onChange }: RuleInputsProps) => (
+  <>
+    <TableCell>
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-slate-700 whitespace-nowrap">{RISK_FIELDS[draft.field].label}</span>
+        {isYesNo(draft.field) ? (
+          <>
+            <span className="text-slate-500">=</span>
+            <Select value={draft.threshold} onValueChange={(threshold) => onChange({ ...draft, threshold })}>
+              <SelectTrigger className="w-20">
+                <SelectValue placeholder="-" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="yes">Yes</SelectItem>
+                <SelectItem value="no">No</SelectItem>
+              </SelectContent>
+            </Select>
+          </>
+        ) : (
+          <>
+            <Select
+              value={draft.operator}
+              onValueChange={(operator) => onChange({ ...draft, operator: operator as RuleDraft["operator"] })}
+            >
+              <SelectTrigger className="w-16">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RISK_OPERATORS).map(([operator, symbol]) => (
+                  <SelectItem key={operator} value={operator}>{symbol}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              className="w-20"
+              value={draft.threshold}
+              onChange={(e) => onChange({ ...draft, threshold: e.target.value })}
+            />
+          </>
+        )}
+      </div>
+    </TableCell>
+    <TableCell>
+      <Select
+        value={draft.severity}
+        onValueChange={(severity) => onChange({ ...draft, severity: severity as RuleDraft["severity"] })}
+      >
+        <SelectTrigger className="w-24">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="red">Red</SelectItem>
+          <SelectItem value="amber">Amber</SelectItem>
+        </SelectContent>
+      </Select>
+    </TableCell>
+    <TableCell>
+      <Input
+        type="number"
+        min={1}
+        className="w-16"
+        value={draft.weight}
+        onChange={(e) => onChange({ ...draft, weight: e.target.value })}
+      />
+    </TableCell>
+  </>
+);
+
+const RiskRuleManagement = () => {
+  const queryClient = useQueryClient();
+  // Edited rules, keyed by id, until they are saved
+  const [edits, setEdits] = useState<Record<string, RuleDraft>>({});
+  const [newRule, setNewRule] = useState<RuleDraft>(NEW_RULE);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<RiskRule | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['risk-rules'],
+    queryFn: fetchRiskRules
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['risk-rules'] });
+    queryClient.invalidateQueries({ queryKey: ['high-risk-branches'] });
+  };
+
+  const clearEdit = (id: string) => {
+    setEdits((current) => {
+      const next = { ...current };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const handleSave = async (rule: RiskRule) => {
+    const draft = edits[rule.id];
+    try {
+      setSavingId(rule.id);
+      await updateRiskRule(rule.id, { ...draft, weight: Number(draft.weight) });
+      clearEdit(rule.id);
+      refresh();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggle = async (rule: RiskRule, enabled: boolean) => {
+    try {
+      setSavingId(rule.id);
+      await updateRiskRule(rule.id, { enabled });
+      refresh();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setSavingId("new");
+      await createRiskRule({ ...newRule, weight: Number(newRule.weight) });
+      setNewRule(NEW_RULE);
+      refresh();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await deleteRiskRule(ruleToDelete.id);
+      clearEdit(ruleToDelete.id);
+      refresh();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setRuleToDelete(null);
+    }
+  };
+
+  const handleNewField = (field: RiskField) => {
+    setNewRule({
+      ...newRule,
+      field,
+      operator: isYesNo(field) ? "eq" : "gte",
+      threshold: isYesNo(field) ? "no" : "",
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <p className="text-sm text-slate-600 mb-4">
+          Rules that flag visit reports in the review queue and on the dashboards. A report is red
+          when any red rule matches, amber when only amber rules do; its score is the sum of the
+          matched rules' weights. A branch is flagged by its latest report.
+        </p>
+
+        <div className="border rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">On</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Weight</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-slate-500">
+                    Loading risk rules...
+                  </TableCell>
+                </TableRow>
+              ) : rules.length > 0 ? (
+                rules.map((rule) => {
+                  const draft = edits[rule.id] ?? toDraft(rule);
+                  const isDirty = edits[rule.id] !== undefined;
+                  const setDraft = (next: RuleDraft) => setEdits((current) => ({ ...current, [rule.id]: next }));
+
+                  return (
+                    <TableRow key={rule.id} className={rule.enabled ? "" : "opacity-60"}>
+                      <TableCell>
+                        <Switch
+                          checked={rule.enabled}
+                          onCheckedChange={(enabled) => handleToggle(rule, enabled)}
+                          disabled={savingId === rule.id}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className="min-w-40"
+                          value={draft.name}
+                          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        />
+                      </TableCell>
+                      <RuleInputs draft={draft} onChange={setDraft} />
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            onClick={() => handleSave(rule)}
+                            disabled={!isDirty || savingId === rule.id}
+                          >
+                            Save
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => setRuleToDelete(rule)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-slate-500">
+                    No risk rules configured. Reports are not flagged.
+                  </TableCell>
+                </TableRow>
+              )}
+
+              <TableRow className="bg-slate-50">
+                <TableCell />
+                <TableCell>
+                  <div className="space-y-2">
+                    <Input
+                      className="min-w-40"
+                      placeholder="New rule name"
+                      value={newRule.name}
+                      onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                    />
+                    <Select value={newRule.field} onValueChange={(field) => handleNewField(field as RiskField)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(RISK_FIELDS).map(([field, { label }]) => (
+                          <SelectItem key={field} value={field}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </TableCell>
+                <RuleInputs draft={newRule} onChange={setNewRule} />
+                <TableCell>
+                  <Button
+                    size="sm"
+                    onClick={handleCreate}
+                    disabled={!newRule.name.trim() || !newRule.threshold || savingId === "new"}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete risk rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{ruleToDelete?.name}" will stop flagging reports. To pause a rule instead, switch it off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default RiskRuleManagement;
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Pencil, Search } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Database } from "@/integrations/supabase/types";
+import { fetchProfiles, setProfileActive, updateProfile, ProfileUpdate } from "@/services/adminService";
+import { fetchZones } from "@/services/zoneService";
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const ROLES: Profile['role'][] = ["BH", "ZH", "CH", "admin"];
+
+// Select items cannot have an empty value
+const NO_ZONE = "__none__";
+
+interface UserManagementProps {
+  onChange?: () => void;
+}
+
+const UserManagement = ({ onChange }: UserManagementProps) => {
+  const { user } = useAuth();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [editingProfile, setEditingProfile] = useState<Profile | null>(null);
+  const [form, setForm] = useState<ProfileUpdate>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: profiles = [], isLoading, refetch } = useQuery({
+    queryKey: ['admin-profiles', searchQuery],
+    queryFn: () => fetchProfiles(searchQuery)
+  });
+
+  const { data: zones = [] } = useQuery({
+    queryKey: ['zones'],
+    queryFn: fetchZones
+  });
+
+  const zoneNames = Object.fromEntries(zones.map(zone => [zone.id, zone.name]));
+
+  const handleOpenEdit = (profile: Profile) => {
+    setEditingProfile(profile);
+    setForm({
+      role: profile.role,
+      location: profile.location,
+      e_code: profile.e_code,
+      zone_id: profile.zone_id
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingProfile) return;
+
+    try {
+      setIsSaving(true);
+      await updateProfile(editingProfile.id, {
+        role: form.role,
+        location: form.location?.trim(),
+        e_code: form.e_code?.trim(),
+        zone_id: form.zone_id || null
+      });
+      setEditingProfile(null);
+      refetch();
+      onChange?.();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (profile: Profile, isActive: boolean) => {
+    try {
+      await setProfileActive(profile.id, isActive);
+      refetch();
+      onChange?.();
+    } catch {
+      // Error toast is shown by the service
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-500 h-4 w-4" />
+          <Input
+            placeholder="Search users by name, E-Code or location..."
+            className="pl-9 w-full"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+
+        <div className="border rounded-md overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>E-Code</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Zone</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-slate-500">
+                    Loading users...
+                  </TableCell>
+                </TableRow>
+              ) : profiles.length > 0 ? (
+                profiles.map((profile) => (
+                  <TableRow key={profile.id} className={profile.is_active ? "" : "opacity-60"}>
+                    <TableCell className="font-medium">{profile.full_name}</TableCell>
+                    <TableCell>{profile.e_code}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{profile.role}</Badge>
+                    </TableCell>
+                    <TableCell>{profile.location}</TableCell>
+                    <TableCell>
+                      {profile.zone_id ? zoneNames[profile.zone_id] || "Unknown" : (
+                        <span className="text-slate-400">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={profile.is_active}
+                        // Admins cannot lock themselves out
+                        disabled={profile.id === user?.id}
+                        onCheckedChange={(checked) => handleToggleActive(profile, checked)}
+                        aria-label={`Toggle access for ${profile.full_name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => handleOpenEdit(profile)}>
+                        <Pencil className="h-3.5 w-3.5" />
+                        <span className="hidden md:inline ml-1">Edit</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-slate-500">
+                    {searchQuery ? "No users match your search" : "No users found"}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editingProfile} onOpenChange={(open) => !open && setEditingProfile(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit User</DialogTitle>
+            <DialogDescription>
+              Update role, zone, location and E-Code for {editingProfile?.full_name}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value) => setForm({ ...form, role: value as Profile['role'] })}
+                disabled={editingProfile?.id === user?.id}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Zone</Label>
+              <Select
+                value={form.zone_id || NO_ZONE}
+                onValueChange={(value) => setForm({ ...form, zone_id: value === NO_ZONE ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a zone" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ZONE}>No zone</SelectItem>
+                  {zones.map((zone) => (
+                    <SelectItem key={zone.id} value={zone.id}>{zone.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="admin-user-location">Location</Label>
+              <Input
+                id="admin-user-location"
+                value={form.location || ""}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="admin-user-ecode">E-Code</Label>
+              <Input
+                id="admin-user-ecode"
+                value={form.e_code || ""}
+                onChange={(e) => setForm({ ...form, e_code: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !form.location?.trim() || !form.e_code?.trim()}
+              className="bg-blue-600 hover:bg-blue-700 text-white w-full sm:w-auto"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+            <Button variant="outline" onClick={() => setEditingProfile(null)} className="w-full sm:w-auto">
+              Cancel
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default UserManagement;
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BranchCategory } from "@/lib/metrics";
+import { describeInterval } from "@/lib/visitFrequency";
+import { fetchVisitTargets, updateVisitTarget } from "@/services/visitFrequencyService";
+
+const VisitTargetManagement = () => {
+  const queryClient = useQueryClient();
+  // Edited intervals, keyed by category, until they are saved
+  const [edits, setEdits] = useState<Partial<Record<BranchCategory, string>>>({});
+  const [savingCategory, setSavingCategory] = useState<BranchCategory | null>(null);
+
+  const { data: targets = [], isLoading } = useQuery({
+    queryKey: ['visit-targets'],
+    queryFn: fetchVisitTargets
+  });
+
+  const handleSave = async (category: BranchCategory) => {
+    try {
+      setSavingCategory(category);
+      await updateVisitTarget(category, Number(edits[category]));
+      setEdits((current) => {
+        const next = { ...current };
+        delete next[category];
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: ['visit-targets'] });
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setSavingCategory(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <p className="text-sm text-slate-600 mb-4">
+          How often each branch category must be visited. A branch is overdue once this
+          many days have passed since its latest reported visit.
+        </p>
+
+        <div className="border rounded-md overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Visit every (days)</TableHead>
+                <TableHead>Frequency</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-slate-500">
+                    Loading visit targets...
+                  </TableCell>
+                </TableRow>
+              ) : targets.length > 0 ? (
+                targets.map((target) => {
+                  const edited = edits[target.category];
+                  const value = edited ?? String(target.interval_days);
+                  const isDirty = edited !== undefined && Number(edited) !== target.interval_days;
+
+                  return (
+                    <TableRow key={target.category}>
+                      <TableCell className="font-medium capitalize">{target.category}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          className="w-28"
+                          value={value}
+                          onChange={(e) => setEdits((current) => ({ ...current, [target.category]: e.target.value }))}
+                        />
+                      </TableCell>
+                      <TableCell className="text-slate-600">
+                        {Number(value) > 0 ? describeInterval(Number(value)) : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          onClick={() => handleSave(target.category)}
+                          disabled={!isDirty || savingCategory === target.category}
+                        >
+                          Save
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-slate-500">
+                    No visit targets configured.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VisitTargetManagement;
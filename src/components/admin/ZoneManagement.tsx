@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus } from "lucide-react";
+import { createZone, fetchZones } from "@/services/zoneService";
+
+const ZoneManagement = () => {
+  const queryClient = useQueryClient();
+  const [newZoneName, setNewZoneName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: zones = [], isLoading } = useQuery({
+    queryKey: ['zones'],
+    queryFn: fetchZones
+  });
+
+  const handleCreate = async () => {
+    try {
+      setIsSaving(true);
+      await createZone(newZoneName);
+      setNewZoneName("");
+      // Users and branches tabs share this query for their zone pickers
+      queryClient.invalidateQueries({ queryKey: ['zones'] });
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4">
+        <div className="flex gap-2 mb-4">
+          <Input
+            placeholder="New zone name"
+            value={newZoneName}
+            onChange={(e) => setNewZoneName(e.target.value)}
+          />
+          <Button
+            onClick={handleCreate}
+            disabled={isSaving || !newZoneName.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Zone
+          </Button>
+        </div>
+
+        <div className="border rounded-md overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Zone</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={2} className="text-center py-8 text-slate-500">
+                    Loading zones...
+                  </TableCell>
+                </TableRow>
+              ) : zones.length > 0 ? (
+                zones.map((zone) => (
+                  <TableRow key={zone.id}>
+                    <TableCell className="font-medium">{zone.name}</TableCell>
+                    <TableCell>{new Date(zone.created_at).toLocaleDateString()}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={2} className="text-center py-8 text-slate-500">
+                    No zones yet. Create one, then assign ZHs, BHs and branches to it.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ZoneManagement;
@@ -0,0 +1,34 @@
+import { Navigate, Outlet } from "react-router-dom";
+import { useAuth, UserRole } from "@/contexts/AuthContext";
+import Forbidden from "@/pages/Forbidden";
+
+interface RequireRoleProps {
+  roles: UserRole[];
+  children?: React.ReactNode;
+}
+
+// Route guard: renders its children (or nested routes) only for the given roles.
+// Signed-out users are sent to /auth; signed-in users with another role get a 403.
+const RequireRole = ({ roles, children }: RequireRoleProps) => {
+  const { session, role, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <div className="h-10 w-10 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!role || !roles.includes(role)) {
+    return <Forbidden />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default RequireRole;
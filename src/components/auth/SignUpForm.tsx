@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -33,7 +34,7 @@ const formSchema = z
     confirmPassword: z.string(),
     fullName: z.string().min(3, { message: "Full name must be at least 3 characters" }),
     eCode: z.string().min(1, { message: "E-Code is required" }),
-    role: z.enum(["BH", "ZH", "CH", "admin"], {
+    role: z.enum(["BH", "ZH"], {
       required_error: "Please select a role",
     }),
     location: z.string().min(2, { message: "Location must be at least 2 characters" }),
@@ -204,10 +205,11 @@ const SignUpForm = () => {
                   <SelectContent>
                     <SelectItem value="BH">BH</SelectItem>
                     <SelectItem value="ZH">ZH</SelectItem>
-                    <SelectItem value="CH">CH</SelectItem>
-                    <SelectItem value="admin">Admin</SelectItem>
                   </SelectContent>
                 </Select>
+                <FormDescription>
+                  ZH accounts can sign in once an administrator has approved them.
+                </FormDescription>
                 <FormMessage />
               </FormItem>
             )}
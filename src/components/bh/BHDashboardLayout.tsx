@@ -2,13 +2,15 @@
 import React, { useState, useEffect } from "react";
 import { Outlet, NavLink, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { LayoutDashboard, Plus, List, Menu, X, LogOut } from "lucide-react";
+import { LayoutDashboard, Plus, List, CalendarDays, Menu, X, LogOut } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useVisitOutbox } from "@/hooks/use-visit-outbox";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Avatar } from "@/components/ui/avatar";
+import NotificationBell from "@/components/notifications/NotificationBell";
 
 const BHDashboardLayout = () => {
   const [expanded, setExpanded] = useState(false);
@@ -17,6 +19,9 @@ const BHDashboardLayout = () => {
   const isMobile = useIsMobile();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [profile, setProfile] = useState<any>(null);
+
+  // Sends visits captured offline as soon as the connection returns
+  useVisitOutbox(user?.id, { autoSync: true });
   
   useEffect(() => {
     const getProfile = async () => {
@@ -43,6 +48,7 @@ const BHDashboardLayout = () => {
     { icon: LayoutDashboard, label: "Dashboard", path: "/bh/dashboard" },
     { icon: Plus, label: "New Visit", path: "/bh/new-visit" },
     { icon: List, label: "My Visits", path: "/bh/my-visits" },
+    { icon: CalendarDays, label: "Calendar", path: "/bh/calendar" },
   ];
 
   const handleLogout = async () => {
@@ -111,6 +117,7 @@ const BHDashboardLayout = () => {
           </div>
           
           <div className="flex items-center gap-2">
+            <NotificationBell checkOverdue />
             <Avatar className="h-8 w-8 bg-blue-600 text-white">
               <span>{profile?.full_name?.charAt(0) || 'B'}</span>
             </Avatar>
@@ -182,6 +189,12 @@ const BHDashboardLayout = () => {
       
       {/* Main content */}
       <main className="flex-1 overflow-auto relative">
+        <header className="sticky top-0 z-10 flex items-center justify-end gap-3 h-14 px-6 bg-white border-b">
+          <NotificationBell checkOverdue />
+          <Avatar className="h-8 w-8 bg-blue-600 text-white">
+            <span>{profile?.full_name?.charAt(0) || 'B'}</span>
+          </Avatar>
+        </header>
         <Outlet />
       </main>
     </div>
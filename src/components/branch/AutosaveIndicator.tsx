@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNowStrict } from "date-fns";
+import { AlertTriangle, CheckCircle, CloudOff, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { AutosaveStatus } from "@/hooks/use-form-autosave";
+
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+  lastSavedAt: Date | null;
+  className?: string;
+}
+
+const AutosaveIndicator = ({ status, lastSavedAt, className }: AutosaveIndicatorProps) => {
+  // Re-render periodically so "x seconds ago" stays current
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    if (!lastSavedAt) return;
+    const interval = setInterval(() => setTick((tick) => tick + 1), 10000);
+    return () => clearInterval(interval);
+  }, [lastSavedAt]);
+
+  if (status === "idle" && !lastSavedAt) return null;
+
+  const savedAgo = lastSavedAt ? formatDistanceToNowStrict(lastSavedAt, { addSuffix: true }) : null;
+
+  return (
+    <span className={cn("inline-flex items-center gap-1 text-xs text-slate-500", className)}>
+      {status === "saving" ? (
+        <>
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Saving...
+        </>
+      ) : status === "offline" ? (
+        <>
+          <CloudOff className="h-3 w-3 text-amber-600" />
+          Saved on this device {savedAgo}
+        </>
+      ) : status === "error" ? (
+        <>
+          <AlertTriangle className="h-3 w-3 text-red-600" />
+          Autosave failed{savedAgo && ` · last saved ${savedAgo}`}
+        </>
+      ) : (
+        <>
+          <CheckCircle className="h-3 w-3 text-green-600" />
+          Saved {savedAgo}
+        </>
+      )}
+    </span>
+  );
+};
+
+export default AutosaveIndicator;
@@ -1,5 +1,5 @@
 
-import React from "react";
+import React, { useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -9,25 +9,55 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { X, Clock, Eye, CheckCircle, AlertTriangle } from "lucide-react";
+import { X, Clock, Eye, CheckCircle, AlertTriangle, Download } from "lucide-react";
 import { format, parseISO } from "date-fns";
+import { Link } from "react-router-dom";
 import { Database } from "@/integrations/supabase/types";
 
-import { BranchVisitSummary } from "@/services/reportService";
+import { toast } from "@/components/ui/use-toast";
+import { BranchVisitSummary, fetchVisitPdfInput } from "@/services/reportService";
+import VisitReviewHistory from "@/components/branch/VisitReviewHistory";
+import VisitHistoryTimeline from "@/components/branch/VisitHistoryTimeline";
 
 interface BranchVisitDetailsModalProps {
   visit: BranchVisitSummary | null;
   isOpen: boolean;
   onClose: () => void;
+  // Hidden on the branch page itself
+  showBranchLink?: boolean;
 }
 
 const BranchVisitDetailsModal = ({
   visit,
   isOpen,
-  onClose
+  onClose,
+  showBranchLink = true
 }: BranchVisitDetailsModalProps) => {
+  const [isDownloading, setIsDownloading] = useState(false);
+
   if (!visit) return null;
 
+  const handleDownloadPdf = async () => {
+    setIsDownloading(true);
+    try {
+      // jsPDF is only loaded when someone asks for a PDF
+      const [{ buildVisitPdf, visitPdfFileName }, input] = await Promise.all([
+        import("@/lib/visitPdf"),
+        fetchVisitPdfInput(visit)
+      ]);
+      buildVisitPdf(input).save(visitPdfFileName(input));
+    } catch (error) {
+      console.error("Error generating visit PDF:", error);
+      toast({
+        variant: "destructive",
+        title: "Download failed",
+        description: (error as Error).message || "Could not generate the PDF"
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   // Format date for display
   const formatDate = (dateString: string) => {
     try {
@@ -52,6 +82,18 @@ const BranchVisitDetailsModal = ({
           className: 'bg-blue-100 text-blue-800 hover:bg-blue-100',
           icon: <Eye className="h-3 w-3 mr-1" />
         };
+      case 'resubmitted':
+        return { 
+          label: 'Resubmitted', 
+          className: 'bg-blue-100 text-blue-800 hover:bg-blue-100',
+          icon: <Eye className="h-3 w-3 mr-1" />
+        };
+      case 'needs_revision':
+        return { 
+          label: 'Needs Revision', 
+          className: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+          icon: <AlertTriangle className="h-3 w-3 mr-1" />
+        };
       case 'approved':
         return { 
           label: 'Approved', 
@@ -107,6 +149,14 @@ const BranchVisitDetailsModal = ({
                 <span className="text-slate-400 mx-1">•</span>
                 {getCategoryName(visit.branches?.category)}
               </p>
+              {showBranchLink && visit.branch_id && (
+                <Link
+                  to={`/branches/${visit.branch_id}`}
+                  className="text-sm text-blue-600 hover:underline mt-1 inline-block"
+                >
+                  View branch history
+                </Link>
+              )}
             </div>
             <div>
               <div className={`px-3 py-1 rounded-full text-sm font-medium ${
@@ -271,9 +321,25 @@ const BranchVisitDetailsModal = ({
               </div>
             </div>
           )}
+
+          {visit.status !== 'draft' && (
+            <div className="mb-6">
+              <h3 className="text-base font-medium mb-2">Review History</h3>
+              <VisitReviewHistory visitId={visit.id} />
+            </div>
+          )}
+
+          <div className="mb-6">
+            <h3 className="text-base font-medium mb-2">Change History</h3>
+            <VisitHistoryTimeline visitId={visit.id} />
+          </div>
         </div>
         
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleDownloadPdf} disabled={isDownloading}>
+            <Download className="h-4 w-4 mr-2" />
+            {isDownloading ? "Preparing PDF..." : "Download PDF"}
+          </Button>
           <DialogClose asChild>
             <Button variant="outline" onClick={onClose}>Close</Button>
           </DialogClose>
@@ -47,6 +47,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/components/ui/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { BranchVisitSummary } from "@/services/reportService";
+import { ReportStatus, assertTransition, getSubmitStatus, isEditable } from "@/lib/reportWorkflow";
+import { useFormAutosave } from "@/hooks/use-form-autosave";
+import AutosaveIndicator from "@/components/branch/AutosaveIndicator";
 
 // Define Branch interface
 interface Branch {
@@ -88,6 +91,14 @@ const formSchema = z.object({
 
 type FormData = z.infer<typeof formSchema>;
 
+type ToggleField =
+  | "leaders_aligned_with_code"
+  | "employees_feel_safe"
+  | "employees_feel_motivated"
+  | "leaders_abusive_language"
+  | "employees_comfort_escalation"
+  | "inclusive_culture";
+
 interface EditVisitModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -98,7 +109,11 @@ interface EditVisitModalProps {
 const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVisitModalProps) => {
   const [branches, setBranches] = useState<Branch[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+
+  const currentStatus = (visitData?.status || "draft") as ReportStatus;
+  const canEdit = isEditable(currentStatus, role);
+  const isRevision = currentStatus === "needs_revision";
   
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -114,6 +129,39 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
   const [leadersAbusiveLanguage, setLeadersAbusiveLanguage] = useState<boolean | null>(null);
   const [employeesComfortEscalation, setEmployeesComfortEscalation] = useState<boolean | null>(null);
   const [inclusiveCulture, setInclusiveCulture] = useState<boolean | null>(null);
+
+  const applyToggleValues = (values: Partial<Record<ToggleField, string | null>>) => {
+    setLeadersAlignedWithCode(values.leaders_aligned_with_code === "yes");
+    setEmployeesFeelSafe(values.employees_feel_safe === "yes");
+    setEmployeesFeelMotivated(values.employees_feel_motivated === "yes");
+    setLeadersAbusiveLanguage(values.leaders_abusive_language === "yes");
+    setEmployeesComfortEscalation(values.employees_comfort_escalation === "yes");
+    setInclusiveCulture(values.inclusive_culture === "yes");
+  };
+
+  // Toggle answers live in component state; mirror them into the form so autosave picks them up
+  const handleToggle = (field: ToggleField, setValue: (value: boolean) => void, value: boolean) => {
+    setValue(value);
+    form.setValue(field, value ? "yes" : "no", { shouldDirty: true });
+  };
+
+  const autosave = useFormAutosave(form, {
+    userId: user?.id,
+    formKey: isOpen && canEdit && visitData?.id ? `visit:${visitData.id}` : null,
+    visitId: visitData?.id,
+    notBefore: visitData?.updated_at,
+    revive: (values) => ({
+      ...values,
+      visit_date: values.visit_date ? new Date(values.visit_date as string | Date) : undefined,
+    }) as Partial<FormData>,
+    onRestore: (values) => {
+      applyToggleValues(values);
+      toast({
+        title: "Unsaved changes restored",
+        description: "We restored the edits you had not saved yet.",
+      });
+    },
+  });
   
   useEffect(() => {
     const fetchBranches = async () => {
@@ -167,21 +215,20 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
       });
 
       // Set YesNoToggle states
-      setLeadersAlignedWithCode(visitData.leaders_aligned_with_code === "yes");
-      setEmployeesFeelSafe(visitData.employees_feel_safe === "yes");
-      setEmployeesFeelMotivated(visitData.employees_feel_motivated === "yes");
-      setLeadersAbusiveLanguage(visitData.leaders_abusive_language === "yes");
-      setEmployeesComfortEscalation(visitData.employees_comfort_escalation === "yes");
-      setInclusiveCulture(visitData.inclusive_culture === "yes");
+      applyToggleValues(visitData);
     }
   }, [visitData, form]);
 
-  const onSubmit = async (data: FormData, status: "draft" | "submitted" = "draft") => {
+  const onSubmit = async (data: FormData, action: "save" | "submit" = "save") => {
     if (!user || !visitData?.id) return;
     
     setIsSubmitting(true);
     
     try {
+      // Saving keeps the report where it is; submitting moves it on for review
+      const status = action === "submit" ? getSubmitStatus(currentStatus) : currentStatus;
+      assertTransition(currentStatus, status, role);
+
       // Fix the date bug by preserving the date object as is
       // Instead of using toISOString() which can cause timezone issues, we use the form's exact date value
       const visitDate = data.visit_date;
@@ -203,12 +250,14 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
         .eq("id", visitData.id);
         
       if (error) throw error;
+
+      await autosave.clear();
       
       toast({
-        title: status === "submitted" ? "Report submitted!" : "Draft saved!",
-        description: status === "submitted" 
+        title: action === "submit" ? "Report submitted!" : "Changes saved!",
+        description: action === "submit" 
           ? "Your report has been submitted successfully."
-          : "Your draft has been saved successfully.",
+          : "Your changes have been saved.",
       });
       
       onUpdateSuccess();
@@ -238,12 +287,17 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
         <DialogHeader>
           <DialogTitle className="text-xl">Edit Branch Visit Report</DialogTitle>
           <DialogDescription>
-            Make changes to your visit report. Save as draft or submit when finished.
+            {!canEdit && role
+              ? "This report can no longer be edited."
+              : isRevision
+                ? "Your reviewer sent this report back. Make the requested changes and resubmit."
+                : "Make changes to your visit report. Save as draft or submit when finished."}
           </DialogDescription>
+          {canEdit && <AutosaveIndicator status={autosave.status} lastSavedAt={autosave.lastSavedAt} />}
         </DialogHeader>
 
         <Form {...form}>
-          <form onSubmit={form.handleSubmit((data) => onSubmit(data, "draft"))}>
+          <form onSubmit={form.handleSubmit((data) => onSubmit(data, "save"))}>
             <div className="space-y-4">
               {/* General Info Section */}
               <div className="space-y-4">
@@ -254,7 +308,7 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Branch</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue placeholder="Select a branch" />
@@ -621,7 +675,7 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
                     <YesNoToggle
                       name="leadersAlignedWithCode"
                       value={leadersAlignedWithCode}
-                      onChange={(value) => setLeadersAlignedWithCode(value)}
+                      onChange={(value) => handleToggle("leaders_aligned_with_code", setLeadersAlignedWithCode, value)}
                     />
                           </div>
 
@@ -630,7 +684,7 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
                     <YesNoToggle
                       name="employeesFeelSafe"
                       value={employeesFeelSafe}
-                      onChange={(value) => setEmployeesFeelSafe(value)}
+                      onChange={(value) => handleToggle("employees_feel_safe", setEmployeesFeelSafe, value)}
                     />
                           </div>
 
@@ -639,7 +693,7 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
                     <YesNoToggle
                       name="employeesFeelMotivated"
                       value={employeesFeelMotivated}
-                      onChange={(value) => setEmployeesFeelMotivated(value)}
+                      onChange={(value) => handleToggle("employees_feel_motivated", setEmployeesFeelMotivated, value)}
                     />
                   </div>
 
@@ -648,7 +702,7 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
                     <YesNoToggle
                       name="leadersAbusiveLanguage"
                       value={leadersAbusiveLanguage}
-                      onChange={(value) => setLeadersAbusiveLanguage(value)}
+                      onChange={(value) => handleToggle("leaders_abusive_language", setLeadersAbusiveLanguage, value)}
                       inverseColors={true}
                     />
                           </div>
@@ -658,7 +712,7 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
                     <YesNoToggle
                       name="employeesComfortEscalation"
                       value={employeesComfortEscalation}
-                      onChange={(value) => setEmployeesComfortEscalation(value)}
+                      onChange={(value) => handleToggle("employees_comfort_escalation", setEmployeesComfortEscalation, value)}
                     />
                           </div>
 
@@ -667,7 +721,7 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
                     <YesNoToggle
                       name="inclusiveCulture"
                       value={inclusiveCulture}
-                      onChange={(value) => setInclusiveCulture(value)}
+                      onChange={(value) => handleToggle("inclusive_culture", setInclusiveCulture, value)}
                     />
                           </div>
                           </div>
@@ -706,23 +760,23 @@ const EditVisitModal = ({ isOpen, onClose, visitData, onUpdateSuccess }: EditVis
               <Button 
                 type="submit" 
                 variant="secondary"
-                disabled={isSubmitting}
+                disabled={isSubmitting || !canEdit}
               >
-                <Save className="h-4 w-4 mr-1" /> {isSubmitting ? "Saving..." : "Save as Draft"}
+                <Save className="h-4 w-4 mr-1" /> {isSubmitting ? "Saving..." : isRevision ? "Save Changes" : "Save as Draft"}
               </Button>
               <Button 
                 type="button" 
-                disabled={isSubmitting}
+                disabled={isSubmitting || !canEdit}
                 onClick={() => {
                   if (form.formState.isValid) {
                     const formData = form.getValues();
-                    onSubmit(formData, "submitted");
+                    onSubmit(formData, "submit");
                   } else {
                     form.trigger();
                   }
                 }}
               >
-                <Check className="h-4 w-4 mr-1" /> {isSubmitting ? "Submitting..." : "Submit Report"}
+                <Check className="h-4 w-4 mr-1" /> {isSubmitting ? "Submitting..." : isRevision ? "Resubmit Report" : "Submit Report"}
               </Button>
             </DialogFooter>
           </form>
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ShieldAlert } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import RiskBadge from "@/components/branch/RiskBadge";
+import { fetchHighRiskBranches, HIGH_RISK_LOOKBACK_DAYS } from "@/services/riskService";
+
+interface HighRiskBranchesCardProps {
+  // Branches of one zone; all branches when zoneId is unset.
+  // Null while the scope is still being worked out.
+  scope: { zoneId?: string | null } | null;
+  description?: string;
+  limit?: number;
+}
+
+const HighRiskBranchesCard = ({
+  scope,
+  description = `Branches whose latest report in the last ${HIGH_RISK_LOOKBACK_DAYS} days raised a risk flag`,
+  limit = 5,
+}: HighRiskBranchesCardProps) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: risky = [], isLoading } = useQuery({
+    queryKey: ['high-risk-branches', scope?.zoneId ?? null],
+    queryFn: () => fetchHighRiskBranches(scope ?? {}),
+    enabled: scope !== null,
+  });
+
+  const redCount = risky.filter((branch) => branch.level === "red").length;
+  const shown = showAll ? risky : risky.slice(0, limit);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-red-500" />
+            High-Risk Branches
+          </CardTitle>
+          {!isLoading && (
+            <Badge variant="outline" className={redCount > 0 ? "bg-red-50 text-red-700 border-red-200" : ""}>
+              {redCount} red · {risky.length - redCount} amber
+            </Badge>
+          )}
+        </div>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || scope === null ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          </div>
+        ) : risky.length === 0 ? (
+          <p className="text-sm text-slate-500 py-4 text-center">No branch has an open risk flag.</p>
+        ) : (
+          <ul className="divide-y">
+            {shown.map((branch) => (
+              <li key={branch.branchId} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <div>
+                  <Link to={`/branches/${branch.branchId}`} className="font-medium text-slate-800 hover:underline">
+                    {branch.visit.branches?.name || "Unknown branch"}
+                  </Link>
+                  <p className="text-xs text-slate-500">
+                    {branch.flags.map((flag) => flag.name).join(", ")}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    Reported {format(parseISO(branch.visit.visit_date), "d MMM yyyy")}
+                    {branch.visit.profiles?.full_name && ` by ${branch.visit.profiles.full_name}`}
+                  </p>
+                </div>
+                <RiskBadge risk={branch} showScore />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!isLoading && scope !== null && risky.length > limit && (
+          <div className="flex justify-end mt-3">
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setShowAll(!showAll)}>
+              {showAll ? "Show fewer" : `Show all ${risky.length}`}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HighRiskBranchesCard;
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CalendarClock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { describeInterval } from "@/lib/visitFrequency";
+import { fetchBranchDues } from "@/services/visitFrequencyService";
+
+interface OverdueBranchesCardProps {
+  // Branches of one zone or one BH; all branches when both are unset.
+  // Null while the scope is still being worked out.
+  scope: { zoneId?: string | null; bhId?: string | null } | null;
+  description?: string;
+  limit?: number;
+}
+
+const OverdueBranchesCard = ({
+  scope,
+  description = "Branches past their visit frequency target",
+  limit = 5,
+}: OverdueBranchesCardProps) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: dues = [], isLoading } = useQuery({
+    queryKey: ['branch-dues', scope?.zoneId ?? null, scope?.bhId ?? null],
+    queryFn: () => fetchBranchDues(scope ?? {}),
+    enabled: scope !== null,
+  });
+
+  const overdue = dues.filter((due) => due.status === "overdue");
+  const dueSoonCount = dues.filter((due) => due.status === "due_soon").length;
+  const shown = showAll ? overdue : overdue.slice(0, limit);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Overdue Branches
+          </CardTitle>
+          {!isLoading && (
+            <Badge variant="outline" className={overdue.length > 0 ? "bg-red-50 text-red-700 border-red-200" : ""}>
+              {overdue.length} overdue
+            </Badge>
+          )}
+        </div>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || scope === null ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          </div>
+        ) : overdue.length === 0 ? (
+          <p className="text-sm text-slate-500 py-4 text-center">Every branch is within its visit target.</p>
+        ) : (
+          <ul className="divide-y">
+            {shown.map((due) => (
+              <li key={due.branchId} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <div>
+                  <p className="font-medium text-slate-800">{due.name}</p>
+                  <p className="text-xs text-slate-500">
+                    <span className="capitalize">{due.category}</span> · {describeInterval(due.intervalDays)}
+                    {due.lastVisitDate && ` · last visited ${format(parseISO(due.lastVisitDate), "d MMM yyyy")}`}
+                  </p>
+                </div>
+                <span className="text-sm font-medium text-red-600">
+                  {due.neverVisited ? "Never visited" : `${due.daysOverdue} day${due.daysOverdue === 1 ? "" : "s"} overdue`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!isLoading && scope !== null && (
+          <div className="flex items-center justify-between mt-3 text-xs text-slate-500">
+            <span className="flex items-center gap-1">
+              <CalendarClock className="h-3.5 w-3.5" />
+              {dueSoonCount} due within a week
+            </span>
+            {overdue.length > limit && (
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setShowAll(!showAll)}>
+                {showAll ? "Show fewer" : `Show all ${overdue.length}`}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OverdueBranchesCard;
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CloudOff, RefreshCw, Send, Trash2, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { toast } from "@/components/ui/use-toast";
+import { OutboxItem, SendResult } from "@/lib/visitOutbox";
+
+interface PendingSyncListProps {
+  items: OutboxItem[];
+  isOnline: boolean;
+  onSyncNow: () => Promise<void>;
+  onRetry: (localId: string, ignoreConflict?: boolean) => Promise<SendResult>;
+  onDiscard: (localId: string) => Promise<void>;
+}
+
+const formatVisitDate = (visitDate: string | undefined) => {
+  if (!visitDate) return "No date";
+  try {
+    return format(parseISO(visitDate), "MMM d, yyyy");
+  } catch (error) {
+    return visitDate;
+  }
+};
+
+const getSyncBadge = (item: OutboxItem, isOnline: boolean) => {
+  switch (item.status) {
+    case "syncing":
+      return <Badge className="bg-blue-100 text-blue-800 flex items-center gap-1 font-normal">
+        <RefreshCw className="h-3 w-3 animate-spin" />
+        Syncing
+      </Badge>;
+    case "failed":
+      return <Badge className="bg-red-100 text-red-800 flex items-center gap-1 font-normal">
+        <XCircle className="h-3 w-3" />
+        Sync failed
+      </Badge>;
+    case "conflict":
+      return <Badge className="bg-amber-100 text-amber-800 flex items-center gap-1 font-normal">
+        <AlertTriangle className="h-3 w-3" />
+        Conflict
+      </Badge>;
+    default:
+      return <Badge variant="outline" className="bg-slate-100 flex items-center gap-1 font-normal">
+        <CloudOff className="h-3 w-3" />
+        {isOnline ? "Queued" : "Waiting for connection"}
+      </Badge>;
+  }
+};
+
+// Visits saved on this device that have not reached the server yet
+const PendingSyncList = ({ items, isOnline, onSyncNow, onRetry, onDiscard }: PendingSyncListProps) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [itemToDiscard, setItemToDiscard] = useState<OutboxItem | null>(null);
+
+  if (items.length === 0) return null;
+
+  const handleRetry = async (item: OutboxItem, ignoreConflict = false) => {
+    setBusyId(item.localId);
+    try {
+      const result = await onRetry(item.localId, ignoreConflict);
+      if (result === "offline") {
+        toast({
+          title: "Still offline",
+          description: "The visit will be sent when the connection returns.",
+        });
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message || "Failed to sync the visit.",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmDiscard = async () => {
+    if (!itemToDiscard) return;
+    await onDiscard(itemToDiscard.localId);
+    setItemToDiscard(null);
+    toast({
+      title: "Visit discarded",
+      description: "The copy saved on this device has been removed.",
+    });
+  };
+
+  const hasQueued = items.some(item => item.status === "pending");
+
+  return (
+    <Card className="mb-8 border-amber-200">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-base md:text-lg">Waiting to sync ({items.length})</CardTitle>
+          <p className="text-sm text-slate-600 mt-1">
+            {isOnline
+              ? "These visits are saved on this device and have not reached the server yet."
+              : "You're offline. These visits will be sent when the connection returns."}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onSyncNow}
+          disabled={!isOnline || !hasQueued}
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Sync now
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {items.map(item => (
+          <div key={item.localId} className="rounded-md border p-4">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <div className="font-semibold">{item.branchName || "Unknown Branch"}</div>
+                <div className="text-sm text-slate-500">
+                  {formatVisitDate(item.payload.visit_date)} · {item.payload.status === "draft" ? "Draft" : "Submission"}
+                  {" · "}saved {format(parseISO(item.queuedAt), "MMM d, HH:mm")}
+                </div>
+              </div>
+              {getSyncBadge(item, isOnline)}
+            </div>
+
+            {item.error && (
+              <p className={`mt-3 rounded-md p-3 text-sm ${
+                item.status === "conflict" ? "bg-amber-50 text-amber-800" : "bg-red-50 text-red-800"
+              }`}>
+                {item.error}
+                {item.status === "conflict" && " Send this copy as a separate visit, or discard it if it is the same visit."}
+              </p>
+            )}
+
+            {(item.status === "failed" || item.status === "conflict") && (
+              <div className="flex gap-3 mt-3">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={!isOnline || busyId === item.localId}
+                  onClick={() => handleRetry(item, item.status === "conflict")}
+                >
+                  {item.status === "conflict" ? (
+                    <><Send className="h-4 w-4 mr-2" />Send anyway</>
+                  ) : (
+                    <><RefreshCw className="h-4 w-4 mr-2" />Retry</>
+                  )}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={busyId === item.localId}
+                  onClick={() => setItemToDiscard(item)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Discard
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <AlertDialog open={!!itemToDiscard} onOpenChange={(open) => !open && setItemToDiscard(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard unsent visit</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the copy saved on this device. It has not been sent to the server and cannot be recovered.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDiscard} className="bg-red-600 hover:bg-red-700">
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default PendingSyncList;
@@ -0,0 +1,46 @@
+import { ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { RiskLevel, VisitRisk } from "@/lib/riskRules";
+
+const RISK_LEVEL_STYLES: Record<Exclude<RiskLevel, "none">, { label: string; className: string }> = {
+  red: { label: "High risk", className: "bg-red-50 text-red-700 border-red-200" },
+  amber: { label: "At risk", className: "bg-amber-50 text-amber-700 border-amber-200" },
+};
+
+interface RiskBadgeProps {
+  risk: VisitRisk;
+  // Show the score next to the label
+  showScore?: boolean;
+}
+
+// Red/amber badge; hovering lists the rules the visit tripped. Renders nothing without flags.
+const RiskBadge = ({ risk, showScore = false }: RiskBadgeProps) => {
+  if (risk.level === "none") return null;
+
+  const style = RISK_LEVEL_STYLES[risk.level];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`gap-1 cursor-default ${style.className}`}>
+          <ShieldAlert className="h-3 w-3" />
+          {style.label}
+          {showScore && <span className="font-normal">· {risk.score}</span>}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <ul className="space-y-0.5 text-xs">
+          {risk.flags.map((flag) => (
+            <li key={flag.ruleId}>
+              <span className={flag.severity === "red" ? "text-red-600" : "text-amber-600"}>●</span>{" "}
+              {flag.name} ({flag.detail})
+            </li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default RiskBadge;
@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ArrowRight, FilePlus, History, Pencil, Trash2 } from "lucide-react";
+import { fetchVisitHistory, VisitHistoryEntry } from "@/services/reportService";
+import { STATUS_LABELS, ReportStatus } from "@/lib/reportWorkflow";
+
+const FIELD_LABELS: Record<string, string> = {
+  branch_id: "Branch",
+  visit_date: "Visit Date",
+  branch_category: "Branch Category",
+  hr_connect_session: "HR Connect Session",
+  total_employees_invited: "Employees Invited",
+  total_participants: "Participants",
+  manning_percentage: "Manning %",
+  attrition_percentage: "Attrition %",
+  non_vendor_percentage: "Non-Vendor %",
+  er_percentage: "ER %",
+  cwt_cases: "CWT Cases",
+  performance_level: "Performance Level",
+  new_employees_total: "New Employees",
+  new_employees_covered: "New Employees Covered",
+  star_employees_total: "Star Employees",
+  star_employees_covered: "Star Employees Covered",
+  leaders_aligned_with_code: "Leaders Aligned with Code",
+  employees_feel_safe: "Employees Feel Safe",
+  employees_feel_motivated: "Employees Feel Motivated",
+  leaders_abusive_language: "Leaders Use Abusive Language",
+  employees_comfort_escalation: "Comfortable with Escalation",
+  inclusive_culture: "Inclusive Culture",
+  feedback: "Feedback",
+};
+
+// Columns that are shown separately or carry no meaning for the reader
+const HIDDEN_FIELDS = ["id", "user_id", "status"];
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+const formatStatus = (status: string | null) =>
+  status ? STATUS_LABELS[status as ReportStatus] || status : "—";
+
+const getFieldChanges = (entry: VisitHistoryEntry) =>
+  Object.entries(entry.changes).filter(([field]) => !HIDDEN_FIELDS.includes(field));
+
+interface VisitHistoryTimelineProps {
+  visitId: string;
+}
+
+const VisitHistoryTimeline = ({ visitId }: VisitHistoryTimelineProps) => {
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['visit-history', visitId],
+    queryFn: () => fetchVisitHistory(visitId)
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading change history...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-500">No changes recorded for this report.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+      {entries.map((entry) => {
+        const fieldChanges = entry.action === "update" ? getFieldChanges(entry) : [];
+        const statusChanged = entry.action === "update" && entry.old_status !== entry.new_status;
+
+        return (
+          <li key={entry.id} className="ml-4">
+            <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-white border border-slate-200">
+              {entry.action === "insert" ? (
+                <FilePlus className="h-3 w-3 text-blue-600" />
+              ) : entry.action === "delete" ? (
+                <Trash2 className="h-3 w-3 text-red-600" />
+              ) : statusChanged ? (
+                <History className="h-3 w-3 text-amber-600" />
+              ) : (
+                <Pencil className="h-3 w-3 text-slate-600" />
+              )}
+            </span>
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="text-sm font-medium">
+                {entry.action === "insert" && `Created as ${formatStatus(entry.new_status)}`}
+                {entry.action === "delete" && "Report deleted"}
+                {entry.action === "update" && (statusChanged ? (
+                  <span className="inline-flex items-center gap-1">
+                    {formatStatus(entry.old_status)}
+                    <ArrowRight className="h-3 w-3" />
+                    {formatStatus(entry.new_status)}
+                  </span>
+                ) : "Report edited")}
+                <span className="font-normal text-slate-500"> by {entry.changed_by_name}</span>
+              </p>
+              <time className="text-xs text-slate-500">
+                {format(parseISO(entry.changed_at), 'MMM dd, yyyy HH:mm')}
+              </time>
+            </div>
+            {fieldChanges.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm bg-slate-50 rounded-md p-3">
+                {fieldChanges.map(([field, change]) => (
+                  <li key={field} className="flex flex-wrap gap-1">
+                    <span className="text-slate-500">{FIELD_LABELS[field] || field}:</span>
+                    <span className="line-through text-slate-400">{formatValue(change.old)}</span>
+                    <ArrowRight className="h-3 w-3 self-center text-slate-400" />
+                    <span className="font-medium">{formatValue(change.new)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default VisitHistoryTimeline;
@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { CheckCircle, AlertTriangle } from "lucide-react";
+import { fetchVisitReviews } from "@/services/reportService";
+
+const DECISION_LABELS = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  needs_revision: 'Sent back',
+};
+
+interface VisitReviewHistoryProps {
+  visitId: string;
+}
+
+const VisitReviewHistory = ({ visitId }: VisitReviewHistoryProps) => {
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey: ['visit-reviews', visitId],
+    queryFn: () => fetchVisitReviews(visitId)
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading review history...</p>;
+  }
+
+  if (reviews.length === 0) {
+    return <p className="text-sm text-slate-500">This report has not been reviewed yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {reviews.map((review) => (
+        <li
+          key={review.id}
+          className={`rounded-md p-3 border-l-4 ${
+            review.decision === 'rejected' ? 'bg-red-50 border-l-red-500' :
+            review.decision === 'needs_revision' ? 'bg-amber-50 border-l-amber-500' :
+            'bg-green-50 border-l-green-500'
+          }`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="flex items-center text-sm font-medium">
+              {review.decision === 'approved' ? (
+                <CheckCircle className="h-4 w-4 mr-1 text-green-600" />
+              ) : (
+                <AlertTriangle className={`h-4 w-4 mr-1 ${review.decision === 'rejected' ? 'text-red-600' : 'text-amber-600'}`} />
+              )}
+              {DECISION_LABELS[review.decision]} by {review.reviewer_name}
+            </span>
+            <span className="text-xs text-slate-500">
+              {format(parseISO(review.created_at), 'MMM dd, yyyy HH:mm')}
+            </span>
+          </div>
+          {review.comment && (
+            <p className="text-sm mt-2 whitespace-pre-wrap">{review.comment}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default VisitReviewHistory;
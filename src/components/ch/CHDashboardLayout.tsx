@@ -2,13 +2,14 @@
 import React, { useState, useEffect } from "react";
 import { Outlet, NavLink, useNavigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { LayoutDashboard, BarChart2, FileText, Menu, LogOut } from "lucide-react";
+import { LayoutDashboard, BarChart2, FileText, FolderDown, Menu, LogOut } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Avatar } from "@/components/ui/avatar";
+import NotificationBell from "@/components/notifications/NotificationBell";
 
 const CHDashboardLayout = () => {
   const [expanded, setExpanded] = useState(false);
@@ -44,6 +45,7 @@ const CHDashboardLayout = () => {
     { icon: LayoutDashboard, label: "Dashboard", path: "/ch/dashboard" },
     { icon: BarChart2, label: "Analytics", path: "/ch/analytics" },
     { icon: FileText, label: "Reports", path: "/ch/reports" },
+    { icon: FolderDown, label: "My Exports", path: "/ch/exports" },
   ];
 
   const handleLogout = async () => {
@@ -112,6 +114,7 @@ const CHDashboardLayout = () => {
           </div>
           
           <div className="flex items-center gap-2">
+            <NotificationBell />
             <Avatar className="h-8 w-8 bg-blue-600 text-white">
               <span>{profile?.full_name?.charAt(0) || 'C'}</span>
             </Avatar>
@@ -183,6 +186,12 @@ const CHDashboardLayout = () => {
       
       {/* Main content */}
       <main className="flex-1 overflow-auto relative">
+        <header className="sticky top-0 z-10 flex items-center justify-end gap-3 h-14 px-6 bg-white border-b">
+          <NotificationBell />
+          <Avatar className="h-8 w-8 bg-blue-600 text-white">
+            <span>{profile?.full_name?.charAt(0) || 'C'}</span>
+          </Avatar>
+        </header>
         <Outlet />
       </main>
     </div>
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { BRANCH_CATEGORIES } from "@/lib/metrics";
+import { EXPORT_REPORT_LABELS } from "@/lib/reportExport";
+import { ExportDefinition, FORMAT_LABELS, PERIOD_LABELS, SCHEDULE_LABELS } from "@/lib/exportSchedule";
+import { fetchExportFilterOptions } from "@/services/exportService";
+import {
+  createExportDefinition,
+  ExportDefinitionInput,
+  updateExportDefinition
+} from "@/services/scheduledExportService";
+
+const ALL = "all";
+
+const NEW_DEFINITION: ExportDefinitionInput = {
+  name: "",
+  report: "branch_visits",
+  location: null,
+  category: null,
+  bh_id: null,
+  format: "csv",
+  schedule: "monthly",
+  period: "previous_month"
+};
+
+interface ScheduleExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this definition when given, otherwise creates one from initial
+  definition?: ExportDefinition | null;
+  initial?: Partial<ExportDefinitionInput>;
+}
+
+const ScheduleExportDialog = ({ open, onOpenChange, definition, initial }: ScheduleExportDialogProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ExportDefinitionInput>(NEW_DEFINITION);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: filterOptions } = useQuery({
+    queryKey: ['ch-reports-filter-options'],
+    queryFn: fetchExportFilterOptions,
+    enabled: open
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(definition
+      ? {
+          name: definition.name,
+          report: definition.report,
+          location: definition.location,
+          category: definition.category,
+          bh_id: definition.bh_id,
+          format: definition.format,
+          schedule: definition.schedule,
+          period: definition.period
+        }
+      : { ...NEW_DEFINITION, ...initial });
+  }, [open, definition, initial]);
+
+  const update = (changes: Partial<ExportDefinitionInput>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleSave = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      if (definition) {
+        await updateExportDefinition(definition.id, draft, definition.schedule);
+      } else {
+        await createExportDefinition(user.id, draft);
+      }
+      queryClient.invalidateQueries({ queryKey: ['export-definitions', user.id] });
+      onOpenChange(false);
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{definition ? "Edit scheduled export" : "Schedule an export"}</DialogTitle>
+          <DialogDescription>
+            The export is generated at 6:00 on each scheduled day and kept in My Exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-2">
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="export-name">Name</Label>
+            <Input
+              id="export-name"
+              value={draft.name}
+              placeholder="e.g. Monthly visits, Mumbai"
+              onChange={(e) => update({ name: e.target.value })}
+            />
+          </div>
+
+          <div className="col-span-2 space-y-2">
+            <Label>Report</Label>
+            <Select value={draft.report} onValueChange={(report) => update({ report: report as ExportDefinitionInput["report"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXPORT_REPORT_LABELS).map(([report, label]) => (
+                  <SelectItem key={report} value={report}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Schedule</Label>
+            <Select value={draft.schedule} onValueChange={(schedule) => update({ schedule: schedule as ExportDefinitionInput["schedule"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SCHEDULE_LABELS).map(([schedule, label]) => (
+                  <SelectItem key={schedule} value={schedule}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Month exported</Label>
+            <Select value={draft.period} onValueChange={(period) => update({ period: period as ExportDefinitionInput["period"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PERIOD_LABELS).map(([period, label]) => (
+                  <SelectItem key={period} value={period}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Location</Label>
+            <Select value={draft.location || ALL} onValueChange={(location) => update({ location: location === ALL ? null : location })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Locations</SelectItem>
+                {(filterOptions?.locations || []).map(location => (
+                  <SelectItem key={location} value={location}>{location}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Branch Category</Label>
+            <Select
+              value={draft.category || ALL}
+              onValueChange={(category) => update({ category: category === ALL ? null : category as ExportDefinitionInput["category"] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Categories</SelectItem>
+                {BRANCH_CATEGORIES.map(category => (
+                  <SelectItem key={category} value={category}>
+                    {category.charAt(0).toUpperCase() + category.slice(1)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>BH</Label>
+            <Select value={draft.bh_id || ALL} onValueChange={(bhId) => update({ bh_id: bhId === ALL ? null : bhId })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All BHs</SelectItem>
+                {(filterOptions?.bhs || []).map(bh => (
+                  <SelectItem key={bh.id} value={bh.id}>
+                    {bh.e_code ? `${bh.full_name} (${bh.e_code})` : bh.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={draft.format} onValueChange={(fileFormat) => update({ format: fileFormat as ExportDefinitionInput["format"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FORMAT_LABELS).map(([fileFormat, label]) => (
+                  <SelectItem key={fileFormat} value={fileFormat}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+            {isSaving ? "Saving..." : definition ? "Save changes" : "Schedule export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleExportDialog;
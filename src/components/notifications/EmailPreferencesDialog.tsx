@@ -0,0 +1,82 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/contexts/AuthContext";
+import { EmailPreferences, fetchEmailPreferences, updateEmailPreferences } from "@/services/notificationService";
+
+// The email each role can opt in to
+const EMAIL_OPTIONS: Partial<Record<string, { key: keyof EmailPreferences; label: string; description: string }>> = {
+  ZH: {
+    key: "review_digest",
+    label: "Daily review digest",
+    description: "A morning email listing the reports in your zone that are awaiting your review.",
+  },
+  BH: {
+    key: "overdue_reminder",
+    label: "Weekly overdue reminder",
+    description: "A weekly email listing your branches that are past their visit frequency target.",
+  },
+};
+
+interface EmailPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EmailPreferencesDialog = ({ open, onOpenChange }: EmailPreferencesDialogProps) => {
+  const { user, role } = useAuth();
+  const queryClient = useQueryClient();
+  const option = role ? EMAIL_OPTIONS[role] : undefined;
+
+  const { data: preferences, isLoading } = useQuery({
+    queryKey: ['email-preferences', user?.id],
+    queryFn: () => fetchEmailPreferences(user!.id),
+    enabled: !!user && open,
+  });
+
+  const handleChange = async (enabled: boolean) => {
+    if (!option) return;
+    try {
+      await updateEmailPreferences(user!.id, { [option.key]: enabled });
+      queryClient.invalidateQueries({ queryKey: ['email-preferences', user?.id] });
+    } catch {
+      // Error toast is shown by the service
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Email preferences</DialogTitle>
+          <DialogDescription>
+            In-app notifications are always on. Emails are sent only if you opt in.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!option ? (
+          <p className="text-sm text-slate-500 py-2">There are no emails for your role.</p>
+        ) : isLoading || !preferences ? (
+          <div className="flex justify-center py-6">
+            <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          </div>
+        ) : (
+          <div className="flex items-start justify-between gap-4 py-2">
+            <div>
+              <Label htmlFor="email-preference">{option.label}</Label>
+              <p className="text-sm text-slate-500 mt-1">{option.description}</p>
+            </div>
+            <Switch
+              id="email-preference"
+              checked={preferences[option.key]}
+              onCheckedChange={handleChange}
+            />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EmailPreferencesDialog;
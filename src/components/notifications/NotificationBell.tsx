@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNowStrict, parseISO } from "date-fns";
+import { Bell, CalendarClock, CheckCircle2, FileText, Mail, MapPin, RotateCcw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/contexts/AuthContext";
+import { cn } from "@/lib/utils";
+import EmailPreferencesDialog from "@/components/notifications/EmailPreferencesDialog";
+import {
+  checkOverdueVisits,
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  markAllNotificationsRead,
+  markNotificationRead,
+  Notification,
+  NotificationKind,
+} from "@/services/notificationService";
+
+const POLL_INTERVAL_MS = 60_000;
+
+const KIND_ICONS: Record<NotificationKind, { icon: typeof Bell; className: string }> = {
+  report_submitted: { icon: FileText, className: "text-blue-600" },
+  report_resubmitted: { icon: FileText, className: "text-blue-600" },
+  report_approved: { icon: CheckCircle2, className: "text-green-600" },
+  report_rejected: { icon: XCircle, className: "text-red-600" },
+  report_needs_revision: { icon: RotateCcw, className: "text-amber-600" },
+  branch_assigned: { icon: MapPin, className: "text-blue-600" },
+  branch_unassigned: { icon: MapPin, className: "text-slate-500" },
+  visit_overdue: { icon: CalendarClock, className: "text-red-600" },
+};
+
+interface NotificationBellProps {
+  // Look for newly overdue branches when the bell mounts (BHs only)
+  checkOverdue?: boolean;
+}
+
+const NotificationBell = ({ checkOverdue = false }: NotificationBellProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: ['notifications-unread', user?.id],
+    queryFn: () => fetchUnreadNotificationCount(user!.id),
+    enabled: !!user,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const { data: notifications = [], isLoading } = useQuery({
+    queryKey: ['notifications', user?.id],
+    queryFn: () => fetchNotifications(user!.id),
+    enabled: !!user && open,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['notifications-unread', user?.id] });
+    queryClient.invalidateQueries({ queryKey: ['notifications', user?.id] });
+  };
+
+  useEffect(() => {
+    if (!user || !checkOverdue) return;
+
+    checkOverdueVisits().then((added) => {
+      if (added > 0) {
+        queryClient.invalidateQueries({ queryKey: ['notifications-unread', user.id] });
+      }
+    });
+  }, [user, checkOverdue, queryClient]);
+
+  const handleOpen = async (notification: Notification) => {
+    setOpen(false);
+    try {
+      if (!notification.read_at) {
+        await markNotificationRead(notification.id);
+        refresh();
+      }
+    } catch {
+      // Error toast is shown by the service
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead(user!.id);
+      refresh();
+    } catch {
+      // Error toast is shown by the service
+    }
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative">
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+            <span className="sr-only">Notifications</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h3 className="font-semibold text-sm">Notifications</h3>
+            {unreadCount > 0 && (
+              <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleMarkAllRead}>
+                Mark all as read
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center h-24">
+              <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="text-sm text-slate-500 py-8 text-center">You're all caught up.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <ul className="divide-y">
+                {notifications.map((notification) => {
+                  const { icon: Icon, className } = KIND_ICONS[notification.kind];
+
+                  return (
+                    <li key={notification.id}>
+                      <button
+                        type="button"
+                        className={cn(
+                          "w-full text-left flex gap-3 px-4 py-3 hover:bg-slate-50 transition-colors",
+                          !notification.read_at && "bg-blue-50/60"
+                        )}
+                        onClick={() => handleOpen(notification)}
+                      >
+                        <Icon className={cn("h-4 w-4 mt-0.5 flex-shrink-0", className)} />
+                        <div className="flex-1 min-w-0">
+                          <p className={cn("text-sm", !notification.read_at && "font-medium")}>{notification.title}</p>
+                          {notification.body && (
+                            <p className="text-xs text-slate-600 line-clamp-2">{notification.body}</p>
+                          )}
+                          <p className="text-xs text-slate-400 mt-0.5">
+                            {formatDistanceToNowStrict(parseISO(notification.created_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                        {!notification.read_at && <span className="h-2 w-2 mt-1.5 rounded-full bg-blue-600 flex-shrink-0" />}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div className="border-t px-4 py-2">
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs text-slate-600"
+              onClick={() => {
+                setOpen(false);
+                setPreferencesOpen(true);
+              }}
+            >
+              <Mail className="h-3.5 w-3.5 mr-1" />
+              Email settings
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <EmailPreferencesDialog open={preferencesOpen} onOpenChange={setPreferencesOpen} />
+    </>
+  );
+};
+
+export default NotificationBell;
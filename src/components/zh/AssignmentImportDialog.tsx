@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Upload } from "lucide-react";
+import {
+  IMPORT_ISSUE_LABELS,
+  ImportContext,
+  ImportPlan,
+  parseAssignmentCsv,
+  planAssignmentImport,
+} from "@/lib/assignmentImport";
+import { importBranchAssignments } from "@/services/zhService";
+
+interface AssignmentImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  context: ImportContext;
+  onImported: () => void;
+}
+
+const AssignmentImportDialog = ({ open, onOpenChange, context, onImported }: AssignmentImportDialogProps) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [moveConflicts, setMoveConflicts] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFileName(null);
+      setPlan(null);
+      setMoveConflicts(false);
+    }
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const { rows, issues } = parseAssignmentCsv(await file.text());
+    const dryRun = planAssignmentImport(rows, context);
+
+    setFileName(file.name);
+    setMoveConflicts(false);
+    setPlan({
+      ...dryRun,
+      skipped: [...issues, ...dryRun.skipped].sort((a, b) => a.line - b.line)
+    });
+  };
+
+  const applyCount = plan ? plan.ready.length + (moveConflicts ? plan.conflicts.length : 0) : 0;
+
+  const handleApply = async () => {
+    if (!plan) return;
+
+    const toPair = ({ branchId, userId }: { branchId: string; userId: string }) => ({ branchId, userId });
+
+    try {
+      setIsApplying(true);
+      await importBranchAssignments(
+        plan.ready.map(toPair),
+        moveConflicts ? plan.conflicts.map(toPair) : []
+      );
+      onImported();
+      onOpenChange(false);
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Branch Assignments</DialogTitle>
+          <DialogDescription>
+            Upload a CSV of <code>branch_code,e_code</code> pairs. The file is checked first and
+            nothing changes until you apply it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="assignment-csv">CSV file</Label>
+          <Input
+            id="assignment-csv"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+          {fileName && <p className="text-xs text-slate-500">Checked {fileName}</p>}
+        </div>
+
+        {plan && (
+          <div className="space-y-5">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                {plan.ready.length} ready
+              </Badge>
+              <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                {plan.conflicts.length} conflicts
+              </Badge>
+              <Badge variant="outline" className="bg-slate-50 text-slate-700 border-slate-200">
+                {plan.skipped.length} skipped
+              </Badge>
+            </div>
+
+            {plan.ready.length > 0 && (
+              <section>
+                <h3 className="text-sm font-medium text-slate-800 mb-2">Ready to assign</h3>
+                <div className="border rounded-md overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Line</TableHead>
+                        <TableHead>Branch</TableHead>
+                        <TableHead>BH</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.ready.map((row) => (
+                        <TableRow key={row.line}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell>{row.branchName} ({row.branchCode})</TableCell>
+                          <TableCell>{row.bhName} ({row.eCode})</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </section>
+            )}
+
+            {plan.conflicts.length > 0 && (
+              <section>
+                <h3 className="text-sm font-medium text-slate-800 mb-2">Assigned to another BH</h3>
+                <div className="border rounded-md overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Line</TableHead>
+                        <TableHead>Branch</TableHead>
+                        <TableHead>Currently</TableHead>
+                        <TableHead>In file</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.conflicts.map((row) => (
+                        <TableRow key={row.line}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell>{row.branchName} ({row.branchCode})</TableCell>
+                          <TableCell>{row.replaces.map((holder) => holder.bhName).join(", ")}</TableCell>
+                          <TableCell>{row.bhName} ({row.eCode})</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="flex items-center gap-2 mt-3">
+                  <Checkbox
+                    id="move-conflicts"
+                    checked={moveConflicts}
+                    onCheckedChange={(checked) => setMoveConflicts(checked === true)}
+                  />
+                  <Label htmlFor="move-conflicts" className="text-sm font-normal">
+                    Move these branches to the BH in the file (otherwise they are skipped)
+                  </Label>
+                </div>
+              </section>
+            )}
+
+            {plan.skipped.length > 0 && (
+              <section>
+                <h3 className="text-sm font-medium text-slate-800 mb-2">Skipped</h3>
+                <div className="border rounded-md overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Line</TableHead>
+                        <TableHead className="w-36">Reason</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.skipped.map((issue) => (
+                        <TableRow key={issue.line}>
+                          <TableCell>{issue.line}</TableCell>
+                          <TableCell>{IMPORT_ISSUE_LABELS[issue.kind]}</TableCell>
+                          <TableCell className="text-slate-600">{issue.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </section>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+          <Button
+            onClick={handleApply}
+            disabled={applyCount === 0 || isApplying}
+            className="bg-blue-600 hover:bg-blue-700 text-white w-full sm:w-auto"
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {isApplying ? "Applying..." : `Apply ${applyCount} row${applyCount === 1 ? "" : "s"}`}
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="w-full sm:w-auto">
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssignmentImportDialog;
@@ -6,11 +6,20 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Calendar, Check, Clock, MapPin, User, X } from "lucide-react";
+import { Calendar, Check, Clock, MapPin, RotateCcw, User, X } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { fetchBHReportStats, updateReportStatus } from "@/services/reportService";
 import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import ReviewDecisionDialog from "@/components/zh/ReviewDecisionDialog";
+import VisitReviewHistory from "@/components/branch/VisitReviewHistory";
+import {
+  AWAITING_REVIEW_STATUSES,
+  ReportStatus,
+  ReviewDecision,
+  getReviewDecisions
+} from "@/lib/reportWorkflow";
 
 interface Branch {
   id: string;
@@ -28,6 +37,8 @@ interface BHDetailsModalProps {
 const BHDetailsModal = ({ bhId, open, onClose }: BHDetailsModalProps) => {
   const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("branches");
+  const [pendingDecision, setPendingDecision] = useState<ReviewDecision | null>(null);
+  const { user, role } = useAuth();
 
   const { data: bhProfile, isLoading: profileLoading } = useQuery({
     queryKey: ['bh-profile', bhId],
@@ -62,7 +73,8 @@ const BHDetailsModal = ({ bhId, open, onClose }: BHDetailsModalProps) => {
             category
           )
         `)
-        .eq('user_id', bhId);
+        .eq('user_id', bhId)
+        .is('unassigned_at', null);
       
       if (error) throw error;
       
@@ -72,7 +84,7 @@ const BHDetailsModal = ({ bhId, open, onClose }: BHDetailsModalProps) => {
         if (!item.branches) return null;
         
         // Handle the branches object
-        const branch = item.branches as unknown as Branch;
+        const branch = item.branches;
         return {
           id: branch.id,
           name: branch.name,
@@ -157,6 +169,10 @@ const BHDetailsModal = ({ bhId, open, onClose }: BHDetailsModalProps) => {
         return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
       case "submitted":
         return <Badge className="bg-blue-100 text-blue-800">submitted</Badge>;
+      case "resubmitted":
+        return <Badge className="bg-blue-100 text-blue-800">Resubmitted</Badge>;
+      case "needs_revision":
+        return <Badge className="bg-amber-100 text-amber-800">Needs Revision</Badge>;
       case "rejected":
         return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
       default:
@@ -211,8 +227,19 @@ const BHDetailsModal = ({ bhId, open, onClose }: BHDetailsModalProps) => {
     return 'Unknown';
   };
 
-  const handleStatusUpdate = async (reportId: string, status: "approved" | "rejected") => {
-    await updateReportStatus(reportId, status);
+  const handleStatusUpdate = async (reportId: string, status: ReviewDecision, comment: string) => {
+    try {
+      await updateReportStatus(reportId, status, { reviewerId: user.id, comment });
+    } catch (error) {
+      console.error("Error updating report status:", error);
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: (error as Error).message || "Unable to update the report status."
+      });
+      throw error;
+    }
+    setPendingDecision(null);
     setSelectedReportId(null);
     refetchReports();
     refetchStats();
@@ -352,10 +379,10 @@ const BHDetailsModal = ({ bhId, open, onClose }: BHDetailsModalProps) => {
                             <Button 
                               variant="ghost" 
                               size="sm" 
-                              className={`hover:bg-slate-200 ${report.status === "submitted" ? "bg-blue-50 text-blue-700" : ""}`}
+                              className={`hover:bg-slate-200 ${AWAITING_REVIEW_STATUSES.includes(report.status) ? "bg-blue-50 text-blue-700" : ""}`}
                               onClick={() => setSelectedReportId(report.id)}
                             >
-                              {report.status === "submitted" ? "Review" : "View"}
+                              {AWAITING_REVIEW_STATUSES.includes(report.status) ? "Review" : "View"}
                             </Button>
                           </TableCell>
                         </TableRow>
@@ -460,25 +487,45 @@ const BHDetailsModal = ({ bhId, open, onClose }: BHDetailsModalProps) => {
                             </div>
                           </div>
                         )}
+
+                        {reportDetails.status !== "draft" && (
+                          <div>
+                            <h4 className="font-medium mb-2 text-base">Review History</h4>
+                            <VisitReviewHistory visitId={reportDetails.id} />
+                          </div>
+                        )}
                       </div>
                       
-                      {reportDetails.status === "submitted" && (
+                      {getReviewDecisions(reportDetails.status as ReportStatus, role).length > 0 && (
                         <div className="flex justify-end gap-2 mt-6">
                           <Button 
                             variant="outline" 
-                            onClick={() => handleStatusUpdate(reportDetails.id, "rejected")}
+                            onClick={() => setPendingDecision("rejected")}
                           >
                             <X className="h-4 w-4 mr-1" />
                             Reject
                           </Button>
+                          <Button 
+                            variant="outline" 
+                            onClick={() => setPendingDecision("needs_revision")}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Send Back
+                          </Button>
                           <Button
-                            onClick={() => handleStatusUpdate(reportDetails.id, "approved")}
+                            onClick={() => setPendingDecision("approved")}
                           >
                             <Check className="h-4 w-4 mr-1" />
                             Approve
                           </Button>
                         </div>
                       )}
+
+                      <ReviewDecisionDialog
+                        decision={pendingDecision}
+                        onCancel={() => setPendingDecision(null)}
+                        onConfirm={(comment) => handleStatusUpdate(reportDetails.id, pendingDecision, comment)}
+                      />
                     </>
                   )}
                 </DialogContent>
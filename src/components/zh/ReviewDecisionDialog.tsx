@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, RotateCcw, X } from "lucide-react";
+import { ReviewDecision } from "@/lib/reportWorkflow";
+
+const COPY: Record<ReviewDecision, { title: string; description: string; label: string; action: string }> = {
+  approved: {
+    title: "Approve Report",
+    description: "Optionally add notes for the BH.",
+    label: "Approval notes (optional)",
+    action: "Approve",
+  },
+  rejected: {
+    title: "Reject Report",
+    description: "Tell the BH why this report is rejected. They will see this comment on the report.",
+    label: "Reason for rejection",
+    action: "Reject",
+  },
+  needs_revision: {
+    title: "Send Back for Revision",
+    description: "Tell the BH what needs to be fixed. They can edit the report and resubmit it.",
+    label: "What needs to change",
+    action: "Send Back",
+  },
+};
+
+interface ReviewDecisionDialogProps {
+  decision: ReviewDecision | null;
+  onCancel: () => void;
+  onConfirm: (comment: string) => Promise<void>;
+}
+
+const ReviewDecisionDialog = ({ decision, onCancel, onConfirm }: ReviewDecisionDialogProps) => {
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (decision) setComment("");
+  }, [decision]);
+
+  // Only approvals may go without a comment
+  const commentRequired = decision !== "approved";
+  const canConfirm = !isSaving && (!commentRequired || comment.trim().length > 0);
+  const copy = COPY[decision || "approved"];
+
+  const handleConfirm = async () => {
+    try {
+      setIsSaving(true);
+      await onConfirm(comment.trim());
+    } catch {
+      // Keep the dialog open so the comment is not lost; the caller shows the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!decision} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="review-comment">{copy.label}</Label>
+          <Textarea
+            id="review-comment"
+            rows={4}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={commentRequired ? "e.g. Participation numbers do not match the attendance sheet" : ""}
+          />
+        </div>
+        <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+          <Button variant="outline" onClick={onCancel} className="w-full sm:w-auto">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+            className={`w-full sm:w-auto text-white ${
+              decision === "rejected" ? "bg-red-600 hover:bg-red-700" :
+              decision === "needs_revision" ? "bg-amber-600 hover:bg-amber-700" :
+              "bg-green-600 hover:bg-green-700"
+            }`}
+          >
+            {decision === "rejected" ? <X className="mr-2 h-4 w-4" /> :
+              decision === "needs_revision" ? <RotateCcw className="mr-2 h-4 w-4" /> :
+              <Check className="mr-2 h-4 w-4" />}
+            {isSaving ? "Saving..." : copy.action}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDecisionDialog;
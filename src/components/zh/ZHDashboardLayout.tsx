@@ -9,6 +9,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Avatar } from "@/components/ui/avatar";
+import NotificationBell from "@/components/notifications/NotificationBell";
 
 const ZHDashboardLayout = () => {
   const [expanded, setExpanded] = useState(false);
@@ -112,6 +113,7 @@ const ZHDashboardLayout = () => {
           </div>
           
           <div className="flex items-center gap-2">
+            <NotificationBell />
             <Avatar className="h-8 w-8 bg-blue-600 text-white">
               <span>{profile?.full_name?.charAt(0) || 'Z'}</span>
             </Avatar>
@@ -183,6 +185,12 @@ const ZHDashboardLayout = () => {
       
       {/* Main content */}
       <main className="flex-1 overflow-auto relative">
+        <header className="sticky top-0 z-10 flex items-center justify-end gap-3 h-14 px-6 bg-white border-b">
+          <NotificationBell />
+          <Avatar className="h-8 w-8 bg-blue-600 text-white">
+            <span>{profile?.full_name?.charAt(0) || 'Z'}</span>
+          </Avatar>
+        </header>
         <Outlet />
       </main>
     </div>
@@ -5,13 +5,16 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/components/ui/use-toast";
 import type { User, Session } from "@supabase/supabase-js";
 import type { AuthError } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+
+export type UserRole = Database['public']['Tables']['profiles']['Row']['role'];
 
 type SignUpData = {
   email: string;
   password: string;
   fullName: string;
   eCode: string;
-  role: "BH" | "ZH" | "CH" | "admin";
+  role: UserRole;
   location: string;
   gender: "male" | "female" | "other";
 };
@@ -19,6 +22,7 @@ type SignUpData = {
 type AuthContextType = {
   user: User | null;
   session: Session | null;
+  role: UserRole | null;
   loading: boolean;
   signUp: (data: SignUpData) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
@@ -32,6 +36,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  // Role is tagged with the user it was loaded for, so a stale role never
+  // leaks to the next user and there is no gap before the fetch starts
+  const [loadedRole, setLoadedRole] = useState<{ userId: string; role: UserRole | null } | null>(null);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -54,6 +61,37 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Load the role whenever the signed-in user changes. Kept out of the
+  // auth listener because supabase-js must not be awaited inside it.
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+
+    supabase
+      .from('profiles')
+      .select('role, is_active')
+      .eq('id', userId)
+      .single()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error fetching user role:", error);
+        }
+        // Disabled accounts get no role, so every guarded route refuses them
+        setLoadedRole({
+          userId,
+          role: data && data.is_active !== false ? data.role : null
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
   const signUp = async (data: SignUpData) => {
     try {
       setLoading(true);
@@ -76,7 +114,14 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
       if (error) throw error;
       
-      if (authData.session) {
+      if (authData.session && role === "ZH") {
+        // ZH accounts start inactive until an admin approves them
+        await supabase.auth.signOut();
+        toast({
+          title: "Account created!",
+          description: "An administrator has to approve your ZH account before you can sign in.",
+        });
+      } else if (authData.session) {
         toast({
           title: "Account created!",
           description: "Your account has been created successfully.",
@@ -117,7 +162,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       // Get user role from profiles table
       const { data: profileData, error: profileError } = await supabase
         .from('profiles')
-        .select('role')
+        .select('role, is_active')
         .eq('id', data.user.id)
         .single();
         
@@ -125,6 +170,12 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         console.error("Error fetching profile:", profileError);
         throw new Error("Could not retrieve your role. Please try again.");
       }
+
+      // Disabled accounts keep their data but may not sign in
+      if (profileData.is_active === false) {
+        await supabase.auth.signOut();
+        throw new Error("Your account is disabled or awaiting approval. Please contact an administrator.");
+      }
       
       toast({
         title: "Login successful",
@@ -186,10 +237,14 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  const roleLoading = !!user && loadedRole?.userId !== user.id;
+  const role = user && !roleLoading ? loadedRole.role : null;
+
   const value = {
     user,
     session,
-    loading,
+    role,
+    loading: loading || roleLoading,
     signUp,
     signIn,
     signOut,
@@ -0,0 +1,128 @@
+import * as React from "react"
+import { FieldValues, UseFormReturn } from "react-hook-form"
+
+import { FORM_STORE, saveSnapshot } from "@/lib/offlineStore"
+import { isNetworkError } from "@/lib/visitOutbox"
+import { clearFormDrafts, loadNewestFormDraft, localDraftKey, saveFormDraft } from "@/services/formDraftService"
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "offline" | "error"
+
+interface UseFormAutosaveOptions<T extends FieldValues> {
+  userId: string | undefined
+  // Identifies the form being autosaved; null switches autosave off
+  formKey: string | null
+  visitId?: string | null
+  delay?: number
+  // Autosaved copies older than this are stale (the record changed since) and are not restored
+  notBefore?: string | null
+  // Turns stored JSON back into form values (e.g. ISO strings back into Dates)
+  revive?: (values: Record<string, unknown>) => Partial<T>
+  onRestore?: (values: Partial<T>) => void
+}
+
+// Debounced autosave of a react-hook-form to the visit_form_drafts table, with
+// a copy in IndexedDB so it also works offline. Whichever copy is newer is
+// restored when the form is opened again.
+export function useFormAutosave<T extends FieldValues>(
+  form: UseFormReturn<T>,
+  { userId, formKey, visitId = null, delay = 1500, notBefore, revive, onRestore }: UseFormAutosaveOptions<T>
+) {
+  const [status, setStatus] = React.useState<AutosaveStatus>("idle")
+  const [lastSavedAt, setLastSavedAt] = React.useState<Date | null>(null)
+  const [restored, setRestored] = React.useState(false)
+
+  const timerRef = React.useRef<ReturnType<typeof setTimeout>>()
+  const inFlightRef = React.useRef<Promise<void> | null>(null)
+  const callbacksRef = React.useRef({ revive, onRestore })
+  callbacksRef.current = { revive, onRestore }
+
+  const localKey = userId && formKey ? localDraftKey(userId, formKey) : null
+
+  const save = React.useCallback(async (values: unknown) => {
+    if (!userId || !formKey || !localKey) return
+
+    setStatus("saving")
+    const savedAt = new Date()
+
+    try {
+      await saveSnapshot(FORM_STORE, localKey, values)
+    } catch (error) {
+      console.error("Error saving form on this device:", error)
+    }
+
+    if (!navigator.onLine) {
+      setStatus("offline")
+      setLastSavedAt(savedAt)
+      return
+    }
+
+    try {
+      await saveFormDraft(userId, formKey, values, visitId)
+      setStatus("saved")
+    } catch (error) {
+      console.error("Error autosaving form:", error)
+      setStatus(isNetworkError(error) ? "offline" : "error")
+    }
+    setLastSavedAt(savedAt)
+  }, [userId, formKey, localKey, visitId])
+
+  React.useEffect(() => {
+    if (!userId || !formKey || !localKey) return
+
+    let cancelled = false
+    let subscription: { unsubscribe: () => void } | undefined
+    setRestored(false)
+    setStatus("idle")
+    setLastSavedAt(null)
+
+    const restoreAndWatch = async () => {
+      const newest = await loadNewestFormDraft(userId, formKey, notBefore)
+
+      if (cancelled) return
+
+      if (newest) {
+        const { revive, onRestore } = callbacksRef.current
+        const values = revive ? revive(newest.values) : (newest.values as Partial<T>)
+        form.reset({ ...form.getValues(), ...values })
+        onRestore?.(values)
+        setRestored(true)
+        setStatus("saved")
+        setLastSavedAt(new Date(newest.savedAt))
+      }
+
+      // Whole-form resets (loading a record, restoring) have no field name;
+      // only field edits are worth saving.
+      subscription = form.watch((values, { name }) => {
+        if (!name) return
+        clearTimeout(timerRef.current)
+        timerRef.current = setTimeout(() => {
+          inFlightRef.current = save(values).finally(() => {
+            inFlightRef.current = null
+          })
+        }, delay)
+      })
+    }
+
+    restoreAndWatch()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timerRef.current)
+      subscription?.unsubscribe()
+    }
+  }, [userId, formKey, localKey, notBefore, delay, form, save])
+
+  // Drops both copies, e.g. once the form was saved or submitted for real
+  const clear = React.useCallback(async () => {
+    clearTimeout(timerRef.current)
+    await inFlightRef.current
+    if (!userId || !formKey || !localKey) return
+
+    await clearFormDrafts(userId, formKey)
+    setStatus("idle")
+    setLastSavedAt(null)
+    setRestored(false)
+  }, [userId, formKey, localKey])
+
+  return { status, lastSavedAt, restored, clear }
+}
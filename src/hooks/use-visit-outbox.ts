@@ -0,0 +1,76 @@
+import * as React from "react"
+
+import { toast } from "@/components/ui/use-toast"
+import { useOnlineStatus } from "@/hooks/use-online-status"
+import {
+  OutboxEvent,
+  OutboxItem,
+  discardOutboxItem,
+  flushOutbox,
+  getOutbox,
+  retryOutboxItem,
+  subscribeToOutbox,
+} from "@/lib/visitOutbox"
+
+interface UseVisitOutboxOptions {
+  // Replay the outbox whenever the connection comes back. Only one mounted
+  // component should do this (the BH layout), so sync results are reported once.
+  autoSync?: boolean
+  // Called whenever a queued visit reached the server
+  onSynced?: () => void
+}
+
+export function useVisitOutbox(userId: string | undefined, { autoSync = false, onSynced }: UseVisitOutboxOptions = {}) {
+  const isOnline = useOnlineStatus()
+  const [items, setItems] = React.useState<OutboxItem[]>([])
+  const onSyncedRef = React.useRef(onSynced)
+  onSyncedRef.current = onSynced
+
+  const reload = React.useCallback(async () => {
+    if (!userId) {
+      setItems([])
+      return
+    }
+    try {
+      setItems(await getOutbox(userId))
+    } catch (error) {
+      console.error("Error reading offline outbox:", error)
+    }
+  }, [userId])
+
+  React.useEffect(() => {
+    reload()
+    return subscribeToOutbox((event: OutboxEvent) => {
+      reload()
+      if (event === "sent") onSyncedRef.current?.()
+    })
+  }, [reload])
+
+  const flush = React.useCallback(async () => {
+    if (!userId) return
+    try {
+      const summary = await flushOutbox(userId)
+      if (summary.sent > 0) {
+        toast({
+          title: "Offline visits synced",
+          description: `${summary.sent} visit${summary.sent === 1 ? "" : "s"} sent to the server.`,
+        })
+      }
+      if (summary.conflicts > 0 || summary.failed > 0) {
+        toast({
+          variant: "destructive",
+          title: "Some visits need attention",
+          description: "Open My Visits to resolve visits that could not be synced.",
+        })
+      }
+    } catch (error) {
+      console.error("Error syncing offline visits:", error)
+    }
+  }, [userId])
+
+  React.useEffect(() => {
+    if (autoSync && isOnline) flush()
+  }, [autoSync, isOnline, flush])
+
+  return { items, isOnline, flush, retry: retryOutboxItem, discard: discardOutboxItem }
+}
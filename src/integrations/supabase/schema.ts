@@ -0,0 +1,20 @@
+// Row types of the core tables, taken from the Database types.
+//
+// Services build their row and join shapes from these rather than declaring
+// their own interfaces. Together with the typed client (every table in
+// types.ts declares its Relationships, so select strings and embedded rows
+// are checked too), a column that a query or a service expects but the
+// schema lacks fails `npm run typecheck`, and with it the build, instead of
+// a request at runtime. Update types.ts with every migration.
+
+import type { Tables, TablesInsert } from "./types";
+
+export type Profile = Tables<"profiles">;
+export type Branch = Tables<"branches">;
+export type BranchAssignment = Tables<"branch_assignments">;
+export type BranchVisitRow = Tables<"branch_visits">;
+export type BranchVisitInsert = TablesInsert<"branch_visits">;
+
+// Embedded rows as selected with `branches:branch_id (...)` and `profiles:user_id (...)`
+export type BranchRef = Pick<Branch, "id" | "name" | "location" | "category" | "branch_code">;
+export type ProfileRef = Pick<Profile, "full_name" | "e_code">;
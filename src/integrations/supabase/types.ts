@@ -17,6 +17,8 @@ export interface Database {
           role: "BH" | "ZH" | "CH" | "admin"
           location: string
           gender: "male" | "female" | "other"
+          is_active: boolean
+          zone_id: string | null
           created_at: string
           updated_at: string
         }
@@ -27,6 +29,8 @@ export interface Database {
           role: "BH" | "ZH" | "CH" | "admin"
           location: string
           gender: "male" | "female" | "other"
+          is_active?: boolean
+          zone_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -37,16 +41,50 @@ export interface Database {
           role?: "BH" | "ZH" | "CH" | "admin"
           location?: string
           gender?: "male" | "female" | "other"
+          is_active?: boolean
+          zone_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      zones: {
+        Row: {
+          id: string
+          name: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
       }
       branches: {
         Row: {
           id: string
           name: string
           location: string
+          branch_code: string | null
           category: "platinum" | "diamond" | "gold" | "silver" | "bronze"
+          zone_id: string | null
           created_at: string
           updated_at: string
         }
@@ -54,7 +92,9 @@ export interface Database {
           id?: string
           name: string
           location: string
+          branch_code?: string | null
           category: "platinum" | "diamond" | "gold" | "silver" | "bronze"
+          zone_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -62,10 +102,499 @@ export interface Database {
           id?: string
           name?: string
           location?: string
+          branch_code?: string | null
           category?: "platinum" | "diamond" | "gold" | "silver" | "bronze"
+          zone_id?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "branches_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      branch_visit_history: {
+        Row: {
+          id: number
+          visit_id: string
+          action: "insert" | "update" | "delete"
+          changed_by: string | null
+          changed_at: string
+          old_status: string | null
+          new_status: string | null
+          changes: Json
+        }
+        Insert: {
+          id?: never
+          visit_id: string
+          action: "insert" | "update" | "delete"
+          changed_by?: string | null
+          changed_at?: string
+          old_status?: string | null
+          new_status?: string | null
+          changes?: Json
+        }
+        Update: {
+          id?: never
+          visit_id?: string
+          action?: "insert" | "update" | "delete"
+          changed_by?: string | null
+          changed_at?: string
+          old_status?: string | null
+          new_status?: string | null
+          changes?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "branch_visit_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      visit_form_drafts: {
+        Row: {
+          id: string
+          user_id: string
+          form_key: string
+          visit_id: string | null
+          form_values: Json
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          form_key: string
+          visit_id?: string | null
+          form_values?: Json
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          form_key?: string
+          visit_id?: string | null
+          form_values?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visit_form_drafts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_form_drafts_visit_id_fkey"
+            columns: ["visit_id"]
+            isOneToOne: false
+            referencedRelation: "branch_visits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      export_definitions: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          report: "branch_visits" | "bh_performance" | "branch_assignments"
+          location: string | null
+          category: "platinum" | "diamond" | "gold" | "silver" | "bronze" | null
+          bh_id: string | null
+          format: "csv" | "xlsx"
+          schedule: "daily" | "weekly" | "monthly"
+          period: "current_month" | "previous_month"
+          active: boolean
+          next_run_at: string
+          last_run_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          report: "branch_visits" | "bh_performance" | "branch_assignments"
+          location?: string | null
+          category?: "platinum" | "diamond" | "gold" | "silver" | "bronze" | null
+          bh_id?: string | null
+          format?: "csv" | "xlsx"
+          schedule: "daily" | "weekly" | "monthly"
+          period?: "current_month" | "previous_month"
+          active?: boolean
+          next_run_at: string
+          last_run_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          report?: "branch_visits" | "bh_performance" | "branch_assignments"
+          location?: string | null
+          category?: "platinum" | "diamond" | "gold" | "silver" | "bronze" | null
+          bh_id?: string | null
+          format?: "csv" | "xlsx"
+          schedule?: "daily" | "weekly" | "monthly"
+          period?: "current_month" | "previous_month"
+          active?: boolean
+          next_run_at?: string
+          last_run_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "export_definitions_bh_id_fkey"
+            columns: ["bh_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "export_definitions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      export_files: {
+        Row: {
+          id: string
+          user_id: string
+          definition_id: string | null
+          file_name: string
+          report: "branch_visits" | "bh_performance" | "branch_assignments"
+          format: "csv" | "xlsx"
+          period_start: string
+          period_end: string
+          row_count: number
+          size_bytes: number
+          storage_path: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          definition_id?: string | null
+          file_name: string
+          report: "branch_visits" | "bh_performance" | "branch_assignments"
+          format: "csv" | "xlsx"
+          period_start: string
+          period_end: string
+          row_count?: number
+          size_bytes?: number
+          storage_path: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          definition_id?: string | null
+          file_name?: string
+          report?: "branch_visits" | "bh_performance" | "branch_assignments"
+          format?: "csv" | "xlsx"
+          period_start?: string
+          period_end?: string
+          row_count?: number
+          size_bytes?: number
+          storage_path?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "export_files_definition_id_fkey"
+            columns: ["definition_id"]
+            isOneToOne: false
+            referencedRelation: "export_definitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "export_files_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          user_id: string
+          review_digest: boolean
+          overdue_reminder: boolean
+          last_review_digest_at: string | null
+          last_overdue_reminder_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          review_digest?: boolean
+          overdue_reminder?: boolean
+          last_review_digest_at?: string | null
+          last_overdue_reminder_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          review_digest?: boolean
+          overdue_reminder?: boolean
+          last_review_digest_at?: string | null
+          last_overdue_reminder_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          kind: "report_submitted" | "report_resubmitted" | "report_approved" | "report_rejected" | "report_needs_revision" | "branch_assigned" | "branch_unassigned" | "visit_overdue"
+          title: string
+          body: string | null
+          link: string | null
+          visit_id: string | null
+          branch_id: string | null
+          actor_id: string | null
+          dedupe_key: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          kind: "report_submitted" | "report_resubmitted" | "report_approved" | "report_rejected" | "report_needs_revision" | "branch_assigned" | "branch_unassigned" | "visit_overdue"
+          title: string
+          body?: string | null
+          link?: string | null
+          visit_id?: string | null
+          branch_id?: string | null
+          actor_id?: string | null
+          dedupe_key?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          kind?: "report_submitted" | "report_resubmitted" | "report_approved" | "report_rejected" | "report_needs_revision" | "branch_assigned" | "branch_unassigned" | "visit_overdue"
+          title?: string
+          body?: string | null
+          link?: string | null
+          visit_id?: string | null
+          branch_id?: string | null
+          actor_id?: string | null
+          dedupe_key?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_visit_id_fkey"
+            columns: ["visit_id"]
+            isOneToOne: false
+            referencedRelation: "branch_visits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      risk_rules: {
+        Row: {
+          id: string
+          name: string
+          field: "manning_percentage" | "attrition_percentage" | "er_percentage" | "non_vendor_percentage" | "cwt_cases" | "leaders_aligned_with_code" | "employees_feel_safe" | "employees_feel_motivated" | "leaders_abusive_language" | "employees_comfort_escalation" | "inclusive_culture"
+          operator: "gt" | "gte" | "lt" | "lte" | "eq"
+          threshold: string
+          severity: "red" | "amber"
+          weight: number
+          enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          field: "manning_percentage" | "attrition_percentage" | "er_percentage" | "non_vendor_percentage" | "cwt_cases" | "leaders_aligned_with_code" | "employees_feel_safe" | "employees_feel_motivated" | "leaders_abusive_language" | "employees_comfort_escalation" | "inclusive_culture"
+          operator: "gt" | "gte" | "lt" | "lte" | "eq"
+          threshold: string
+          severity: "red" | "amber"
+          weight?: number
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          field?: "manning_percentage" | "attrition_percentage" | "er_percentage" | "non_vendor_percentage" | "cwt_cases" | "leaders_aligned_with_code" | "employees_feel_safe" | "employees_feel_motivated" | "leaders_abusive_language" | "employees_comfort_escalation" | "inclusive_culture"
+          operator?: "gt" | "gte" | "lt" | "lte" | "eq"
+          threshold?: string
+          severity?: "red" | "amber"
+          weight?: number
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      visit_frequency_targets: {
+        Row: {
+          category: "platinum" | "diamond" | "gold" | "silver" | "bronze"
+          interval_days: number
+          updated_at: string
+        }
+        Insert: {
+          category: "platinum" | "diamond" | "gold" | "silver" | "bronze"
+          interval_days: number
+          updated_at?: string
+        }
+        Update: {
+          category?: "platinum" | "diamond" | "gold" | "silver" | "bronze"
+          interval_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      visit_plans: {
+        Row: {
+          id: string
+          user_id: string
+          branch_id: string
+          planned_date: string
+          notes: string | null
+          status: "planned" | "completed" | "cancelled"
+          visit_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          branch_id: string
+          planned_date: string
+          notes?: string | null
+          status?: "planned" | "completed" | "cancelled"
+          visit_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          branch_id?: string
+          planned_date?: string
+          notes?: string | null
+          status?: "planned" | "completed" | "cancelled"
+          visit_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visit_plans_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_plans_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_plans_visit_id_fkey"
+            columns: ["visit_id"]
+            isOneToOne: false
+            referencedRelation: "branch_visits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      visit_reviews: {
+        Row: {
+          id: string
+          visit_id: string
+          reviewer_id: string
+          decision: "approved" | "rejected" | "needs_revision"
+          comment: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          visit_id: string
+          reviewer_id: string
+          decision: "approved" | "rejected" | "needs_revision"
+          comment?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          visit_id?: string
+          reviewer_id?: string
+          decision?: "approved" | "rejected" | "needs_revision"
+          comment?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visit_reviews_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visit_reviews_visit_id_fkey"
+            columns: ["visit_id"]
+            isOneToOne: false
+            referencedRelation: "branch_visits"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       branch_assignments: {
         Row: {
@@ -73,19 +602,58 @@ export interface Database {
           user_id: string
           branch_id: string
           assigned_at: string
+          unassigned_at: string | null
+          assigned_by: string | null
+          unassigned_by: string | null
         }
         Insert: {
           id?: string
           user_id: string
           branch_id: string
           assigned_at?: string
+          unassigned_at?: string | null
+          assigned_by?: string | null
+          unassigned_by?: string | null
         }
         Update: {
           id?: string
           user_id?: string
           branch_id?: string
           assigned_at?: string
+          unassigned_at?: string | null
+          assigned_by?: string | null
+          unassigned_by?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "branch_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "branch_assignments_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "branch_assignments_unassigned_by_fkey"
+            columns: ["unassigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "branch_assignments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       branch_visits: {
         Row: {
@@ -114,7 +682,8 @@ export interface Database {
           employees_comfort_escalation: string | null
           inclusive_culture: string | null
           feedback: string | null
-          status: "draft" | "submitted" | "approved" | null
+          best_practices: string | null
+          status: "draft" | "submitted" | "needs_revision" | "resubmitted" | "approved" | "rejected" | null
           created_at: string
           updated_at: string
         }
@@ -144,7 +713,8 @@ export interface Database {
           employees_comfort_escalation?: string | null
           inclusive_culture?: string | null
           feedback?: string | null
-          status?: "draft" | "submitted" | "approved" | null
+          best_practices?: string | null
+          status?: "draft" | "submitted" | "needs_revision" | "resubmitted" | "approved" | "rejected" | null
           created_at?: string
           updated_at?: string
         }
@@ -174,17 +744,260 @@ export interface Database {
           employees_comfort_escalation?: string | null
           inclusive_culture?: string | null
           feedback?: string | null
-          status?: "draft" | "submitted" | "approved" | null
+          best_practices?: string | null
+          status?: "draft" | "submitted" | "needs_revision" | "resubmitted" | "approved" | "rejected" | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "branch_visits_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "branch_visits_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      latest_branch_visits: {
+        Row: {
+          id: string | null
+          user_id: string | null
+          branch_id: string | null
+          visit_date: string | null
+          branch_category: "platinum" | "diamond" | "gold" | "silver" | "bronze" | null
+          hr_connect_session: boolean | null
+          total_employees_invited: number | null
+          total_participants: number | null
+          manning_percentage: number | null
+          attrition_percentage: number | null
+          non_vendor_percentage: number | null
+          er_percentage: number | null
+          cwt_cases: number | null
+          performance_level: string | null
+          new_employees_total: number | null
+          new_employees_covered: number | null
+          star_employees_total: number | null
+          star_employees_covered: number | null
+          leaders_aligned_with_code: string | null
+          employees_feel_safe: string | null
+          employees_feel_motivated: string | null
+          leaders_abusive_language: string | null
+          employees_comfort_escalation: string | null
+          inclusive_culture: string | null
+          feedback: string | null
+          best_practices: string | null
+          status: "draft" | "submitted" | "needs_revision" | "resubmitted" | "approved" | "rejected" | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "branch_visits_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "branch_visits_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      report_transition_allowed: {
+        Args: {
+          from_status: string | null
+          to_status: string
+          actor_role: string
+        }
+        Returns: boolean
+      }
+      visit_totals: {
+        Args: {
+          from_date?: string | null
+          to_date?: string | null
+          zone?: string | null
+          branch_category?: string | null
+          bh?: string | null
+        }
+        Returns: {
+          total_branches: number
+          total_bhs: number
+          assigned_branches: number
+          covered_branches: number
+          visit_count: number
+          visited_branches: number
+          active_bhs: number
+          awaiting_review: number
+          invited: number
+          participants: number
+          new_employees_total: number
+          new_employees_covered: number
+          manning_sum: number
+          manning_count: number
+          attrition_sum: number
+          attrition_count: number
+          er_sum: number
+          er_count: number
+          non_vendor_sum: number
+          non_vendor_count: number
+          cwt_cases: number
+        }[]
+      }
+      bh_visit_totals: {
+        Args: {
+          from_date?: string | null
+          to_date?: string | null
+          zone?: string | null
+          branch_category?: string | null
+          bh?: string | null
+        }
+        Returns: {
+          user_id: string
+          full_name: string
+          e_code: string
+          total_branches: number
+          total_bhs: number
+          assigned_branches: number
+          covered_branches: number
+          visit_count: number
+          visited_branches: number
+          active_bhs: number
+          awaiting_review: number
+          invited: number
+          participants: number
+          new_employees_total: number
+          new_employees_covered: number
+          manning_sum: number
+          manning_count: number
+          attrition_sum: number
+          attrition_count: number
+          er_sum: number
+          er_count: number
+          non_vendor_sum: number
+          non_vendor_count: number
+          cwt_cases: number
+        }[]
+      }
+      qualitative_answer_counts: {
+        Args: {
+          from_date?: string | null
+          to_date?: string | null
+          branch_category?: string | null
+        }
+        Returns: {
+          field: string
+          yes: number
+          no: number
+          answered: number
+        }[]
+      }
+      branch_last_visits: {
+        Args: {
+          zone?: string | null
+          bh?: string | null
+        }
+        Returns: {
+          branch_id: string
+          name: string
+          location: string
+          branch_code: string | null
+          category: "platinum" | "diamond" | "gold" | "silver" | "bronze"
+          zone_id: string | null
+          last_visit_date: string | null
+        }[]
+      }
+      assignment_in_effect: {
+        Args: {
+          assigned_at: string
+          unassigned_at: string | null
+          from_date: string | null
+          to_date: string | null
+        }
+        Returns: boolean
+      }
+      transfer_branch_assignments: {
+        Args: {
+          branch_ids: string[]
+          to_user: string
+          from_user?: string | null
+        }
+        Returns: number
+      }
+      notify_overdue_visits: {
+        Args: {
+          [_ in never]: never
+        }
+        Returns: number
+      }
+      digest_recipients: {
+        Args: {
+          [_ in never]: never
+        }
+        Returns: {
+          user_id: string
+          email: string
+          full_name: string
+          role: string
+          zone_id: string | null
+          review_digest: boolean
+          overdue_reminder: boolean
+          last_review_digest_at: string | null
+          last_overdue_reminder_at: string | null
+        }[]
+      }
+      bh_report_counts: {
+        Args: {
+          from_date?: string | null
+          to_date?: string | null
+          location?: string | null
+          branch_category?: string | null
+          bh?: string | null
+        }
+        Returns: {
+          bh_id: string
+          full_name: string
+          e_code: string
+          total_visits: number
+          branches_visited: number
+          submitted_reports: number
+          approved_reports: number
+          needs_revision_reports: number
+          rejected_reports: number
+        }[]
+      }
+      review_visit: {
+        Args: {
+          visit_id: string
+          from_status: string
+          decision: string
+          comment?: string | null
+        }
+        Returns: undefined
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string | null
+      }
+      current_user_zone_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string | null
+      }
     }
     Enums: {
       [_ in never]: never
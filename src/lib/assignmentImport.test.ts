@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { parseAssignmentCsv, planAssignmentImport } from "@/lib/assignmentImport";
+
+describe("parseAssignmentCsv", () => {
+  it("skips the header and blank lines, keeping file line numbers", () => {
+    const { rows, issues } = parseAssignmentCsv("branch_code,e_code\r\nBR001,E100\r\n\r\n\"BR002\", E200 ,\n");
+    expect(issues).toEqual([]);
+    expect(rows).toEqual([
+      { line: 2, branchCode: "BR001", eCode: "E100" },
+      { line: 4, branchCode: "BR002", eCode: "E200" }
+    ]);
+  });
+
+  it("reads a file without a header", () => {
+    expect(parseAssignmentCsv("BR001,E100").rows).toHaveLength(1);
+  });
+
+  it("flags rows that are not a pair", () => {
+    const { rows, issues } = parseAssignmentCsv("BR001\nBR002,E200,extra\n,E300");
+    expect(rows).toEqual([]);
+    expect(issues.map(issue => [issue.line, issue.kind])).toEqual([
+      [1, "invalid"],
+      [2, "invalid"],
+      [3, "invalid"]
+    ]);
+  });
+});
+
+describe("planAssignmentImport", () => {
+  const context = {
+    branches: [
+      { id: "b1", name: "Andheri", branch_code: "BR001" },
+      { id: "b2", name: "Bandra", branch_code: "BR002" },
+      { id: "b3", name: "Colaba", branch_code: "BR003" },
+      { id: "b4", name: "Dadar", branch_code: null }
+    ],
+    bhs: [
+      { id: "u1", full_name: "Asha", e_code: "E100" },
+      { id: "u2", full_name: "Ravi", e_code: "E200" }
+    ],
+    assignments: [
+      { branch_id: "b2", user_id: "u1" },
+      { branch_id: "b3", user_id: "u2" }
+    ]
+  };
+
+  const rows = (...pairs: [string, string][]) =>
+    pairs.map(([branchCode, eCode], index) => ({ line: index + 1, branchCode, eCode }));
+
+  it("matches codes case-insensitively", () => {
+    const plan = planAssignmentImport(rows(["br001", "e200"]), context);
+    expect(plan.ready).toMatchObject([{ branchId: "b1", userId: "u2", bhName: "Ravi", replaces: [] }]);
+    expect(plan.skipped).toEqual([]);
+  });
+
+  it("lists branches held by another BH as conflicts", () => {
+    const plan = planAssignmentImport(rows(["BR002", "E200"]), context);
+    expect(plan.ready).toEqual([]);
+    expect(plan.conflicts).toMatchObject([{ branchId: "b2", userId: "u2", replaces: [{ userId: "u1", bhName: "Asha" }] }]);
+  });
+
+  it("skips unknown codes, duplicates, existing assignments and clashing rows", () => {
+    const plan = planAssignmentImport(
+      rows(
+        ["BR001", "E100"],
+        ["BR001", "e100"],
+        ["BR009", "E100"],
+        ["BR001", "E999"],
+        ["BR003", "E200"],
+        ["BR001", "E200"]
+      ),
+      context
+    );
+
+    expect(plan.ready.map(row => row.line)).toEqual([1]);
+    expect(plan.skipped.map(issue => [issue.line, issue.kind])).toEqual([
+      [2, "duplicate"],
+      [3, "unknown_branch"],
+      [4, "unknown_bh"],
+      [5, "already_assigned"],
+      [6, "conflict"]
+    ]);
+    expect(plan.skipped[3].message).toBe("Colaba is already assigned to Ravi");
+    expect(plan.skipped[4].message).toBe("Line 1 already assigns Andheri to Asha");
+  });
+});
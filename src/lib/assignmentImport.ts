@@ -0,0 +1,224 @@
+// Bulk branch assignment from CSV.
+//
+// A ZH uploads `branch_code,e_code` pairs. Nothing is written straight away:
+// the file is parsed, then planned against the zone's branches, BHs and
+// current assignments, and the plan is shown as a dry run. Only the rows the
+// plan marks as ready (and, if the ZH chooses, the conflicts) are applied.
+//
+// Codes are matched case-insensitively. A row is skipped when it
+//   - is not a branch_code,e_code pair              (invalid)
+//   - repeats an earlier row                        (duplicate)
+//   - names a branch code outside the zone          (unknown_branch)
+//   - names an e_code that is not a BH in the zone  (unknown_bh)
+//   - is already in place                           (already_assigned)
+//   - assigns a branch an earlier row already gave to a different BH (conflict)
+// A branch that is currently assigned to a different BH is a conflict too,
+// but an actionable one: applying it moves the branch to the new BH.
+
+export type ImportIssueKind =
+  | "invalid"
+  | "duplicate"
+  | "unknown_branch"
+  | "unknown_bh"
+  | "already_assigned"
+  | "conflict";
+
+export interface AssignmentCsvRow {
+  // 1-based line in the file, for pointing the ZH at the right row
+  line: number;
+  branchCode: string;
+  eCode: string;
+}
+
+export interface ImportIssue extends AssignmentCsvRow {
+  kind: ImportIssueKind;
+  message: string;
+}
+
+export interface PlannedAssignment extends AssignmentCsvRow {
+  branchId: string;
+  branchName: string;
+  userId: string;
+  bhName: string;
+  // BHs currently holding the branch that the row would replace
+  replaces: { userId: string; bhName: string }[];
+}
+
+export interface ImportPlan {
+  // New assignments that clash with nothing
+  ready: PlannedAssignment[];
+  // Branches currently assigned to someone else
+  conflicts: PlannedAssignment[];
+  skipped: ImportIssue[];
+}
+
+export interface ImportContext {
+  branches: { id: string; name: string; branch_code: string | null }[];
+  bhs: { id: string; full_name: string; e_code: string | null }[];
+  assignments: { branch_id: string; user_id: string }[];
+}
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+// Splits one CSV line, honouring double quotes around a cell
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+}
+
+export function parseAssignmentCsv(text: string): { rows: AssignmentCsvRow[]; issues: ImportIssue[] } {
+  const rows: AssignmentCsvRow[] = [];
+  const issues: ImportIssue[] = [];
+  let seenContent = false;
+
+  text.replace(/^\uFEFF/, "").split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    if (!rawLine.trim()) return;
+
+    // Trailing empty cells come from spreadsheets padding the export
+    const cells = splitCsvLine(rawLine);
+    while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+
+    const isFirstRow = !seenContent;
+    seenContent = true;
+
+    if (isFirstRow && cells[0]?.toLowerCase() === "branch_code" && cells[1]?.toLowerCase() === "e_code") {
+      return;
+    }
+
+    if (cells.length !== 2 || !cells[0] || !cells[1]) {
+      issues.push({
+        line,
+        branchCode: cells[0] || "",
+        eCode: cells[1] || "",
+        kind: "invalid",
+        message: "Expected two values: branch_code,e_code"
+      });
+      return;
+    }
+
+    rows.push({ line, branchCode: cells[0], eCode: cells[1] });
+  });
+
+  return { rows, issues };
+}
+
+export function planAssignmentImport(rows: AssignmentCsvRow[], context: ImportContext): ImportPlan {
+  const branchesByCode = new Map(
+    context.branches
+      .filter(branch => branch.branch_code)
+      .map(branch => [normalizeCode(branch.branch_code as string), branch])
+  );
+  const bhsByCode = new Map(
+    context.bhs
+      .filter(bh => bh.e_code)
+      .map(bh => [normalizeCode(bh.e_code as string), bh])
+  );
+  const bhNames = new Map(context.bhs.map(bh => [bh.id, bh.full_name]));
+
+  const currentHolders = new Map<string, string[]>();
+  context.assignments.forEach(assignment => {
+    currentHolders.set(assignment.branch_id, [
+      ...(currentHolders.get(assignment.branch_id) || []),
+      assignment.user_id
+    ]);
+  });
+
+  const plan: ImportPlan = { ready: [], conflicts: [], skipped: [] };
+  const seenPairs = new Map<string, number>();
+  // Branch id -> the earlier row that assigns it
+  const claimedBranches = new Map<string, PlannedAssignment>();
+
+  const skip = (row: AssignmentCsvRow, kind: ImportIssueKind, message: string) => {
+    plan.skipped.push({ ...row, kind, message });
+  };
+
+  rows.forEach(row => {
+    const branchCode = normalizeCode(row.branchCode);
+    const eCode = normalizeCode(row.eCode);
+
+    const pairKey = `${branchCode},${eCode}`;
+    const firstLine = seenPairs.get(pairKey);
+    if (firstLine !== undefined) {
+      skip(row, "duplicate", `Repeats line ${firstLine}`);
+      return;
+    }
+    seenPairs.set(pairKey, row.line);
+
+    const branch = branchesByCode.get(branchCode);
+    if (!branch) {
+      skip(row, "unknown_branch", `No branch with code ${row.branchCode} in your zone`);
+      return;
+    }
+
+    const bh = bhsByCode.get(eCode);
+    if (!bh) {
+      skip(row, "unknown_bh", `No BH with e-code ${row.eCode} in your zone`);
+      return;
+    }
+
+    const claimedBy = claimedBranches.get(branch.id);
+    if (claimedBy) {
+      skip(row, "conflict", `Line ${claimedBy.line} already assigns ${branch.name} to ${claimedBy.bhName}`);
+      return;
+    }
+
+    const holders = currentHolders.get(branch.id) || [];
+    if (holders.includes(bh.id)) {
+      skip(row, "already_assigned", `${branch.name} is already assigned to ${bh.full_name}`);
+      return;
+    }
+
+    const planned: PlannedAssignment = {
+      ...row,
+      branchId: branch.id,
+      branchName: branch.name,
+      userId: bh.id,
+      bhName: bh.full_name,
+      replaces: holders.map(userId => ({ userId, bhName: bhNames.get(userId) || "Unknown" }))
+    };
+
+    claimedBranches.set(branch.id, planned);
+    if (planned.replaces.length > 0) {
+      plan.conflicts.push(planned);
+    } else {
+      plan.ready.push(planned);
+    }
+  });
+
+  return plan;
+}
+
+export const IMPORT_ISSUE_LABELS: Record<ImportIssueKind, string> = {
+  invalid: "Invalid row",
+  duplicate: "Duplicate",
+  unknown_branch: "Unknown branch",
+  unknown_bh: "Unknown BH",
+  already_assigned: "Already assigned",
+  conflict: "Conflict"
+};
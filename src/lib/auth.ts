@@ -1,22 +1,19 @@
 
 import { supabase } from "@/integrations/supabase/client";
 
-// Function to get user role based on email
+// Function to get a user's role from their profile. Throws when the profile
+// cannot be read: callers check permissions with the role, so guessing one
+// would let a failed lookup pass as a BH.
 export const getUserRole = async (userId: string): Promise<string> => {
-  try {
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('role')
-      .eq('id', userId)
-      .single();
-    
-    if (error) throw error;
-    
-    return data?.role || "BH"; // Default to BH if not found
-  } catch (error) {
-    console.error("Error getting user role:", error);
-    return "BH"; // Default role
-  }
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+
+  return data.role;
 };
 
 // Function to check if a user is authenticated
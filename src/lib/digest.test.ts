@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  composeOverdueReminder,
+  composeReviewDigest,
+  DigestKind,
+  DigestRecipient,
+  DigestSource,
+  isDigestDue,
+  PendingReview,
+  sendDueDigests
+} from "@/lib/digest";
+import { createStubTransport, formatEml } from "@/lib/mailTransport";
+import { rankBranchesByDue } from "@/lib/visitFrequency";
+
+const NOW = new Date(2026, 9, 18, 7, 0);
+const APP_URL = "https://visits.example.com";
+
+const review = (branchName: string, overrides: Partial<PendingReview> = {}): PendingReview => ({
+  visitId: branchName,
+  branchName,
+  bhName: "Asha Rao",
+  visitDate: "2026-10-10",
+  status: "submitted",
+  submittedAt: "2026-10-12T09:30:00",
+  ...overrides
+});
+
+const overdueBranches = rankBranchesByDue(
+  [
+    { branch_id: "b1", name: "Andheri", location: "Mumbai", branch_code: null, category: "platinum", last_visit_date: "2026-08-01" },
+    { branch_id: "b2", name: "Baner", location: "Pune", branch_code: null, category: "bronze", last_visit_date: null },
+    { branch_id: "b3", name: "Colaba", location: "Mumbai", branch_code: null, category: "platinum", last_visit_date: "2026-10-15" }
+  ],
+  { platinum: 30, bronze: 90 },
+  NOW
+);
+
+describe("isDigestDue", () => {
+  it("is due when never sent and once the interval has passed in calendar days", () => {
+    expect(isDigestDue("review_digest", null, NOW)).toBe(true);
+    expect(isDigestDue("review_digest", "2026-10-17T23:00:00", NOW)).toBe(true);
+    expect(isDigestDue("review_digest", "2026-10-18T06:00:00", NOW)).toBe(false);
+    expect(isDigestDue("overdue_reminder", "2026-10-12T07:00:00", NOW)).toBe(false);
+    expect(isDigestDue("overdue_reminder", "2026-10-11T07:00:00", NOW)).toBe(true);
+  });
+});
+
+describe("composeReviewDigest", () => {
+  it("lists every pending report with how long it has waited", () => {
+    const message = composeReviewDigest(
+      { email: "zh@example.com", fullName: "Vikram" },
+      [review("Andheri"), review("Baner", { status: "resubmitted", submittedAt: "2026-10-17T10:00:00" })],
+      APP_URL,
+      NOW
+    );
+
+    expect(message?.to).toBe("zh@example.com");
+    expect(message?.subject).toBe("2 reports awaiting your review");
+    expect(message?.text).toContain("- Andheri: Asha Rao, visited 10 Oct 2026, waiting 6 days");
+    expect(message?.text).toContain("- Baner: Asha Rao, visited 10 Oct 2026 (resubmitted), waiting 1 day");
+    expect(message?.text).toContain(`${APP_URL}/zh/review-reports`);
+  });
+
+  it("sends nothing when no report is waiting", () => {
+    expect(composeReviewDigest({ email: "zh@example.com", fullName: "Vikram" }, [], APP_URL, NOW)).toBeNull();
+  });
+});
+
+describe("composeOverdueReminder", () => {
+  it("lists only the overdue branches", () => {
+    const message = composeOverdueReminder({ email: "bh@example.com", fullName: "Asha" }, overdueBranches, APP_URL);
+
+    expect(message?.subject).toBe("2 branches overdue for a visit");
+    expect(message?.text).toContain("- Baner (Pune): never visited");
+    expect(message?.text).toContain("- Andheri (Mumbai): 48 days overdue, last visited 1 Aug 2026");
+    expect(message?.text).not.toContain("Colaba");
+  });
+});
+
+describe("sendDueDigests", () => {
+  const recipient = (userId: string, overrides: Partial<DigestRecipient>): DigestRecipient => ({
+    userId,
+    email: `${userId}@example.com`,
+    fullName: userId,
+    role: "BH",
+    zoneId: "west",
+    reviewDigest: false,
+    overdueReminder: false,
+    lastReviewDigestAt: null,
+    lastOverdueReminderAt: null,
+    ...overrides
+  });
+
+  const memorySource = (recipients: DigestRecipient[], reviews: Record<string, PendingReview[]>) => {
+    const marked: { userId: string; kind: DigestKind }[] = [];
+    const source: DigestSource = {
+      fetchRecipients: async () => recipients,
+      fetchPendingReviews: async zoneId => reviews[zoneId] ?? [],
+      fetchOverdueBranches: async bhId => {
+        if (bhId === "broken") throw new Error("branch_last_visits failed");
+        return bhId === "busy-bh" ? overdueBranches : [];
+      },
+      markSent: async (userId, kind) => {
+        marked.push({ userId, kind });
+      }
+    };
+    return { source, marked };
+  };
+
+  it("sends the due digests, skips empty ones and carries on after a failure", async () => {
+    const { source, marked } = memorySource(
+      [
+        recipient("zh-west", { role: "ZH", reviewDigest: true }),
+        recipient("zh-east", { role: "ZH", reviewDigest: true, zoneId: "east" }),
+        recipient("zh-done", { role: "ZH", reviewDigest: true, lastReviewDigestAt: "2026-10-18T06:00:00" }),
+        recipient("broken", { overdueReminder: true }),
+        recipient("busy-bh", { overdueReminder: true }),
+        recipient("idle-bh", { overdueReminder: true })
+      ],
+      { west: [review("Andheri")] }
+    );
+    const transport = createStubTransport();
+
+    const summary = await sendDueDigests(source, transport, { appUrl: APP_URL, now: NOW });
+
+    expect(transport.sent.map(message => message.to)).toEqual(["zh-west@example.com", "busy-bh@example.com"]);
+    expect(summary.sent).toEqual([
+      { userId: "zh-west", kind: "review_digest" },
+      { userId: "busy-bh", kind: "overdue_reminder" }
+    ]);
+    expect(marked).toEqual(summary.sent);
+    expect(summary.empty).toEqual([
+      { userId: "zh-east", kind: "review_digest" },
+      { userId: "idle-bh", kind: "overdue_reminder" }
+    ]);
+    expect(summary.failed).toEqual([
+      { userId: "broken", kind: "overdue_reminder", error: "branch_last_visits failed" }
+    ]);
+  });
+
+  it("does not stamp a digest the transport rejected", async () => {
+    const { source, marked } = memorySource([recipient("busy-bh", { overdueReminder: true })], {});
+    const transport = { send: async () => { throw new Error("SMTP unavailable"); } };
+
+    const summary = await sendDueDigests(source, transport, { appUrl: APP_URL, now: NOW });
+
+    expect(summary.failed).toHaveLength(1);
+    expect(marked).toEqual([]);
+  });
+});
+
+describe("formatEml", () => {
+  it("writes the headers and a CRLF body", () => {
+    const eml = formatEml({ to: "bh@example.com", subject: "Hi", text: "a\nb" }, "noreply@example.com", NOW);
+    expect(eml.split("\r\n")).toEqual([
+      "From: noreply@example.com",
+      "To: bh@example.com",
+      "Subject: Hi",
+      `Date: ${NOW.toUTCString()}`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      "a",
+      "b"
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+// Email digests.
+//
+// Users opt in through notification_preferences. A ZH gets a daily email of
+// the reports in their zone awaiting review; a BH gets a weekly reminder of
+// their overdue branches (see visitFrequency.ts). Nothing is sent when there
+// is nothing to report, and a digest only counts as sent once the transport
+// has accepted it, so a failed run is retried next time.
+//
+// sendDueDigests reads through a DigestSource so the job can run against
+// Supabase (scripts/send-digests.ts) or in-memory data in tests.
+
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { MailMessage, MailTransport } from "@/lib/mailTransport";
+import type { BranchDue } from "@/lib/visitFrequency";
+
+export type DigestKind = "review_digest" | "overdue_reminder";
+
+// Days between two digests of the same kind
+export const DIGEST_INTERVAL_DAYS: Record<DigestKind, number> = {
+  review_digest: 1,
+  overdue_reminder: 7
+};
+
+export interface DigestRecipient {
+  userId: string;
+  email: string;
+  fullName: string;
+  role: string;
+  zoneId: string | null;
+  reviewDigest: boolean;
+  overdueReminder: boolean;
+  lastReviewDigestAt: string | null;
+  lastOverdueReminderAt: string | null;
+}
+
+export interface PendingReview {
+  visitId: string;
+  branchName: string;
+  bhName: string;
+  visitDate: string;
+  status: string;
+  // When the report was last submitted
+  submittedAt: string;
+}
+
+export interface DigestSource {
+  fetchRecipients(): Promise<DigestRecipient[]>;
+  fetchPendingReviews(zoneId: string): Promise<PendingReview[]>;
+  fetchOverdueBranches(bhId: string): Promise<BranchDue[]>;
+  markSent(userId: string, kind: DigestKind, sentAt: Date): Promise<void>;
+}
+
+export interface DigestRunSummary {
+  sent: { userId: string; kind: DigestKind }[];
+  // Opted in and due, but with nothing to report
+  empty: { userId: string; kind: DigestKind }[];
+  failed: { userId: string; kind: DigestKind; error: string }[];
+}
+
+export function isDigestDue(kind: DigestKind, lastSentAt: string | null, now: Date = new Date()): boolean {
+  if (!lastSentAt) return true;
+  return differenceInCalendarDays(now, parseISO(lastSentAt)) >= DIGEST_INTERVAL_DAYS[kind];
+}
+
+const plural = (count: number, noun: string, nouns = `${noun}s`) => `${count} ${count === 1 ? noun : nouns}`;
+
+export function composeReviewDigest(
+  recipient: Pick<DigestRecipient, "email" | "fullName">,
+  reviews: PendingReview[],
+  appUrl: string,
+  now: Date = new Date()
+): MailMessage | null {
+  if (reviews.length === 0) return null;
+
+  const lines = reviews.map(review => {
+    const waiting = differenceInCalendarDays(now, parseISO(review.submittedAt));
+    return `- ${review.branchName}: ${review.bhName}, visited ${format(parseISO(review.visitDate), "d MMM yyyy")}` +
+      `${review.status === "resubmitted" ? " (resubmitted)" : ""}, waiting ${plural(waiting, "day")}`;
+  });
+
+  return {
+    to: recipient.email,
+    subject: `${plural(reviews.length, "report")} awaiting your review`,
+    text: [
+      `Hi ${recipient.fullName},`,
+      "",
+      `${plural(reviews.length, "branch visit report")} in your zone ${reviews.length === 1 ? "is" : "are"} awaiting your review:`,
+      "",
+      ...lines,
+      "",
+      `Review them at ${appUrl}/zh/review-reports`,
+      "",
+      "You get this email because you opted in to the daily review digest."
+    ].join("\n")
+  };
+}
+
+export function composeOverdueReminder(
+  recipient: Pick<DigestRecipient, "email" | "fullName">,
+  branches: BranchDue[],
+  appUrl: string
+): MailMessage | null {
+  const overdue = branches.filter(branch => branch.status === "overdue");
+  if (overdue.length === 0) return null;
+
+  const lines = overdue.map(branch =>
+    `- ${branch.name} (${branch.location}): ` +
+    (branch.neverVisited
+      ? "never visited"
+      : `${plural(branch.daysOverdue, "day")} overdue, last visited ${format(parseISO(branch.lastVisitDate as string), "d MMM yyyy")}`)
+  );
+
+  return {
+    to: recipient.email,
+    subject: `${plural(overdue.length, "branch", "branches")} overdue for a visit`,
+    text: [
+      `Hi ${recipient.fullName},`,
+      "",
+      `${overdue.length === 1 ? "This branch is" : "These branches are"} past their visit frequency target:`,
+      "",
+      ...lines,
+      "",
+      `Plan your visits at ${appUrl}/bh/calendar`,
+      "",
+      "You get this email because you opted in to the weekly overdue reminder."
+    ].join("\n")
+  };
+}
+
+// Sends every digest that is due and stamps it as sent. One recipient's
+// failure does not stop the others.
+export async function sendDueDigests(
+  source: DigestSource,
+  transport: MailTransport,
+  options: { appUrl: string; now?: Date }
+): Promise<DigestRunSummary> {
+  const now = options.now ?? new Date();
+  const summary: DigestRunSummary = { sent: [], empty: [], failed: [] };
+  const recipients = await source.fetchRecipients();
+
+  for (const recipient of recipients) {
+    const digests: { kind: DigestKind; compose: () => Promise<MailMessage | null> }[] = [];
+
+    if (recipient.role === "ZH" && recipient.reviewDigest && recipient.zoneId &&
+        isDigestDue("review_digest", recipient.lastReviewDigestAt, now)) {
+      const zoneId = recipient.zoneId;
+      digests.push({
+        kind: "review_digest",
+        compose: async () => composeReviewDigest(recipient, await source.fetchPendingReviews(zoneId), options.appUrl, now)
+      });
+    }
+
+    if (recipient.role === "BH" && recipient.overdueReminder &&
+        isDigestDue("overdue_reminder", recipient.lastOverdueReminderAt, now)) {
+      digests.push({
+        kind: "overdue_reminder",
+        compose: async () => composeOverdueReminder(recipient, await source.fetchOverdueBranches(recipient.userId), options.appUrl)
+      });
+    }
+
+    for (const digest of digests) {
+      const entry = { userId: recipient.userId, kind: digest.kind };
+      try {
+        const message = await digest.compose();
+        if (!message) {
+          summary.empty.push(entry);
+          continue;
+        }
+        await transport.send(message);
+        await source.markSent(recipient.userId, digest.kind, now);
+        summary.sent.push(entry);
+      } catch (error) {
+        summary.failed.push({ ...entry, error: (error as Error).message || String(error) });
+      }
+    }
+  }
+
+  return summary;
+}
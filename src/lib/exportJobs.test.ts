@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { Workbook } from "exceljs";
+import { ExportJobStore, GeneratedExport, runDueExports } from "@/lib/exportJobs";
+import { ExportDefinition, nextRunAfter, periodFor } from "@/lib/exportSchedule";
+import { ExportCell, ExportFilters, ExportReport } from "@/lib/reportExport";
+
+// Sunday 18 October 2026
+const NOW = new Date(2026, 9, 18, 7, 30);
+
+const definition = (id: string, overrides: Partial<ExportDefinition> = {}): ExportDefinition => ({
+  id,
+  user_id: "ch-1",
+  name: id,
+  report: "branch_visits",
+  location: null,
+  category: null,
+  bh_id: null,
+  format: "csv",
+  schedule: "daily",
+  period: "previous_month",
+  active: true,
+  next_run_at: "2026-10-18T06:00:00",
+  last_run_at: null,
+  created_at: "2026-10-01T00:00:00",
+  updated_at: "2026-10-01T00:00:00",
+  bh: null,
+  ...overrides
+});
+
+function createStore(definitions: ExportDefinition[], failing: ExportReport[] = []) {
+  const saved: { definition: ExportDefinition; file: GeneratedExport }[] = [];
+  const runs: { definitionId: string; ranAt: Date; nextRunAt: Date }[] = [];
+  const loaded: ExportFilters[] = [];
+
+  const store: ExportJobStore = {
+    async fetchDueDefinitions(now) {
+      return definitions.filter(entry => entry.active && new Date(entry.next_run_at) <= now);
+    },
+    loadReport(report, filters) {
+      loaded.push(filters);
+      return {
+        headers: ["branch_name", "visits"],
+        pages: (async function* (): AsyncGenerator<ExportCell[][]> {
+          if (failing.includes(report)) throw new Error("statement timeout");
+          yield [["Andheri, West", 2], ["Bandra", null]];
+          yield [["Colaba", 1]];
+        })()
+      };
+    },
+    async saveFile(entry, file) {
+      saved.push({ definition: entry, file });
+    },
+    async markRun(definitionId, ranAt, nextRunAt) {
+      runs.push({ definitionId, ranAt, nextRunAt });
+    }
+  };
+
+  return { store, saved, runs, loaded };
+}
+
+describe("nextRunAfter", () => {
+  it("falls at 06:00 on the next day, Monday or 1st of the month", () => {
+    expect(nextRunAfter("daily", new Date(2026, 9, 18, 5, 0))).toEqual(new Date(2026, 9, 18, 6));
+    expect(nextRunAfter("daily", NOW)).toEqual(new Date(2026, 9, 19, 6));
+    expect(nextRunAfter("weekly", NOW)).toEqual(new Date(2026, 9, 19, 6));
+    expect(nextRunAfter("weekly", new Date(2026, 9, 19, 6))).toEqual(new Date(2026, 9, 26, 6));
+    expect(nextRunAfter("monthly", NOW)).toEqual(new Date(2026, 10, 1, 6));
+    expect(nextRunAfter("monthly", new Date(2026, 11, 1, 5))).toEqual(new Date(2026, 11, 1, 6));
+  });
+});
+
+describe("periodFor", () => {
+  it("exports the month the run falls in or the one before", () => {
+    expect(periodFor("current_month", NOW)).toEqual({ year: 2026, month: 10 });
+    expect(periodFor("previous_month", new Date(2027, 0, 1, 6))).toEqual({ year: 2026, month: 12 });
+  });
+});
+
+describe("runDueExports", () => {
+  it("saves a file per due definition and schedules the next run", async () => {
+    const { store, saved, runs, loaded } = createStore([
+      definition("daily-csv", { location: "Mumbai" }),
+      definition("monthly-xlsx", { format: "xlsx", schedule: "monthly", period: "current_month", report: "bh_performance" }),
+      definition("not-due", { next_run_at: "2026-10-19T06:00:00" }),
+      definition("paused", { active: false })
+    ]);
+
+    const summary = await runDueExports(store, NOW);
+
+    expect(summary.failed).toEqual([]);
+    expect(summary.generated).toEqual([
+      { definitionId: "daily-csv", fileName: "branch-visits_2026-09_mumbai.csv", rowCount: 3 },
+      { definitionId: "monthly-xlsx", fileName: "bh-performance_2026-10.xlsx", rowCount: 3 }
+    ]);
+    expect(loaded[0]).toEqual({ year: 2026, month: 9, location: "Mumbai", category: null, bhId: null });
+    expect(runs.map(run => [run.definitionId, run.nextRunAt])).toEqual([
+      ["daily-csv", new Date(2026, 9, 19, 6)],
+      ["monthly-xlsx", new Date(2026, 10, 1, 6)]
+    ]);
+
+    const [csv, xlsx] = saved.map(entry => entry.file);
+    expect(new TextDecoder().decode(csv.body)).toBe('branch_name,visits\r\n"Andheri, West",2\r\nBandra,\r\nColaba,1\r\n');
+    expect(csv).toMatchObject({ periodStart: "2026-09-01", periodEnd: "2026-09-30" });
+    expect(xlsx).toMatchObject({ periodStart: "2026-10-01", periodEnd: "2026-10-18" });
+
+    const workbook = new Workbook();
+    await workbook.xlsx.load(xlsx.body);
+    const sheet = workbook.getWorksheet("BH performance summary");
+    expect(sheet.getRow(1).getCell(1).value).toBe("branch_name");
+    expect(sheet.getRow(4).values).toEqual([undefined, "Colaba", 1]);
+  });
+
+  it("leaves a failed definition due so the next run retries it", async () => {
+    const { store, saved, runs } = createStore(
+      [definition("visits"), definition("assignments", { report: "branch_assignments" })],
+      ["branch_visits"]
+    );
+
+    const summary = await runDueExports(store, NOW);
+
+    expect(summary.failed).toEqual([{ definitionId: "visits", error: "statement timeout" }]);
+    expect(saved.map(entry => entry.definition.id)).toEqual(["assignments"]);
+    expect(runs.map(run => run.definitionId)).toEqual(["assignments"]);
+  });
+});
@@ -0,0 +1,137 @@
+// The scheduled export job.
+//
+// Generates every export definition that is due (see exportSchedule.ts for
+// when that is and which month a run covers) as CSV or XLSX. A definition
+// only moves on to its next run once its file has been saved, so a failed
+// run is retried the next time the job runs.
+//
+// runDueExports works through an ExportJobStore so the job can run against
+// Supabase (scripts/run-exports.ts) or in-memory data in tests.
+
+import { Workbook } from "exceljs";
+import { format } from "date-fns";
+import {
+  EXPORT_REPORT_LABELS,
+  ExportFilters,
+  ExportReport,
+  ExportTable,
+  exportFileName,
+  exportPeriod,
+  tableCsv
+} from "@/lib/reportExport";
+import { ExportDefinition, ExportFormat, nextRunAfter, periodFor } from "@/lib/exportSchedule";
+
+export interface GeneratedExport {
+  fileName: string;
+  format: ExportFormat;
+  contentType: string;
+  body: Uint8Array;
+  rowCount: number;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export interface ExportJobStore {
+  fetchDueDefinitions(now: Date): Promise<ExportDefinition[]>;
+  loadReport(report: ExportReport, filters: ExportFilters): ExportTable;
+  saveFile(definition: ExportDefinition, file: GeneratedExport): Promise<void>;
+  markRun(definitionId: string, ranAt: Date, nextRunAt: Date): Promise<void>;
+}
+
+export interface ExportRunSummary {
+  generated: { definitionId: string; fileName: string; rowCount: number }[];
+  failed: { definitionId: string; error: string }[];
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+};
+
+export function definitionFilters(definition: ExportDefinition, runAt: Date): ExportFilters {
+  return {
+    ...periodFor(definition.period, runAt),
+    location: definition.location,
+    category: definition.category,
+    bhId: definition.bh_id
+  };
+}
+
+async function renderXlsx(table: ExportTable, sheetName: string): Promise<{ body: Uint8Array; rowCount: number }> {
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet(sheetName, { views: [{ state: "frozen", ySplit: 1 }] });
+  worksheet.addRow(table.headers).font = { bold: true };
+
+  const widths = table.headers.map(header => header.length);
+  let rowCount = 0;
+  for await (const page of table.pages) {
+    page.forEach(row => {
+      worksheet.addRow(row.map(cell => (cell === undefined ? null : cell)));
+      row.forEach((cell, index) => {
+        widths[index] = Math.max(widths[index], String(cell ?? "").length);
+      });
+    });
+    rowCount += page.length;
+  }
+  widths.forEach((width, index) => {
+    worksheet.getColumn(index + 1).width = Math.min(width + 2, 60);
+  });
+
+  return { body: new Uint8Array(await workbook.xlsx.writeBuffer()), rowCount };
+}
+
+async function renderCsv(table: ExportTable): Promise<{ body: Uint8Array; rowCount: number }> {
+  let text = "";
+  let rowCount = 0;
+  for await (const chunk of tableCsv(table)) {
+    text += chunk.text;
+    rowCount += chunk.rows;
+  }
+  return { body: new TextEncoder().encode(text), rowCount };
+}
+
+async function generateExport(
+  definition: ExportDefinition,
+  table: ExportTable,
+  filters: ExportFilters,
+  runAt: Date
+): Promise<GeneratedExport> {
+  const { body, rowCount } = definition.format === "xlsx"
+    ? await renderXlsx(table, EXPORT_REPORT_LABELS[definition.report])
+    : await renderCsv(table);
+  const period = exportPeriod(filters);
+
+  return {
+    fileName: exportFileName(
+      definition.report,
+      filters,
+      definition.bh?.e_code || definition.bh?.full_name,
+      definition.format
+    ),
+    format: definition.format,
+    contentType: CONTENT_TYPES[definition.format],
+    body,
+    rowCount,
+    periodStart: period.from,
+    // A month-to-date export ends on the day it was made
+    periodEnd: definition.period === "current_month" ? format(runAt, "yyyy-MM-dd") : period.to
+  };
+}
+
+export async function runDueExports(store: ExportJobStore, now: Date = new Date()): Promise<ExportRunSummary> {
+  const summary: ExportRunSummary = { generated: [], failed: [] };
+
+  for (const definition of await store.fetchDueDefinitions(now)) {
+    try {
+      const filters = definitionFilters(definition, now);
+      const file = await generateExport(definition, store.loadReport(definition.report, filters), filters, now);
+      await store.saveFile(definition, file);
+      await store.markRun(definition.id, now, nextRunAfter(definition.schedule, now));
+      summary.generated.push({ definitionId: definition.id, fileName: file.fileName, rowCount: file.rowCount });
+    } catch (error) {
+      summary.failed.push({ definitionId: definition.id, error: (error as Error).message || String(error) });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,72 @@
+// Schedules of the saved report exports.
+//
+// A saved export definition is a CHReports export (report and filters) plus
+// a file format and a schedule. Runs fall due at RUN_HOUR every day, every
+// Monday or on the 1st of the month, and each run exports either the month
+// it falls in (to date) or the month before. The job itself is in
+// exportJobs.ts; this module stays free of the file writers so the app can
+// use it.
+
+import { addDays } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+
+type DefinitionRow = Database['public']['Tables']['export_definitions']['Row'];
+
+export type ExportSchedule = DefinitionRow['schedule'];
+export type ExportFormat = DefinitionRow['format'];
+export type ExportPeriodKind = DefinitionRow['period'];
+
+// The BH filter's profile comes along to name the file
+export type ExportDefinition = DefinitionRow & {
+  bh?: { full_name: string | null; e_code: string | null } | null;
+};
+
+export const SCHEDULE_LABELS: Record<ExportSchedule, string> = {
+  daily: "Daily",
+  weekly: "Weekly, on Mondays",
+  monthly: "Monthly, on the 1st"
+};
+
+export const PERIOD_LABELS: Record<ExportPeriodKind, string> = {
+  current_month: "Current month to date",
+  previous_month: "Previous month"
+};
+
+export const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)"
+};
+
+// Storage bucket of the archive; files sit under <user_id>/<file id>/
+export const EXPORTS_BUCKET = "exports";
+
+// Hour of the day, local to the job, at which runs fall due
+export const RUN_HOUR = 6;
+
+// The first run time strictly after the given moment
+export function nextRunAfter(schedule: ExportSchedule, after: Date): Date {
+  const runOn = (day: Date) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), RUN_HOUR);
+
+  switch (schedule) {
+    case "daily": {
+      const today = runOn(after);
+      return today > after ? today : runOn(addDays(after, 1));
+    }
+    case "weekly": {
+      const monday = runOn(addDays(after, (8 - after.getDay()) % 7));
+      return monday > after ? monday : runOn(addDays(monday, 7));
+    }
+    case "monthly": {
+      const first = new Date(after.getFullYear(), after.getMonth(), 1, RUN_HOUR);
+      return first > after ? first : new Date(after.getFullYear(), after.getMonth() + 1, 1, RUN_HOUR);
+    }
+  }
+}
+
+// The month a run exports
+export function periodFor(period: ExportPeriodKind, runAt: Date): { year: number; month: number } {
+  const month = period === "previous_month"
+    ? new Date(runAt.getFullYear(), runAt.getMonth() - 1, 1)
+    : runAt;
+  return { year: month.getFullYear(), month: month.getMonth() + 1 };
+}
@@ -0,0 +1,44 @@
+// Outgoing mail. The digest job only knows the MailTransport interface; the
+// transport is picked where the job is started (scripts/send-digests.ts), so a
+// real SMTP or API-backed transport can be dropped in without touching the
+// digests themselves.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface StubTransport extends MailTransport {
+  // Every message accepted so far, oldest first
+  sent: MailMessage[];
+}
+
+// Accepts every message and keeps it in memory; for tests and dry runs
+export function createStubTransport(): StubTransport {
+  const sent: MailMessage[] = [];
+  return {
+    sent,
+    async send(message) {
+      sent.push(message);
+    }
+  };
+}
+
+// The message as an RFC 5322 document, as a file transport writes it (.eml)
+export function formatEml(message: MailMessage, from: string, date: Date = new Date()): string {
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${date.toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text.replace(/\r?\n/g, "\r\n")
+  ].join("\r\n");
+}
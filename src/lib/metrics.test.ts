@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_TOTALS,
+  VisitTotals,
+  average,
+  getTrendPeriods,
+  percentage,
+  rankPerformers,
+  summarize,
+  totalsFromRow
+} from "@/lib/metrics";
+
+// What visit_totals returns for two BHs and four branches: bh-1 visited
+// branch a twice and branch b once, bh-2 visited branch c once. Blank HR
+// parameters are left out of their counts.
+const TOTALS: VisitTotals = {
+  totalBranches: 4,
+  totalBHs: 2,
+  assignedBranches: 4,
+  coveredBranches: 3,
+  visitCount: 4,
+  visitedBranches: 3,
+  activeBHs: 2,
+  awaitingReview: 2,
+  invited: 40,
+  participants: 30,
+  newEmployeesTotal: 4,
+  newEmployeesCovered: 3,
+  manningSum: 270,
+  manningCount: 3,
+  attritionSum: 30,
+  attritionCount: 3,
+  erSum: 180,
+  erCount: 3,
+  nonVendorSum: 150,
+  nonVendorCount: 3,
+  cwtCases: 3
+};
+
+describe("percentage and average", () => {
+  it("round to whole numbers", () => {
+    expect(percentage(1, 3)).toBe(33);
+    expect(average(170, 2)).toBe(85);
+  });
+
+  it("are 0 when there is nothing to divide by", () => {
+    expect(percentage(5, 0)).toBe(0);
+    expect(average(0, 0)).toBe(0);
+  });
+});
+
+describe("summarize", () => {
+  const summary = summarize(TOTALS);
+
+  it("defines coverage as visited branches over branches in scope", () => {
+    expect(summary.coverage).toBe(75);
+  });
+
+  it("measures coverage against the mapping in effect during the period", () => {
+    const mapped = summarize({ ...TOTALS, assignedBranches: 5, coveredBranches: 2 });
+    expect(mapped.coverage).toBe(40);
+  });
+
+  it("defines participation as participants over invited across all visits", () => {
+    // (15 + 10 + 5 + 0) / (20 + 10 + 10 + 0)
+    expect(summary.participation).toBe(75);
+  });
+
+  it("averages HR parameters over the visits that reported them", () => {
+    expect(summary.averageManning).toBe(90);
+    expect(summary.averageAttrition).toBe(10);
+    expect(summary.averageEr).toBe(60);
+    expect(summary.averageNonVendor).toBe(50);
+  });
+
+  it("derives new employee coverage from the summed counts", () => {
+    expect(summary.newEmployeeCoverage).toBe(75);
+  });
+
+  it("is all zeros for no data", () => {
+    const empty = summarize(EMPTY_TOTALS);
+    expect(empty.coverage).toBe(0);
+    expect(empty.participation).toBe(0);
+    expect(empty.averageManning).toBe(0);
+  });
+});
+
+describe("totalsFromRow", () => {
+  it("maps the database row onto the totals", () => {
+    const row = {
+      total_branches: 4,
+      total_bhs: 2,
+      assigned_branches: 4,
+      covered_branches: 3,
+      visit_count: 4,
+      visited_branches: 3,
+      active_bhs: 2,
+      awaiting_review: 2,
+      invited: 40,
+      participants: 30,
+      new_employees_total: 4,
+      new_employees_covered: 3,
+      // numeric columns arrive as strings
+      manning_sum: "270" as unknown as number,
+      manning_count: 3,
+      attrition_sum: 30,
+      attrition_count: 3,
+      er_sum: 180,
+      er_count: 3,
+      non_vendor_sum: 150,
+      non_vendor_count: 3,
+      cwt_cases: 3
+    };
+
+    expect(totalsFromRow(row)).toEqual(TOTALS);
+  });
+
+  it("falls back to empty totals", () => {
+    expect(totalsFromRow(undefined)).toEqual(EMPTY_TOTALS);
+  });
+});
+
+describe("rankPerformers", () => {
+  const totalsFor = (totals: Partial<VisitTotals>): VisitTotals =>
+    ({ ...EMPTY_TOTALS, totalBHs: 1, ...totals });
+
+  const performers = rankPerformers([
+    {
+      id: "bh-1",
+      name: "Asha",
+      code: "E1",
+      totals: totalsFor({ totalBranches: 4, assignedBranches: 4, coveredBranches: 2, visitCount: 3, invited: 40, participants: 30 })
+    },
+    {
+      id: "bh-2",
+      name: "Ravi",
+      code: "E2",
+      totals: totalsFor({ totalBranches: 1, assignedBranches: 1, coveredBranches: 1, visitCount: 1 })
+    },
+    { id: "bh-3", name: "Meera", code: "E3", totals: totalsFor({ totalBranches: 2, assignedBranches: 2 }) }
+  ]);
+
+  it("measures coverage against each BH's assigned branches", () => {
+    expect(performers.map(p => [p.id, p.coverage])).toEqual([
+      ["bh-2", 100],
+      ["bh-1", 50]
+    ]);
+  });
+
+  it("uses the same participation definition per BH", () => {
+    expect(performers.find(p => p.id === "bh-1")?.participation).toBe(75);
+    expect(performers.find(p => p.id === "bh-1")?.visitCount).toBe(3);
+  });
+
+  it("leaves out BHs without reported visits", () => {
+    expect(performers.find(p => p.id === "bh-3")).toBeUndefined();
+  });
+});
+
+describe("getTrendPeriods", () => {
+  const now = new Date(2026, 9, 18, 15, 30);
+
+  it("uses days for the last week, ending today", () => {
+    const periods = getTrendPeriods("lastWeek", now);
+    expect(periods).toHaveLength(7);
+    expect(periods[0].start).toEqual(new Date(2026, 9, 12));
+    expect(periods[6].end).toEqual(new Date(2026, 9, 18, 23, 59, 59, 999));
+  });
+
+  it("uses weeks for the last month", () => {
+    const periods = getTrendPeriods("lastMonth", now);
+    expect(periods[0].start).toEqual(new Date(2026, 8, 18));
+    expect(periods[0].label).toBe("Week 1");
+    expect(periods[periods.length - 1].end).toEqual(new Date(2026, 9, 18, 23, 59, 59, 999));
+  });
+
+  it("uses calendar months otherwise", () => {
+    const sixMonths = getTrendPeriods("lastSixMonths", now);
+    expect(sixMonths).toHaveLength(7);
+    expect(sixMonths[0].start).toEqual(new Date(2026, 3, 1));
+    expect(sixMonths[0].end).toEqual(new Date(2026, 3, 30, 23, 59, 59, 999));
+    expect(getTrendPeriods("lastQuarter", now)).toHaveLength(4);
+    expect(getTrendPeriods("lastYear", now)).toHaveLength(12);
+  });
+
+  it("does not reach past today", () => {
+    const periods = getTrendPeriods("lastYear", now);
+    expect(periods[periods.length - 1].end).toEqual(new Date(2026, 9, 18, 23, 59, 59, 999));
+  });
+});
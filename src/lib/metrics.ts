@@ -0,0 +1,245 @@
+// Dashboard metrics.
+//
+// Every page that shows coverage, participation or HR parameter averages gets
+// them from here, so a number means the same thing wherever it appears:
+//
+//   coverage       branches with a reported visit / branches mapped to a BH
+//                  during the period (the assignment history, not today's
+//                  mapping, decides which branches count)
+//   participation  participants / employees invited, summed over the visits
+//   average X      mean of X over the visits that filled it in (blanks ignored)
+//
+// Only reported visits (REPORTED_STATUSES) count. The raw totals come from the
+// visit_totals database function (tested in supabase/tests/visit_totals.test.sql);
+// this module only turns them into ratios.
+
+import type { Database } from "@/integrations/supabase/types";
+import { REPORTED_STATUSES, ReportStatus } from "@/lib/reportWorkflow";
+
+export type BranchCategory = Database['public']['Tables']['branches']['Row']['category'];
+
+export const BRANCH_CATEGORIES: BranchCategory[] = ["platinum", "diamond", "gold", "silver", "bronze"];
+
+// Every dimension is optional; an unset one does not narrow the result
+export interface MetricsFilter {
+  from?: Date | null;
+  to?: Date | null;
+  zoneId?: string | null;
+  category?: BranchCategory | null;
+  bhId?: string | null;
+}
+
+// Sums and counts, before any ratio is taken
+export interface VisitTotals {
+  totalBranches: number;
+  totalBHs: number;
+  // Branches with an assignment in effect during the period, and how many of
+  // them had a reported visit
+  assignedBranches: number;
+  coveredBranches: number;
+  visitCount: number;
+  visitedBranches: number;
+  activeBHs: number;
+  awaitingReview: number;
+  invited: number;
+  participants: number;
+  newEmployeesTotal: number;
+  newEmployeesCovered: number;
+  manningSum: number;
+  manningCount: number;
+  attritionSum: number;
+  attritionCount: number;
+  erSum: number;
+  erCount: number;
+  nonVendorSum: number;
+  nonVendorCount: number;
+  cwtCases: number;
+}
+
+export interface MetricsSummary {
+  totalBranches: number;
+  totalBHs: number;
+  assignedBranches: number;
+  visitCount: number;
+  visitedBranches: number;
+  activeBHs: number;
+  awaitingReview: number;
+  coverage: number;
+  participation: number;
+  newEmployeeCoverage: number;
+  averageManning: number;
+  averageAttrition: number;
+  averageEr: number;
+  averageNonVendor: number;
+  cwtCases: number;
+}
+
+export const EMPTY_TOTALS: VisitTotals = {
+  totalBranches: 0,
+  totalBHs: 0,
+  assignedBranches: 0,
+  coveredBranches: 0,
+  visitCount: 0,
+  visitedBranches: 0,
+  activeBHs: 0,
+  awaitingReview: 0,
+  invited: 0,
+  participants: 0,
+  newEmployeesTotal: 0,
+  newEmployeesCovered: 0,
+  manningSum: 0,
+  manningCount: 0,
+  attritionSum: 0,
+  attritionCount: 0,
+  erSum: 0,
+  erCount: 0,
+  nonVendorSum: 0,
+  nonVendorCount: 0,
+  cwtCases: 0
+};
+
+// Whole-number percentage, 0 when there is nothing to divide by
+export const percentage = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 100) : 0;
+
+// Rounded mean, 0 when no visit filled the field in
+export const average = (sum: number, count: number) =>
+  count > 0 ? Math.round(sum / count) : 0;
+
+export const isReported = (status: string | null) =>
+  REPORTED_STATUSES.includes(status as ReportStatus);
+
+export function summarize(totals: VisitTotals): MetricsSummary {
+  return {
+    totalBranches: totals.totalBranches,
+    totalBHs: totals.totalBHs,
+    assignedBranches: totals.assignedBranches,
+    visitCount: totals.visitCount,
+    visitedBranches: totals.visitedBranches,
+    activeBHs: totals.activeBHs,
+    awaitingReview: totals.awaitingReview,
+    coverage: percentage(totals.coveredBranches, totals.assignedBranches),
+    participation: percentage(totals.participants, totals.invited),
+    newEmployeeCoverage: percentage(totals.newEmployeesCovered, totals.newEmployeesTotal),
+    averageManning: average(totals.manningSum, totals.manningCount),
+    averageAttrition: average(totals.attritionSum, totals.attritionCount),
+    averageEr: average(totals.erSum, totals.erCount),
+    averageNonVendor: average(totals.nonVendorSum, totals.nonVendorCount),
+    cwtCases: totals.cwtCases
+  };
+}
+
+type VisitTotalsRow = Database['public']['Functions']['visit_totals']['Returns'][number];
+
+// bigint and numeric columns can arrive as strings, hence Number()
+export function totalsFromRow(row: VisitTotalsRow | null | undefined): VisitTotals {
+  if (!row) return { ...EMPTY_TOTALS };
+
+  return {
+    totalBranches: Number(row.total_branches),
+    totalBHs: Number(row.total_bhs),
+    assignedBranches: Number(row.assigned_branches),
+    coveredBranches: Number(row.covered_branches),
+    visitCount: Number(row.visit_count),
+    visitedBranches: Number(row.visited_branches),
+    activeBHs: Number(row.active_bhs),
+    awaitingReview: Number(row.awaiting_review),
+    invited: Number(row.invited),
+    participants: Number(row.participants),
+    newEmployeesTotal: Number(row.new_employees_total),
+    newEmployeesCovered: Number(row.new_employees_covered),
+    manningSum: Number(row.manning_sum),
+    manningCount: Number(row.manning_count),
+    attritionSum: Number(row.attrition_sum),
+    attritionCount: Number(row.attrition_count),
+    erSum: Number(row.er_sum),
+    erCount: Number(row.er_count),
+    nonVendorSum: Number(row.non_vendor_sum),
+    nonVendorCount: Number(row.non_vendor_count),
+    cwtCases: Number(row.cwt_cases)
+  };
+}
+
+export type TrendRange = 'lastWeek' | 'lastMonth' | 'lastQuarter' | 'lastSixMonths' | 'lastYear';
+
+export interface TrendPeriod {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+// Chart buckets ending today: days for the last week, weeks for the last
+// month, calendar months otherwise (12 of them for the last year).
+export function getTrendPeriods(timeRange: TrendRange | string, now = new Date()): TrendPeriod[] {
+  const periods: TrendPeriod[] = [];
+  const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+  const end = endOfDay(now);
+
+  switch (timeRange) {
+    case 'lastWeek': {
+      for (let i = 6; i >= 0; i--) {
+        const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - i);
+        periods.push({
+          start: day,
+          end: endOfDay(day),
+          label: day.toLocaleDateString('en-US', { weekday: 'short' })
+        });
+      }
+      break;
+    }
+    case 'lastMonth': {
+      const weekStart = new Date(now.getFullYear(), now.getMonth() - 1, now.getDate());
+      while (weekStart <= end) {
+        const weekEnd = endOfDay(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 6));
+        periods.push({
+          start: new Date(weekStart),
+          end: weekEnd > end ? end : weekEnd,
+          label: `Week ${periods.length + 1}`
+        });
+        weekStart.setDate(weekStart.getDate() + 7);
+      }
+      break;
+    }
+    default: {
+      const months = timeRange === 'lastYear' ? 12 : timeRange === 'lastQuarter' ? 4 : 7;
+      for (let i = months - 1; i >= 0; i--) {
+        const monthStart = new Date(now.getFullYear(), now.getMonth() - i, 1);
+        const monthEnd = endOfDay(new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0));
+        periods.push({
+          start: monthStart,
+          end: monthEnd > end ? end : monthEnd,
+          label: monthStart.toLocaleDateString('en-US', { month: 'short' })
+        });
+      }
+    }
+  }
+
+  return periods;
+}
+
+export interface PerformerInput {
+  id: string;
+  name: string;
+  code: string | null;
+  totals: VisitTotals;
+}
+
+export interface Performer extends MetricsSummary {
+  id: string;
+  name: string;
+  code: string | null;
+}
+
+// Per-BH metrics from each BH's own totals, in which coverage is relative to
+// the branches assigned to them. Ranked by coverage, then by number of reports.
+export function rankPerformers(bhs: PerformerInput[]): Performer[] {
+  return bhs
+    .map(bh => ({
+      id: bh.id,
+      name: bh.name,
+      code: bh.code,
+      ...summarize(bh.totals)
+    }))
+    .filter(performer => performer.visitCount > 0)
+    .sort((a, b) => b.coverage - a.coverage || b.visitCount - a.visitCount);
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { Workbook } from "exceljs";
+import { EMPTY_TOTALS, Performer, summarize, VisitTotals } from "@/lib/metrics";
+import {
+  buildMonthlyPackPdf,
+  buildMonthlyPackXlsx,
+  describeMonthlyPack,
+  MonthlyPackInput,
+  heatmapRows,
+  monthlyPackFileName,
+  previousMonth
+} from "@/lib/monthlyPack";
+
+const totals = (changes: Partial<VisitTotals>): VisitTotals => ({ ...EMPTY_TOTALS, ...changes });
+
+const performer = (id: string, name: string, changes: Partial<VisitTotals>): Performer => ({
+  id,
+  name,
+  code: id.toUpperCase(),
+  ...summarize(totals({ totalBranches: 4, totalBHs: 1, assignedBranches: 4, ...changes }))
+});
+
+// January against the December before it. Gold had no visits in December,
+// and bh-2 reported for the first time in January.
+const input: MonthlyPackInput = {
+  year: 2026,
+  month: 1,
+  current: {
+    overall: totals({ totalBranches: 10, assignedBranches: 8, coveredBranches: 6, visitCount: 9, visitedBranches: 6, invited: 100, participants: 80 }),
+    categories: {
+      platinum: totals({ totalBranches: 4, assignedBranches: 4, coveredBranches: 4, visitCount: 6, visitedBranches: 4 }),
+      gold: totals({ totalBranches: 6, assignedBranches: 4, coveredBranches: 2, visitCount: 3, visitedBranches: 2 })
+    },
+    performers: [
+      performer("bh-1", "Asha Rao", { coveredBranches: 3, visitCount: 5, visitedBranches: 3 }),
+      performer("bh-2", "Vikram Shah", { coveredBranches: 2, visitCount: 4, visitedBranches: 2 })
+    ],
+    answers: [
+      { field: "employees_feel_safe", yes: 2, no: 1, answered: 3 },
+      { field: "inclusive_culture", yes: 1, no: 0, answered: 1 }
+    ]
+  },
+  previous: {
+    overall: totals({ totalBranches: 10, assignedBranches: 8, coveredBranches: 4, visitCount: 5, visitedBranches: 4, invited: 50, participants: 45 }),
+    categories: {
+      platinum: totals({ totalBranches: 4, assignedBranches: 4, coveredBranches: 4, visitCount: 5, visitedBranches: 4 })
+    },
+    performers: [performer("bh-1", "Asha Rao", { coveredBranches: 4, visitCount: 5, visitedBranches: 4 })],
+    answers: [{ field: "employees_feel_safe", yes: 2, no: 0, answered: 2 }]
+  }
+};
+
+const sheets = Object.fromEntries(describeMonthlyPack(input).map(sheet => [sheet.name, sheet]));
+const rowsByLabel = (name: string) => Object.fromEntries(sheets[name].rows.map(row => [row[0], row.slice(1)]));
+
+describe("previousMonth", () => {
+  it("wraps January back to December of the year before", () => {
+    expect(previousMonth(2026, 1)).toEqual({ year: 2025, month: 12 });
+    expect(previousMonth(2026, 10)).toEqual({ year: 2026, month: 9 });
+  });
+});
+
+describe("heatmapRows", () => {
+  const rows = heatmapRows(input.current.answers);
+
+  it("adds the yes rate to each question's counts", () => {
+    expect(rows.find(row => row.field === "employees_feel_safe")).toMatchObject({ yes: 2, no: 1, answered: 3, yesRate: 67 });
+  });
+
+  it("keeps every question, with zeros where nobody answered", () => {
+    expect(rows).toHaveLength(6);
+    expect(rows.find(row => row.field === "employees_feel_motivated")).toMatchObject({ yes: 0, no: 0, answered: 0, yesRate: 0 });
+  });
+});
+
+describe("describeMonthlyPack", () => {
+  it("puts the month next to the one before with the change", () => {
+    expect(sheets["Summary"].columns.map(column => column.header)).toEqual(["Measure", "January 2026", "December 2025", "Change"]);
+    expect(rowsByLabel("Summary")["Reported visits"]).toEqual([9, 5, 4]);
+    expect(rowsByLabel("Summary")["Coverage"]).toEqual([75, 50, 25]);
+    expect(rowsByLabel("Summary")["Participation"]).toEqual([80, 90, -10]);
+  });
+
+  it("leaves the change empty where the previous month has nothing to compare", () => {
+    expect(rowsByLabel("Categories")["Gold"].slice(2, 5)).toEqual([null, 50, null]);
+    expect(rowsByLabel("Coverage")["Platinum"]).toEqual([4, 4, 0, 100, 100, 0]);
+    expect(rowsByLabel("Coverage")["All categories"]).toEqual([8, 6, 2, 75, 50, 25]);
+    expect(rowsByLabel("BH performance")["Asha Rao"].slice(2, 3)).toEqual([0]);
+    expect(rowsByLabel("BH performance")["Vikram Shah"].slice(2, 3)).toEqual([null]);
+    expect(rowsByLabel("Qualitative")["Employees feel safe"]).toEqual([2, 1, 3, 67, 100, -33]);
+    expect(rowsByLabel("Qualitative")["Inclusive culture"]).toEqual([1, 0, 1, 100, null, null]);
+  });
+});
+
+describe("monthly pack files", () => {
+  it("names the files after the month", () => {
+    expect(monthlyPackFileName(2026, 1, "xlsx")).toBe("monthly-pack_2026-01.xlsx");
+  });
+
+  it("writes one worksheet per sheet with formatted figures", async () => {
+    const workbook = new Workbook();
+    await workbook.xlsx.load(await buildMonthlyPackXlsx(input));
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(["Summary", "Categories", "Coverage", "BH performance", "Qualitative"]);
+    const coverage = workbook.getWorksheet("Summary").getRow(8);
+    expect(coverage.getCell(1).value).toBe("Coverage");
+    expect(coverage.getCell(2).value).toBe(75);
+    expect(coverage.getCell(2).numFmt).toBe('0"%"');
+    expect(coverage.getCell(4).numFmt).toBe('+0" pts";-0" pts";0" pts"');
+  });
+
+  it("renders every section into the PDF", () => {
+    const text = buildMonthlyPackPdf(input, new Date(2026, 1, 2)).output();
+
+    expect(text).toContain("Category breakdown, January 2026");
+    expect(text).toContain("Vikram Shah");
+    expect(text).toContain("+25 pts");
+  });
+});
@@ -0,0 +1,406 @@
+// The CH's monthly pack: one month's figures next to the month before, as a
+// multi-sheet XLSX workbook and a PDF with the same tables.
+//
+// describeMonthlyPack turns the raw figures into sheets (summary, categories,
+// coverage, BH performance, qualitative answers); both builders only lay the
+// sheets out, so the workbook and the PDF never disagree. Every "change"
+// column is this month minus the previous one, in percentage points for
+// percentages.
+
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import { Workbook } from "exceljs";
+import { format } from "date-fns";
+import {
+  BRANCH_CATEGORIES,
+  BranchCategory,
+  MetricsSummary,
+  Performer,
+  VisitTotals,
+  percentage,
+  summarize
+} from "@/lib/metrics";
+import { QUALITATIVE_QUESTIONS, QualitativeField } from "@/lib/visitPdf";
+
+export interface AnswerCounts {
+  field: QualitativeField;
+  yes: number;
+  no: number;
+  answered: number;
+}
+
+export interface MonthlyPackPeriod {
+  overall: VisitTotals;
+  categories: Partial<Record<BranchCategory, VisitTotals>>;
+  performers: Performer[];
+  // Per question, over the month's reported visits; unanswered questions may
+  // be missing
+  answers: AnswerCounts[];
+}
+
+export interface MonthlyPackInput {
+  year: number;
+  // 1-based
+  month: number;
+  current: MonthlyPackPeriod;
+  previous: MonthlyPackPeriod;
+}
+
+export type PackColumnKind = "text" | "number" | "percent" | "change" | "pointChange";
+
+export interface PackColumn {
+  header: string;
+  kind: PackColumnKind;
+}
+
+// null is an empty cell, e.g. a change with nothing to compare against
+export type PackCell = string | number | null;
+
+export interface PackSheet {
+  name: string;
+  title: string;
+  columns: PackColumn[];
+  rows: PackCell[][];
+  // Rows whose figures are percentages although their columns are plain
+  // numbers, as in the summary where each row is a different measure
+  percentRows?: number[];
+}
+
+export interface HeatmapRow {
+  field: QualitativeField;
+  question: string;
+  yes: number;
+  no: number;
+  answered: number;
+  yesRate: number;
+}
+
+export function previousMonth(year: number, month: number): { year: number; month: number } {
+  return month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 };
+}
+
+export function monthRange(year: number, month: number): { from: Date; to: Date } {
+  return { from: new Date(year, month - 1, 1), to: new Date(year, month, 0) };
+}
+
+export const monthLabel = (year: number, month: number) => format(new Date(year, month - 1, 1), "MMMM yyyy");
+
+export function monthlyPackFileName(year: number, month: number, extension: "xlsx" | "pdf"): string {
+  return `monthly-pack_${year}-${String(month).padStart(2, "0")}.${extension}`;
+}
+
+// One row per question, in questionnaire order, with zeros where nobody answered
+export function heatmapRows(answers: AnswerCounts[]): HeatmapRow[] {
+  const counts = new Map(answers.map(row => [row.field, row]));
+  return QUALITATIVE_QUESTIONS.map(([field, question]) => {
+    const { yes, no, answered } = counts.get(field) || { yes: 0, no: 0, answered: 0 };
+    return { field, question, yes, no, answered, yesRate: percentage(yes, answered) };
+  });
+}
+
+const change = (current: number, previous: number | null | undefined) =>
+  previous === null || previous === undefined ? null : current - previous;
+
+const col = (header: string, kind: PackColumnKind = "number"): PackColumn => ({ header, kind });
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const SUMMARY_ROWS: [string, keyof MetricsSummary, PackColumnKind][] = [
+  ["Reported visits", "visitCount", "number"],
+  ["Branches visited", "visitedBranches", "number"],
+  ["Active BHs", "activeBHs", "number"],
+  ["Awaiting review", "awaitingReview", "number"],
+  ["Coverage", "coverage", "percent"],
+  ["Participation", "participation", "percent"],
+  ["New employee coverage", "newEmployeeCoverage", "percent"],
+  ["Average manning", "averageManning", "percent"],
+  ["Average attrition", "averageAttrition", "percent"],
+  ["Average ER", "averageEr", "percent"],
+  ["Average non-vendor", "averageNonVendor", "percent"],
+  ["CWT cases", "cwtCases", "number"]
+];
+
+export function describeMonthlyPack({ year, month, current, previous }: MonthlyPackInput): PackSheet[] {
+  const period = monthLabel(year, month);
+  const before = previousMonth(year, month);
+  const previousLabel = monthLabel(before.year, before.month);
+  const now = summarize(current.overall);
+  const then = summarize(previous.overall);
+
+  const categorySummaries = BRANCH_CATEGORIES.map(category => ({
+    category,
+    totals: current.categories[category],
+    now: current.categories[category] ? summarize(current.categories[category]) : null,
+    then: previous.categories[category] ? summarize(previous.categories[category]) : null
+  })).filter((entry): entry is typeof entry & { now: MetricsSummary } => entry.now !== null);
+
+  const previousPerformers = new Map(previous.performers.map(performer => [performer.id, performer]));
+  const previousAnswers = new Map(heatmapRows(previous.answers).map(row => [row.field, row]));
+
+  return [
+    {
+      name: "Summary",
+      title: `Summary, ${period} against ${previousLabel}`,
+      columns: [col("Measure", "text"), col(period), col(previousLabel), col("Change", "change")],
+      rows: SUMMARY_ROWS.map(([label, key]) => [label, now[key], then[key], change(now[key], then[key])]),
+      percentRows: SUMMARY_ROWS.flatMap(([, , kind], index) => (kind === "percent" ? [index] : []))
+    },
+    {
+      name: "Categories",
+      title: `Category breakdown, ${period}`,
+      columns: [
+        col("Category", "text"),
+        col("Branches"),
+        col("Visits"),
+        col("Visits change", "change"),
+        col("Coverage", "percent"),
+        col("Coverage change", "pointChange"),
+        col("Participation", "percent"),
+        col("Manning", "percent"),
+        col("Attrition", "percent"),
+        col("ER", "percent"),
+        col("Non-vendor", "percent"),
+        col("CWT cases")
+      ],
+      rows: categorySummaries.map(({ category, now: summary, then: earlier }) => [
+        capitalize(category),
+        summary.totalBranches,
+        summary.visitCount,
+        change(summary.visitCount, earlier?.visitCount),
+        summary.coverage,
+        change(summary.coverage, earlier?.coverage),
+        summary.participation,
+        summary.averageManning,
+        summary.averageAttrition,
+        summary.averageEr,
+        summary.averageNonVendor,
+        summary.cwtCases
+      ])
+    },
+    {
+      name: "Coverage",
+      title: `Coverage of mapped branches, ${period}`,
+      columns: [
+        col("Category", "text"),
+        col("Mapped branches"),
+        col("Covered branches"),
+        col("Not covered"),
+        col("Coverage", "percent"),
+        col(`Coverage ${previousLabel}`, "percent"),
+        col("Change", "pointChange")
+      ],
+      rows: [
+        ...categorySummaries.map(({ category, totals, now: summary, then: earlier }) => [
+          capitalize(category),
+          totals.assignedBranches,
+          totals.coveredBranches,
+          totals.assignedBranches - totals.coveredBranches,
+          summary.coverage,
+          earlier ? earlier.coverage : null,
+          change(summary.coverage, earlier?.coverage)
+        ]),
+        [
+          "All categories",
+          current.overall.assignedBranches,
+          current.overall.coveredBranches,
+          current.overall.assignedBranches - current.overall.coveredBranches,
+          now.coverage,
+          then.coverage,
+          change(now.coverage, then.coverage)
+        ]
+      ]
+    },
+    {
+      name: "BH performance",
+      title: `BH performance, ${period}`,
+      columns: [
+        col("Branch Head", "text"),
+        col("E-code", "text"),
+        col("Visits"),
+        col("Visits change", "change"),
+        col("Branches visited"),
+        col("Coverage", "percent"),
+        col("Coverage change", "pointChange"),
+        col("Participation", "percent"),
+        col("Manning", "percent"),
+        col("Attrition", "percent")
+      ],
+      // A BH without reports last month has no change to show
+      rows: current.performers.map(performer => {
+        const earlier = previousPerformers.get(performer.id);
+        return [
+          performer.name,
+          performer.code || "",
+          performer.visitCount,
+          change(performer.visitCount, earlier?.visitCount),
+          performer.visitedBranches,
+          performer.coverage,
+          change(performer.coverage, earlier?.coverage),
+          performer.participation,
+          performer.averageManning,
+          performer.averageAttrition
+        ];
+      })
+    },
+    {
+      name: "Qualitative",
+      title: `Qualitative assessment, ${period}`,
+      columns: [
+        col("Question", "text"),
+        col("Yes"),
+        col("No"),
+        col("Answered"),
+        col("Yes rate", "percent"),
+        col(`Yes rate ${previousLabel}`, "percent"),
+        col("Change", "pointChange")
+      ],
+      rows: heatmapRows(current.answers).map(row => {
+        const earlier = previousAnswers.get(row.field);
+        const earlierRate = earlier && earlier.answered > 0 ? earlier.yesRate : null;
+        return [
+          row.question,
+          row.yes,
+          row.no,
+          row.answered,
+          row.answered > 0 ? row.yesRate : null,
+          earlierRate,
+          row.answered > 0 ? change(row.yesRate, earlierRate) : null
+        ];
+      })
+    }
+  ];
+}
+
+// The kind a cell is formatted as: its column's, except in percent rows
+export function cellKind(sheet: PackSheet, rowIndex: number, columnIndex: number): PackColumnKind {
+  const kind = sheet.columns[columnIndex].kind;
+  if (!sheet.percentRows?.includes(rowIndex)) return kind;
+  if (kind === "number") return "percent";
+  if (kind === "change") return "pointChange";
+  return kind;
+}
+
+export function formatCell(value: PackCell, kind: PackColumnKind): string {
+  if (value === null) return "";
+  if (typeof value === "string") return value;
+  switch (kind) {
+    case "percent": return `${value}%`;
+    case "change": return value > 0 ? `+${value}` : String(value);
+    case "pointChange": return `${value > 0 ? "+" : ""}${value} pts`;
+    default: return String(value);
+  }
+}
+
+const XLSX_FORMATS: Partial<Record<PackColumnKind, string>> = {
+  number: "0",
+  percent: '0"%"',
+  change: "+0;-0;0",
+  pointChange: '+0" pts";-0" pts";0" pts"'
+};
+
+export async function buildMonthlyPackXlsx(input: MonthlyPackInput, generatedAt: Date = new Date()): Promise<ArrayBuffer> {
+  const workbook = new Workbook();
+  workbook.creator = "HDFC Life Support";
+  workbook.created = generatedAt;
+  workbook.title = `Monthly pack, ${monthLabel(input.year, input.month)}`;
+
+  describeMonthlyPack(input).forEach(sheet => {
+    // Title, blank row, then the header row stays in view while scrolling
+    const worksheet = workbook.addWorksheet(sheet.name, { views: [{ state: "frozen", ySplit: 3 }] });
+    worksheet.addRow([sheet.title]).font = { bold: true, size: 13 };
+    worksheet.addRow([]);
+
+    const header = worksheet.addRow(sheet.columns.map(column => column.header));
+    header.font = { bold: true };
+    header.eachCell(cell => {
+      cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFF1F5F9" } };
+    });
+
+    sheet.rows.forEach((row, rowIndex) => {
+      const added = worksheet.addRow(row);
+      row.forEach((_, columnIndex) => {
+        const numFmt = XLSX_FORMATS[cellKind(sheet, rowIndex, columnIndex)];
+        if (numFmt) added.getCell(columnIndex + 1).numFmt = numFmt;
+      });
+    });
+
+    sheet.columns.forEach((column, index) => {
+      const widest = Math.max(
+        column.header.length,
+        ...sheet.rows.map((row, rowIndex) => formatCell(row[index], cellKind(sheet, rowIndex, index)).length)
+      );
+      worksheet.getColumn(index + 1).width = Math.min(Math.max(widest + 2, 10), 48);
+    });
+  });
+
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+}
+
+const MARGIN = 12;
+const BRAND: [number, number, number] = [30, 64, 175];
+const MUTED: [number, number, number] = [100, 116, 139];
+
+type PdfWithTables = jsPDF & { lastAutoTable: { finalY: number } };
+
+export function buildMonthlyPackPdf(input: MonthlyPackInput, generatedAt: Date = new Date()): jsPDF {
+  const doc = new jsPDF({ unit: "mm", format: "a4", orientation: "landscape" }) as PdfWithTables;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const period = monthLabel(input.year, input.month);
+  const before = previousMonth(input.year, input.month);
+
+  // Title band
+  doc.setFillColor(...BRAND);
+  doc.rect(0, 0, pageWidth, 26, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text("Monthly Summary Pack", MARGIN, 12);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(`${period} · compared with ${monthLabel(before.year, before.month)}`, MARGIN, 20);
+
+  let y = 34;
+
+  describeMonthlyPack(input).forEach(sheet => {
+    if (y > pageHeight - 40) {
+      doc.addPage();
+      y = MARGIN + 5;
+    }
+    doc.setTextColor(...BRAND);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.text(sheet.title, MARGIN, y);
+
+    autoTable(doc, {
+      startY: y + 2,
+      margin: { left: MARGIN, right: MARGIN, bottom: 16 },
+      theme: "grid",
+      styles: { font: "helvetica", fontSize: 8, cellPadding: 1.8, textColor: [15, 23, 42], lineColor: [226, 232, 240] },
+      headStyles: { fillColor: [241, 245, 249], textColor: [51, 65, 85], fontStyle: "bold" },
+      head: [sheet.columns.map(column => column.header)],
+      body: sheet.rows.length > 0
+        ? sheet.rows.map((row, rowIndex) => row.map((value, index) => formatCell(value, cellKind(sheet, rowIndex, index))))
+        : [[{ content: "Nothing reported this month.", colSpan: sheet.columns.length, styles: { textColor: MUTED } }]],
+      columnStyles: Object.fromEntries(
+        sheet.columns.map((column, index) => [index, { halign: column.kind === "text" ? "left" : "right" }])
+      )
+    });
+    y = doc.lastAutoTable.finalY + 10;
+  });
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, pageHeight - 11, pageWidth - MARGIN, pageHeight - 11);
+    doc.setTextColor(...MUTED);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.text(`Monthly pack · ${period} · generated ${format(generatedAt, "d MMM yyyy, HH:mm")}`, MARGIN, pageHeight - 6);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 6, { align: "right" });
+  }
+
+  return doc;
+}
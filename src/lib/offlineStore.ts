@@ -0,0 +1,92 @@
+// Thin promise wrapper around IndexedDB for data that has to survive a reload
+// while the device is offline: in-progress forms, visits waiting to be sent and
+// copies of server data the forms need (e.g. assigned branches).
+
+const DB_NAME = "hr-connect-offline";
+const DB_VERSION = 1;
+
+export const FORM_STORE = "forms";
+export const OUTBOX_STORE = "outbox";
+export const CACHE_STORE = "cache";
+
+export type OfflineStoreName = typeof FORM_STORE | typeof OUTBOX_STORE | typeof CACHE_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("Offline storage is not available in this browser"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(FORM_STORE)) {
+          db.createObjectStore(FORM_STORE, { keyPath: "key" });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: "localId" });
+          outbox.createIndex("user_id", "userId");
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: "key" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getRecord = <T>(storeName: OfflineStoreName, key: string) =>
+  runRequest<T | undefined>(storeName, "readonly", (store) => store.get(key));
+
+export const getRecordsByIndex = <T>(storeName: OfflineStoreName, index: string, value: string) =>
+  runRequest<T[]>(storeName, "readonly", (store) => store.index(index).getAll(value));
+
+export const putRecord = async <T>(storeName: OfflineStoreName, record: T): Promise<void> => {
+  await runRequest(storeName, "readwrite", (store) => store.put(record));
+};
+
+export const deleteRecord = async (storeName: OfflineStoreName, key: string): Promise<void> => {
+  await runRequest(storeName, "readwrite", (store) => store.delete(key));
+};
+
+// Key/value records for the form and cache stores
+export interface Snapshot<T> {
+  key: string;
+  value: T;
+  savedAt: string;
+}
+
+export const saveSnapshot = <T>(storeName: typeof FORM_STORE | typeof CACHE_STORE, key: string, value: T) =>
+  putRecord<Snapshot<T>>(storeName, { key, value, savedAt: new Date().toISOString() });
+
+export const loadSnapshot = <T>(storeName: typeof FORM_STORE | typeof CACHE_STORE, key: string) =>
+  getRecord<Snapshot<T>>(storeName, key);
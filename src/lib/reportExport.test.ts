@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  ASSIGNMENT_COLUMNS,
+  bhPerformanceFromRow,
+  csvCell,
+  csvRow,
+  exportFileName,
+  exportPeriod,
+  pageThrough,
+  tableCsv
+} from "@/lib/reportExport";
+
+describe("csvCell", () => {
+  it("quotes only the cells that need it", () => {
+    expect(csvCell("Andheri West")).toBe("Andheri West");
+    expect(csvCell(42)).toBe("42");
+    expect(csvCell(null)).toBe("");
+    expect(csvCell("Mumbai, West")).toBe('"Mumbai, West"');
+    expect(csvCell('said "fine"\nthen left')).toBe('"said ""fine""\nthen left"');
+  });
+});
+
+describe("csvRow", () => {
+  it("flattens the joined branch and profile into columns", () => {
+    const rows = [{
+      assigned_at: "2026-10-01T09:00:00Z",
+      unassigned_at: null,
+      branches: { name: "Andheri West", branch_code: "MUM-014", location: "Mumbai", category: "gold" },
+      profiles: { full_name: "Asha Rao", e_code: "E1042" }
+    }];
+
+    expect(csvRow(ASSIGNMENT_COLUMNS.map(column => column.header))).toBe(
+      "bh_name,bh_code,branch_name,branch_code,branch_location,branch_category,assigned_at,unassigned_at\r\n"
+    );
+    expect(csvRow(ASSIGNMENT_COLUMNS.map(column => column.value(rows[0])))).toBe(
+      "Asha Rao,E1042,Andheri West,MUM-014,Mumbai,gold,2026-10-01T09:00:00Z,\r\n"
+    );
+  });
+});
+
+describe("tableCsv", () => {
+  it("writes the header alone when there are no rows", async () => {
+    const chunks = [];
+    for await (const chunk of tableCsv({ headers: ["bh_name", "bh_code"], pages: (async function* () {})() })) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual([{ text: "bh_name,bh_code\r\n", rows: 0 }]);
+  });
+});
+
+describe("exportPeriod", () => {
+  it("covers the whole calendar month", () => {
+    expect(exportPeriod({ year: 2026, month: 2 })).toEqual({ from: "2026-02-01", to: "2026-02-28" });
+  });
+});
+
+describe("exportFileName", () => {
+  it("names every filter in effect", () => {
+    expect(exportFileName("branch_visits", { year: 2026, month: 3 })).toBe("branch-visits_2026-03.csv");
+    expect(exportFileName(
+      "bh_performance",
+      { year: 2026, month: 10, location: "Navi Mumbai", category: "gold", bhId: "uuid-1" },
+      "E1042"
+    )).toBe("bh-performance_2026-10_navi-mumbai_gold_e1042.csv");
+  });
+});
+
+describe("pageThrough", () => {
+  it("reads pages until a short one", async () => {
+    const rows = Array.from({ length: 5 }, (_, index) => index);
+    const requested: [number, number][] = [];
+    const pages: number[][] = [];
+
+    for await (const page of pageThrough(async (from, to) => {
+      requested.push([from, to]);
+      return { data: rows.slice(from, to + 1), error: null };
+    }, 2)) {
+      pages.push(page);
+    }
+
+    expect(pages).toEqual([[0, 1], [2, 3], [4]]);
+    expect(requested).toEqual([[0, 1], [2, 3], [4, 5]]);
+  });
+
+  it("stops at an empty page and rethrows query errors", async () => {
+    const pages: number[][] = [];
+    for await (const page of pageThrough(async () => ({ data: [] as number[], error: null }), 2)) pages.push(page);
+    expect(pages).toEqual([]);
+
+    const failing = pageThrough(async () => ({ data: null, error: new Error("timeout") }));
+    await expect(failing.next()).rejects.toThrow("timeout");
+  });
+});
+
+describe("bhPerformanceFromRow", () => {
+  it("maps a bh_report_counts row, numbering bigint strings", () => {
+    const row = bhPerformanceFromRow({
+      bh_id: "bh-1",
+      full_name: "Asha Rao",
+      e_code: "E1042",
+      total_visits: "3" as unknown as number,
+      branches_visited: 2,
+      submitted_reports: 1,
+      approved_reports: 1,
+      needs_revision_reports: 1,
+      rejected_reports: 0
+    });
+
+    expect(row).toEqual({
+      bhId: "bh-1", bhName: "Asha Rao", bhCode: "E1042", totalVisits: 3, branchesVisited: 2, awaitingReview: 1, approved: 1, needsRevision: 1, rejected: 0
+    });
+  });
+});
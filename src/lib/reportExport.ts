@@ -0,0 +1,380 @@
+// CSV exports of the CH reports.
+//
+// Every export takes the same filters as CHReports (month, location, branch
+// category, BH) and applies them in the query, so a file only ever holds what
+// its name says. Rows are read a page at a time and turned into CSV lines as
+// they arrive; the nested branch and profile joins become plain columns.
+//
+// The exports take the Supabase client as an argument so the same code runs
+// in the browser (services/exportService.ts) and in scheduled jobs.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+import type { BranchCategory } from "@/lib/metrics";
+import { REPORTED_STATUSES } from "@/lib/reportWorkflow";
+
+type Client = SupabaseClient<Database>;
+
+export type ExportReport = "branch_visits" | "bh_performance" | "branch_assignments";
+
+export const EXPORT_REPORT_LABELS: Record<ExportReport, string> = {
+  branch_visits: "Branch visit data",
+  bh_performance: "BH performance summary",
+  branch_assignments: "Branch assignments"
+};
+
+// An unset dimension does not narrow the export
+export interface ExportFilters {
+  year: number;
+  // 1-based
+  month: number;
+  location?: string | null;
+  category?: BranchCategory | null;
+  bhId?: string | null;
+}
+
+export type ExportCell = string | number | boolean | null | undefined;
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => ExportCell;
+}
+
+// An export before it is written out: its header and its rows, page by page
+export interface ExportTable {
+  headers: string[];
+  pages: AsyncIterable<ExportCell[][]>;
+}
+
+export const EXPORT_PAGE_SIZE = 1000;
+
+export function exportPeriod({ year, month }: Pick<ExportFilters, "year" | "month">): { from: string; to: string } {
+  return {
+    from: format(new Date(year, month - 1, 1), "yyyy-MM-dd"),
+    to: format(new Date(year, month, 0), "yyyy-MM-dd")
+  };
+}
+
+// RFC 4180: quote a cell when it holds a comma, quote or line break, and
+// double the quotes inside it
+export function csvCell(value: ExportCell): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const csvRow = (cells: ExportCell[]) => cells.map(csvCell).join(",") + "\r\n";
+
+// Reads a query page by page until a short page says there is no more.
+// fetchPage gets inclusive row offsets, as PostgREST's range() does.
+export async function* pageThrough<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+  pageSize = EXPORT_PAGE_SIZE
+): AsyncGenerator<T[]> {
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await fetchPage(offset, offset + pageSize - 1);
+    if (error) throw error;
+
+    const rows = data || [];
+    if (rows.length > 0) yield rows;
+    if (rows.length < pageSize) return;
+  }
+}
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+
+// Names the file after every filter in effect. bhLabel is how the BH should
+// appear in the name (their employee code, say); the id is used without it.
+export function exportFileName(
+  report: ExportReport,
+  filters: ExportFilters,
+  bhLabel?: string | null,
+  extension: "csv" | "xlsx" = "csv"
+): string {
+  const parts = [
+    report.replace(/_/g, "-"),
+    `${filters.year}-${String(filters.month).padStart(2, "0")}`,
+    filters.location && slug(filters.location),
+    filters.category,
+    filters.bhId && slug(bhLabel || filters.bhId)
+  ];
+  return `${parts.filter(Boolean).join("_")}.${extension}`;
+}
+
+interface JoinedBranch {
+  name: string;
+  branch_code: string | null;
+  location: string;
+  category: string;
+}
+
+interface JoinedProfile {
+  full_name: string | null;
+  e_code: string | null;
+}
+
+type VisitRow = Pick<
+  Database['public']['Tables']['branch_visits']['Row'],
+  | 'id'
+  | 'visit_date'
+  | 'status'
+  | 'hr_connect_session'
+  | 'total_employees_invited'
+  | 'total_participants'
+  | 'manning_percentage'
+  | 'attrition_percentage'
+  | 'non_vendor_percentage'
+  | 'er_percentage'
+  | 'cwt_cases'
+  | 'performance_level'
+  | 'new_employees_total'
+  | 'new_employees_covered'
+  | 'star_employees_total'
+  | 'star_employees_covered'
+  | 'leaders_aligned_with_code'
+  | 'employees_feel_safe'
+  | 'employees_feel_motivated'
+  | 'leaders_abusive_language'
+  | 'employees_comfort_escalation'
+  | 'inclusive_culture'
+  | 'feedback'
+  | 'created_at'
+  | 'updated_at'
+> & {
+  branches: JoinedBranch | null;
+  profiles: JoinedProfile | null;
+};
+
+export interface BHPerformanceRow {
+  bhId: string;
+  bhName: string;
+  bhCode: string | null;
+  totalVisits: number;
+  branchesVisited: number;
+  awaitingReview: number;
+  approved: number;
+  needsRevision: number;
+  rejected: number;
+}
+
+type AssignmentRow = Pick<Database['public']['Tables']['branch_assignments']['Row'], 'assigned_at' | 'unassigned_at'> & {
+  branches: JoinedBranch | null;
+  profiles: JoinedProfile | null;
+};
+
+const branchColumns = <T extends { branches: JoinedBranch | null }>(): CsvColumn<T>[] => [
+  { header: "branch_name", value: row => row.branches?.name },
+  { header: "branch_code", value: row => row.branches?.branch_code },
+  { header: "branch_location", value: row => row.branches?.location },
+  { header: "branch_category", value: row => row.branches?.category }
+];
+
+const profileColumns = <T extends { profiles: JoinedProfile | null }>(): CsvColumn<T>[] => [
+  { header: "bh_name", value: row => row.profiles?.full_name },
+  { header: "bh_code", value: row => row.profiles?.e_code }
+];
+
+const VISIT_FIELDS: (keyof VisitRow)[] = [
+  "hr_connect_session",
+  "total_employees_invited",
+  "total_participants",
+  "manning_percentage",
+  "attrition_percentage",
+  "non_vendor_percentage",
+  "er_percentage",
+  "cwt_cases",
+  "performance_level",
+  "new_employees_total",
+  "new_employees_covered",
+  "star_employees_total",
+  "star_employees_covered",
+  "leaders_aligned_with_code",
+  "employees_feel_safe",
+  "employees_feel_motivated",
+  "leaders_abusive_language",
+  "employees_comfort_escalation",
+  "inclusive_culture",
+  "feedback",
+  "created_at",
+  "updated_at"
+];
+
+export const VISIT_COLUMNS: CsvColumn<VisitRow>[] = [
+  { header: "visit_id", value: row => row.id },
+  { header: "visit_date", value: row => row.visit_date },
+  { header: "status", value: row => row.status },
+  ...branchColumns<VisitRow>(),
+  ...profileColumns<VisitRow>(),
+  ...VISIT_FIELDS.map(field => ({ header: field, value: (row: VisitRow) => row[field] as string | number | boolean | null }))
+];
+
+export const BH_PERFORMANCE_COLUMNS: CsvColumn<BHPerformanceRow>[] = [
+  { header: "bh_name", value: row => row.bhName },
+  { header: "bh_code", value: row => row.bhCode },
+  { header: "total_visits", value: row => row.totalVisits },
+  { header: "branches_visited", value: row => row.branchesVisited },
+  { header: "awaiting_review", value: row => row.awaitingReview },
+  { header: "approved", value: row => row.approved },
+  { header: "needs_revision", value: row => row.needsRevision },
+  { header: "rejected", value: row => row.rejected }
+];
+
+export const ASSIGNMENT_COLUMNS: CsvColumn<AssignmentRow>[] = [
+  ...profileColumns<AssignmentRow>(),
+  ...branchColumns<AssignmentRow>(),
+  { header: "assigned_at", value: row => row.assigned_at },
+  { header: "unassigned_at", value: row => row.unassigned_at }
+];
+
+type BHReportCountsRow = Database['public']['Functions']['bh_report_counts']['Returns'][number];
+
+// bigint columns can arrive as strings, hence Number()
+export function bhPerformanceFromRow(row: BHReportCountsRow): BHPerformanceRow {
+  return {
+    bhId: row.bh_id,
+    bhName: row.full_name || "Unknown",
+    bhCode: row.e_code,
+    totalVisits: Number(row.total_visits),
+    branchesVisited: Number(row.branches_visited),
+    awaitingReview: Number(row.submitted_reports),
+    approved: Number(row.approved_reports),
+    needsRevision: Number(row.needs_revision_reports),
+    rejected: Number(row.rejected_reports)
+  };
+}
+
+// Reported visits in the month, one row per visit
+function visitQuery(client: Client, filters: ExportFilters) {
+  const { from, to } = exportPeriod(filters);
+  let query = client
+    .from('branch_visits')
+    .select(`
+      id, visit_date, status, hr_connect_session,
+      total_employees_invited, total_participants,
+      manning_percentage, attrition_percentage, non_vendor_percentage, er_percentage, cwt_cases, performance_level,
+      new_employees_total, new_employees_covered, star_employees_total, star_employees_covered,
+      leaders_aligned_with_code, employees_feel_safe, employees_feel_motivated,
+      leaders_abusive_language, employees_comfort_escalation, inclusive_culture,
+      feedback, created_at, updated_at,
+      branches!inner (name, branch_code, location, category),
+      profiles:user_id (full_name, e_code)
+    `)
+    .in('status', REPORTED_STATUSES)
+    .gte('visit_date', from)
+    .lte('visit_date', to);
+  if (filters.location) query = query.eq('branches.location', filters.location);
+  if (filters.category) query = query.eq('branches.category', filters.category);
+  if (filters.bhId) query = query.eq('user_id', filters.bhId);
+
+  // A stable order keeps the pages from overlapping
+  return query.order('visit_date').order('id');
+}
+
+// Assignments in effect at any point during the month, as in visit_totals
+function assignmentQuery(client: Client, filters: ExportFilters) {
+  const { from } = exportPeriod(filters);
+  const nextMonth = format(new Date(filters.year, filters.month, 1), "yyyy-MM-dd");
+  let query = client
+    .from('branch_assignments')
+    .select(`
+      id,
+      assigned_at,
+      unassigned_at,
+      branches!inner (name, branch_code, location, category),
+      profiles!user_id (full_name, e_code)
+    `)
+    .lt('assigned_at', nextMonth)
+    .or(`unassigned_at.is.null,unassigned_at.gte.${from}`);
+  if (filters.location) query = query.eq('branches.location', filters.location);
+  if (filters.category) query = query.eq('branches.category', filters.category);
+  if (filters.bhId) query = query.eq('user_id', filters.bhId);
+
+  return query.order('assigned_at').order('id');
+}
+
+// Per-BH report counts for the month from the bh_report_counts database
+// function: every BH, with or without visits; drafts are not reports
+async function loadBHPerformance(client: Client, filters: ExportFilters): Promise<BHPerformanceRow[]> {
+  const { from, to } = exportPeriod(filters);
+  const { data, error } = await client.rpc('bh_report_counts', {
+    from_date: from,
+    to_date: to,
+    location: filters.location || null,
+    branch_category: filters.category || null,
+    bh: filters.bhId || null
+  });
+  if (error) throw error;
+
+  return (data || []).map(bhPerformanceFromRow);
+}
+
+async function* cellPages<T>(columns: CsvColumn<T>[], pages: AsyncIterable<T[]>): AsyncGenerator<ExportCell[][]> {
+  for await (const page of pages) {
+    yield page.map(row => columns.map(column => column.value(row)));
+  }
+}
+
+const toTable = <T>(columns: CsvColumn<T>[], pages: AsyncIterable<T[]>): ExportTable => ({
+  headers: columns.map(column => column.header),
+  pages: cellPages(columns, pages)
+});
+
+// The export's rows, read from the database page by page as they are consumed
+export function reportTable(
+  client: Client,
+  report: ExportReport,
+  filters: ExportFilters,
+  pageSize = EXPORT_PAGE_SIZE
+): ExportTable {
+  switch (report) {
+    case "branch_visits":
+      return toTable(VISIT_COLUMNS, pageThrough(
+        (start, end) => visitQuery(client, filters).range(start, end),
+        pageSize
+      ));
+    case "branch_assignments":
+      return toTable(ASSIGNMENT_COLUMNS, pageThrough(
+        (start, end) => assignmentQuery(client, filters).range(start, end),
+        pageSize
+      ));
+    case "bh_performance":
+      return toTable(BH_PERFORMANCE_COLUMNS, (async function* () {
+        yield await loadBHPerformance(client, filters);
+      })());
+  }
+}
+
+export interface CsvChunk {
+  text: string;
+  // Data rows in the chunk; the header is not one
+  rows: number;
+}
+
+// The table as CSV, one chunk per page. The header goes out with the first
+// page, so nothing is produced until the query has succeeded once; it goes
+// out alone when there are no rows.
+export async function* tableCsv(table: ExportTable): AsyncGenerator<CsvChunk> {
+  let header = csvRow(table.headers);
+  for await (const page of table.pages) {
+    yield { text: header + page.map(csvRow).join(""), rows: page.length };
+    header = "";
+  }
+  if (header) yield { text: header, rows: 0 };
+}
+
+// Reads the whole export into memory as CSV
+export async function buildReportCsv(
+  client: Client,
+  report: ExportReport,
+  filters: ExportFilters,
+  pageSize = EXPORT_PAGE_SIZE
+): Promise<{ chunks: string[]; rowCount: number }> {
+  const chunks: string[] = [];
+  let rowCount = 0;
+  for await (const chunk of tableCsv(reportTable(client, report, filters, pageSize))) {
+    chunks.push(chunk.text);
+    rowCount += chunk.rows;
+  }
+  return { chunks, rowCount };
+}
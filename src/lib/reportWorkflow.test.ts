@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  ReportStatus,
+  assertTransition,
+  canTransition,
+  getAllowedTransitions,
+  getReviewDecisions,
+  getSubmitStatus,
+  isEditable
+} from "@/lib/reportWorkflow";
+
+const STATUSES: ReportStatus[] = ["draft", "submitted", "needs_revision", "resubmitted", "approved", "rejected"];
+const ROLES = ["BH", "ZH", "CH", "admin", null];
+
+// Every move report_transition_allowed (report_workflow migration) lets
+// through, written out from its case expression. Anything else is blocked.
+const SQL_ALLOWED = [
+  "new -> draft by BH",
+  "new -> submitted by BH",
+  "draft -> draft by BH",
+  "draft -> submitted by BH",
+  "submitted -> approved by ZH",
+  "submitted -> approved by admin",
+  "submitted -> rejected by ZH",
+  "submitted -> rejected by admin",
+  "submitted -> needs_revision by ZH",
+  "submitted -> needs_revision by admin",
+  "needs_revision -> needs_revision by BH",
+  "needs_revision -> resubmitted by BH",
+  "resubmitted -> approved by ZH",
+  "resubmitted -> approved by admin",
+  "resubmitted -> rejected by ZH",
+  "resubmitted -> rejected by admin",
+  "resubmitted -> needs_revision by ZH",
+  "resubmitted -> needs_revision by admin"
+];
+
+describe("canTransition", () => {
+  it("allows exactly the moves the database allows, per role", () => {
+    const allowed = [null, ...STATUSES].flatMap(from =>
+      STATUSES.flatMap(to =>
+        ROLES.filter(role => canTransition(from, to, role)).map(role => `${from ?? "new"} -> ${to} by ${role}`)
+      )
+    );
+
+    expect(allowed.sort()).toEqual([...SQL_ALLOWED].sort());
+  });
+
+  it("does not let a BH review their own report", () => {
+    for (const from of ["submitted", "resubmitted"] as ReportStatus[]) {
+      expect(canTransition(from, "approved", "BH")).toBe(false);
+      expect(canTransition(from, "rejected", "BH")).toBe(false);
+      expect(canTransition(from, "needs_revision", "BH")).toBe(false);
+    }
+  });
+
+  it("closes approved and rejected reports to everyone", () => {
+    expect(getAllowedTransitions("approved", "admin")).toEqual([]);
+    expect(getAllowedTransitions("rejected", "BH")).toEqual([]);
+  });
+
+  it("blocks unknown and missing roles", () => {
+    expect(canTransition(null, "draft", undefined)).toBe(false);
+    expect(canTransition("submitted", "approved", "manager")).toBe(false);
+  });
+});
+
+describe("assertTransition", () => {
+  it("passes allowed moves", () => {
+    expect(() => assertTransition("draft", "submitted", "BH")).not.toThrow();
+  });
+
+  it("names the role and both statuses when it blocks a move", () => {
+    expect(() => assertTransition("submitted", "approved", "BH"))
+      .toThrow("A BH cannot move a report from Submitted to Approved.");
+    expect(() => assertTransition(null, "approved", null))
+      .toThrow("A user cannot move a report from New to Approved.");
+  });
+});
+
+describe("isEditable", () => {
+  it("lets the BH edit new, draft and sent-back reports", () => {
+    expect(isEditable(null, "BH")).toBe(true);
+    expect(isEditable("draft", "BH")).toBe(true);
+    expect(isEditable("needs_revision", "BH")).toBe(true);
+  });
+
+  it("locks reports once submitted, and after approval", () => {
+    for (const status of ["submitted", "resubmitted", "approved", "rejected"] as ReportStatus[]) {
+      expect(isEditable(status, "BH")).toBe(false);
+    }
+  });
+
+  it("never lets a reviewer edit report content", () => {
+    for (const status of STATUSES) {
+      expect(isEditable(status, "ZH")).toBe(false);
+      expect(isEditable(status, "admin")).toBe(false);
+    }
+  });
+});
+
+describe("getSubmitStatus", () => {
+  it("resubmits a report that was sent back and submits anything else", () => {
+    expect(getSubmitStatus("needs_revision")).toBe("resubmitted");
+    expect(getSubmitStatus("draft")).toBe("submitted");
+    expect(getSubmitStatus(null)).toBe("submitted");
+  });
+});
+
+describe("getReviewDecisions", () => {
+  it("offers reviewers all three decisions on a report awaiting review", () => {
+    expect(getReviewDecisions("submitted", "ZH")).toEqual(["approved", "rejected", "needs_revision"]);
+    expect(getReviewDecisions("resubmitted", "admin")).toEqual(["approved", "rejected", "needs_revision"]);
+  });
+
+  it("offers nothing to the BH, the CH, or on reports not awaiting review", () => {
+    expect(getReviewDecisions("submitted", "BH")).toEqual([]);
+    expect(getReviewDecisions("submitted", "CH")).toEqual([]);
+    expect(getReviewDecisions("needs_revision", "ZH")).toEqual([]);
+    expect(getReviewDecisions("approved", "ZH")).toEqual([]);
+  });
+});
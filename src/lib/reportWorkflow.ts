@@ -0,0 +1,114 @@
+// Branch visit report lifecycle.
+//
+//   draft ──► submitted ──┬──► approved
+//                         ├──► rejected
+//                         └──► needs_revision ──► resubmitted ──► (reviewed like submitted)
+//
+// Every status change in the app goes through this module. The same table is
+// enforced in the database by the trigger in the report_workflow migration,
+// so keep the two in sync.
+
+import type { Database } from "@/integrations/supabase/types";
+
+export type ReportStatus =
+  | "draft"
+  | "submitted"
+  | "needs_revision"
+  | "resubmitted"
+  | "approved"
+  | "rejected";
+
+export type UserRole = Database['public']['Tables']['profiles']['Row']['role'];
+
+export type ReviewDecision = "approved" | "rejected" | "needs_revision";
+
+const REVIEWERS: UserRole[] = ["ZH", "admin"];
+
+// `new` is a report that has not been saved yet (from === null)
+const TRANSITIONS: Record<ReportStatus | "new", Partial<Record<ReportStatus, UserRole[]>>> = {
+  new: {
+    draft: ["BH"],
+    submitted: ["BH"],
+  },
+  draft: {
+    draft: ["BH"],
+    submitted: ["BH"],
+  },
+  submitted: {
+    approved: REVIEWERS,
+    rejected: REVIEWERS,
+    needs_revision: REVIEWERS,
+  },
+  needs_revision: {
+    needs_revision: ["BH"],
+    resubmitted: ["BH"],
+  },
+  resubmitted: {
+    approved: REVIEWERS,
+    rejected: REVIEWERS,
+    needs_revision: REVIEWERS,
+  },
+  approved: {},
+  rejected: {},
+};
+
+// Reports waiting for a ZH decision
+export const AWAITING_REVIEW_STATUSES: ReportStatus[] = ["submitted", "resubmitted"];
+
+// Reports that count as a completed visit in coverage and analytics
+export const REPORTED_STATUSES: ReportStatus[] = ["submitted", "resubmitted", "approved"];
+
+export const STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  needs_revision: "Needs Revision",
+  resubmitted: "Resubmitted",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const canTransition = (
+  from: ReportStatus | null,
+  to: ReportStatus,
+  role: string | null | undefined
+): boolean => {
+  const allowedRoles = TRANSITIONS[from ?? "new"]?.[to];
+  return !!allowedRoles && !!role && allowedRoles.includes(role as UserRole);
+};
+
+export const assertTransition = (
+  from: ReportStatus | null,
+  to: ReportStatus,
+  role: string | null | undefined
+): void => {
+  if (!canTransition(from, to, role)) {
+    const fromLabel = from ? STATUS_LABELS[from] ?? from : "New";
+    const toLabel = STATUS_LABELS[to] ?? to;
+    throw new Error(`A ${role || "user"} cannot move a report from ${fromLabel} to ${toLabel}.`);
+  }
+};
+
+export const getAllowedTransitions = (
+  from: ReportStatus | null,
+  role: string | null | undefined
+): ReportStatus[] => {
+  const targets = TRANSITIONS[from ?? "new"] || {};
+  return (Object.keys(targets) as ReportStatus[]).filter(to => canTransition(from, to, role));
+};
+
+// The BH can change report content only while it is theirs to work on
+export const isEditable = (status: ReportStatus | null, role: string | null | undefined): boolean =>
+  canTransition(status, status ?? "draft", role);
+
+// Status a BH's "Submit" moves the report to
+export const getSubmitStatus = (from: ReportStatus | null): ReportStatus =>
+  from === "needs_revision" ? "resubmitted" : "submitted";
+
+// Decisions open to a reviewer on a report in this status
+export const getReviewDecisions = (
+  from: ReportStatus | null,
+  role: string | null | undefined
+): ReviewDecision[] =>
+  getAllowedTransitions(from, role).filter(
+    (to): to is ReviewDecision => to === "approved" || to === "rejected" || to === "needs_revision"
+  );
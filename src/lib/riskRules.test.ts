@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { evaluateVisitRisk, matchesRule, rankRiskyBranches, RiskRule } from "@/lib/riskRules";
+
+const rule = (overrides: Partial<RiskRule> & Pick<RiskRule, "id" | "field" | "operator" | "threshold">): RiskRule => ({
+  name: overrides.id,
+  severity: "amber",
+  weight: 1,
+  enabled: true,
+  created_at: "2026-10-01T00:00:00Z",
+  updated_at: "2026-10-01T00:00:00Z",
+  ...overrides
+});
+
+const RULES: RiskRule[] = [
+  rule({ id: "very-high-attrition", field: "attrition_percentage", operator: "gte", threshold: "40", severity: "red", weight: 3 }),
+  rule({ id: "high-attrition", field: "attrition_percentage", operator: "gte", threshold: "25" }),
+  rule({ id: "abusive", field: "leaders_abusive_language", operator: "eq", threshold: "yes", severity: "red", weight: 3 }),
+  rule({ id: "unsafe", field: "employees_feel_safe", operator: "eq", threshold: "no", severity: "red", weight: 3 }),
+  rule({ id: "low-manning", field: "manning_percentage", operator: "lt", threshold: "80", enabled: false })
+];
+
+describe("matchesRule", () => {
+  it("compares numbers against the threshold", () => {
+    const gte = { field: "attrition_percentage", operator: "gte", threshold: "25" } as const;
+    expect(matchesRule(gte, { attrition_percentage: 25 })).toBe(true);
+    expect(matchesRule(gte, { attrition_percentage: 24.9 })).toBe(false);
+    expect(matchesRule({ ...gte, operator: "lt" }, { attrition_percentage: 10 })).toBe(true);
+  });
+
+  it("matches yes/no answers regardless of case", () => {
+    const rule = { field: "employees_feel_safe", operator: "eq", threshold: "no" } as const;
+    expect(matchesRule(rule, { employees_feel_safe: "No" })).toBe(true);
+    expect(matchesRule(rule, { employees_feel_safe: "yes" })).toBe(false);
+  });
+
+  it("never matches a field left blank", () => {
+    const rule = { field: "manning_percentage", operator: "lt", threshold: "80" } as const;
+    expect(matchesRule(rule, { manning_percentage: null })).toBe(false);
+    expect(matchesRule(rule, {})).toBe(false);
+  });
+});
+
+describe("evaluateVisitRisk", () => {
+  it("takes the worst severity and sums the weights of every matched rule", () => {
+    const risk = evaluateVisitRisk({ attrition_percentage: 42, employees_feel_safe: "no" }, RULES);
+    expect(risk.level).toBe("red");
+    expect(risk.score).toBe(7);
+    expect(risk.flags.map(flag => flag.ruleId)).toEqual(["very-high-attrition", "unsafe", "high-attrition"]);
+    expect(risk.flags[0].detail).toBe("Attrition % 42 ≥ 40");
+  });
+
+  it("is amber when only amber rules match and ignores disabled rules", () => {
+    const risk = evaluateVisitRisk({ attrition_percentage: 30, manning_percentage: 50 }, RULES);
+    expect(risk.level).toBe("amber");
+    expect(risk.score).toBe(1);
+  });
+
+  it("has no risk when nothing matches", () => {
+    expect(evaluateVisitRisk({ attrition_percentage: 5, employees_feel_safe: "yes" }, RULES)).toEqual({
+      level: "none",
+      score: 0,
+      flags: []
+    });
+  });
+});
+
+describe("rankRiskyBranches", () => {
+  const visit = (id: string, branchId: string, date: string, fields: object, status = "approved") => ({
+    id,
+    branch_id: branchId,
+    visit_date: date,
+    status,
+    ...fields
+  });
+
+  it("rates each branch by its latest reported visit, red first then by score", () => {
+    const ranked = rankRiskyBranches(
+      [
+        // An old red flag no longer counts once a newer report is clean
+        visit("a1", "recovered", "2026-08-01", { leaders_abusive_language: "yes" }),
+        visit("a2", "recovered", "2026-10-01", { leaders_abusive_language: "no" }),
+        // Drafts are not reported yet
+        visit("b1", "amber", "2026-10-01", { attrition_percentage: 30 }),
+        visit("b2", "amber", "2026-10-10", { leaders_abusive_language: "yes" }, "draft"),
+        visit("c1", "red", "2026-09-01", { employees_feel_safe: "no" }),
+        visit("d1", "worst", "2026-09-15", { employees_feel_safe: "no", attrition_percentage: 45 })
+      ],
+      RULES
+    );
+
+    expect(ranked.map(risk => [risk.branchId, risk.level, risk.score])).toEqual([
+      ["worst", "red", 7],
+      ["red", "red", 3],
+      ["amber", "amber", 1]
+    ]);
+    expect(ranked[2].visit.id).toBe("b1");
+  });
+});
@@ -0,0 +1,151 @@
+// Risk flags on visit reports.
+//
+// Each enabled rule in the risk_rules table compares one visit field with a
+// threshold. A visit raises a flag for every rule it matches; its risk level
+// is the most severe flag (red over amber) and its score is the sum of the
+// matched rules' weights. A field left blank never matches.
+//
+// A branch is as risky as its latest reported visit: an old red flag stops
+// counting once a newer report comes back clean.
+
+import type { Database } from "@/integrations/supabase/types";
+import { isReported } from "@/lib/metrics";
+
+export type RiskRule = Database['public']['Tables']['risk_rules']['Row'];
+export type RiskField = RiskRule['field'];
+export type RiskOperator = RiskRule['operator'];
+export type RiskSeverity = RiskRule['severity'];
+export type RiskLevel = RiskSeverity | "none";
+
+export const RISK_FIELDS: Record<RiskField, { label: string; kind: "number" | "yes_no" }> = {
+  manning_percentage: { label: "Manning %", kind: "number" },
+  attrition_percentage: { label: "Attrition %", kind: "number" },
+  er_percentage: { label: "ER %", kind: "number" },
+  non_vendor_percentage: { label: "Non-vendor %", kind: "number" },
+  cwt_cases: { label: "CWT cases", kind: "number" },
+  leaders_aligned_with_code: { label: "Leaders aligned with code", kind: "yes_no" },
+  employees_feel_safe: { label: "Employees feel safe", kind: "yes_no" },
+  employees_feel_motivated: { label: "Employees feel motivated", kind: "yes_no" },
+  leaders_abusive_language: { label: "Leaders use abusive language", kind: "yes_no" },
+  employees_comfort_escalation: { label: "Employees comfortable escalating", kind: "yes_no" },
+  inclusive_culture: { label: "Inclusive culture", kind: "yes_no" }
+};
+
+export const RISK_OPERATORS: Record<RiskOperator, string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  eq: "="
+};
+
+// The visit fields the rules can read
+export type RiskInput = Partial<Record<RiskField, number | string | null>>;
+
+export interface RiskFlag {
+  ruleId: string;
+  name: string;
+  severity: RiskSeverity;
+  // e.g. "Attrition % 42 ≥ 40"
+  detail: string;
+}
+
+export interface VisitRisk {
+  level: RiskLevel;
+  score: number;
+  flags: RiskFlag[];
+}
+
+export const NO_RISK: VisitRisk = { level: "none", score: 0, flags: [] };
+
+const SEVERITY_ORDER: Record<RiskLevel, number> = { red: 2, amber: 1, none: 0 };
+
+export function compareRiskLevels(a: RiskLevel, b: RiskLevel): number {
+  return SEVERITY_ORDER[a] - SEVERITY_ORDER[b];
+}
+
+export function matchesRule(rule: Pick<RiskRule, "field" | "operator" | "threshold">, visit: RiskInput): boolean {
+  const value = visit[rule.field];
+  if (value === null || value === undefined || value === "") return false;
+
+  if (RISK_FIELDS[rule.field].kind === "yes_no") {
+    return rule.operator === "eq" && String(value).toLowerCase() === rule.threshold.toLowerCase();
+  }
+
+  const actual = Number(value);
+  const threshold = Number(rule.threshold);
+  if (Number.isNaN(actual) || Number.isNaN(threshold)) return false;
+
+  switch (rule.operator) {
+    case "gt":
+      return actual > threshold;
+    case "gte":
+      return actual >= threshold;
+    case "lt":
+      return actual < threshold;
+    case "lte":
+      return actual <= threshold;
+    case "eq":
+      return actual === threshold;
+    default:
+      return false;
+  }
+}
+
+export function evaluateVisitRisk(visit: RiskInput, rules: RiskRule[]): VisitRisk {
+  const flags: RiskFlag[] = [];
+  let score = 0;
+  let level: RiskLevel = "none";
+
+  rules
+    .filter(rule => rule.enabled && matchesRule(rule, visit))
+    .forEach(rule => {
+      flags.push({
+        ruleId: rule.id,
+        name: rule.name,
+        severity: rule.severity,
+        detail: `${RISK_FIELDS[rule.field].label} ${visit[rule.field]} ${RISK_OPERATORS[rule.operator]} ${rule.threshold}`
+      });
+      score += rule.weight;
+      if (compareRiskLevels(rule.severity, level) > 0) level = rule.severity;
+    });
+
+  // Red flags first
+  flags.sort((a, b) => compareRiskLevels(b.severity, a.severity));
+
+  return { level, score, flags };
+}
+
+export interface RiskVisit extends RiskInput {
+  id: string;
+  branch_id: string;
+  visit_date: string;
+  status: string | null;
+}
+
+export interface BranchRisk<V extends RiskVisit = RiskVisit> extends VisitRisk {
+  branchId: string;
+  visit: V;
+}
+
+// Flagged branches by their latest reported visit, red before amber, then by score
+export function rankRiskyBranches<V extends RiskVisit>(visits: V[], rules: RiskRule[]): BranchRisk<V>[] {
+  const latest = new Map<string, V>();
+  visits
+    .filter(visit => isReported(visit.status))
+    .forEach(visit => {
+      const current = latest.get(visit.branch_id);
+      if (!current || visit.visit_date > current.visit_date) {
+        latest.set(visit.branch_id, visit);
+      }
+    });
+
+  return [...latest.values()]
+    .map(visit => ({ branchId: visit.branch_id, visit, ...evaluateVisitRisk(visit, rules) }))
+    .filter(risk => risk.level !== "none")
+    .sort((a, b) =>
+      compareRiskLevels(b.level, a.level) ||
+      b.score - a.score ||
+      b.visit.visit_date.localeCompare(a.visit.visit_date)
+    );
+}
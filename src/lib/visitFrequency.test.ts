@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { describeInterval, getDueState, rankBranchesByDue } from "@/lib/visitFrequency";
+
+const TODAY = new Date(2026, 9, 18, 11, 0);
+
+describe("getDueState", () => {
+  it("is on track well before the due date", () => {
+    const state = getDueState("2026-10-01", 30, TODAY);
+    expect(state.status).toBe("on_track");
+    expect(state.nextDueDate).toEqual(new Date(2026, 9, 31));
+    expect(state.daysOverdue).toBe(0);
+  });
+
+  it("is due soon within a week of the due date, including the day itself", () => {
+    expect(getDueState("2026-09-20", 30, TODAY).status).toBe("due_soon");
+    expect(getDueState("2026-09-18", 30, TODAY).status).toBe("due_soon");
+  });
+
+  it("counts the days past the due date once overdue", () => {
+    const state = getDueState("2026-07-01", 90, TODAY);
+    expect(state.status).toBe("overdue");
+    expect(state.nextDueDate).toEqual(new Date(2026, 8, 29));
+    expect(state.daysOverdue).toBe(19);
+  });
+
+  it("treats a branch that was never visited as overdue", () => {
+    expect(getDueState(null, 30, TODAY)).toEqual({
+      status: "overdue",
+      nextDueDate: null,
+      daysOverdue: 0,
+      neverVisited: true
+    });
+  });
+});
+
+describe("rankBranchesByDue", () => {
+  const branch = (id: string, category: "platinum" | "bronze" | "gold", last: string | null) => ({
+    branch_id: id,
+    name: `Branch ${id}`,
+    location: "Pune",
+    branch_code: null,
+    category,
+    last_visit_date: last
+  });
+
+  const ranked = rankBranchesByDue(
+    [
+      branch("recent", "platinum", "2026-10-15"),
+      branch("late", "platinum", "2026-08-01"),
+      branch("quarterly", "bronze", "2026-08-01"),
+      branch("never", "bronze", null),
+      branch("no-target", "gold", null)
+    ],
+    { platinum: 30, bronze: 90 },
+    TODAY
+  );
+
+  it("uses each branch's category interval", () => {
+    expect(ranked.find(b => b.branchId === "late")?.status).toBe("overdue");
+    expect(ranked.find(b => b.branchId === "quarterly")?.status).toBe("on_track");
+  });
+
+  it("puts never visited first, then the longest overdue", () => {
+    expect(ranked.map(b => b.branchId)).toEqual(["never", "late", "quarterly", "recent"]);
+  });
+
+  it("skips categories without a target", () => {
+    expect(ranked.find(b => b.branchId === "no-target")).toBeUndefined();
+  });
+});
+
+describe("describeInterval", () => {
+  it("names the common intervals", () => {
+    expect(describeInterval(30)).toBe("Monthly");
+    expect(describeInterval(90)).toBe("Quarterly");
+    expect(describeInterval(45)).toBe("Every 45 days");
+  });
+});
@@ -0,0 +1,107 @@
+// Visit frequency targets.
+//
+// Each branch category has to be visited every `interval_days` days (the
+// visit_frequency_targets table). A branch is due again that many days after
+// its latest reported visit, and overdue once that day has passed. A branch
+// that was never visited is overdue straight away.
+
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from "date-fns";
+import type { BranchCategory } from "@/lib/metrics";
+
+export type DueStatus = "overdue" | "due_soon" | "on_track";
+
+// Branches due within this many days are flagged as due soon
+export const DUE_SOON_DAYS = 7;
+
+export interface DueState {
+  status: DueStatus;
+  nextDueDate: Date | null;
+  // Days past the due date; 0 unless overdue
+  daysOverdue: number;
+  neverVisited: boolean;
+}
+
+export function getDueState(
+  lastVisitDate: string | null,
+  intervalDays: number,
+  today: Date = new Date()
+): DueState {
+  if (!lastVisitDate) {
+    return { status: "overdue", nextDueDate: null, daysOverdue: 0, neverVisited: true };
+  }
+
+  const nextDueDate = addDays(parseISO(lastVisitDate), intervalDays);
+  const daysUntilDue = differenceInCalendarDays(nextDueDate, startOfDay(today));
+
+  return {
+    status: daysUntilDue < 0 ? "overdue" : daysUntilDue <= DUE_SOON_DAYS ? "due_soon" : "on_track",
+    nextDueDate,
+    daysOverdue: Math.max(0, -daysUntilDue),
+    neverVisited: false
+  };
+}
+
+// "Every 30 days" reads better as "Monthly" where the interval allows
+export function describeInterval(intervalDays: number): string {
+  switch (intervalDays) {
+    case 7:
+      return "Weekly";
+    case 14:
+      return "Fortnightly";
+    case 30:
+      return "Monthly";
+    case 60:
+      return "Every 2 months";
+    case 90:
+      return "Quarterly";
+    case 180:
+      return "Half-yearly";
+    case 365:
+      return "Yearly";
+    default:
+      return `Every ${intervalDays} days`;
+  }
+}
+
+export interface BranchDue extends DueState {
+  branchId: string;
+  name: string;
+  location: string;
+  branchCode: string | null;
+  category: BranchCategory;
+  lastVisitDate: string | null;
+  intervalDays: number;
+}
+
+// Due state of every branch that has a target, most urgent first: never
+// visited, then by days overdue, then by next due date.
+export function rankBranchesByDue(
+  branches: {
+    branch_id: string;
+    name: string;
+    location: string;
+    branch_code: string | null;
+    category: BranchCategory;
+    last_visit_date: string | null;
+  }[],
+  intervals: Partial<Record<BranchCategory, number>>,
+  today: Date = new Date()
+): BranchDue[] {
+  return branches
+    .filter(branch => intervals[branch.category])
+    .map(branch => ({
+      branchId: branch.branch_id,
+      name: branch.name,
+      location: branch.location,
+      branchCode: branch.branch_code,
+      category: branch.category,
+      lastVisitDate: branch.last_visit_date,
+      intervalDays: intervals[branch.category] as number,
+      ...getDueState(branch.last_visit_date, intervals[branch.category] as number, today)
+    }))
+    .sort((a, b) =>
+      Number(b.neverVisited) - Number(a.neverVisited) ||
+      b.daysOverdue - a.daysOverdue ||
+      (a.nextDueDate?.getTime() ?? 0) - (b.nextDueDate?.getTime() ?? 0)
+    );
+}
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { supabase } from "@/integrations/supabase/client";
+import type { BranchVisitInput } from "@/services/branchService";
+import { flushOutbox, getOutbox, queueVisit, retryOutboxItem } from "@/lib/visitOutbox";
+import type { FakeSupabase } from "@/test/fakeSupabase";
+import { buildFixtures, seedId } from "@/test/fixtures";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createFakeSupabase } = await import("@/test/fakeSupabase");
+  const { FAKE_RPC } = await import("@/test/fakeRpc");
+  return { supabase: createFakeSupabase({}, FAKE_RPC) };
+});
+
+// IndexedDB is not available under Node; the outbox only needs keyed records
+// and the user index
+const records = vi.hoisted(() => new Map<string, { localId: string; userId: string }>());
+
+vi.mock("@/lib/offlineStore", () => ({
+  OUTBOX_STORE: "outbox",
+  getRecord: async (_store: string, key: string) => records.get(key),
+  getRecordsByIndex: async (_store: string, _index: string, userId: string) =>
+    [...records.values()].filter(record => record.userId === userId),
+  putRecord: async (_store: string, record: { localId: string; userId: string }) => {
+    records.set(record.localId, record);
+  },
+  deleteRecord: async (_store: string, key: string) => {
+    records.delete(key);
+  }
+}));
+
+const fake = supabase as unknown as FakeSupabase;
+
+const BH = seedId("bh-01");
+const PLAN = seedId("plan-01");
+
+const branchOf = (userId: string) =>
+  fake.tables.branch_assignments.find(assignment => assignment.user_id === userId).branch_id as string;
+
+const visit = (overrides: Partial<BranchVisitInput> = {}): BranchVisitInput => ({
+  user_id: BH,
+  branch_id: branchOf(BH),
+  visit_date: "2026-10-14",
+  branch_category: "gold",
+  total_employees_invited: 24,
+  total_participants: 21,
+  feedback: "Filed from the branch floor.",
+  status: "submitted",
+  ...overrides
+});
+
+beforeEach(() => {
+  records.clear();
+  fake.reset(buildFixtures());
+  fake.signInAs(BH);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("flushOutbox", () => {
+  it("sends a queued visit, removes it and completes its plan", async () => {
+    fake.tables.visit_plans.push({ id: PLAN, user_id: BH, branch_id: branchOf(BH), planned_date: "2026-10-14", status: "planned" });
+    const before = fake.tables.branch_visits.length;
+
+    await queueVisit(visit(), "Delhi Central", PLAN);
+    expect(await flushOutbox(BH)).toEqual({ sent: 1, failed: 0, conflicts: 0 });
+
+    expect(await getOutbox(BH)).toEqual([]);
+    expect(fake.tables.branch_visits).toHaveLength(before + 1);
+    const sent = fake.tables.branch_visits[before];
+    expect(sent).toMatchObject({ user_id: BH, visit_date: "2026-10-14", status: "submitted" });
+    expect(fake.tables.visit_plans[0]).toMatchObject({ status: "completed", visit_id: sent.id });
+  });
+
+  it("holds a visit back as a conflict when one for the same branch and date is already saved", async () => {
+    const existing = fake.tables.branch_visits.find(row => row.user_id === BH);
+    const before = fake.tables.branch_visits.length;
+
+    const item = await queueVisit(visit({
+      branch_id: existing.branch_id as string,
+      visit_date: existing.visit_date as string
+    }));
+    expect(await flushOutbox(BH)).toEqual({ sent: 0, failed: 0, conflicts: 1 });
+
+    expect(await getOutbox(BH)).toEqual([
+      expect.objectContaining({ localId: item.localId, status: "conflict", conflictVisitId: existing.id })
+    ]);
+    expect(fake.tables.branch_visits).toHaveLength(before);
+  });
+
+  it("keeps a visit the server rejected, counting the attempt", async () => {
+    const item = await queueVisit(visit({ branch_category: null }));
+
+    expect(await flushOutbox(BH)).toEqual({ sent: 0, failed: 1, conflicts: 0 });
+    expect(await getOutbox(BH)).toEqual([
+      expect.objectContaining({
+        localId: item.localId,
+        status: "failed",
+        attempts: 1,
+        error: "Missing required fields for branch visit"
+      })
+    ]);
+
+    // A failed item waits for a manual retry instead of being resent
+    expect(await flushOutbox(BH)).toEqual({ sent: 0, failed: 0, conflicts: 0 });
+    expect(await retryOutboxItem(item.localId)).toBe("failed");
+    expect((await getOutbox(BH))[0].attempts).toBe(2);
+  });
+
+  it("leaves a visit pending when the connection drops", async () => {
+    vi.spyOn(fake, "from").mockImplementationOnce(() => {
+      throw new TypeError("Failed to fetch");
+    });
+
+    await queueVisit(visit());
+    expect(await flushOutbox(BH)).toEqual({ sent: 0, failed: 0, conflicts: 0 });
+    expect(await getOutbox(BH)).toEqual([expect.objectContaining({ status: "pending", attempts: 0 })]);
+  });
+});
+
+describe("retryOutboxItem", () => {
+  it("sends a conflicting visit once the user keeps both copies", async () => {
+    const existing = fake.tables.branch_visits.find(row => row.user_id === BH);
+    const item = await queueVisit(visit({
+      branch_id: existing.branch_id as string,
+      visit_date: existing.visit_date as string
+    }));
+    await flushOutbox(BH);
+
+    expect(await retryOutboxItem(item.localId, true)).toBe("sent");
+    expect(await getOutbox(BH)).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+import { BranchVisitInput, createBranchVisit, findUserVisitForBranchDate } from "@/services/branchService";
+import { completeVisitPlan } from "@/services/visitPlanService";
+import { OUTBOX_STORE, deleteRecord, getRecord, getRecordsByIndex, putRecord } from "@/lib/offlineStore";
+
+// Visits captured while offline wait here until they can be replayed through
+// createBranchVisit. Items only leave the outbox once the server accepted them
+// or the user discarded them.
+
+export type OutboxStatus = "pending" | "syncing" | "failed" | "conflict";
+
+export interface OutboxItem {
+  localId: string;
+  userId: string;
+  payload: BranchVisitInput;
+  branchName: string | null;
+  // The calendar plan the visit was filed from, completed once the visit is sent
+  planId: string | null;
+  status: OutboxStatus;
+  queuedAt: string;
+  attempts: number;
+  error: string | null;
+  conflictVisitId: string | null;
+}
+
+export type SendResult = "sent" | "offline" | "failed" | "conflict";
+
+export interface FlushSummary {
+  sent: number;
+  failed: number;
+  conflicts: number;
+}
+
+// "sent" means a visit reached the server, so server-side lists are stale too
+export type OutboxEvent = "changed" | "sent";
+
+const listeners = new Set<(event: OutboxEvent) => void>();
+
+const notify = (event: OutboxEvent = "changed") => listeners.forEach((listener) => listener(event));
+
+export const subscribeToOutbox = (listener: (event: OutboxEvent) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// True when a failure came from the connection rather than from the server
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = (error as { message?: string } | null)?.message || "";
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+const saveItem = async (item: OutboxItem) => {
+  await putRecord(OUTBOX_STORE, item);
+  notify();
+};
+
+export const queueVisit = async (
+  payload: BranchVisitInput,
+  branchName: string | null = null,
+  planId: string | null = null
+): Promise<OutboxItem> => {
+  if (!payload.user_id || !payload.branch_id || !payload.visit_date) {
+    throw new Error("Missing required fields for branch visit");
+  }
+
+  const item: OutboxItem = {
+    localId: crypto.randomUUID(),
+    userId: payload.user_id,
+    payload,
+    branchName,
+    planId,
+    status: "pending",
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    error: null,
+    conflictVisitId: null,
+  };
+
+  await saveItem(item);
+  return item;
+};
+
+export const getOutbox = async (userId: string): Promise<OutboxItem[]> => {
+  const items = await getRecordsByIndex<OutboxItem>(OUTBOX_STORE, "user_id", userId);
+  return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const discardOutboxItem = async (localId: string) => {
+  await deleteRecord(OUTBOX_STORE, localId);
+  notify();
+};
+
+// Replays one item. Before inserting, checks whether a visit for the same branch
+// and date reached the server from somewhere else (another device, or an earlier
+// attempt whose response was lost); that is reported as a conflict for the user
+// to resolve instead of creating a duplicate.
+const sendItem = async (item: OutboxItem, ignoreConflict: boolean): Promise<SendResult> => {
+  await saveItem({ ...item, status: "syncing" });
+
+  try {
+    if (!ignoreConflict) {
+      const existing = await findUserVisitForBranchDate(item.userId, item.payload.branch_id!, item.payload.visit_date!);
+      if (existing) {
+        await saveItem({
+          ...item,
+          status: "conflict",
+          conflictVisitId: existing.id,
+          error: "A visit for this branch and date was already saved from another session.",
+        });
+        return "conflict";
+      }
+    }
+
+    // The outbox reports failures on the item, not with a toast
+    const result = await createBranchVisit(item.payload, { silent: true });
+    if (!result.success) {
+      throw result.error;
+    }
+
+    await deleteRecord(OUTBOX_STORE, item.localId);
+
+    // The visit is on the server either way, so a failure here is only logged
+    if (item.planId) {
+      await completeVisitPlan(item.planId, result.data.id).catch((error) => {
+        console.error("Error completing visit plan:", error);
+      });
+    }
+
+    notify("sent");
+    return "sent";
+  } catch (error) {
+    if (isNetworkError(error)) {
+      await saveItem({ ...item, status: "pending" });
+      return "offline";
+    }
+
+    await saveItem({
+      ...item,
+      status: "failed",
+      attempts: item.attempts + 1,
+      error: (error as Error)?.message || "The server rejected this visit.",
+    });
+    return "failed";
+  }
+};
+
+let activeFlush: Promise<FlushSummary> | null = null;
+
+// Sends every pending item for the user, oldest first. Concurrent calls share
+// one run so an item is never sent twice by the same tab.
+export const flushOutbox = (userId: string): Promise<FlushSummary> => {
+  if (!activeFlush) {
+    activeFlush = (async () => {
+      const summary: FlushSummary = { sent: 0, failed: 0, conflicts: 0 };
+
+      // "syncing" items were interrupted by a reload; the conflict check catches
+      // the ones that did reach the server.
+      const items = (await getOutbox(userId)).filter(
+        (item) => item.status === "pending" || item.status === "syncing"
+      );
+
+      for (const item of items) {
+        const result = await sendItem(item, false);
+        if (result === "offline") break;
+        if (result === "sent") summary.sent += 1;
+        if (result === "failed") summary.failed += 1;
+        if (result === "conflict") summary.conflicts += 1;
+      }
+
+      return summary;
+    })().finally(() => {
+      activeFlush = null;
+    });
+  }
+
+  return activeFlush;
+};
+
+// Manual retry from the UI. Pass ignoreConflict to keep both copies after the
+// user has confirmed the one on the server is a different visit.
+export const retryOutboxItem = async (localId: string, ignoreConflict = false): Promise<SendResult> => {
+  const item = await getRecord<OutboxItem>(OUTBOX_STORE, localId);
+  if (!item) {
+    throw new Error("This visit is no longer waiting to be sent.");
+  }
+
+  return sendItem({ ...item, error: null }, ignoreConflict);
+};
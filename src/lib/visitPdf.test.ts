@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { buildVisitPdf, describeVisit, visitPdfFileName, VisitPdfInput } from "@/lib/visitPdf";
+
+const input: VisitPdfInput = {
+  visit: {
+    id: "v1",
+    visit_date: "2026-10-12",
+    status: "approved",
+    branches: { name: "Andheri West", location: "Mumbai", branch_code: "MUM-014", category: "platinum" },
+    hr_connect_session: true,
+    total_employees_invited: 40,
+    total_participants: 30,
+    manning_percentage: 92,
+    attrition_percentage: null,
+    cwt_cases: 0,
+    new_employees_total: 8,
+    new_employees_covered: 6,
+    star_employees_total: 0,
+    employees_feel_safe: "yes",
+    leaders_abusive_language: "no",
+    feedback: "Branch is in good shape."
+  },
+  bhName: "Asha Rao",
+  bhCode: "E1042",
+  reviews: [
+    { decision: "approved", comment: null, reviewer_name: "Vikram", created_at: "2026-10-14T10:00:00" },
+    { decision: "needs_revision", comment: "Add the CWT count", reviewer_name: "Vikram", created_at: "2026-10-13T09:00:00" }
+  ]
+};
+
+describe("describeVisit", () => {
+  const sections = Object.fromEntries(describeVisit(input).map(section => [section.title, Object.fromEntries(section.rows)]));
+
+  it("covers the visit, quantitative fields and all six qualitative answers", () => {
+    expect(sections["Visit"]).toMatchObject({
+      "Branch": "Andheri West",
+      "Branch code": "MUM-014",
+      "Category": "Platinum",
+      "Visit date": "12 Oct 2026",
+      "Branch Head": "Asha Rao (E1042)",
+      "Status": "Approved"
+    });
+    expect(sections["HR Connect"]["Coverage"]).toBe("30 of 40 (75%)");
+    expect(sections["Branch metrics"]).toMatchObject({ "Manning": "92%", "Attrition": "Not recorded", "CWT cases": "0" });
+    expect(sections["Employee coverage"]).toEqual({
+      "New employees (0-6 months) covered": "6 of 8 (75%)",
+      "STAR employees covered": "Not recorded"
+    });
+    expect(Object.values(sections["Qualitative assessment"])).toEqual([
+      "Not recorded", "Yes", "Not recorded", "No", "Not recorded", "Not recorded"
+    ]);
+  });
+});
+
+describe("visitPdfFileName", () => {
+  it("names the file after the branch and visit date", () => {
+    expect(visitPdfFileName(input)).toBe("visit-report_andheri-west_2026-10-12.pdf");
+  });
+});
+
+describe("buildVisitPdf", () => {
+  it("renders the feedback and the review trail", () => {
+    const doc = buildVisitPdf(input, new Date(2026, 9, 18));
+    const text = doc.output();
+
+    expect(doc.getNumberOfPages()).toBeGreaterThanOrEqual(1);
+    expect(text).toContain("Branch is in good shape.");
+    expect(text).toContain("Add the CWT count");
+    expect(text).toContain("Sent back for revision");
+  });
+});
@@ -0,0 +1,272 @@
+// Printable PDF of one branch visit report, built in the browser.
+//
+// describeVisit turns the visit into labelled sections; buildVisitPdf lays
+// them out on A4 the same way for every report: a title band, one two-column
+// table per section, the feedback, then the review trail, with the branch and
+// page number in the footer of every page.
+
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import { format, parseISO } from "date-fns";
+import { ReportStatus, STATUS_LABELS } from "@/lib/reportWorkflow";
+
+export interface VisitPdfVisit {
+  id: string;
+  visit_date: string;
+  status: string | null;
+  branches?: { name?: string; location?: string; branch_code?: string | null; category?: string } | null;
+  hr_connect_session?: boolean | null;
+  total_employees_invited?: number | null;
+  total_participants?: number | null;
+  manning_percentage?: number | null;
+  attrition_percentage?: number | null;
+  non_vendor_percentage?: number | null;
+  er_percentage?: number | null;
+  cwt_cases?: number | null;
+  performance_level?: string | null;
+  new_employees_total?: number | null;
+  new_employees_covered?: number | null;
+  star_employees_total?: number | null;
+  star_employees_covered?: number | null;
+  leaders_aligned_with_code?: string | null;
+  employees_feel_safe?: string | null;
+  employees_feel_motivated?: string | null;
+  leaders_abusive_language?: string | null;
+  employees_comfort_escalation?: string | null;
+  inclusive_culture?: string | null;
+  feedback?: string | null;
+}
+
+export interface VisitPdfReview {
+  decision: string;
+  comment: string | null;
+  reviewer_name: string;
+  created_at: string;
+}
+
+export interface VisitPdfInput {
+  visit: VisitPdfVisit;
+  bhName: string;
+  bhCode?: string | null;
+  // Newest first, as fetchVisitReviews returns them
+  reviews: VisitPdfReview[];
+}
+
+export interface VisitPdfSection {
+  title: string;
+  rows: [string, string][];
+}
+
+export type QualitativeField =
+  | "leaders_aligned_with_code"
+  | "employees_feel_safe"
+  | "employees_feel_motivated"
+  | "leaders_abusive_language"
+  | "employees_comfort_escalation"
+  | "inclusive_culture";
+
+export const QUALITATIVE_QUESTIONS: [QualitativeField, string][] = [
+  ["leaders_aligned_with_code", "Leaders aligned with code of conduct"],
+  ["employees_feel_safe", "Employees feel safe"],
+  ["employees_feel_motivated", "Employees feel motivated"],
+  ["leaders_abusive_language", "Leaders use abusive language"],
+  ["employees_comfort_escalation", "Employees comfortable with escalation"],
+  ["inclusive_culture", "Inclusive culture"],
+];
+
+const DECISION_LABELS: Record<string, string> = {
+  approved: "Approved",
+  rejected: "Rejected",
+  needs_revision: "Sent back for revision",
+};
+
+const NOT_RECORDED = "Not recorded";
+
+const formatDate = (date: string, pattern = "d MMM yyyy") => {
+  try {
+    return format(parseISO(date), pattern);
+  } catch {
+    return date;
+  }
+};
+
+const number = (value: number | null | undefined) =>
+  value === null || value === undefined ? NOT_RECORDED : String(value);
+
+const percent = (value: number | null | undefined) =>
+  value === null || value === undefined ? NOT_RECORDED : `${value}%`;
+
+const covered = (coveredCount: number | null | undefined, total: number | null | undefined) =>
+  total ? `${coveredCount || 0} of ${total} (${Math.round(((coveredCount || 0) / total) * 100)}%)` : NOT_RECORDED;
+
+const answer = (value: unknown) =>
+  typeof value === "string" && value ? value.charAt(0).toUpperCase() + value.slice(1) : NOT_RECORDED;
+
+const statusLabel = (status: string | null) =>
+  status ? STATUS_LABELS[status as ReportStatus] || status : "Unknown";
+
+export function describeVisit({ visit, bhName, bhCode }: VisitPdfInput): VisitPdfSection[] {
+  const branch = visit.branches || {};
+
+  return [
+    {
+      title: "Visit",
+      rows: [
+        ["Branch", branch.name || "Unknown branch"],
+        ["Branch code", branch.branch_code || NOT_RECORDED],
+        ["Location", branch.location || NOT_RECORDED],
+        ["Category", answer(branch.category)],
+        ["Visit date", formatDate(visit.visit_date)],
+        ["Branch Head", bhCode ? `${bhName} (${bhCode})` : bhName],
+        ["Status", statusLabel(visit.status)],
+      ],
+    },
+    {
+      title: "HR Connect",
+      rows: [
+        ["HR Connect session held", visit.hr_connect_session ? "Yes" : "No"],
+        ["Employees invited", number(visit.total_employees_invited)],
+        ["Participants", number(visit.total_participants)],
+        ["Coverage", covered(visit.total_participants, visit.total_employees_invited)],
+      ],
+    },
+    {
+      title: "Branch metrics",
+      rows: [
+        ["Manning", percent(visit.manning_percentage)],
+        ["Attrition", percent(visit.attrition_percentage)],
+        ["Non-vendor", percent(visit.non_vendor_percentage)],
+        ["ER", percent(visit.er_percentage)],
+        ["CWT cases", number(visit.cwt_cases)],
+        ["Performance level", answer(visit.performance_level)],
+      ],
+    },
+    {
+      title: "Employee coverage",
+      rows: [
+        ["New employees (0-6 months) covered", covered(visit.new_employees_covered, visit.new_employees_total)],
+        ["STAR employees covered", covered(visit.star_employees_covered, visit.star_employees_total)],
+      ],
+    },
+    {
+      title: "Qualitative assessment",
+      rows: QUALITATIVE_QUESTIONS.map(([field, question]) => [question, answer(visit[field])]),
+    },
+  ];
+}
+
+export function visitPdfFileName({ visit }: Pick<VisitPdfInput, "visit">): string {
+  const branch = (visit.branches?.name || "branch").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `visit-report_${branch}_${visit.visit_date.slice(0, 10)}.pdf`;
+}
+
+const MARGIN = 15;
+const BRAND: [number, number, number] = [30, 64, 175];
+const MUTED: [number, number, number] = [100, 116, 139];
+
+type PdfWithTables = jsPDF & { lastAutoTable: { finalY: number } };
+
+export function buildVisitPdf(input: VisitPdfInput, generatedAt: Date = new Date()): jsPDF {
+  const doc = new jsPDF({ unit: "mm", format: "a4" }) as PdfWithTables;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const branchName = input.visit.branches?.name || "Unknown branch";
+
+  // Title band
+  doc.setFillColor(...BRAND);
+  doc.rect(0, 0, pageWidth, 28, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text("Branch Visit Report", MARGIN, 13);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(`${branchName} · ${formatDate(input.visit.visit_date)}`, MARGIN, 21);
+  doc.text(statusLabel(input.visit.status), pageWidth - MARGIN, 13, { align: "right" });
+
+  let y = 36;
+
+  const heading = (title: string) => {
+    if (y > pageHeight - 40) {
+      doc.addPage();
+      y = MARGIN + 5;
+    }
+    doc.setTextColor(...BRAND);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.text(title, MARGIN, y);
+    y += 2;
+  };
+
+  const table = (options: Parameters<typeof autoTable>[1]) => {
+    autoTable(doc, {
+      startY: y,
+      margin: { left: MARGIN, right: MARGIN, bottom: 18 },
+      theme: "grid",
+      styles: { font: "helvetica", fontSize: 9, cellPadding: 2, textColor: [15, 23, 42], lineColor: [226, 232, 240] },
+      headStyles: { fillColor: [241, 245, 249], textColor: [51, 65, 85], fontStyle: "bold" },
+      ...options,
+    });
+    y = doc.lastAutoTable.finalY + 8;
+  };
+
+  describeVisit(input).forEach((section) => {
+    heading(section.title);
+    table({
+      body: section.rows,
+      columnStyles: { 0: { cellWidth: contentWidth * 0.45, textColor: MUTED } },
+    });
+  });
+
+  heading("Feedback");
+  doc.setTextColor(15, 23, 42);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  const feedback = doc.splitTextToSize(input.visit.feedback?.trim() || "No feedback recorded.", contentWidth);
+  y += 4;
+  feedback.forEach((line: string) => {
+    if (y > pageHeight - 20) {
+      doc.addPage();
+      y = MARGIN + 5;
+    }
+    doc.text(line, MARGIN, y);
+    y += 4.5;
+  });
+  y += 6;
+
+  heading("Review");
+  if (input.reviews.length === 0) {
+    doc.setTextColor(...MUTED);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.text(`${statusLabel(input.visit.status)}. The report has not been reviewed yet.`, MARGIN, y + 4);
+  } else {
+    // Oldest first reads as a trail
+    table({
+      head: [["Date", "Reviewer", "Decision", "Comment"]],
+      body: [...input.reviews].reverse().map((review) => [
+        formatDate(review.created_at, "d MMM yyyy, HH:mm"),
+        review.reviewer_name,
+        DECISION_LABELS[review.decision] || review.decision,
+        review.comment || "",
+      ]),
+      columnStyles: { 0: { cellWidth: 30 }, 1: { cellWidth: 32 }, 2: { cellWidth: 40 } },
+    });
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, pageHeight - 12, pageWidth - MARGIN, pageHeight - 12);
+    doc.setTextColor(...MUTED);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.text(`${branchName} · generated ${format(generatedAt, "d MMM yyyy, HH:mm")}`, MARGIN, pageHeight - 7);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 7, { align: "right" });
+  }
+
+  return doc;
+}
@@ -1,36 +1,144 @@
-
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { endOfMonth, format, isBefore, isSameDay, parseISO, startOfDay, startOfMonth } from "date-fns";
+import { CalendarCheck, CalendarClock, ClipboardEdit, Plus, X } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent } from "@/components/ui/card";
 import { Calendar } from "@/components/ui/calendar";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { STATUS_LABELS, ReportStatus } from "@/lib/reportWorkflow";
+import { fetchAssignedBranchesWithDetails, fetchUserBranchVisits } from "@/services/branchService";
+import {
+  VisitPlanWithBranch,
+  cancelVisitPlan,
+  createVisitPlan,
+  fetchVisitPlans,
+} from "@/services/visitPlanService";
+
+type AssignedBranch = Awaited<ReturnType<typeof fetchAssignedBranchesWithDetails>>[number];
+type FiledVisit = Awaited<ReturnType<typeof fetchUserBranchVisits>>[number];
 
 const BHCalendar = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
   const [date, setDate] = useState<Date | undefined>(new Date());
-  const [selectedEvents, setSelectedEvents] = useState<any[]>([]);
-  
-  // Sample highlighted dates - would come from Supabase in a real implementation
-  const highlightedDates = [
-    new Date(2025, 4, 10),
-    new Date(2025, 4, 15),
-    new Date(2025, 4, 20),
-  ];
-
-  // When a date is selected, show events for that day
-  const handleDateSelect = (date?: Date) => {
-    setDate(date);
-    // In a real app, you would fetch events for the selected date
-    setSelectedEvents([]);
+  const [month, setMonth] = useState<Date>(new Date());
+  const [plans, setPlans] = useState<VisitPlanWithBranch[]>([]);
+  const [visits, setVisits] = useState<FiledVisit[]>([]);
+  const [branches, setBranches] = useState<AssignedBranch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [scheduleBranchId, setScheduleBranchId] = useState("");
+  const [scheduleNotes, setScheduleNotes] = useState("");
+  const [isScheduling, setIsScheduling] = useState(false);
+
+  const today = startOfDay(new Date());
+
+  const loadPlans = useCallback(async () => {
+    if (!user) return;
+    setPlans(await fetchVisitPlans(user.id, startOfMonth(month), endOfMonth(month)));
+  }, [user, month]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadVisitsAndBranches = async () => {
+      setIsLoading(true);
+      try {
+        const [userVisits, assigned] = await Promise.all([
+          fetchUserBranchVisits(user.id),
+          fetchAssignedBranchesWithDetails(user.id),
+        ]);
+        setVisits(userVisits);
+        setBranches(assigned);
+      } catch (error) {
+        console.error("Error loading calendar data:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadVisitsAndBranches();
+  }, [user]);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  const plannedDays = useMemo(
+    () => plans.filter((plan) => plan.status === "planned").map((plan) => parseISO(plan.planned_date)),
+    [plans]
+  );
+  const visitedDays = useMemo(
+    () => visits.map((visit) => parseISO(visit.visit_date)),
+    [visits]
+  );
+
+  const dayPlans = date ? plans.filter((plan) => isSameDay(parseISO(plan.planned_date), date)) : [];
+  const dayVisits = date ? visits.filter((visit) => isSameDay(parseISO(visit.visit_date), date)) : [];
+  const canScheduleOnDay = !!date && !isBefore(date, today);
+
+  const openScheduleDialog = () => {
+    setScheduleBranchId("");
+    setScheduleNotes("");
+    setScheduleOpen(true);
+  };
+
+  const handleSchedule = async () => {
+    if (!user || !date || !scheduleBranchId) return;
+
+    setIsScheduling(true);
+    try {
+      await createVisitPlan({
+        userId: user.id,
+        branchId: scheduleBranchId,
+        plannedDate: date,
+        notes: scheduleNotes,
+      });
+      setScheduleOpen(false);
+      await loadPlans();
+    } catch (error) {
+      // The service already told the user what went wrong
+      console.error("Error scheduling visit:", error);
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  const handleCancelPlan = async (planId: string) => {
+    try {
+      await cancelVisitPlan(planId);
+      await loadPlans();
+    } catch (error) {
+      console.error("Error cancelling planned visit:", error);
+    }
   };
 
   return (
-    <div className="p-8">
-      <div className="flex justify-between items-center mb-8">
-        <h1 className="text-3xl font-bold">Visit Calendar</h1>
-        <Button asChild>
-          <a href="/bh/new-visit">
-            <Plus className="mr-2 h-4 w-4" /> Schedule Visit
-          </a>
+    <div className="p-4 md:p-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <h1 className="text-2xl md:text-3xl font-bold">Visit Calendar</h1>
+        <Button onClick={openScheduleDialog} disabled={!canScheduleOnDay || branches.length === 0}>
+          <Plus className="mr-2 h-4 w-4" /> Schedule Visit
         </Button>
       </div>
 
@@ -41,15 +149,27 @@ const BHCalendar = () => {
               <Calendar
                 mode="single"
                 selected={date}
-                onSelect={handleDateSelect}
+                onSelect={setDate}
+                month={month}
+                onMonthChange={setMonth}
                 className="rounded-md border pointer-events-auto"
                 modifiers={{
-                  highlighted: highlightedDates,
+                  planned: plannedDays,
+                  visited: visitedDays,
                 }}
                 modifiersClassNames={{
-                  highlighted: "bg-primary text-primary-foreground",
+                  planned: "border-2 border-blue-400",
+                  visited: "bg-green-100 text-green-800",
                 }}
               />
+              <div className="flex flex-wrap gap-4 mt-4 text-xs text-slate-600">
+                <span className="flex items-center gap-1">
+                  <span className="h-3 w-3 rounded-sm border-2 border-blue-400" /> Planned
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="h-3 w-3 rounded-sm bg-green-100" /> Visited
+                </span>
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -58,30 +178,137 @@ const BHCalendar = () => {
           <Card>
             <CardContent className="pt-6">
               <h2 className="text-xl font-semibold mb-4">
-                {date ? date.toLocaleDateString('en-US', { 
-                  weekday: 'long', 
-                  year: 'numeric', 
-                  month: 'long', 
-                  day: 'numeric' 
+                {date ? date.toLocaleDateString('en-US', {
+                  weekday: 'long',
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric'
                 }) : 'Select a date'}
               </h2>
-              
-              {selectedEvents.length === 0 ? (
+
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+                </div>
+              ) : dayPlans.length === 0 && dayVisits.length === 0 ? (
                 <div className="text-center py-8">
-                  <p className="text-slate-500">No visits scheduled for this day</p>
-                  <Button variant="outline" className="mt-4" asChild>
-                    <a href="/bh/new-visit">Schedule a Visit</a>
-                  </Button>
+                  <p className="text-slate-500">No visits planned or filed for this day</p>
+                  {canScheduleOnDay && branches.length > 0 && (
+                    <Button variant="outline" className="mt-4" onClick={openScheduleDialog}>
+                      Schedule a Visit
+                    </Button>
+                  )}
                 </div>
               ) : (
-                <div className="space-y-4">
-                  {/* Events would go here */}
+                <div className="space-y-6">
+                  {dayPlans.length > 0 && (
+                    <div className="space-y-3">
+                      <h3 className="text-sm font-medium text-slate-500 uppercase tracking-wide">Planned</h3>
+                      {dayPlans.map((plan) => {
+                        const missed = plan.status === "planned" && isBefore(parseISO(plan.planned_date), today);
+                        return (
+                          <div key={plan.id} className="flex flex-wrap items-start justify-between gap-3 rounded-md border p-4">
+                            <div className="flex items-start gap-3">
+                              <CalendarClock className="h-5 w-5 text-blue-500 mt-0.5" />
+                              <div>
+                                <p className="font-medium">{plan.branches?.name || "Unknown branch"}</p>
+                                <p className="text-sm text-slate-500">{plan.branches?.location}</p>
+                                {plan.notes && <p className="text-sm text-slate-600 mt-1">{plan.notes}</p>}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              {plan.status === "completed" ? (
+                                <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Filed</Badge>
+                              ) : (
+                                <>
+                                  {missed && (
+                                    <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">Missed</Badge>
+                                  )}
+                                  <Button size="sm" onClick={() => navigate(`/bh/new-visit?plan=${plan.id}`)}>
+                                    <ClipboardEdit className="mr-2 h-4 w-4" /> File visit
+                                  </Button>
+                                  <Button size="sm" variant="ghost" onClick={() => handleCancelPlan(plan.id)}>
+                                    <X className="h-4 w-4" />
+                                    <span className="sr-only">Cancel planned visit</span>
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {dayVisits.length > 0 && (
+                    <div className="space-y-3">
+                      <h3 className="text-sm font-medium text-slate-500 uppercase tracking-wide">Visited</h3>
+                      {dayVisits.map((visit) => (
+                        <div key={visit.id} className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-4">
+                          <div className="flex items-start gap-3">
+                            <CalendarCheck className="h-5 w-5 text-green-600 mt-0.5" />
+                            <div>
+                              <p className="font-medium">{visit.branches?.name || "Unknown branch"}</p>
+                              <p className="text-sm text-slate-500">{visit.branches?.location}</p>
+                            </div>
+                          </div>
+                          <Badge variant="outline">
+                            {STATUS_LABELS[visit.status as ReportStatus] || visit.status}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
             </CardContent>
           </Card>
         </div>
       </div>
+
+      <Dialog open={scheduleOpen} onOpenChange={setScheduleOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Schedule a visit</DialogTitle>
+            <DialogDescription>
+              {date ? `Plan a branch visit for ${format(date, 'PPP')}.` : 'Pick a day on the calendar first.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan-branch">Branch</Label>
+              <Select value={scheduleBranchId} onValueChange={setScheduleBranchId}>
+                <SelectTrigger id="plan-branch">
+                  <SelectValue placeholder="Select one of your branches" />
+                </SelectTrigger>
+                <SelectContent>
+                  {branches.map((branch) => (
+                    <SelectItem key={branch.branch_id} value={branch.branch_id}>
+                      {branch.branches?.name}
+                      {branch.branches?.location ? ` · ${branch.branches.location}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-notes">Notes (optional)</Label>
+              <Textarea
+                id="plan-notes"
+                value={scheduleNotes}
+                onChange={(event) => setScheduleNotes(event.target.value)}
+                placeholder="Agenda, people to meet..."
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScheduleOpen(false)}>Cancel</Button>
+            <Button onClick={handleSchedule} disabled={!scheduleBranchId || isScheduling}>
+              {isScheduling ? "Scheduling..." : "Schedule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -14,10 +14,10 @@ import { FilePlus, Users, Calendar, ClipboardCheck, TrendingUp, Building2, FileT
 import { 
   getBranchVisitStats, 
   getBranchCategoryCoverage,
-  getVisitMetrics, 
   getBHVisitMetrics 
 } from "@/services/branchService";
 import { toast } from "@/components/ui/use-toast";
+import OverdueBranchesCard from "@/components/branch/OverdueBranchesCard";
 import { supabase } from "@/integrations/supabase/client";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
@@ -304,6 +304,12 @@ const BHDashboard = () => {
               </CardFooter>
             </Card>
           </div>
+
+          {/* Overdue branches */}
+          <OverdueBranchesCard
+            scope={user ? { bhId: user.id } : null}
+            description="Your branches that are past their visit frequency target"
+          />
         </>
       )}
     </div>
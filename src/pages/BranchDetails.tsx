@@ -0,0 +1,341 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, CalendarDays, Eye, MapPin, UserRound } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import BranchVisitDetailsModal from "@/components/branch/BranchVisitDetailsModal";
+import { useAuth } from "@/contexts/AuthContext";
+import { isReported } from "@/lib/metrics";
+import { ReportStatus, STATUS_LABELS } from "@/lib/reportWorkflow";
+import {
+  BranchVisit,
+  fetchBranchAssignmentHistory,
+  fetchBranchVisits,
+  getBranchById,
+} from "@/services/branchService";
+import { BranchVisitSummary } from "@/services/reportService";
+
+// HR parameters charted across the branch's reported visits
+const KPIS = [
+  { key: "manning_percentage", label: "Manning %", color: "#3b82f6", percent: true },
+  { key: "attrition_percentage", label: "Attrition %", color: "#ef4444", percent: true },
+  { key: "er_percentage", label: "ER %", color: "#10b981", percent: true },
+  { key: "non_vendor_percentage", label: "Non-Vendor %", color: "#8b5cf6", percent: true },
+  { key: "cwt_cases", label: "CWT Cases", color: "#f59e0b", percent: false },
+] as const;
+
+const CATEGORY_CLASSES: Record<string, string> = {
+  platinum: "bg-violet-100 text-violet-700 border-violet-200",
+  diamond: "bg-blue-100 text-blue-700 border-blue-200",
+  gold: "bg-amber-100 text-amber-700 border-amber-200",
+  silver: "bg-slate-100 text-slate-700 border-slate-200",
+  bronze: "bg-orange-100 text-orange-700 border-orange-200",
+};
+
+const formatDate = (date: string) => format(parseISO(date), "d MMM yyyy");
+
+const BranchDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { role } = useAuth();
+  const [selectedVisit, setSelectedVisit] = useState<BranchVisit | null>(null);
+
+  const { data: branch, isLoading: branchLoading } = useQuery({
+    queryKey: ['branch', id],
+    queryFn: () => getBranchById(id as string),
+    enabled: !!id
+  });
+
+  const { data: visits = [], isLoading: visitsLoading } = useQuery({
+    queryKey: ['branch-visits', id],
+    queryFn: () => fetchBranchVisits(id as string),
+    enabled: !!id
+  });
+
+  const { data: assignments = [] } = useQuery({
+    queryKey: ['branch-assignment-history', id],
+    queryFn: () => fetchBranchAssignmentHistory(id as string),
+    enabled: !!id
+  });
+
+  const reportedVisits = useMemo(() => visits.filter((visit) => isReported(visit.status)), [visits]);
+
+  const trendData = useMemo(
+    () => reportedVisits.map((visit) => ({
+      date: format(parseISO(visit.visit_date), "d MMM yy"),
+      manning_percentage: visit.manning_percentage,
+      attrition_percentage: visit.attrition_percentage,
+      er_percentage: visit.er_percentage,
+      non_vendor_percentage: visit.non_vendor_percentage,
+      cwt_cases: visit.cwt_cases,
+    })),
+    [reportedVisits]
+  );
+
+  const currentAssignments = assignments.filter((assignment) => !assignment.unassigned_at);
+  const pastAssignments = assignments.filter((assignment) => assignment.unassigned_at);
+  const lastVisit = reportedVisits[reportedVisits.length - 1];
+
+  // Newest first in the table; the charts read left to right in time
+  const visitRows = [...visits].reverse();
+
+  const goBack = () => {
+    if (window.history.length > 1) {
+      navigate(-1);
+    } else {
+      navigate(role ? `/${role.toLowerCase()}/dashboard` : "/dashboard");
+    }
+  };
+
+  if (branchLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <div className="h-10 w-10 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!branch) {
+    return (
+      <div className="min-h-screen bg-slate-50 p-8">
+        <div className="max-w-7xl mx-auto">
+          <Button variant="ghost" onClick={goBack} className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <p className="text-slate-600">This branch does not exist or you do not have access to it.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div>
+          <Button variant="ghost" onClick={goBack} className="mb-2 -ml-3">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold">{branch.name}</h1>
+              <p className="text-slate-600 flex items-center gap-1 mt-1">
+                <MapPin className="h-4 w-4 text-slate-400" />
+                {branch.location}
+                {branch.branch_code && (
+                  <>
+                    <span className="text-slate-400 mx-1">•</span>
+                    {branch.branch_code}
+                  </>
+                )}
+              </p>
+            </div>
+            <Badge variant="outline" className={`capitalize w-fit ${CATEGORY_CLASSES[branch.category] || ""}`}>
+              {branch.category}
+            </Badge>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-1">
+                <UserRound className="h-4 w-4" />
+                Current BH
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {currentAssignments.length > 0 ? (
+                currentAssignments.map((assignment) => (
+                  <p key={assignment.id} className="font-medium">
+                    {assignment.profiles?.full_name || "Unknown"}
+                    <span className="text-sm font-normal text-slate-500">
+                      {" "}({assignment.profiles?.e_code}) since {formatDate(assignment.assigned_at)}
+                    </span>
+                  </p>
+                ))
+              ) : (
+                <p className="text-slate-500">No BH assigned</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Reported visits</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{visitsLoading ? "..." : reportedVisits.length}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-1">
+                <CalendarDays className="h-4 w-4" />
+                Last visit
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">
+                {visitsLoading ? "..." : lastVisit ? formatDate(lastVisit.visit_date) : "Never"}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div>
+          <h2 className="text-xl font-semibold mb-3">Trends across visits</h2>
+          {visitsLoading ? (
+            <div className="flex justify-center items-center h-48">
+              <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+            </div>
+          ) : trendData.length === 0 ? (
+            <p className="text-sm text-slate-500">No reported visits to chart yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {KPIS.map((kpi) => (
+                <Card key={kpi.key}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">{kpi.label}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={220}>
+                      <LineChart data={trendData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                        <YAxis domain={kpi.percent ? [0, 100] : [0, "auto"]} allowDecimals={kpi.percent} />
+                        <Tooltip />
+                        <Line
+                          type="monotone"
+                          dataKey={kpi.key}
+                          name={kpi.label}
+                          stroke={kpi.color}
+                          strokeWidth={2}
+                          connectNulls
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Visit history</CardTitle>
+            <CardDescription>Every visit record for this branch, newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-md overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>BH</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Manning</TableHead>
+                    <TableHead className="text-right">Attrition</TableHead>
+                    <TableHead className="text-right">ER</TableHead>
+                    <TableHead className="text-right">Non-Vendor</TableHead>
+                    <TableHead className="text-right">CWT</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visitRows.length > 0 ? (
+                    visitRows.map((visit) => (
+                      <TableRow key={visit.id}>
+                        <TableCell className="whitespace-nowrap">{formatDate(visit.visit_date)}</TableCell>
+                        <TableCell>{visit.profiles?.full_name || "Unknown"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {STATUS_LABELS[visit.status as ReportStatus] ?? visit.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{visit.manning_percentage ?? "-"}</TableCell>
+                        <TableCell className="text-right">{visit.attrition_percentage ?? "-"}</TableCell>
+                        <TableCell className="text-right">{visit.er_percentage ?? "-"}</TableCell>
+                        <TableCell className="text-right">{visit.non_vendor_percentage ?? "-"}</TableCell>
+                        <TableCell className="text-right">{visit.cwt_cases ?? "-"}</TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSelectedVisit(visit)}
+                            aria-label="View visit"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center py-8 text-slate-500">
+                        {visitsLoading ? "Loading visits..." : "No visits recorded for this branch"}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {pastAssignments.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Previous BHs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y">
+                {pastAssignments.map((assignment) => (
+                  <li key={assignment.id} className="py-2 flex flex-wrap justify-between gap-2 text-sm">
+                    <span className="font-medium">
+                      {assignment.profiles?.full_name || "Unknown"}
+                      <span className="font-normal text-slate-500"> ({assignment.profiles?.e_code})</span>
+                    </span>
+                    <span className="text-slate-600">
+                      {formatDate(assignment.assigned_at)} – {formatDate(assignment.unassigned_at as string)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <BranchVisitDetailsModal
+        visit={selectedVisit}
+        isOpen={!!selectedVisit}
+        onClose={() => setSelectedVisit(null)}
+        showBranchLink={false}
+      />
+    </div>
+  );
+};
+
+export default BranchDetails;
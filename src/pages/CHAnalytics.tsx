@@ -25,14 +25,15 @@ import {
   Radar
 } from "recharts";
 import { ChartContainer } from "@/components/ui/chart";
-import { getVisitMetrics, getPerformanceTrends, getCoverageParticipationTrends } from "@/services/branchService";
 import QualitativeHeatmap from "@/components/ch/QualitativeHeatmap";
 import { Toggle } from "@/components/ui/toggle";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Switch } from "@/components/ui/switch";
 import { ChevronDown, ChevronUp, Calendar, Check, Star, TrendingUp, BarChart } from "lucide-react";
-import { fetchQualitativeAssessments, fetchCategoryBreakdown } from "@/services/analyticsService";
+import { fetchQualitativeAssessments } from "@/services/analyticsService";
+import { fetchCategoryMetrics, fetchMetricTrends } from "@/services/metricsService";
+import { TrendRange } from "@/lib/metrics";
 
 // Define date range type
 type DateRange = { from: Date; to: Date } | null;
@@ -122,8 +123,19 @@ const CHAnalytics = () => {
       setIsLoading(true);
       try {
         // Fetch category-wise metrics
-        const metricsData = await getVisitMetrics(dateRange);
-        setCategoryMetrics(metricsData);
+        const categories = await fetchCategoryMetrics({ from: dateRange?.from, to: dateRange?.to });
+        setCategoryMetrics(
+          categories
+            .filter(category => category.visitCount > 0)
+            .map(category => ({
+              name: category.name,
+              manning: category.averageManning,
+              attrition: category.averageAttrition,
+              er: category.averageEr,
+              nonVendor: category.averageNonVendor,
+              cwt: category.cwtCases
+            }))
+        );
       } catch (error) {
         console.error("Error loading analytics data:", error);
       } finally {
@@ -156,8 +168,14 @@ const CHAnalytics = () => {
       setIsPerformanceLoading(true);
       try {
         // Fetch performance trends with the selected time range
-        const trendsData = await getPerformanceTrends(selectedPeriod);
-        setPerformanceData(trendsData);
+        const trendsData = await fetchMetricTrends({}, selectedPeriod as TrendRange);
+        setPerformanceData(trendsData.map(trend => ({
+          month: trend.month,
+          manning: trend.averageManning,
+          attrition: trend.averageAttrition,
+          er: trend.averageEr,
+          nonVendor: trend.averageNonVendor
+        })));
       } catch (error) {
         console.error("Error loading performance trends:", error);
       } finally {
@@ -172,8 +190,12 @@ const CHAnalytics = () => {
     const loadCategoryBreakdown = async () => {
       setIsCategoryLoading(true);
       try {
-        const breakdown = await fetchCategoryBreakdown();
-        setCategoryBreakdown(breakdown);
+        const categories = await fetchCategoryMetrics({ from: dateRange?.from, to: dateRange?.to });
+        setCategoryBreakdown(
+          categories
+            .filter(category => category.visitedBranches > 0)
+            .map(category => ({ name: category.name, value: category.visitedBranches }))
+        );
       } catch (error) {
         console.error("Error loading category breakdown:", error);
       } finally {
@@ -28,13 +28,16 @@ import {
   Radar,
 } from "recharts";
 import { BarList } from "@/components/ui/bar-list";
+import { fetchQualitativeAssessments } from "@/services/analyticsService";
 import {
-  fetchDashboardStats,
+  fetchCategoryMetrics,
+  fetchMetricTrends,
+  fetchMetricsSummary,
   fetchTopPerformers,
-  fetchCategoryBreakdown,
-  fetchQualitativeAssessments,
-} from "@/services/analyticsService";
-import { getCoverageParticipationTrends } from "@/services/branchService";
+} from "@/services/metricsService";
+import { EMPTY_TOTALS, summarize } from "@/lib/metrics";
+import OverdueBranchesCard from "@/components/branch/OverdueBranchesCard";
+import HighRiskBranchesCard from "@/components/branch/HighRiskBranchesCard";
 import {
   CircleCheck,
   Users,
@@ -78,17 +81,7 @@ const CATEGORY_GRADIENT_MAP: Record<string, string> = {
 };
 
 const CHDashboard = () => {
-  const [stats, setStats] = useState({
-    totalBranches: 0,
-    visitedBranchesCount: 0,
-    currentCoverage: 0,
-    uniqueBhrIds: 0,
-    currentManningAvg: 0,
-    currentAttritionAvg: 0,
-    currentErAvg: 0,
-    nonVendorAvg: 0,
-    cwTotalCases: 0,
-  });
+  const [stats, setStats] = useState(summarize(EMPTY_TOTALS));
   const [categoryBreakdown, setCategoryBreakdown] = useState([]);
   const [topPerformers, setTopPerformers] = useState([]);
   const [monthlyTrends, setMonthlyTrends] = useState([]);
@@ -114,14 +107,25 @@ const CHDashboard = () => {
       setIsLoading(true);
 
       try {
-        // Fetch dashboard summary stats
-        const dashboardStats = await fetchDashboardStats();
+        // Fetch this month's summary stats
+        const today = new Date();
+        const dashboardStats = await fetchMetricsSummary({
+          from: new Date(today.getFullYear(), today.getMonth(), 1),
+          to: today,
+        });
         setStats(dashboardStats);
 
-        // Fetch category breakdown (real data from database)
+        // Fetch visited branches per category
         console.info("Fetching category breakdown...");
-        const breakdown = await fetchCategoryBreakdown();
-        setCategoryBreakdown(breakdown);
+        const breakdown = await fetchCategoryMetrics();
+        setCategoryBreakdown(
+          breakdown
+            .filter((category) => category.visitedBranches > 0)
+            .map((category) => ({
+              name: category.name,
+              value: category.visitedBranches,
+            }))
+        );
 
         // Fetch top performers
         console.info("Fetching top performers...");
@@ -143,9 +147,7 @@ const CHDashboard = () => {
       setIsTrendsLoading(true);
       try {
         console.info("Fetching monthly trends from database...");
-        const trendsData = await getCoverageParticipationTrends(
-          "lastSixMonths"
-        );
+        const trendsData = await fetchMetricTrends({}, "lastSixMonths");
         setMonthlyTrends(trendsData);
       } catch (error) {
         console.error("Error loading trends data:", error);
@@ -226,10 +228,9 @@ const CHDashboard = () => {
     return value;
   };
 
-  // Map topPerformers to include coverage (as percentage) and reports fields for BarList
+  // Map topPerformers to the reports field used by the list
   const mappedPerformers = topPerformers.map((p) => ({
     ...p,
-    coverage: Math.round((p.overallScore || 0) * 20), // Convert 0-5 to 0-100%
     reports: p.visitCount,
   }));
 
@@ -252,13 +253,13 @@ const CHDashboard = () => {
               </div>
 
               <div className="flex items-end justify-between">
-                <p className="text-3xl font-bold">{stats.currentCoverage}%</p>
+                <p className="text-3xl font-bold">{stats.coverage}%</p>
                 <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full font-medium ml-2">
                   this month
                 </span>
               </div>
               <p className="text-sm text-blue-700 mt-1">
-                {stats.visitedBranchesCount} of {stats.totalBranches}
+                {stats.visitedBranches} of {stats.totalBranches}
               </p>
             </div>
           </CardContent>
@@ -273,7 +274,7 @@ const CHDashboard = () => {
               </div>
 
               <div className="flex items-end justify-between">
-                <p className="text-3xl font-bold">{stats.uniqueBhrIds}</p>
+                <p className="text-3xl font-bold">{stats.activeBHs}</p>
                 <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-medium ml-2">
                   this month
                 </span>
@@ -292,7 +293,7 @@ const CHDashboard = () => {
               </div>
 
               <div className="flex items-end justify-between">
-                <p className="text-3xl font-bold">{stats.currentManningAvg}%</p>
+                <p className="text-3xl font-bold">{stats.averageManning}%</p>
                 <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full font-medium ml-2">
                   this month
                 </span>
@@ -314,7 +315,7 @@ const CHDashboard = () => {
 
               <div className="flex items-end justify-between">
                 <p className="text-3xl font-bold">
-                  {stats.currentAttritionAvg}%
+                  {stats.averageAttrition}%
                 </p>
                 <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full font-medium ml-2">
                   this month
@@ -336,7 +337,7 @@ const CHDashboard = () => {
               </div>
 
               <div className="flex items-end justify-between">
-                <p className="text-3xl font-bold">{stats.nonVendorAvg}%</p>
+                <p className="text-3xl font-bold">{stats.averageNonVendor}%</p>
                 <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-medium ml-2">
                   this month
                 </span>
@@ -354,7 +355,7 @@ const CHDashboard = () => {
               </div>
 
               <div className="flex items-end justify-between">
-                <p className="text-3xl font-bold">{stats.cwTotalCases}</p>
+                <p className="text-3xl font-bold">{stats.cwtCases}</p>
                 <span className="text-xs bg-pink-100 text-pink-700 px-2 py-0.5 rounded-full font-medium ml-2">
                   this month
                 </span>
@@ -372,7 +373,7 @@ const CHDashboard = () => {
               </div>
 
               <div className="flex items-end justify-between">
-                <p className="text-3xl font-bold">{stats.currentErAvg}%</p>
+                <p className="text-3xl font-bold">{stats.averageEr}%</p>
                 <span className="text-xs bg-teal-100 text-teal-700 px-2 py-0.5 rounded-full font-medium ml-2">
                   this month
                 </span>
@@ -437,7 +438,7 @@ const CHDashboard = () => {
                   <Legend />
                   <Line
                     type="monotone"
-                    dataKey="branchCoverage"
+                    dataKey="coverage"
                     name="Branch Coverage %"
                     stroke="#3b82f6"
                     activeDot={{ r: 8 }}
@@ -445,7 +446,7 @@ const CHDashboard = () => {
                   />
                   <Line
                     type="monotone"
-                    dataKey="participationRate"
+                    dataKey="participation"
                     name="Participation Rate %"
                     stroke="#10b981"
                     strokeWidth={2}
@@ -628,6 +629,20 @@ const CHDashboard = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Overdue and high-risk branches */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <OverdueBranchesCard
+          scope={{}}
+          description="Branches across all zones past their visit frequency target"
+          limit={10}
+        />
+        <HighRiskBranchesCard
+          scope={{}}
+          description="Branches across all zones whose latest report raised a risk flag"
+          limit={10}
+        />
+      </div>
     </div>
   );
 };
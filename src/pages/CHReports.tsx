@@ -9,17 +9,19 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Download, FileText, Filter, RefreshCw, Users, TrendingUp, Star, CheckCircle2, BarChart2 } from "lucide-react";
+import { Download, FileText, Filter, RefreshCw, Users, TrendingUp, Star, CheckCircle2, BarChart2, FileSpreadsheet } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import { 
-  fetchMonthlySummaryReport,
-  fetchCategoryBreakdown,
-  exportBranchVisitData,
-  exportBHPerformanceSummary,
-  exportBranchAssignments,
-  fetchCategoryStatsByMonth
-} from "@/services/reportService";
+import { Link } from "react-router-dom";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { fetchMonthlySummaryReport } from "@/services/reportService";
+import { fetchCategoryMetrics, fetchMonthlyPackInput } from "@/services/metricsService";
+import { exportReportCsv, fetchExportFilterOptions } from "@/services/exportService";
+import { EXPORT_REPORT_LABELS, ExportFilters, ExportReport, exportFileName } from "@/lib/reportExport";
+import { BRANCH_CATEGORIES, BranchCategory } from "@/lib/metrics";
 import { toast } from "@/components/ui/use-toast";
+import { downloadBlob } from "@/lib/utils";
+import ScheduleExportDialog from "@/components/exports/ScheduleExportDialog";
+import { ExportDefinitionInput } from "@/services/scheduledExportService";
 
 // Utility to get the current month name
 const getCurrentMonthName = () => {
@@ -101,9 +103,10 @@ interface DownloadButtonProps {
   icon: React.ReactNode; 
   onClick: () => void;
   isLoading?: boolean;
+  description?: string;
 }
 
-const DownloadButton = ({ label, icon, onClick, isLoading = false }: DownloadButtonProps) => {
+const DownloadButton = ({ label, icon, onClick, isLoading = false, description = "Download CSV" }: DownloadButtonProps) => {
   return (
     <Button 
       variant="outline" 
@@ -118,7 +121,7 @@ const DownloadButton = ({ label, icon, onClick, isLoading = false }: DownloadBut
       )}
       <div className="text-left">
         <div className="font-medium">{label}</div>
-        <div className="text-xs text-slate-500">Download Excel</div>
+        <div className="text-xs text-slate-500">{description}</div>
       </div>
     </Button>
   );
@@ -131,9 +134,14 @@ const CHReports = () => {
   const [selectedLocation, setSelectedLocation] = useState("all");
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [selectedBH, setSelectedBH] = useState("all");
-  const [isDownloadingVisits, setIsDownloadingVisits] = useState(false);
-  const [isDownloadingBH, setIsDownloadingBH] = useState(false);
-  const [isDownloadingAssignments, setIsDownloadingAssignments] = useState(false);
+  const [exporting, setExporting] = useState<ExportReport | null>(null);
+  const [generatingPack, setGeneratingPack] = useState<"xlsx" | "pdf" | null>(null);
+  const [scheduleDraft, setScheduleDraft] = useState<Partial<ExportDefinitionInput> | null>(null);
+
+  const { data: filterOptions } = useQuery({
+    queryKey: ['ch-reports-filter-options'],
+    queryFn: fetchExportFilterOptions
+  });
 
   // Fetch summary report data
   const monthNumber = MONTHS.indexOf(selectedMonth) + 1; // 1-based month
@@ -146,9 +154,31 @@ const CHReports = () => {
   // Fetch category breakdown data
   const { data: categoryData, isLoading: isCategoryLoading, refetch: refetchCategory } = useQuery({
     queryKey: ['ch-category-breakdown', selectedMonth, selectedYear],
-    queryFn: () => fetchCategoryStatsByMonth(yearNumber, monthNumber)
+    queryFn: () => fetchCategoryMetrics({
+      from: new Date(yearNumber, monthNumber - 1, 1),
+      to: new Date(yearNumber, monthNumber, 0)
+    })
   });
 
+  // The month's visits rolled up per branch, linking to each branch's page
+  const visitedBranches = Object.values(
+    (summaryData || []).reduce<Record<string, { id: string; name: string; location: string; category: string; visits: number; lastVisit: string }>>(
+      (acc, visit) => {
+        const current = acc[visit.branch_id];
+        acc[visit.branch_id] = {
+          id: visit.branch_id,
+          name: visit.branch_name,
+          location: visit.branch_location,
+          category: visit.branches?.category || "",
+          visits: (current?.visits || 0) + 1,
+          lastVisit: current && current.lastVisit > visit.visit_date ? current.lastVisit : visit.visit_date
+        };
+        return acc;
+      },
+      {}
+    )
+  ).sort((a, b) => a.name.localeCompare(b.name));
+
   const resetFilters = () => {
     setSelectedMonth(getCurrentMonthName());
     setSelectedYear(CURRENT_YEAR.toString());
@@ -170,142 +200,72 @@ const CHReports = () => {
     }
   };
 
-  // Export functions
-  const handleDownloadBranchVisits = async () => {
-    setIsDownloadingVisits(true);
-    try {
-      const data = await exportBranchVisitData();
-      
-      if (data.length === 0) {
-        toast({
-          title: "No data to export",
-          description: "There are no branch visits matching your filters."
-        });
-        return;
-      }
-      
-      // Convert data to CSV
-      const headers = Object.keys(data[0]);
-      const csvContent = [
-        headers.join(','),
-        ...data.map(row => headers.map(header => JSON.stringify(row[header as keyof typeof row])).join(','))
-      ].join('\n');
-      
-      // Create and download file
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.setAttribute('href', url);
-      link.setAttribute('download', `branch_visits_${selectedMonth}_${selectedYear}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      toast({
-        title: "Download complete",
-        description: "Branch visit data has been exported successfully."
-      });
-    } catch (error) {
-      console.error("Error exporting data:", error);
-      toast({
-        variant: "destructive",
-        title: "Export failed",
-        description: "There was an error exporting the branch visit data."
-      });
-    } finally {
-      setIsDownloadingVisits(false);
-    }
-  };
+  // Exports apply every filter in the query and are named after them
+  const handleExport = async (report: ExportReport) => {
+    const filters: ExportFilters = {
+      year: yearNumber,
+      month: monthNumber,
+      location: selectedLocation === "all" ? null : selectedLocation,
+      category: selectedCategory === "all" ? null : selectedCategory as BranchCategory,
+      bhId: selectedBH === "all" ? null : selectedBH
+    };
+    const bh = filterOptions?.bhs.find(option => option.id === selectedBH);
 
-  const handleDownloadBHPerformance = async () => {
-    setIsDownloadingBH(true);
+    setExporting(report);
     try {
-      const data = await exportBHPerformanceSummary();
-      
-      if (data.length === 0) {
+      const { blob, rowCount } = await exportReportCsv(report, filters);
+
+      if (rowCount === 0) {
         toast({
           title: "No data to export",
-          description: "There are no BH performance data to export."
+          description: `There is no ${EXPORT_REPORT_LABELS[report].toLowerCase()} matching your filters.`
         });
         return;
       }
-      
-      // Convert data to CSV
-      const headers = Object.keys(data[0]);
-      const csvContent = [
-        headers.join(','),
-        ...data.map(row => headers.map(header => JSON.stringify(row[header as keyof typeof row])).join(','))
-      ].join('\n');
-      
-      // Create and download file
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.setAttribute('href', url);
-      link.setAttribute('download', `bh_performance_${selectedMonth}_${selectedYear}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
+
+      downloadBlob(blob, exportFileName(report, filters, bh?.e_code || bh?.full_name));
+
       toast({
         title: "Download complete",
-        description: "BH performance summary has been exported successfully."
-      });
-    } catch (error) {
-      console.error("Error exporting BH data:", error);
-      toast({
-        variant: "destructive",
-        title: "Export failed",
-        description: "There was an error exporting the BH performance data."
+        description: `${EXPORT_REPORT_LABELS[report]} has been exported (${rowCount} ${rowCount === 1 ? "row" : "rows"}).`
       });
+    } catch {
+      // Error toast is shown by the service
     } finally {
-      setIsDownloadingBH(false);
+      setExporting(null);
     }
   };
 
-  const handleDownloadBranchAssignments = async () => {
-    setIsDownloadingAssignments(true);
+  const handleGenerateMonthlyPack = async (fileType: "xlsx" | "pdf") => {
+    setGeneratingPack(fileType);
     try {
-      const data = await exportBranchAssignments();
-      
-      if (data.length === 0) {
-        toast({
-          title: "No data to export",
-          description: "There are no branch assignments to export."
-        });
-        return;
+      // exceljs and jsPDF are only loaded when a pack is generated
+      const [pack, input] = await Promise.all([
+        import("@/lib/monthlyPack"),
+        fetchMonthlyPackInput(yearNumber, monthNumber)
+      ]);
+      const fileName = pack.monthlyPackFileName(yearNumber, monthNumber, fileType);
+
+      if (fileType === "xlsx") {
+        const buffer = await pack.buildMonthlyPackXlsx(input);
+        downloadBlob(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), fileName);
+      } else {
+        pack.buildMonthlyPackPdf(input).save(fileName);
       }
-      
-      // Convert data to CSV
-      const headers = Object.keys(data[0]);
-      const csvContent = [
-        headers.join(','),
-        ...data.map(row => headers.map(header => JSON.stringify(row[header as keyof typeof row])).join(','))
-      ].join('\n');
-      
-      // Create and download file
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.setAttribute('href', url);
-      link.setAttribute('download', 'branch_assignments.csv');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
+
       toast({
-        title: "Download complete",
-        description: "Branch assignments data has been exported successfully."
+        title: "Monthly pack ready",
+        description: `The ${selectedMonth} ${selectedYear} pack has been downloaded.`
       });
     } catch (error) {
-      console.error("Error exporting assignments data:", error);
+      console.error("Error generating monthly pack:", error);
       toast({
         variant: "destructive",
-        title: "Export failed",
-        description: "There was an error exporting the branch assignments data."
+        title: "Pack generation failed",
+        description: (error as Error).message || "Could not generate the monthly pack"
       });
     } finally {
-      setIsDownloadingAssignments(false);
+      setGeneratingPack(null);
     }
   };
 
@@ -394,9 +354,9 @@ const CHReports = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Locations</SelectItem>
-                      <SelectItem value="mumbai">Mumbai</SelectItem>
-                      <SelectItem value="delhi">Delhi</SelectItem>
-                      <SelectItem value="bangalore">Bangalore</SelectItem>
+                      {(filterOptions?.locations || []).map(location => (
+                        <SelectItem key={location} value={location}>{location}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -409,11 +369,11 @@ const CHReports = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Categories</SelectItem>
-                      <SelectItem value="platinum">Platinum</SelectItem>
-                      <SelectItem value="diamond">Diamond</SelectItem>
-                      <SelectItem value="gold">Gold</SelectItem>
-                      <SelectItem value="silver">Silver</SelectItem>
-                      <SelectItem value="bronze">Bronze</SelectItem>
+                      {BRANCH_CATEGORIES.map(category => (
+                        <SelectItem key={category} value={category}>
+                          {category.charAt(0).toUpperCase() + category.slice(1)}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -426,9 +386,11 @@ const CHReports = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All BHs</SelectItem>
-                      <SelectItem value="bh1">Sanjay Singh</SelectItem>
-                      <SelectItem value="bh2">Priya Sharma</SelectItem>
-                      <SelectItem value="bh3">Vikram Malhotra</SelectItem>
+                      {(filterOptions?.bhs || []).map(bh => (
+                        <SelectItem key={bh.id} value={bh.id}>
+                          {bh.e_code ? `${bh.full_name} (${bh.e_code})` : bh.full_name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -507,10 +469,10 @@ const CHReports = () => {
                 <CategoryCard
                   key={index}
                   name={category.name}
-                  visits={category.visits}
-                  avgManning={category.avgManning}
-                  avgAttrition={category.avgAttrition}
-                  branchCount={category.branchCount}
+                  visits={category.visitCount}
+                  avgManning={category.averageManning}
+                  avgAttrition={category.averageAttrition}
+                  branchCount={category.totalBranches}
                   color={getCategoryColorByName(category.name)}
                 />
               ))
@@ -523,30 +485,121 @@ const CHReports = () => {
         </div>
       </div>
 
+      {/* Branches visited this month */}
+      <div className="mb-8">
+        <h3 className="text-xl font-bold mb-4">Branches Visited</h3>
+        <Card>
+          <CardContent className="pt-4">
+            <div className="border rounded-md overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Branch</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Visits</TableHead>
+                    <TableHead>Last Visit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visitedBranches.length > 0 ? (
+                    visitedBranches.map((branch) => (
+                      <TableRow key={branch.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/branches/${branch.id}`} className="hover:text-blue-600 hover:underline">
+                            {branch.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{branch.location}</TableCell>
+                        <TableCell className="capitalize">{branch.category}</TableCell>
+                        <TableCell className="text-right">{branch.visits}</TableCell>
+                        <TableCell>{branch.lastVisit}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-slate-500">
+                        {isSummaryLoading ? "Loading..." : `No branch visits in ${selectedMonth} ${selectedYear}`}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Monthly pack */}
+      <div className="mb-8">
+        <h3 className="text-xl font-bold mb-1">Generate Monthly Pack</h3>
+        <p className="text-sm text-slate-600 mb-4">
+          Category breakdown, coverage, BH performance and qualitative answers for {selectedMonth} {selectedYear}, each compared with the month before.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <DownloadButton
+            label="Monthly Pack (Excel)"
+            description="One sheet per section"
+            icon={<FileSpreadsheet className="h-5 w-5" />}
+            onClick={() => handleGenerateMonthlyPack("xlsx")}
+            isLoading={generatingPack === "xlsx"}
+          />
+          <DownloadButton
+            label="Monthly Pack (PDF)"
+            description="Printable summary"
+            icon={<FileText className="h-5 w-5" />}
+            onClick={() => handleGenerateMonthlyPack("pdf")}
+            isLoading={generatingPack === "pdf"}
+          />
+        </div>
+      </div>
+
       {/* Available Reports */}
       <div className="mb-8">
-        <h3 className="text-xl font-bold mb-4">Available Reports</h3>
+        <h3 className="text-xl font-bold mb-1">Available Reports</h3>
+        <p className="text-sm text-slate-600 mb-4">
+          Exports cover {selectedMonth} {selectedYear} and follow the location, category and BH filters.
+          To receive them regularly,{" "}
+          <Button
+            variant="link"
+            className="h-auto p-0 text-sm"
+            onClick={() => setScheduleDraft({
+              location: selectedLocation === "all" ? null : selectedLocation,
+              category: selectedCategory === "all" ? null : selectedCategory as BranchCategory,
+              bh_id: selectedBH === "all" ? null : selectedBH
+            })}
+          >
+            schedule an export
+          </Button>
+          {" "}with these filters; the files are kept in <Link to="/ch/exports" className="text-blue-600 hover:underline">My Exports</Link>.
+        </p>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <DownloadButton 
             label="Branch Visit Data"
             icon={<Download className="h-5 w-5" />}
-            onClick={handleDownloadBranchVisits}
-            isLoading={isDownloadingVisits}
+            onClick={() => handleExport("branch_visits")}
+            isLoading={exporting === "branch_visits"}
           />
           <DownloadButton 
             label="BH Performance Summary"
             icon={<Download className="h-5 w-5" />}
-            onClick={handleDownloadBHPerformance}
-            isLoading={isDownloadingBH}
+            onClick={() => handleExport("bh_performance")}
+            isLoading={exporting === "bh_performance"}
           />
           <DownloadButton 
             label="Branch Assignments"
             icon={<Download className="h-5 w-5" />}
-            onClick={handleDownloadBranchAssignments}
-            isLoading={isDownloadingAssignments}
+            onClick={() => handleExport("branch_assignments")}
+            isLoading={exporting === "branch_assignments"}
           />
         </div>
       </div>
+
+      <ScheduleExportDialog
+        open={!!scheduleDraft}
+        onOpenChange={(open) => !open && setScheduleDraft(null)}
+        initial={scheduleDraft ?? undefined}
+      />
     </div>
   );
 };
@@ -2,11 +2,10 @@
 import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
 
 const Dashboard = () => {
   const navigate = useNavigate();
-  const { user, session, loading } = useAuth();
+  const { user, session, role, loading } = useAuth();
   
   useEffect(() => {
     if (loading) return;
@@ -18,24 +17,10 @@ const Dashboard = () => {
     }
     
     // Redirect to role-specific dashboard if user gets here directly
-    const redirectToRoleDashboard = async () => {
-      try {
-        const { data: profileData } = await supabase
-          .from('profiles')
-          .select('role')
-          .eq('id', user.id)
-          .single();
-        
-        if (profileData?.role) {
-          navigate(`/${profileData.role.toLowerCase()}/dashboard`);
-        }
-      } catch (error) {
-        console.error("Error redirecting to role dashboard:", error);
-      }
-    };
-    
-    redirectToRoleDashboard();
-  }, [navigate, session, user, loading]);
+    if (role) {
+      navigate(`/${role.toLowerCase()}/dashboard`);
+    }
+  }, [navigate, session, user, role, loading]);
 
   // Show loading state while checking authentication
   if (loading) {
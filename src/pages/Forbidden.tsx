@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+
+const Forbidden = () => {
+  const location = useLocation();
+  const { role, signOut } = useAuth();
+
+  useEffect(() => {
+    console.error(
+      "403 Error: User attempted to access a route outside their role:",
+      location.pathname
+    );
+  }, [location.pathname]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+      <div className="text-center">
+        <ShieldAlert className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <h1 className="text-4xl font-bold mb-4">403</h1>
+        <p className="text-xl text-gray-600 mb-6">You don't have permission to view this page.</p>
+        <div className="flex justify-center gap-3">
+          {role ? (
+            <Button asChild>
+              <Link to={`/${role.toLowerCase()}/dashboard`}>Go to my dashboard</Link>
+            </Button>
+          ) : (
+            <p className="text-gray-600">Your account has no access. Please contact an administrator.</p>
+          )}
+          <Button variant="outline" onClick={signOut}>
+            Sign out
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Download, Pencil, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import ScheduleExportDialog from "@/components/exports/ScheduleExportDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { EXPORT_REPORT_LABELS } from "@/lib/reportExport";
+import { ExportDefinition, FORMAT_LABELS, PERIOD_LABELS, SCHEDULE_LABELS } from "@/lib/exportSchedule";
+import { downloadBlob } from "@/lib/utils";
+import {
+  deleteExportDefinition,
+  deleteExportFile,
+  downloadExportFile,
+  ExportFile,
+  fetchExportDefinitions,
+  fetchExportFiles,
+  updateExportDefinition
+} from "@/services/scheduledExportService";
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const describeFilters = (definition: ExportDefinition) => {
+  const filters = [
+    definition.location,
+    definition.category && definition.category.charAt(0).toUpperCase() + definition.category.slice(1),
+    definition.bh && (definition.bh.full_name || definition.bh.e_code)
+  ].filter(Boolean);
+  return filters.length > 0 ? filters.join(" · ") : "All branches";
+};
+
+const MyExports = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ExportDefinition | null>(null);
+  const [definitionToDelete, setDefinitionToDelete] = useState<ExportDefinition | null>(null);
+  const [fileToDelete, setFileToDelete] = useState<ExportFile | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data: definitions = [], isLoading: definitionsLoading } = useQuery({
+    queryKey: ['export-definitions', user?.id],
+    queryFn: () => fetchExportDefinitions(user!.id),
+    enabled: !!user
+  });
+
+  const { data: files = [], isLoading: filesLoading } = useQuery({
+    queryKey: ['export-files', user?.id],
+    queryFn: () => fetchExportFiles(user!.id),
+    enabled: !!user
+  });
+
+  const refreshDefinitions = () => queryClient.invalidateQueries({ queryKey: ['export-definitions', user?.id] });
+  const refreshFiles = () => queryClient.invalidateQueries({ queryKey: ['export-files', user?.id] });
+
+  const openDialog = (definition: ExportDefinition | null) => {
+    setEditing(definition);
+    setDialogOpen(true);
+  };
+
+  const handleToggle = async (definition: ExportDefinition, active: boolean) => {
+    setBusyId(definition.id);
+    try {
+      await updateExportDefinition(definition.id, { active }, definition.schedule);
+      refreshDefinitions();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteDefinition = async () => {
+    if (!definitionToDelete) return;
+    try {
+      await deleteExportDefinition(definitionToDelete.id);
+      refreshDefinitions();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setDefinitionToDelete(null);
+    }
+  };
+
+  const handleDownload = async (file: ExportFile) => {
+    setBusyId(file.id);
+    try {
+      downloadBlob(await downloadExportFile(file), file.file_name);
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteFile = async () => {
+    if (!fileToDelete) return;
+    try {
+      await deleteExportFile(fileToDelete);
+      refreshFiles();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setFileToDelete(null);
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-1">My Exports</h1>
+          <p className="text-slate-600">Scheduled report exports and the files they have generated</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Schedule export
+        </Button>
+      </div>
+
+      {/* Scheduled exports */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="text-lg">Scheduled exports</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-md overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">On</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Report</TableHead>
+                  <TableHead>Filters</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead>Next run</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {definitionsLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-slate-500">
+                      Loading scheduled exports...
+                    </TableCell>
+                  </TableRow>
+                ) : definitions.length > 0 ? (
+                  definitions.map((definition) => (
+                    <TableRow key={definition.id} className={definition.active ? "" : "opacity-60"}>
+                      <TableCell>
+                        <Switch
+                          checked={definition.active}
+                          onCheckedChange={(active) => handleToggle(definition, active)}
+                          disabled={busyId === definition.id}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{definition.name}</TableCell>
+                      <TableCell>{EXPORT_REPORT_LABELS[definition.report]}</TableCell>
+                      <TableCell className="text-slate-600">{describeFilters(definition)}</TableCell>
+                      <TableCell>
+                        <div>{SCHEDULE_LABELS[definition.schedule]}</div>
+                        <div className="text-xs text-slate-500">{PERIOD_LABELS[definition.period]}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{FORMAT_LABELS[definition.format]}</Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {definition.active ? format(new Date(definition.next_run_at), "d MMM yyyy, HH:mm") : "Paused"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => openDialog(definition)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => setDefinitionToDelete(definition)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-slate-500">
+                      No scheduled exports yet. Schedule one here or from Reports.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Archive */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Generated files</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-md overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Report</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead>Generated</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filesLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-slate-500">
+                      Loading exports...
+                    </TableCell>
+                  </TableRow>
+                ) : files.length > 0 ? (
+                  files.map((file) => (
+                    <TableRow key={file.id}>
+                      <TableCell className="font-medium">{file.file_name}</TableCell>
+                      <TableCell>{EXPORT_REPORT_LABELS[file.report]}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(parseISO(file.period_start), "d MMM")} – {format(parseISO(file.period_end), "d MMM yyyy")}
+                      </TableCell>
+                      <TableCell className="text-right">{file.row_count}</TableCell>
+                      <TableCell className="text-right">{formatSize(file.size_bytes)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(file.created_at), "d MMM yyyy, HH:mm")}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDownload(file)}
+                            disabled={busyId === file.id}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => setFileToDelete(file)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-slate-500">
+                      No files yet. Scheduled exports appear here after their first run.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ScheduleExportDialog open={dialogOpen} onOpenChange={setDialogOpen} definition={editing} />
+
+      <AlertDialog open={!!definitionToDelete} onOpenChange={(open) => !open && setDefinitionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete scheduled export</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{definitionToDelete?.name}" will no longer run. Files it already generated stay below.
+              To pause it instead, switch it off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteDefinition} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!fileToDelete} onOpenChange={(open) => !open && setFileToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete export</AlertDialogTitle>
+            <AlertDialogDescription>
+              {fileToDelete?.file_name} will be removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteFile} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default MyExports;
@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { format, parseISO } from "date-fns";
-import { Check, Clock, Edit, Eye, FileText, Plus, Search, Trash2 } from "lucide-react";
+import { Check, Clock, Edit, Eye, FileText, Plus, RotateCcw, Search, Trash2 } from "lucide-react";
 import { toast } from "@/components/ui/use-toast";
 
 import { Button } from "@/components/ui/button";
@@ -19,11 +19,14 @@ import {
 } from "@/components/ui/select";
 import BranchVisitDetailsModal from "@/components/branch/BranchVisitDetailsModal";
 import EditVisitModal from "@/components/branch/EditVisitModal";
-import { BranchVisitSummary } from "@/services/reportService";
+import PendingSyncList from "@/components/branch/PendingSyncList";
+import { useVisitOutbox } from "@/hooks/use-visit-outbox";
+import { BranchVisitSummary, VisitReview, fetchLatestReviews } from "@/services/reportService";
+import { ReportStatus, isEditable } from "@/lib/reportWorkflow";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 const MyVisits = () => {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
   const [visits, setVisits] = useState<BranchVisitSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedVisit, setSelectedVisit] = useState<BranchVisitSummary | null>(null);
@@ -36,6 +39,7 @@ const MyVisits = () => {
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [visitToDelete, setVisitToDelete] = useState<BranchVisitSummary | null>(null);
+  const [latestReviews, setLatestReviews] = useState<Record<string, VisitReview>>({});
 
   const fetchVisits = async () => {
     if (!user) return;
@@ -60,6 +64,12 @@ const MyVisits = () => {
       if (error) throw error;
       
       setVisits(data || []);
+
+      // Latest reviewer comment per visit, so rejection reasons show on the cards
+      const reviewedIds = (data || [])
+        .filter(visit => ["approved", "rejected", "needs_revision", "resubmitted"].includes(visit.status))
+        .map(visit => visit.id);
+      setLatestReviews(await fetchLatestReviews(reviewedIds));
     } catch (error) {
       console.error("Error fetching visit reports:", error);
       toast({
@@ -76,6 +86,8 @@ const MyVisits = () => {
     fetchVisits();
   }, [user]);
 
+  const outbox = useVisitOutbox(user?.id, { onSynced: fetchVisits });
+
   const handleViewDetails = (visit: BranchVisitSummary) => {
     setSelectedVisit(visit);
     setVisitDetailsOpen(true);
@@ -132,6 +144,16 @@ const MyVisits = () => {
           <Eye className="h-3 w-3" />
           Submitted
         </Badge>;
+      case "resubmitted":
+        return <Badge className="bg-blue-100 text-blue-800 flex items-center gap-1 font-normal">
+          <Eye className="h-3 w-3" />
+          Resubmitted
+        </Badge>;
+      case "needs_revision":
+        return <Badge className="bg-amber-100 text-amber-800 flex items-center gap-1 font-normal">
+          <RotateCcw className="h-3 w-3" />
+          Needs Revision
+        </Badge>;
       case "approved":
         return <Badge className="bg-green-100 text-green-800 flex items-center gap-1 font-normal">
           <Check className="h-3 w-3" />
@@ -223,6 +245,14 @@ const MyVisits = () => {
         </Button>
       </div>
 
+      <PendingSyncList
+        items={outbox.items}
+        isOnline={outbox.isOnline}
+        onSyncNow={outbox.flush}
+        onRetry={outbox.retry}
+        onDiscard={outbox.discard}
+      />
+
       <Card className="mb-8">
         <CardContent className="p-5">
           <div className="flex flex-col gap-4">
@@ -267,7 +297,7 @@ const MyVisits = () => {
             {/* Tabs Row (always in its own row, spaced between) */}
             <div className="flex flex-row w-full justify-between">
                 <Tabs value={statusFilter} onValueChange={setStatusFilter} className="w-full">
-                  <TabsList className="grid w-full grid-cols-5">
+                  <TabsList className="grid w-full grid-cols-6">
                   <TabsTrigger value="all">
                     <FileText className="h-5 w-5" />
                     <span className="hidden md:inline ml-1">All</span>
@@ -276,6 +306,10 @@ const MyVisits = () => {
                     <Eye className="h-5 w-5" />
                     <span className="hidden md:inline ml-1">Submitted</span>
                   </TabsTrigger>
+                  <TabsTrigger value="needs_revision">
+                    <RotateCcw className="h-5 w-5" />
+                    <span className="hidden md:inline ml-1">To Revise</span>
+                  </TabsTrigger>
                   <TabsTrigger value="approved">
                     <Check className="h-5 w-5" />
                     <span className="hidden md:inline ml-1">Approved</span>
@@ -320,6 +354,8 @@ const MyVisits = () => {
               visit.status === 'approved' ? 'border-l-green-500' : 
               visit.status === 'submitted' ? 'border-l-blue-500' : 
               visit.status === 'rejected' ? 'border-l-red-500' :
+              visit.status === 'needs_revision' ? 'border-l-amber-500' :
+              visit.status === 'resubmitted' ? 'border-l-blue-500' :
               'border-l-slate-300'
             }`}>
               <CardContent className="p-6">
@@ -349,6 +385,22 @@ const MyVisits = () => {
                     <div className="font-medium">{calculateCoverage(visit)}</div>
                   </div>
                 </div>
+
+                {latestReviews[visit.id]?.comment && (
+                  <div className={`mb-4 rounded-md p-3 text-sm ${
+                    latestReviews[visit.id].decision === "rejected" ? "bg-red-50 text-red-800" :
+                    latestReviews[visit.id].decision === "needs_revision" ? "bg-amber-50 text-amber-800" :
+                    "bg-green-50 text-green-800"
+                  }`}>
+                    <div className="font-medium mb-1">
+                      {latestReviews[visit.id].decision === "rejected" ? "Rejection reason" :
+                        latestReviews[visit.id].decision === "needs_revision" ? "Changes requested" :
+                        "Reviewer notes"}
+                      <span className="font-normal"> · {latestReviews[visit.id].reviewer_name}</span>
+                    </div>
+                    <p className="line-clamp-3">{latestReviews[visit.id].comment}</p>
+                  </div>
+                )}
                 
                 <div className="flex gap-3 pt-3 border-t">
                   <Button
@@ -361,25 +413,26 @@ const MyVisits = () => {
                     View Details
                   </Button>
                   
+                  {isEditable(visit.status as ReportStatus, role) && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleEditVisit(visit)}
+                    >
+                      <Edit className="h-4 w-4 mr-2" /> 
+                      {visit.status === "needs_revision" ? "Revise" : "Edit"}
+                    </Button>
+                  )}
+
                   {visit.status === "draft" && (
-                    <>
-                      <Button
-                        variant="secondary"
-                        size="sm"
-                        className="flex-1"
-                        onClick={() => handleEditVisit(visit)}
-                      >
-                        <Edit className="h-4 w-4 mr-2" /> 
-                        Edit
-                      </Button>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => handleDeleteVisit(visit)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleDeleteVisit(visit)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   )}
                 </div>
               </CardContent>
@@ -1,8 +1,9 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { toast } from "@/components/ui/use-toast";
+import { getSubmitStatus } from "@/lib/reportWorkflow";
 import { format, parseISO } from "date-fns";
 import { 
   CheckSquare, 
@@ -17,7 +18,8 @@ import {
   Star,
   Calendar as CalendarIcon,
   Save,
-  Send
+  Send,
+  WifiOff
 } from "lucide-react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
@@ -54,79 +56,14 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { YesNoToggle } from "@/components/ui/yes-no-toggle";
 import { cn } from "@/lib/utils";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { fetchAssignedBranchesWithDetails, createBranchVisit } from "@/services/branchService";
-import { Database } from "@/integrations/supabase/types";
-
-type BranchCategory = "platinum" | "diamond" | "gold" | "silver" | "bronze";
-
-type BranchAssignment = {
-  branch_id: string;
-  branches?: {
-    id: string;
-    name: string;
-    location: string;
-    category: string;
-    branch_code: string | null;
-  };
-};
-
-interface Branch {
-  id: string;
-  name: string;
-  location: string;
-  category: BranchCategory;
-  created_at: string;
-  updated_at: string;
-  branch_code: string;
-  branches?: {
-    id: string;
-    name: string;
-    location: string;
-    category: string;
-    branch_code: string | null;
-  };
-}
-
-interface BranchVisit {
-  id: string;
-  visit_date: string;
-  branch_id: string;
-  user_id: string;
-  status: string;
-  branch_category: string;
-  manning_percentage: number | null;
-  attrition_percentage: number | null;
-  er_percentage: number | null;
-  non_vendor_percentage: number | null;
-  cwt_cases: number | null;
-  performance_level: string | null;
-  total_employees_invited: number | null;
-  total_participants: number | null;
-  hr_connect_session: boolean | null;
-  new_employees_total: number | null;
-  new_employees_covered: number | null;
-  star_employees_total: number | null;
-  star_employees_covered: number | null;
-  feedback: string | null;
-  best_practices: string | null;
-  leaders_aligned_with_code: string | null;
-  employees_feel_safe: string | null;
-  employees_feel_motivated: string | null;
-  leaders_abusive_language: string | null;
-  employees_comfort_escalation: string | null;
-  inclusive_culture: string | null;
-  branches?: {
-    id: string;
-    name: string;
-    location: string;
-    category: string;
-    branch_code: string | null;
-  };
-  profiles?: {
-    full_name: string;
-    e_code: string;
-  };
-}
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { useFormAutosave } from "@/hooks/use-form-autosave";
+import { fetchAssignedBranchesWithDetails, createBranchVisit, BranchAssignment, BranchVisitInput } from "@/services/branchService";
+import { CACHE_STORE, loadSnapshot, saveSnapshot } from "@/lib/offlineStore";
+import { isNetworkError, queueVisit } from "@/lib/visitOutbox";
+import { VisitPlanWithBranch, completeVisitPlan, fetchVisitPlan } from "@/services/visitPlanService";
+import AutosaveIndicator from "@/components/branch/AutosaveIndicator";
+import { BranchCategory } from "@/lib/metrics";
 
 const formSchema = z.object({
   branchId: z.string(),
@@ -155,9 +92,16 @@ const formSchema = z.object({
   starEmployeesCovered: z.number().min(0).optional(),
 });
 
+type VisitFormValues = z.infer<typeof formSchema>;
+
 const NewVisit = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const isOnline = useOnlineStatus();
+  const [searchParams] = useSearchParams();
+  // Set when the visit is filed from a planned visit on the calendar
+  const planId = searchParams.get("plan");
+  const [plan, setPlan] = useState<VisitPlanWithBranch | null>(null);
   const [branches, setBranches] = useState<BranchAssignment[]>([]);
   const [loading, setLoading] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
@@ -170,7 +114,7 @@ const NewVisit = () => {
   const [employeesComfortEscalation, setEmployeesComfortEscalation] = useState<boolean | null>(null);
   const [inclusiveCulture, setInclusiveCulture] = useState<boolean | null>(null);
 
-  const form = useForm<z.infer<typeof formSchema>>({
+  const form = useForm<VisitFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       branchId: "",
@@ -225,7 +169,16 @@ const NewVisit = () => {
       }
 
       try {
-        const assignedBranches = await fetchAssignedBranchesWithDetails(user.id);
+        let assignedBranches: BranchAssignment[];
+        try {
+          assignedBranches = await fetchAssignedBranchesWithDetails(user.id);
+          saveSnapshot(CACHE_STORE, `assigned-branches:${user.id}`, assignedBranches).catch(console.error);
+        } catch (fetchError) {
+          // Offline: fall back to the branches from the last successful load
+          const cached = await loadSnapshot<BranchAssignment[]>(CACHE_STORE, `assigned-branches:${user.id}`).catch(() => undefined);
+          if (!cached || !isNetworkError(fetchError)) throw fetchError;
+          assignedBranches = cached.value;
+        }
         console.log('Assigned branches:', assignedBranches);
         setBranches(assignedBranches);
 
@@ -255,7 +208,71 @@ const NewVisit = () => {
     fetchBranches();
   }, [user, form]);
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+  useEffect(() => {
+    if (!planId) return;
+
+    fetchVisitPlan(planId).then((planned) => {
+      if (planned?.status === "planned") setPlan(planned);
+    });
+  }, [planId]);
+
+  // Prefill branch and date from the plan, unless an autosaved copy of this
+  // form already filled them in
+  useEffect(() => {
+    if (!plan || form.getValues('branchId')) return;
+
+    const planned = branches.find(branch => branch.branch_id === plan.branch_id);
+    if (!planned?.branches) return;
+
+    form.setValue('branchId', plan.branch_id);
+    form.setValue('visitDate', parseISO(plan.planned_date));
+    form.setValue('branchCategory', planned.branches.category.toLowerCase() as BranchCategory);
+    form.setValue('branchCode', planned.branches.branch_code || '');
+  }, [plan, branches, form]);
+
+  // Autosave the in-progress form so a refresh or a dropped connection does
+  // not lose it; it is restored when the page is opened again. Each planned
+  // visit gets its own copy.
+  const autosave = useFormAutosave(form, {
+    userId: user?.id,
+    formKey: planId ? `plan:${planId}` : "new-visit",
+    revive: (values) => ({
+      ...values,
+      visitDate: values.visitDate ? new Date(values.visitDate as string | Date) : new Date(),
+    }) as Partial<VisitFormValues>,
+    onRestore: () => {
+      toast({
+        title: "Form restored",
+        description: "We restored the visit form you had not sent yet.",
+      });
+    },
+  });
+
+  // Stores the visit in the outbox; it is sent once the device is back online
+  const queueForSync = async (visitData: BranchVisitInput) => {
+    const branch = branches.find(b => b.branch_id === visitData.branch_id);
+    await queueVisit(visitData, branch?.branches?.name || null, plan?.id || null);
+    await autosave.clear();
+    setSaveStatus("saved");
+    toast({
+      title: "Saved on this device",
+      description: "You're offline. The visit will be sent automatically when the connection returns.",
+    });
+    setTimeout(() => {
+      navigate('/bh/my-visits');
+    }, 1500);
+  };
+
+  // Marks the plan this visit was filed from as done. The visit itself is
+  // already saved, so a failure here is only logged.
+  const completePlan = async (visitId: string) => {
+    if (!plan) return;
+    await completeVisitPlan(plan.id, visitId).catch((error) => {
+      console.error("Error completing visit plan:", error);
+    });
+  };
+
+  const onSubmit = async (values: VisitFormValues) => {
     if (!user) {
       toast({
         variant: "destructive",
@@ -272,8 +289,8 @@ const NewVisit = () => {
       const visitData = {
         user_id: user.id,
         branch_id: values.branchId,
-        visit_date: values.visitDate.toISOString().split('T')[0],
-        branch_category: values.branchCategory,
+        visit_date: format(values.visitDate, 'yyyy-MM-dd'),
+        branch_category: values.branchCategory || null,
         hr_connect_session: values.hrConnectSession,
         total_employees_invited: values.totalEmployeesInvited,
         total_participants: values.totalParticipants,
@@ -294,12 +311,24 @@ const NewVisit = () => {
         leaders_abusive_language: values.leaders_abusive_language,
         employees_comfort_escalation: values.employees_comfort_escalation,
         inclusive_culture: values.inclusive_culture,
-        status: "submitted"
+        status: getSubmitStatus(null)
       };
 
+      if (!navigator.onLine) {
+        await queueForSync(visitData);
+        return;
+      }
+
       const result = await createBranchVisit(visitData);
 
+      if (!result.success && isNetworkError(result.error)) {
+        await queueForSync(visitData);
+        return;
+      }
+
       if (result.success) {
+        await completePlan(result.data.id);
+        await autosave.clear();
         setSaveStatus("saved");
         toast({
           title: "Success",
@@ -356,8 +385,8 @@ const NewVisit = () => {
       const draftData = {
         user_id: user.id,
         branch_id: values.branchId,
-        visit_date: values.visitDate.toISOString(),
-        branch_category: values.branchCategory,
+        visit_date: format(values.visitDate, 'yyyy-MM-dd'),
+        branch_category: values.branchCategory || null,
         hr_connect_session: values.hrConnectSession,
         total_employees_invited: values.totalEmployeesInvited,
         total_participants: values.totalParticipants,
@@ -373,9 +402,21 @@ const NewVisit = () => {
         status: "draft" as const
       };
 
+      if (!navigator.onLine) {
+        await queueForSync(draftData);
+        return;
+      }
+
       const result = await createBranchVisit(draftData);
 
-      if (result) {
+      if (!result.success && isNetworkError(result.error)) {
+        await queueForSync(draftData);
+        return;
+      }
+
+      if (result.success) {
+        await completePlan(result.data.id);
+        await autosave.clear();
         setSaveStatus("saved");
         toast({
           title: "Success",
@@ -386,6 +427,8 @@ const NewVisit = () => {
         setTimeout(() => {
           navigate('/bh/my-visits');
         }, 1500);
+      } else {
+        setSaveStatus("error");
       }
     } catch (error: any) {
       console.error("Error saving draft:", error);
@@ -430,9 +473,32 @@ const NewVisit = () => {
     <div className="container max-w-5xl py-6">
       <h1 className="text-lg md:text-2xl font-bold mb-6 bg-gradient-to-r from-blue-700 to-blue-500 bg-clip-text text-transparent">New Branch Visit Form</h1>
 
+      {!isOnline && (
+        <div className="flex items-start gap-3 rounded-md border border-amber-200 bg-amber-50 p-4 mb-6 text-sm text-amber-800">
+          <WifiOff className="h-5 w-5 flex-shrink-0" />
+          <p>
+            You're offline. Your answers are kept on this device, and submitted visits
+            will be sent automatically when the connection returns.
+          </p>
+        </div>
+      )}
+
+      {plan && (
+        <div className="flex items-start gap-3 rounded-md border border-blue-200 bg-blue-50 p-4 mb-6 text-sm text-blue-800">
+          <CalendarIcon className="h-5 w-5 flex-shrink-0" />
+          <p>
+            Filing the visit planned for {plan.branches?.name || "this branch"} on{" "}
+            {format(parseISO(plan.planned_date), "PPP")}.
+          </p>
+        </div>
+      )}
+
       <Card>
         <CardHeader>
-          <CardTitle className="text-base md:text-xl">Branch Visit Details</CardTitle>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-base md:text-xl">Branch Visit Details</CardTitle>
+            <AutosaveIndicator status={autosave.status} lastSavedAt={autosave.lastSavedAt} />
+          </div>
         </CardHeader>
         <CardContent>
           <Form {...form}>
@@ -452,7 +518,7 @@ const NewVisit = () => {
                           field.onChange(value);
                           handleBranchChange(value);
                         }}
-                        defaultValue={field.value}
+                        value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
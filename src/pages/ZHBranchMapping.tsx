@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   Card,
@@ -32,22 +33,28 @@ import {
   SelectTrigger,
   SelectValue
 } from "@/components/ui/select";
-import { Search, Plus, X, MapPin } from "lucide-react";
+import { Search, Plus, X, MapPin, Upload, ArrowRightLeft } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   fetchBranches, 
   fetchBHs, 
   assignBranchToBH, 
   unassignBranchFromBH, 
-  fetchBranchAssignments 
+  fetchBranchAssignments,
+  bulkAssignBranches,
+  bulkUnassignBranches,
+  transferBranches
 } from "@/services/zhService";
 import { toast } from "@/components/ui/use-toast";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import AssignmentImportDialog from "@/components/zh/AssignmentImportDialog";
 
 type Branch = {
   id: string;
   name: string;
   location: string;
+  branch_code: string | null;
   category: string;
   bh_count: number;
 };
@@ -66,6 +73,11 @@ type BranchAssignment = {
   bh_name: string;
 };
 
+type BulkAction = "assign" | "unassign" | "transfer";
+
+// Value of the "from" select that stands for every BH holding the branch
+const ALL_BHS = "all";
+
 const ZHBranchMapping = () => {
   const { user } = useAuth();
   
@@ -91,44 +103,55 @@ const ZHBranchMapping = () => {
     bhUserId: string;
     bhName: string;
   } | null>(null);
+
+  // Bulk action states
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [bulkFromBH, setBulkFromBH] = useState<string>(ALL_BHS);
+  const [bulkToBH, setBulkToBH] = useState<string | null>(null);
+  const [isBulkSaving, setIsBulkSaving] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   
+  const loadData = useCallback(async () => {
+    if (!user) return;
+    
+    // Fetch branches and BH users in parallel
+    const [branchesData, bhUsersData, allAssignmentsData] = await Promise.all([
+      fetchBranches(user.id),
+      fetchBHs(user.id),
+      fetchBranchAssignments()
+    ]);
+    
+    setBranches(branchesData);
+    setFilteredBranches(branchesData);
+    setBHUsers(bhUsersData);
+    
+    // Group assignments by branch ID
+    const assignmentsMap: Record<string, BranchAssignment[]> = {};
+    
+    allAssignmentsData.forEach(assignment => {
+      const branchId = assignment.branch_id;
+      
+      if (!assignmentsMap[branchId]) {
+        assignmentsMap[branchId] = [];
+      }
+      
+      assignmentsMap[branchId].push({
+        id: assignment.id,
+        user_id: assignment.user_id,
+        bh_name: assignment.bh_name
+      });
+    });
+    
+    setBranchAssignments(assignmentsMap);
+  }, [user]);
+
   // Fetch data on component mount
   useEffect(() => {
-    const loadData = async () => {
-      if (!user) return;
-      
+    const loadInitialData = async () => {
       try {
         setIsLoading(true);
-        
-        // Fetch branches and BH users in parallel
-        const [branchesData, bhUsersData, allAssignmentsData] = await Promise.all([
-          fetchBranches(user.id),
-          fetchBHs(user.id),
-          fetchBranchAssignments()
-        ]);
-        
-        setBranches(branchesData);
-        setFilteredBranches(branchesData);
-        setBHUsers(bhUsersData);
-        
-        // Group assignments by branch ID
-        const assignmentsMap: Record<string, BranchAssignment[]> = {};
-        
-        allAssignmentsData.forEach(assignment => {
-          const branchId = assignment.branch_id;
-          
-          if (!assignmentsMap[branchId]) {
-            assignmentsMap[branchId] = [];
-          }
-          
-          assignmentsMap[branchId].push({
-            id: assignment.id,
-            user_id: assignment.user_id,
-            bh_name: assignment.bh_name
-          });
-        });
-        
-        setBranchAssignments(assignmentsMap);
+        await loadData();
       } catch (error) {
         console.error("Error loading branch mapping data:", error);
         toast({
@@ -141,8 +164,8 @@ const ZHBranchMapping = () => {
       }
     };
     
-    loadData();
-  }, [user]);
+    loadInitialData();
+  }, [loadData]);
   
   // Filter branches when filters change
   useEffect(() => {
@@ -152,7 +175,8 @@ const ZHBranchMapping = () => {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(
         branch => branch.name.toLowerCase().includes(query) || 
-                 branch.location.toLowerCase().includes(query)
+                 branch.location.toLowerCase().includes(query) ||
+                 (branch.branch_code || "").toLowerCase().includes(query)
       );
     }
     
@@ -314,6 +338,76 @@ const ZHBranchMapping = () => {
     }
   };
   
+  const toggleSelected = (branchId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(branchId);
+      } else {
+        next.delete(branchId);
+      }
+      return next;
+    });
+  };
+
+  const allFilteredSelected = filteredBranches.length > 0 &&
+    filteredBranches.every(branch => selectedIds.has(branch.id));
+
+  const toggleAllFiltered = (checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      filteredBranches.forEach(branch => {
+        if (checked) {
+          next.add(branch.id);
+        } else {
+          next.delete(branch.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  // BHs holding at least one of the selected branches
+  const selectedHolders = bhUsers.filter(bhUser =>
+    [...selectedIds].some(branchId =>
+      (branchAssignments[branchId] || []).some(assignment => assignment.user_id === bhUser.id)
+    )
+  );
+
+  const openBulkDialog = (action: BulkAction) => {
+    setBulkAction(action);
+    setBulkFromBH(action === "transfer" ? "" : ALL_BHS);
+    setBulkToBH(null);
+  };
+
+  const canConfirmBulk = !isBulkSaving && (
+    bulkAction === "assign" ? !!bulkToBH :
+    bulkAction === "transfer" ? !!bulkFromBH && !!bulkToBH && bulkFromBH !== bulkToBH :
+    bulkAction === "unassign"
+  );
+
+  const handleConfirmBulk = async () => {
+    const branchIds = [...selectedIds];
+
+    try {
+      setIsBulkSaving(true);
+      if (bulkAction === "assign" && bulkToBH) {
+        await bulkAssignBranches(bulkToBH, branchIds);
+      } else if (bulkAction === "transfer" && bulkFromBH && bulkToBH) {
+        await transferBranches(branchIds, bulkFromBH, bulkToBH);
+      } else if (bulkAction === "unassign") {
+        await bulkUnassignBranches(branchIds, bulkFromBH === ALL_BHS ? null : bulkFromBH);
+      }
+      setBulkAction(null);
+      setSelectedIds(new Set());
+      await loadData();
+    } catch {
+      // Error toast is shown by the service
+    } finally {
+      setIsBulkSaving(false);
+    }
+  };
+
   // Function to format branch category names
   const formatCategoryName = (category: string) => {
     return category.charAt(0).toUpperCase() + category.slice(1);
@@ -352,7 +446,13 @@ const ZHBranchMapping = () => {
     <div className="p-6">
       <div className="mb-6">
         <h1 className="text-xl md:text-2xl font-bold bg-gradient-to-r from-blue-700 to-blue-500 bg-clip-text text-transparent mb-1 md:mb-1">Branch Mapping</h1>
-        <p className="text-slate-600-">Assign branches to Branch Head Representatives (BHRs)</p>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <p className="text-slate-600-">Assign branches to Branch Head Representatives (BHRs)</p>
+          <Button variant="outline" onClick={() => setImportOpen(true)} className="w-full sm:w-auto">
+            <Upload className="mr-2 h-4 w-4" />
+            Import CSV
+          </Button>
+        </div>
       </div>
       
       <Card className="mb-6 hover:shadow-md transition-shadow">
@@ -384,10 +484,40 @@ const ZHBranchMapping = () => {
             </div>
           </div>
           
+          {selectedIds.size > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-4 p-3 rounded-md border border-blue-200 bg-blue-50">
+              <span className="text-sm font-medium text-blue-800 mr-auto">
+                {selectedIds.size} branch{selectedIds.size === 1 ? "" : "es"} selected
+              </span>
+              <Button size="sm" onClick={() => openBulkDialog("assign")} className="bg-blue-600 hover:bg-blue-700 text-white">
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Assign
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => openBulkDialog("transfer")} disabled={selectedHolders.length === 0}>
+                <ArrowRightLeft className="mr-1 h-3.5 w-3.5" />
+                Transfer
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => openBulkDialog("unassign")} disabled={selectedHolders.length === 0}>
+                <X className="mr-1 h-3.5 w-3.5" />
+                Unassign
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setSelectedIds(new Set())}>
+                Clear
+              </Button>
+            </div>
+          )}
+
           <div className="border rounded-md overflow-hidden">
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allFilteredSelected}
+                      onCheckedChange={(checked) => toggleAllFiltered(checked === true)}
+                      aria-label="Select all shown branches"
+                    />
+                  </TableHead>
                   <TableHead className="w-[200px]">Branch Name</TableHead>
                   <TableHead>Location</TableHead>
                   <TableHead>Category</TableHead>
@@ -398,8 +528,22 @@ const ZHBranchMapping = () => {
               <TableBody>
                 {filteredBranches.length > 0 ? (
                   filteredBranches.map((branch) => (
-                    <TableRow key={branch.id}>
-                      <TableCell className="font-medium">{branch.name}</TableCell>
+                    <TableRow key={branch.id} data-state={selectedIds.has(branch.id) ? "selected" : undefined}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.has(branch.id)}
+                          onCheckedChange={(checked) => toggleSelected(branch.id, checked === true)}
+                          aria-label={`Select ${branch.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        <Link to={`/branches/${branch.id}`} className="hover:text-blue-600 hover:underline">
+                          {branch.name}
+                        </Link>
+                        {branch.branch_code && (
+                          <span className="block text-xs font-normal text-slate-500">{branch.branch_code}</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <span className="flex items-center gap-1">
                           <MapPin className="inline-block h-4 w-4 text-slate-400" />
@@ -451,7 +595,7 @@ const ZHBranchMapping = () => {
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center py-8 text-slate-500">
+                    <TableCell colSpan={6} className="text-center py-8 text-slate-500">
                       {searchQuery || categoryFilter !== "all" ? 
                         "No branches match your search criteria" : 
                         "No branches available in your zone"
@@ -516,6 +660,79 @@ const ZHBranchMapping = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Bulk assign / transfer / unassign */}
+      <Dialog open={bulkAction !== null} onOpenChange={(open) => !open && setBulkAction(null)}>
+        <DialogContent className="max-w-md rounded-lg p-4">
+          <DialogHeader>
+            <DialogTitle>
+              {bulkAction === "assign" ? "Assign Branches" : bulkAction === "transfer" ? "Transfer Branches" : "Unassign Branches"}
+            </DialogTitle>
+            <DialogDescription>
+              {bulkAction === "assign" && `Assign ${selectedIds.size} selected branches to a BH. Existing assignments are kept.`}
+              {bulkAction === "transfer" && "Move the selected branches held by one BH to another BH."}
+              {bulkAction === "unassign" && `Remove BH assignments from ${selectedIds.size} selected branches.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {bulkAction !== "assign" && (
+            <Select value={bulkFromBH} onValueChange={setBulkFromBH}>
+              <SelectTrigger>
+                <SelectValue placeholder={bulkAction === "transfer" ? "Transfer from" : "Unassign from"} />
+              </SelectTrigger>
+              <SelectContent>
+                {bulkAction === "unassign" && <SelectItem value={ALL_BHS}>All BHs</SelectItem>}
+                {selectedHolders.map((bhUser) => (
+                  <SelectItem key={bhUser.id} value={bhUser.id}>
+                    {bhUser.full_name} ({bhUser.e_code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {bulkAction !== "unassign" && (
+            <Select value={bulkToBH || ""} onValueChange={setBulkToBH}>
+              <SelectTrigger>
+                <SelectValue placeholder={bulkAction === "transfer" ? "Transfer to" : "Select a BH"} />
+              </SelectTrigger>
+              <SelectContent>
+                {bhUsers
+                  .filter((bhUser) => bulkAction !== "transfer" || bhUser.id !== bulkFromBH)
+                  .map((bhUser) => (
+                    <SelectItem key={bhUser.id} value={bhUser.id}>
+                      {bhUser.full_name} ({bhUser.e_code})
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <Button
+              onClick={handleConfirmBulk}
+              disabled={!canConfirmBulk}
+              className={`${bulkAction === "unassign" ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"} text-white w-full sm:w-auto`}
+            >
+              {bulkAction === "assign" ? "Assign" : bulkAction === "transfer" ? "Transfer" : "Unassign"}
+            </Button>
+            <Button variant="outline" onClick={() => setBulkAction(null)} className="w-full sm:w-auto">Cancel</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AssignmentImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        context={{
+          branches,
+          bhs: bhUsers,
+          assignments: Object.entries(branchAssignments).flatMap(([branchId, assignments]) =>
+            assignments.map((assignment) => ({ branch_id: branchId, user_id: assignment.user_id }))
+          )
+        }}
+        onImported={loadData}
+      />
     </div>
   );
 };
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   Card,
@@ -14,6 +15,9 @@ import { BarChart2, Users, ClipboardCheck, PieChart as PieChartIcon, UserPlus }
 import { toast } from "@/components/ui/use-toast";
 import { fetchDashboardStats } from "@/services/zhService";
 import { fetchRecentReports } from "@/services/reportService";
+import { getUserZoneId } from "@/services/zoneService";
+import OverdueBranchesCard from "@/components/branch/OverdueBranchesCard";
+import HighRiskBranchesCard from "@/components/branch/HighRiskBranchesCard";
 import BranchVisitDetailsModal from "@/components/branch/BranchVisitDetailsModal";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
 import { ChartContainer } from "@/components/ui/chart";
@@ -40,6 +44,12 @@ const ZHDashboard = () => {
   const [selectedVisit, setSelectedVisit] = useState<any>(null);
   const [categoryData, setCategoryData] = useState<{name: string; value: number; color: string}[]>([]);
 
+  const { data: zoneId } = useQuery({
+    queryKey: ['user-zone', user?.id],
+    queryFn: () => getUserZoneId(user!.id),
+    enabled: !!user
+  });
+
   useEffect(() => {
     const fetchDashboardData = async () => {
       if (!user) return;
@@ -236,6 +246,19 @@ const ZHDashboard = () => {
             </Card>
           </div>
           
+          {zoneId && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              <OverdueBranchesCard
+                scope={{ zoneId }}
+                description="Branches in your zone past their visit frequency target"
+              />
+              <HighRiskBranchesCard
+                scope={{ zoneId }}
+                description="Branches in your zone whose latest report raised a risk flag"
+              />
+            </div>
+          )}
+
           <Card className="shadow-sm hover:shadow-md transition-shadow mb-8">
             <CardHeader className="border-b pb-3">
               <CardTitle className="text-lg font-medium">Recent Branch Visit Reports</CardTitle>
@@ -6,16 +6,28 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Search, CalendarIcon, Check, X, Trash2, Clock, MapPin, FileText, Eye } from "lucide-react";
+import { Search, CalendarIcon, Check, X, Trash2, Clock, MapPin, FileText, Eye, RotateCcw } from "lucide-react";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
 import { 
   BranchVisitSummary, 
   fetchRecentReports, 
   fetchReportById, 
   updateReportStatus 
 } from "@/services/reportService";
+import ReviewDecisionDialog from "@/components/zh/ReviewDecisionDialog";
+import {
+  AWAITING_REVIEW_STATUSES,
+  ReportStatus,
+  ReviewDecision,
+  getReviewDecisions
+} from "@/lib/reportWorkflow";
+import VisitReviewHistory from "@/components/branch/VisitReviewHistory";
+import RiskBadge from "@/components/branch/RiskBadge";
+import { evaluateVisitRisk, RiskRule } from "@/lib/riskRules";
+import { fetchRiskRules } from "@/services/riskService";
 
 const getStatusBadge = (status: string | null) => {
   switch(status) {
@@ -23,6 +35,10 @@ const getStatusBadge = (status: string | null) => {
       return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
     case "submitted":
       return <Badge className="bg-blue-100 text-blue-800">submitted</Badge>;
+    case "resubmitted":
+      return <Badge className="bg-blue-100 text-blue-800">Resubmitted</Badge>;
+    case "needs_revision":
+      return <Badge className="bg-amber-100 text-amber-800">Needs Revision</Badge>;
     case "rejected":
       return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
     default:
@@ -34,12 +50,15 @@ interface ReportDetailsModalProps {
   reportId: string | null;
   open: boolean;
   onClose: () => void;
-  onStatusUpdate: (reportId: string, status: "approved" | "rejected") => void;
+  onStatusUpdate: (reportId: string, status: ReviewDecision, comment: string) => Promise<void>;
+  role: string | null;
+  riskRules: RiskRule[];
   onDeleteReport?: (reportId: string) => void;
 }
 
-const ReportDetailsModal = ({ reportId, open, onClose, onStatusUpdate, onDeleteReport }: ReportDetailsModalProps) => {
+const ReportDetailsModal = ({ reportId, open, onClose, onStatusUpdate, onDeleteReport, role, riskRules }: ReportDetailsModalProps) => {
   const [confirmDelete, setConfirmDelete] = useState(false);
+  const [pendingDecision, setPendingDecision] = useState<ReviewDecision | null>(null);
   
   const { data: report, isLoading } = useQuery({
     queryKey: ['report-details', reportId],
@@ -64,6 +83,9 @@ const ReportDetailsModal = ({ reportId, open, onClose, onStatusUpdate, onDeleteR
 
   if (!report) return null;
 
+  const decisions = getReviewDecisions(report.status as ReportStatus, role);
+  const risk = evaluateVisitRisk(report, riskRules);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-IN', {
       day: 'numeric',
@@ -110,6 +132,22 @@ const ReportDetailsModal = ({ reportId, open, onClose, onStatusUpdate, onDeleteR
           </DialogHeader>
           
           <div className="space-y-6">
+            {risk.level !== "none" && (
+              <div className={`p-4 rounded-lg border ${risk.level === "red" ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200"}`}>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-medium">Risk flags</h3>
+                  <RiskBadge risk={risk} showScore />
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {risk.flags.map((flag) => (
+                    <li key={flag.ruleId} className={flag.severity === "red" ? "text-red-700" : "text-amber-700"}>
+                      {flag.name} <span className="text-slate-500">({flag.detail})</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-slate-50 p-4 rounded-lg">
               <div>
                 <h3 className="text-sm font-medium text-gray-500">Branch</h3>
@@ -280,42 +318,42 @@ const ReportDetailsModal = ({ reportId, open, onClose, onStatusUpdate, onDeleteR
               </div>
             )}
 
-            <div className="sticky bottom-0 py-4 bg-white border-t mt-6 flex justify-end gap-3">
-              {report.status === "submitted" && (
-                <>
-                  <Button
-                    variant="outline"
-                    className="bg-white border-red-500 text-red-600 hover:bg-red-50 hover:text-red-700"
-                    onClick={() => onStatusUpdate(report.id, "rejected")}
-                  >
-                    <X className="mr-2 h-4 w-4" />
-                    Reject Report
-                  </Button>
-                  <Button
-                    className="bg-green-600 hover:bg-green-700 text-white"
-                    onClick={() => onStatusUpdate(report.id, "approved")}
-                  >
-                    <Check className="mr-2 h-4 w-4" />
-                    Approve Report
-                  </Button>
-                </>
-              )}
+            {report.status !== "draft" && (
+              <div>
+                <h3 className="font-medium text-lg border-b pb-2">Review History</h3>
+                <div className="mt-2">
+                  <VisitReviewHistory visitId={report.id} />
+                </div>
+              </div>
+            )}
 
-              {report.status === "approved" && (
+            <div className="sticky bottom-0 py-4 bg-white border-t mt-6 flex justify-end gap-3">
+              {decisions.includes("rejected") && (
                 <Button
                   variant="outline"
                   className="bg-white border-red-500 text-red-600 hover:bg-red-50 hover:text-red-700"
-                  onClick={() => onStatusUpdate(report.id, "rejected")}
+                  onClick={() => setPendingDecision("rejected")}
                 >
                   <X className="mr-2 h-4 w-4" />
                   Reject Report
                 </Button>
               )}
 
-              {report.status === "rejected" && (
+              {decisions.includes("needs_revision") && (
+                <Button
+                  variant="outline"
+                  className="bg-white border-amber-500 text-amber-700 hover:bg-amber-50 hover:text-amber-800"
+                  onClick={() => setPendingDecision("needs_revision")}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Send Back for Revision
+                </Button>
+              )}
+
+              {decisions.includes("approved") && (
                 <Button
                   className="bg-green-600 hover:bg-green-700 text-white"
-                  onClick={() => onStatusUpdate(report.id, "approved")}
+                  onClick={() => setPendingDecision("approved")}
                 >
                   <Check className="mr-2 h-4 w-4" />
                   Approve Report
@@ -336,6 +374,15 @@ const ReportDetailsModal = ({ reportId, open, onClose, onStatusUpdate, onDeleteR
         </DialogContent>
       </Dialog>
 
+      <ReviewDecisionDialog
+        decision={pendingDecision}
+        onCancel={() => setPendingDecision(null)}
+        onConfirm={async (comment) => {
+          await onStatusUpdate(report.id, pendingDecision, comment);
+          setPendingDecision(null);
+        }}
+      />
+
       <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -357,6 +404,7 @@ const ReportDetailsModal = ({ reportId, open, onClose, onStatusUpdate, onDeleteR
 };
 
 const ZHReviewReports = () => {
+  const { user, role } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
@@ -366,14 +414,32 @@ const ZHReviewReports = () => {
     queryFn: () => fetchRecentReports(100) // Fetch more reports for this page
   });
 
-  const handleStatusUpdate = async (reportId: string, status: "approved" | "rejected") => {
-    await updateReportStatus(reportId, status);
+  const { data: riskRules = [] } = useQuery({
+    queryKey: ['risk-rules'],
+    queryFn: fetchRiskRules
+  });
+
+
+  const handleStatusUpdate = async (reportId: string, status: ReviewDecision, comment: string) => {
+    try {
+      await updateReportStatus(reportId, status, { reviewerId: user.id, comment });
+    } catch (error) {
+      console.error("Error updating report status:", error);
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: (error as Error).message || "Unable to update the report status."
+      });
+      throw error;
+    }
     refetch();
     
     toast({
-      title: `Report ${status}`,
-      description: `The report has been ${status} successfully.`,
-      variant: status === "approved" ? "default" : "destructive"
+      title: status === "needs_revision" ? "Report sent back" : `Report ${status}`,
+      description: status === "needs_revision"
+        ? "The BH has been asked to revise and resubmit the report."
+        : `The report has been ${status} successfully.`,
+      variant: status === "rejected" ? "destructive" : "default"
     });
     
     setSelectedReportId(null);
@@ -396,9 +462,11 @@ const ZHReviewReports = () => {
       report.branch_location?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       report.bh_name?.toLowerCase().includes(searchQuery.toLowerCase()));
     
+    // Resubmitted reports sit in the same review queue as first submissions
     const matchesStatus = 
       statusFilter === "all" || 
-      report.status === statusFilter;
+      report.status === statusFilter ||
+      (statusFilter === "submitted" && AWAITING_REVIEW_STATUSES.includes(report.status as ReportStatus));
     
     return matchesSearch && matchesStatus;
   });
@@ -434,7 +502,7 @@ const ZHReviewReports = () => {
             </div>
             <div className="w-full md:w-auto">
               <Tabs value={statusFilter} onValueChange={setStatusFilter} className="w-full">
-                <TabsList className="grid w-full grid-cols-5">
+                <TabsList className="grid w-full grid-cols-6">
                   <TabsTrigger value="all">
                     <FileText className="h-5 w-5" />
                     <span className="hidden md:inline ml-1">All</span>
@@ -443,6 +511,10 @@ const ZHReviewReports = () => {
                     <Eye className="h-5 w-5" />
                     <span className="hidden md:inline ml-1">Submitted</span>
                   </TabsTrigger>
+                  <TabsTrigger value="needs_revision">
+                    <RotateCcw className="h-5 w-5" />
+                    <span className="hidden md:inline ml-1">Sent Back</span>
+                  </TabsTrigger>
                   <TabsTrigger value="approved">
                     <Check className="h-5 w-5" />
                     <span className="hidden md:inline ml-1">Approved</span>
@@ -486,6 +558,7 @@ const ZHReviewReports = () => {
                   <TableHead className="font-medium">BH Name</TableHead>
                   <TableHead className="font-medium">Visit Date</TableHead>
                   <TableHead className="font-medium">Status</TableHead>
+                  <TableHead className="font-medium">Risk</TableHead>
                   <TableHead className="text-right">Action</TableHead>
                 </TableRow>
               </TableHeader>
@@ -502,6 +575,9 @@ const ZHReviewReports = () => {
                     <TableCell>{report.bh_name}</TableCell>
                     <TableCell>{formatDate(report.visit_date)}</TableCell>
                     <TableCell>{getStatusBadge(report.status)}</TableCell>
+                    <TableCell>
+                      <RiskBadge risk={evaluateVisitRisk(report, riskRules)} />
+                    </TableCell>
                     <TableCell className="text-right">
                       <Button 
                         variant="outline" 
@@ -509,10 +585,10 @@ const ZHReviewReports = () => {
                         onClick={() => setSelectedReportId(report.id)}
                         className={`
                           bg-slate-100 hover:bg-slate-200 text-slate-700 
-                          ${report.status === "submitted" ? "border-blue-200 hover:border-blue-300" : ""}
+                          ${AWAITING_REVIEW_STATUSES.includes(report.status as ReportStatus) ? "border-blue-200 hover:border-blue-300" : ""}
                         `}
                       >
-                        {report.status === "submitted" ? "Review" : "View Details"}
+                        {AWAITING_REVIEW_STATUSES.includes(report.status as ReportStatus) ? "Review" : "View Details"}
                       </Button>
                     </TableCell>
                   </TableRow>
@@ -529,6 +605,8 @@ const ZHReviewReports = () => {
         onClose={() => setSelectedReportId(null)}
         onStatusUpdate={handleStatusUpdate}
         onDeleteReport={handleDeleteReport}
+        role={role}
+        riskRules={riskRules}
       />
     </div>
   );
@@ -0,0 +1,249 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import { Database } from "@/integrations/supabase/types";
+import { AWAITING_REVIEW_STATUSES } from "@/lib/reportWorkflow";
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type Branch = Database['public']['Tables']['branches']['Row'];
+type BranchInsert = Database['public']['Tables']['branches']['Insert'];
+type BranchUpdate = Database['public']['Tables']['branches']['Update'];
+
+export type ProfileUpdate = Pick<Database['public']['Tables']['profiles']['Update'], 'role' | 'location' | 'e_code' | 'zone_id'>;
+
+export type BranchWithAssignmentCount = Branch & { bh_count: number };
+
+export interface AdminStats {
+  totalUsers: number;
+  activeUsers: number;
+  totalBranches: number;
+  assignedBranches: number;
+  visitsThisMonth: number;
+  pendingApprovals: number;
+}
+
+export async function fetchAdminStats(): Promise<AdminStats> {
+  try {
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
+
+    const [users, activeUsers, branches, assignments, visits, pending] = await Promise.all([
+      supabase.from('profiles').select('id', { count: 'exact', head: true }),
+      supabase.from('profiles').select('id', { count: 'exact', head: true }).eq('is_active', true),
+      supabase.from('branches').select('id', { count: 'exact', head: true }),
+      supabase.from('branch_assignments').select('branch_id').is('unassigned_at', null),
+      supabase
+        .from('branch_visits')
+        .select('id', { count: 'exact', head: true })
+        .gte('visit_date', monthStart.toISOString().split('T')[0]),
+      supabase.from('branch_visits').select('id', { count: 'exact', head: true }).in('status', AWAITING_REVIEW_STATUSES)
+    ]);
+
+    const firstError = [users, activeUsers, branches, assignments, visits, pending].find(r => r.error)?.error;
+    if (firstError) throw firstError;
+
+    // A branch can have several BHs, so count distinct branches
+    const assignedBranches = new Set((assignments.data || []).map(a => a.branch_id)).size;
+
+    return {
+      totalUsers: users.count || 0,
+      activeUsers: activeUsers.count || 0,
+      totalBranches: branches.count || 0,
+      assignedBranches,
+      visitsThisMonth: visits.count || 0,
+      pendingApprovals: pending.count || 0
+    };
+  } catch (error) {
+    console.error("Error fetching admin stats:", error);
+    toast({
+      variant: "destructive",
+      title: "Failed to load stats",
+      description: (error as Error).message || "Could not load admin statistics"
+    });
+    return {
+      totalUsers: 0,
+      activeUsers: 0,
+      totalBranches: 0,
+      assignedBranches: 0,
+      visitsThisMonth: 0,
+      pendingApprovals: 0
+    };
+  }
+}
+
+export async function fetchProfiles(search?: string): Promise<Profile[]> {
+  try {
+    let query = supabase
+      .from('profiles')
+      .select('*')
+      .order('full_name');
+
+    if (search && search.trim()) {
+      const term = search.trim().replace(/[%,()]/g, '');
+      query = query.or(`full_name.ilike.%${term}%,e_code.ilike.%${term}%,location.ilike.%${term}%`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching profiles:", error);
+    toast({
+      variant: "destructive",
+      title: "Failed to load users",
+      description: (error as Error).message || "Could not load user profiles"
+    });
+    return [];
+  }
+}
+
+export async function updateProfile(profileId: string, updates: ProfileUpdate) {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', profileId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error("Another user already has this E-Code.");
+      }
+      throw error;
+    }
+
+    toast({
+      title: "User updated",
+      description: `${data.full_name} has been updated.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error updating profile:", error);
+    toast({
+      variant: "destructive",
+      title: "Update failed",
+      description: (error as Error).message || "Could not update user"
+    });
+    throw error;
+  }
+}
+
+export async function setProfileActive(profileId: string, isActive: boolean) {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', profileId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    toast({
+      title: isActive ? "Account enabled" : "Account disabled",
+      description: isActive
+        ? `${data.full_name} can sign in again.`
+        : `${data.full_name} can no longer sign in.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error changing account status:", error);
+    toast({
+      variant: "destructive",
+      title: "Update failed",
+      description: (error as Error).message || "Could not change account status"
+    });
+    throw error;
+  }
+}
+
+export async function fetchAllBranches(): Promise<BranchWithAssignmentCount[]> {
+  try {
+    const { data, error } = await supabase
+      .from('branches')
+      .select(`
+        *,
+        branch_assignments (
+          user_id
+        )
+      `)
+      .is('branch_assignments.unassigned_at', null)
+      .order('name');
+
+    if (error) throw error;
+
+    return (data || []).map(({ branch_assignments, ...branch }) => ({
+      ...branch,
+      bh_count: Array.isArray(branch_assignments) ? branch_assignments.length : 0
+    }));
+  } catch (error) {
+    console.error("Error fetching branches:", error);
+    toast({
+      variant: "destructive",
+      title: "Failed to load branches",
+      description: (error as Error).message || "Could not load branches"
+    });
+    return [];
+  }
+}
+
+export async function createBranch(branch: BranchInsert) {
+  try {
+    const { data, error } = await supabase
+      .from('branches')
+      .insert(branch)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    toast({
+      title: "Branch created",
+      description: `${data.name} has been added.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error creating branch:", error);
+    toast({
+      variant: "destructive",
+      title: "Create failed",
+      description: (error as Error).message || "Could not create branch"
+    });
+    throw error;
+  }
+}
+
+export async function bulkUpdateBranches(branchIds: string[], updates: Pick<BranchUpdate, 'location' | 'category' | 'zone_id'>) {
+  try {
+    if (branchIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('branches')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .in('id', branchIds)
+      .select();
+
+    if (error) throw error;
+
+    toast({
+      title: "Branches updated",
+      description: `${data?.length || 0} branch(es) updated.`
+    });
+
+    return data || [];
+  } catch (error) {
+    console.error("Error updating branches:", error);
+    toast({
+      variant: "destructive",
+      title: "Update failed",
+      description: (error as Error).message || "Could not update branches"
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import { buildReportCsv, EXPORT_REPORT_LABELS, ExportFilters, ExportReport } from "@/lib/reportExport";
+
+export interface ExportFilterOptions {
+  locations: string[];
+  bhs: { id: string; full_name: string; e_code: string | null }[];
+}
+
+// The values the CH report filters can take: every branch location and every BH
+export async function fetchExportFilterOptions(): Promise<ExportFilterOptions> {
+  try {
+    const [branches, bhs] = await Promise.all([
+      supabase.from('branches').select('location'),
+      supabase.from('profiles').select('id, full_name, e_code').eq('role', 'BH').order('full_name')
+    ]);
+
+    if (branches.error) throw branches.error;
+    if (bhs.error) throw bhs.error;
+
+    return {
+      locations: [...new Set((branches.data || []).map(branch => branch.location).filter(Boolean))].sort(),
+      bhs: (bhs.data || []).map(bh => ({ id: bh.id, full_name: bh.full_name || 'Unknown', e_code: bh.e_code }))
+    };
+  } catch (error) {
+    console.error("Error fetching export filter options:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading filters",
+      description: (error as Error).message || "Unable to load the report filters"
+    });
+    return { locations: [], bhs: [] };
+  }
+}
+
+// The filtered export as a CSV file, read from the database page by page
+export async function exportReportCsv(report: ExportReport, filters: ExportFilters): Promise<{ blob: Blob; rowCount: number }> {
+  try {
+    const { chunks, rowCount } = await buildReportCsv(supabase, report, filters);
+
+    return { blob: new Blob(chunks, { type: 'text/csv;charset=utf-8;' }), rowCount };
+  } catch (error) {
+    console.error(`Error exporting ${report}:`, error);
+    toast({
+      variant: "destructive",
+      title: "Export failed",
+      description: (error as Error).message || `There was an error exporting the ${EXPORT_REPORT_LABELS[report].toLowerCase()}.`
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { supabase } from "@/integrations/supabase/client";
+import { clearFormDrafts, loadNewestFormDraft, localDraftKey, saveFormDraft } from "@/services/formDraftService";
+import type { FakeSupabase } from "@/test/fakeSupabase";
+import { buildFixtures, seedId } from "@/test/fixtures";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createFakeSupabase } = await import("@/test/fakeSupabase");
+  return { supabase: createFakeSupabase() };
+});
+
+// IndexedDB is not available under Node; the drafts only need keyed snapshots
+const snapshots = vi.hoisted(() => new Map<string, { key: string; value: unknown; savedAt: string }>());
+
+vi.mock("@/lib/offlineStore", () => ({
+  FORM_STORE: "forms",
+  loadSnapshot: async (_store: string, key: string) => snapshots.get(key),
+  deleteRecord: async (_store: string, key: string) => {
+    snapshots.delete(key);
+  }
+}));
+
+const fake = supabase as unknown as FakeSupabase;
+
+const BH = seedId("bh-01");
+const FORM = "new-visit";
+
+const saveOnDevice = (values: Record<string, unknown>, savedAt: string) => {
+  const key = localDraftKey(BH, FORM);
+  snapshots.set(key, { key, value: values, savedAt });
+};
+
+const saveOnServer = (values: Record<string, unknown>, updatedAt: string) => {
+  fake.tables.visit_form_drafts.push({
+    id: seedId(`draft-${updatedAt}`),
+    user_id: BH,
+    form_key: FORM,
+    visit_id: null,
+    form_values: values,
+    created_at: updatedAt,
+    updated_at: updatedAt
+  });
+};
+
+beforeEach(() => {
+  snapshots.clear();
+  fake.reset(buildFixtures());
+  fake.signInAs(BH);
+});
+
+describe("loadNewestFormDraft", () => {
+  it("restores the server copy when it was saved last", async () => {
+    saveOnDevice({ feedback: "Typed on the phone" }, "2026-10-14T09:00:00Z");
+    saveOnServer({ feedback: "Finished on the laptop" }, "2026-10-14T10:00:00Z");
+
+    expect(await loadNewestFormDraft(BH, FORM)).toEqual({
+      values: { feedback: "Finished on the laptop" },
+      savedAt: "2026-10-14T10:00:00Z"
+    });
+  });
+
+  it("restores the device copy when it was saved last, e.g. offline", async () => {
+    saveOnServer({ feedback: "Before the signal dropped" }, "2026-10-14T09:00:00Z");
+    saveOnDevice({ feedback: "Typed offline" }, "2026-10-14T09:30:00Z");
+
+    expect((await loadNewestFormDraft(BH, FORM)).values).toEqual({ feedback: "Typed offline" });
+  });
+
+  it("skips copies saved before the record last changed", async () => {
+    saveOnDevice({ feedback: "Old edit" }, "2026-10-14T09:00:00Z");
+    saveOnServer({ feedback: "Older edit" }, "2026-10-14T08:00:00Z");
+
+    expect(await loadNewestFormDraft(BH, FORM, "2026-10-14T09:15:00Z")).toBeNull();
+    expect((await loadNewestFormDraft(BH, FORM, "2026-10-14T08:30:00Z")).values).toEqual({ feedback: "Old edit" });
+  });
+
+  it("falls back to the device copy when the server cannot be reached", async () => {
+    saveOnServer({ feedback: "On the server" }, "2026-10-14T10:00:00Z");
+    saveOnDevice({ feedback: "On the phone" }, "2026-10-14T09:00:00Z");
+    vi.spyOn(fake, "from").mockImplementationOnce(() => {
+      throw new TypeError("Failed to fetch");
+    });
+
+    expect((await loadNewestFormDraft(BH, FORM)).values).toEqual({ feedback: "On the phone" });
+  });
+});
+
+describe("clearFormDrafts", () => {
+  it("leaves nothing to restore once the form was submitted", async () => {
+    saveOnDevice({ feedback: "Draft" }, "2026-10-14T09:00:00Z");
+    await saveFormDraft(BH, FORM, { feedback: "Draft", visitDate: new Date("2026-10-14T00:00:00Z") });
+    expect(fake.tables.visit_form_drafts).toEqual([
+      expect.objectContaining({ form_values: { feedback: "Draft", visitDate: "2026-10-14T00:00:00.000Z" } })
+    ]);
+
+    await clearFormDrafts(BH, FORM);
+
+    expect(snapshots.size).toBe(0);
+    expect(fake.tables.visit_form_drafts).toEqual([]);
+    expect(await loadNewestFormDraft(BH, FORM)).toBeNull();
+  });
+
+  it("leaves other forms' and other users' drafts alone", async () => {
+    saveOnServer({ feedback: "Mine" }, "2026-10-14T09:00:00Z");
+    await saveFormDraft(BH, "edit-visit", { feedback: "Another form" });
+    await saveFormDraft(seedId("bh-02"), FORM, { feedback: "Another BH" });
+
+    await clearFormDrafts(BH, FORM);
+
+    expect(fake.tables.visit_form_drafts.map(draft => draft.form_values)).toEqual([
+      { feedback: "Another form" },
+      { feedback: "Another BH" }
+    ]);
+  });
+});
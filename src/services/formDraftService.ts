@@ -0,0 +1,98 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Json } from "@/integrations/supabase/types";
+import { FORM_STORE, deleteRecord, loadSnapshot } from "@/lib/offlineStore";
+
+type FormDraft = Database['public']['Tables']['visit_form_drafts']['Row'];
+
+export interface RestorableDraft {
+  values: Record<string, unknown>;
+  savedAt: string;
+}
+
+// Key of the copy of a form kept on this device (offlineStore FORM_STORE)
+export const localDraftKey = (userId: string, formKey: string) => `${formKey}:${userId}`;
+
+// Autosave runs in the background, so these throw instead of toasting and
+// leave it to the caller to decide what the user sees.
+
+export async function fetchFormDraft(userId: string, formKey: string): Promise<FormDraft | null> {
+  const { data, error } = await supabase
+    .from('visit_form_drafts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('form_key', formKey)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+export async function saveFormDraft(
+  userId: string,
+  formKey: string,
+  values: unknown,
+  visitId: string | null = null
+): Promise<FormDraft> {
+  const { data, error } = await supabase
+    .from('visit_form_drafts')
+    .upsert(
+      {
+        user_id: userId,
+        form_key: formKey,
+        visit_id: visitId,
+        // Round-trip through JSON so Dates are stored as ISO strings
+        form_values: JSON.parse(JSON.stringify(values)) as Json,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'user_id,form_key' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+}
+
+export async function deleteFormDraft(userId: string, formKey: string) {
+  const { error } = await supabase
+    .from('visit_form_drafts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('form_key', formKey);
+
+  if (error) throw error;
+}
+
+// The newer of the copy on this device and the one on the server, leaving out
+// copies saved before notBefore (the record changed since). A copy that cannot
+// be read is skipped; with neither there is nothing to restore.
+export async function loadNewestFormDraft(
+  userId: string,
+  formKey: string,
+  notBefore: string | null = null
+): Promise<RestorableDraft | null> {
+  const [local, remote] = await Promise.all([
+    loadSnapshot<Record<string, unknown>>(FORM_STORE, localDraftKey(userId, formKey)).catch(() => undefined),
+    fetchFormDraft(userId, formKey).catch(() => null)
+  ]);
+
+  const candidates = [
+    local && { values: local.value, savedAt: local.savedAt },
+    remote && { values: remote.form_values as Record<string, unknown>, savedAt: remote.updated_at }
+  ].filter(Boolean) as RestorableDraft[];
+
+  return candidates
+    .filter(candidate => !notBefore || Date.parse(candidate.savedAt) > Date.parse(notBefore))
+    .sort((a, b) => Date.parse(b.savedAt) - Date.parse(a.savedAt))[0] ?? null;
+}
+
+// Drops both copies, e.g. once the form was saved or submitted for real. Each
+// is removed even if the other cannot be.
+export async function clearFormDrafts(userId: string, formKey: string) {
+  await Promise.allSettled([
+    deleteRecord(FORM_STORE, localDraftKey(userId, formKey)),
+    deleteFormDraft(userId, formKey)
+  ]);
+}
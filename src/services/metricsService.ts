@@ -0,0 +1,193 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import {
+  BRANCH_CATEGORIES,
+  BranchCategory,
+  EMPTY_TOTALS,
+  MetricsFilter,
+  MetricsSummary,
+  Performer,
+  TrendRange,
+  VisitTotals,
+  getTrendPeriods,
+  rankPerformers,
+  summarize,
+  totalsFromRow
+} from "@/lib/metrics";
+import type { AnswerCounts, MonthlyPackInput, MonthlyPackPeriod } from "@/lib/monthlyPack";
+import type { QualitativeField } from "@/lib/visitPdf";
+
+export interface MetricTrend extends MetricsSummary {
+  month: string;
+}
+
+export interface CategoryMetrics extends MetricsSummary {
+  category: BranchCategory;
+  name: string;
+}
+
+const toDateParam = (date?: Date | null) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Raw totals for one filter, from the visit_totals database function. Throws;
+// the fetchers below decide how to report errors.
+export async function fetchVisitTotals(filter: MetricsFilter = {}): Promise<VisitTotals> {
+  const { data, error } = await supabase.rpc('visit_totals', {
+    from_date: toDateParam(filter.from),
+    to_date: toDateParam(filter.to),
+    zone: filter.zoneId || null,
+    branch_category: filter.category || null,
+    bh: filter.bhId || null
+  });
+
+  if (error) throw error;
+
+  return totalsFromRow(data?.[0]);
+}
+
+export async function fetchMetricsSummary(filter: MetricsFilter = {}): Promise<MetricsSummary> {
+  try {
+    return summarize(await fetchVisitTotals(filter));
+  } catch (error) {
+    console.error("Error fetching metrics summary:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading statistics",
+      description: (error as Error).message || "Unable to load dashboard statistics"
+    });
+    return summarize(EMPTY_TOTALS);
+  }
+}
+
+// One summary per chart bucket; the filter's own dates are replaced by the buckets'
+export async function fetchMetricTrends(filter: MetricsFilter = {}, timeRange: TrendRange = 'lastSixMonths'): Promise<MetricTrend[]> {
+  try {
+    const periods = getTrendPeriods(timeRange);
+    const totals = await Promise.all(
+      periods.map(period => fetchVisitTotals({ ...filter, from: period.start, to: period.end }))
+    );
+
+    return periods.map((period, index) => ({
+      month: period.label,
+      ...summarize(totals[index])
+    }));
+  } catch (error) {
+    console.error("Error fetching metric trends:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading trends",
+      description: (error as Error).message || "Unable to load trend data"
+    });
+    return [];
+  }
+}
+
+// One summary per branch category; the filter's own category is ignored
+export async function fetchCategoryMetrics(filter: MetricsFilter = {}): Promise<CategoryMetrics[]> {
+  try {
+    const totals = await Promise.all(
+      BRANCH_CATEGORIES.map(category => fetchVisitTotals({ ...filter, category }))
+    );
+
+    return BRANCH_CATEGORIES.map((category, index) => ({
+      category,
+      name: capitalize(category),
+      ...summarize(totals[index])
+    }));
+  } catch (error) {
+    console.error("Error fetching category metrics:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading category data",
+      description: (error as Error).message || "Unable to load branch category metrics"
+    });
+    return [];
+  }
+}
+
+// Per-BH metrics for the filter, from the bh_visit_totals database function.
+// Throws, like fetchVisitTotals.
+async function loadPerformers(filter: MetricsFilter): Promise<Performer[]> {
+  const { data, error } = await supabase.rpc('bh_visit_totals', {
+    from_date: toDateParam(filter.from),
+    to_date: toDateParam(filter.to),
+    zone: filter.zoneId || null,
+    branch_category: filter.category || null,
+    bh: filter.bhId || null
+  });
+
+  if (error) throw error;
+
+  return rankPerformers(
+    (data || []).map(row => ({
+      id: row.user_id,
+      name: row.full_name || 'Unknown',
+      code: row.e_code,
+      totals: totalsFromRow(row)
+    }))
+  );
+}
+
+export async function fetchTopPerformers(filter: MetricsFilter = {}): Promise<Performer[]> {
+  try {
+    return await loadPerformers(filter);
+  } catch (error) {
+    console.error("Error fetching top performers:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading performers",
+      description: (error as Error).message || "Unable to load top performers"
+    });
+    return [];
+  }
+}
+
+// Yes/no counts per qualitative question over the reported visits, from the
+// qualitative_answer_counts database function. Only the period and category
+// narrow them. Throws.
+export async function fetchAnswerCounts(filter: MetricsFilter = {}): Promise<AnswerCounts[]> {
+  const { data, error } = await supabase.rpc('qualitative_answer_counts', {
+    from_date: toDateParam(filter.from),
+    to_date: toDateParam(filter.to),
+    branch_category: filter.category || null
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    field: row.field as QualitativeField,
+    yes: Number(row.yes),
+    no: Number(row.no),
+    answered: Number(row.answered)
+  }));
+}
+
+async function loadPackPeriod(from: Date, to: Date): Promise<MonthlyPackPeriod> {
+  const filter = { from, to };
+  const [overall, categoryTotals, performers, answers] = await Promise.all([
+    fetchVisitTotals(filter),
+    Promise.all(BRANCH_CATEGORIES.map(category => fetchVisitTotals({ ...filter, category }))),
+    loadPerformers(filter),
+    fetchAnswerCounts(filter)
+  ]);
+
+  return {
+    overall,
+    categories: Object.fromEntries(BRANCH_CATEGORIES.map((category, index) => [category, categoryTotals[index]])),
+    performers,
+    answers
+  };
+}
+
+// Everything the monthly pack needs for a month (1-based) and the month
+// before it. Throws; the pack is not generated from partial figures.
+export async function fetchMonthlyPackInput(year: number, month: number): Promise<MonthlyPackInput> {
+  const [current, previous] = await Promise.all([
+    loadPackPeriod(new Date(year, month - 1, 1), new Date(year, month, 0)),
+    loadPackPeriod(new Date(year, month - 2, 1), new Date(year, month - 1, 0))
+  ]);
+
+  return { year, month, current, previous };
+}
@@ -0,0 +1,153 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import { Database } from "@/integrations/supabase/types";
+
+// Notifications are written by database triggers (see the notifications
+// migration); the app only reads them and marks them read.
+export type Notification = Database['public']['Tables']['notifications']['Row'];
+export type NotificationKind = Notification['kind'];
+export type EmailPreferences = Pick<
+  Database['public']['Tables']['notification_preferences']['Row'],
+  'review_digest' | 'overdue_reminder'
+>;
+
+// The bell polls these, so failures are logged rather than toasted every minute
+export async function fetchNotifications(userId: string, limit = 20): Promise<Notification[]> {
+  try {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    return [];
+  }
+}
+
+export async function fetchUnreadNotificationCount(userId: string): Promise<number> {
+  try {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw error;
+
+    return count || 0;
+  } catch (error) {
+    console.error("Error counting unread notifications:", error);
+    return 0;
+  }
+}
+
+export async function markNotificationRead(id: string) {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('read_at', null);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error marking notification read:", error);
+    toast({
+      variant: "destructive",
+      title: "Update failed",
+      description: (error as Error).message || "Could not mark the notification as read"
+    });
+    throw error;
+  }
+}
+
+export async function markAllNotificationsRead(userId: string) {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error marking notifications read:", error);
+    toast({
+      variant: "destructive",
+      title: "Update failed",
+      description: (error as Error).message || "Could not mark the notifications as read"
+    });
+    throw error;
+  }
+}
+
+// Adds a notification for each of the signed-in BH's branches that has become
+// overdue since the last check. Returns how many were added.
+export async function checkOverdueVisits(): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('notify_overdue_visits');
+
+    if (error) throw error;
+
+    return data || 0;
+  } catch (error) {
+    console.error("Error checking overdue visits:", error);
+    return 0;
+  }
+}
+
+// A user who never saved preferences has opted out of every email
+export async function fetchEmailPreferences(userId: string): Promise<EmailPreferences> {
+  try {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('review_digest, overdue_reminder')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data || { review_digest: false, overdue_reminder: false };
+  } catch (error) {
+    console.error("Error fetching email preferences:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading email preferences",
+      description: (error as Error).message || "Unable to load your email preferences"
+    });
+    return { review_digest: false, overdue_reminder: false };
+  }
+}
+
+export async function updateEmailPreferences(userId: string, changes: Partial<EmailPreferences>) {
+  try {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .upsert({ user_id: userId, ...changes, updated_at: new Date().toISOString() })
+      .select('review_digest, overdue_reminder')
+      .single();
+
+    if (error) throw error;
+
+    toast({
+      title: "Email preferences saved",
+      description: "Your email preferences have been updated."
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error updating email preferences:", error);
+    toast({
+      variant: "destructive",
+      title: "Update failed",
+      description: (error as Error).message || "Could not update your email preferences"
+    });
+    throw error;
+  }
+}
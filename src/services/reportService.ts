@@ -1,51 +1,31 @@
 import { supabase } from "@/integrations/supabase/client";
 import { DateRange } from "react-day-picker";
+import { getUserRole } from "@/lib/auth";
+import {
+  AWAITING_REVIEW_STATUSES,
+  REPORTED_STATUSES,
+  ReportStatus,
+  ReviewDecision,
+  assertTransition
+} from "@/lib/reportWorkflow";
+import type { BranchCategory } from "@/lib/metrics";
+import { QUALITATIVE_QUESTIONS, VisitPdfInput } from "@/lib/visitPdf";
+import { fetchAnswerCounts } from "@/services/metricsService";
+import type { BranchRef, BranchVisitRow } from "@/integrations/supabase/schema";
 
-export interface BranchVisitSummary {
-  id: string;
-  user_id: string;
-  branch_id: string;
-  branches?: {
-    id?: string;
-    name?: string;
-    location?: string;
-    branch_code?: string;
-    category?: string;
-  };
-  visit_date: string;
-  status: string;
-  hr_connect_session: boolean;
-  total_employees_invited?: number;
-  total_participants?: number;
-  manning_percentage?: number;
-  attrition_percentage?: number;
-  non_vendor_percentage?: number;
-  performance_level?: string;
-  er_percentage?: number;
-  cwt_cases?: number;
-  new_employees_total?: number;
-  new_employees_covered?: number;
-  star_employees_total?: number;
-  star_employees_covered?: number;
-  leaders_aligned_with_code?: string;
-  employees_feel_safe?: string;
-  employees_feel_motivated?: string;
-  leaders_abusive_language?: string;
-  employees_comfort_escalation?: string;
-  inclusive_culture?: string;
-  feedback?: string;
-  created_at: string;
-  updated_at: string;
+export type BranchVisitSummary = BranchVisitRow & {
+  branches?: Partial<BranchRef>;
   bh_name?: string;
   bh_code?: string;
   branch_name?: string;
   branch_location?: string;
-}
+};
 
 export interface ReportStats {
   total: number;
   draft: number;
   submitted: number;
+  needs_revision: number;
   approved: number;
   rejected: number;
 }
@@ -58,6 +38,31 @@ export type QualitativeMetric =
   | "employees_comfort_escalation"
   | "inclusive_culture";
 
+export interface VisitReview {
+  id: string;
+  visit_id: string;
+  reviewer_id: string;
+  reviewer_name: string;
+  decision: ReviewDecision;
+  comment: string | null;
+  created_at: string;
+}
+
+export interface VisitHistoryEntry {
+  id: number;
+  action: "insert" | "update" | "delete";
+  changed_by_name: string;
+  changed_at: string;
+  old_status: string | null;
+  new_status: string | null;
+  changes: Record<string, { old: unknown; new: unknown }>;
+}
+
+export interface ReviewInput {
+  reviewerId: string;
+  comment?: string;
+}
+
 export interface HeatmapData {
   metric: QualitativeMetric;
   yes: number;
@@ -76,7 +81,8 @@ export async function fetchBHReportStats(userId: string): Promise<ReportStats> {
   const stats: ReportStats = {
     total: data.length,
     draft: data.filter(item => item.status === "draft").length,
-    submitted: data.filter(item => item.status === "submitted").length,
+    submitted: data.filter(item => AWAITING_REVIEW_STATUSES.includes(item.status)).length,
+    needs_revision: data.filter(item => item.status === "needs_revision").length,
     approved: data.filter(item => item.status === "approved").length,
     rejected: data.filter(item => item.status === "rejected").length,
   };
@@ -86,91 +92,157 @@ export async function fetchBHReportStats(userId: string): Promise<ReportStats> {
 
 export async function updateReportStatus(
   reportId: string, 
-  status: "approved" | "rejected"
+  status: ReviewDecision,
+  review: ReviewInput
 ): Promise<void> {
-  const { error } = await supabase
+  const comment = review.comment?.trim() || null;
+
+  if (status !== "approved" && !comment) {
+    throw new Error(status === "rejected"
+      ? "A comment is required when rejecting a report."
+      : "A comment is required when sending a report back for revision.");
+  }
+
+  const { data: current, error: currentError } = await supabase
     .from("branch_visits")
-    .update({ status })
-    .eq("id", reportId);
+    .select("status")
+    .eq("id", reportId)
+    .single();
+
+  if (currentError) throw currentError;
+
+  const role = await getUserRole(review.reviewerId);
+  assertTransition(current.status as ReportStatus, status, role);
+
+  // Status and review row together, and only if nobody has decided since
+  const { error } = await supabase.rpc("review_visit", {
+    visit_id: reportId,
+    from_status: current.status,
+    decision: status,
+    comment
+  });
 
   if (error) throw error;
 }
 
-export async function getQualitativeMetricsForHeatmap(
-  dateRange?: DateRange,
-  branchCategory?: string | null
-): Promise<HeatmapData[]> {
-  let query = supabase
-    .from("branch_visits")
+export async function fetchVisitReviews(visitId: string): Promise<VisitReview[]> {
+  const { data, error } = await supabase
+    .from("visit_reviews")
     .select(`
-      leaders_aligned_with_code,
-      employees_feel_safe,
-      employees_feel_motivated,
-      leaders_abusive_language,
-      employees_comfort_escalation,
-      inclusive_culture,
-      branches:branch_id (
-        category
+      *,
+      profiles:reviewer_id (
+        full_name
       )
     `)
-    .eq("status", "approved");
-  
-  if (dateRange?.from) {
-    query = query.gte("visit_date", dateRange.from.toISOString());
-    
-    if (dateRange.to) {
-      query = query.lte("visit_date", dateRange.to.toISOString());
+    .eq("visit_id", visitId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ profiles, ...review }) => ({
+    ...review,
+    reviewer_name: (profiles as { full_name: string } | null)?.full_name || "Unknown"
+  }));
+}
+
+// Most recent review per visit, for showing rejection reasons in lists
+export async function fetchLatestReviews(visitIds: string[]): Promise<Record<string, VisitReview>> {
+  if (visitIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("visit_reviews")
+    .select(`
+      *,
+      profiles:reviewer_id (
+        full_name
+      )
+    `)
+    .in("visit_id", visitIds)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  const latest: Record<string, VisitReview> = {};
+  (data || []).forEach(({ profiles, ...review }) => {
+    if (!latest[review.visit_id]) {
+      latest[review.visit_id] = {
+        ...review,
+        reviewer_name: (profiles as { full_name: string } | null)?.full_name || "Unknown"
+      };
     }
-  }
-  
-  const { data, error } = await query;
-  
-  if (error) {
-    console.error("Error fetching qualitative data:", error);
-    throw error;
-  }
-  
-  const filteredData = branchCategory
-    ? data.filter(item => 
-        item.branches && 
-        (item.branches as any).category === branchCategory
+  });
+
+  return latest;
+}
+
+// What the printable report needs beyond the visit row: the review trail and,
+// when the row came without it, the BH's name and employee code
+export async function fetchVisitPdfInput(visit: BranchVisitSummary): Promise<VisitPdfInput> {
+  const [reviews, author] = await Promise.all([
+    fetchVisitReviews(visit.id),
+    visit.bh_name
+      ? Promise.resolve({ full_name: visit.bh_name, e_code: visit.bh_code || null })
+      : supabase
+          .from("profiles")
+          .select("full_name, e_code")
+          .eq("id", visit.user_id)
+          .maybeSingle()
+          .then(({ data, error }) => {
+            if (error) throw error;
+            return data;
+          })
+  ]);
+
+  return {
+    visit,
+    bhName: author?.full_name || "Unknown",
+    bhCode: author?.e_code || null,
+    reviews
+  };
+}
+
+export async function fetchVisitHistory(visitId: string): Promise<VisitHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from("branch_visit_history")
+    .select(`
+      id,
+      action,
+      changed_at,
+      old_status,
+      new_status,
+      changes,
+      profiles:changed_by (
+        full_name
       )
-    : data;
-  
-  const metrics: QualitativeMetric[] = [
-    "leaders_aligned_with_code",
-    "employees_feel_safe",
-    "employees_feel_motivated",
-    "leaders_abusive_language",
-    "employees_comfort_escalation",
-    "inclusive_culture"
-  ];
-  
-  const heatmapData: HeatmapData[] = metrics.map(metric => ({
-    metric,
-    yes: 0,
-    no: 0,
-    total: 0
+    `)
+    .eq("visit_id", visitId)
+    .order("changed_at", { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(({ profiles, changes, ...entry }) => ({
+    ...entry,
+    changed_by_name: profiles?.full_name || "System",
+    changes: (changes || {}) as VisitHistoryEntry["changes"]
   }));
-  
-  filteredData.forEach(item => {
-    metrics.forEach(metric => {
-      const value = item[metric];
-      if (value) {
-        const metricData = heatmapData.find(d => d.metric === metric);
-        if (metricData) {
-          if (value.toLowerCase() === 'yes') {
-            metricData.yes += 1;
-          } else if (value.toLowerCase() === 'no') {
-            metricData.no += 1;
-          }
-          metricData.total += 1;
-        }
-      }
-    });
+}
+
+// The same counts as the monthly pack: every reported visit, with the
+// category filtered in the database. Questions nobody answered show zeros.
+export async function getQualitativeMetricsForHeatmap(
+  dateRange?: DateRange,
+  branchCategory?: string | null
+): Promise<HeatmapData[]> {
+  const counts = await fetchAnswerCounts({
+    from: dateRange?.from,
+    to: dateRange?.to,
+    category: (branchCategory || null) as BranchCategory | null
+  });
+
+  return QUALITATIVE_QUESTIONS.map(([metric]) => {
+    const count = counts.find(row => row.field === metric);
+    return { metric, yes: count?.yes || 0, no: count?.no || 0, total: count?.answered || 0 };
   });
-  
-  return heatmapData;
 }
 
 export async function fetchRecentReports(limit = 5): Promise<BranchVisitSummary[]> {
@@ -186,7 +258,7 @@ export async function fetchRecentReports(limit = 5): Promise<BranchVisitSummary[
           branch_code,
           category
         ),
-        users:user_id (
+        profiles:user_id (
           full_name,
           e_code
         )
@@ -198,8 +270,8 @@ export async function fetchRecentReports(limit = 5): Promise<BranchVisitSummary[
     
     const formattedData = data.map(report => ({
       ...report,
-      bh_name: report.users ? report.users.full_name : 'Unknown',
-      bh_code: report.users ? report.users.e_code : 'Unknown',
+      bh_name: report.profiles ? report.profiles.full_name : 'Unknown',
+      bh_code: report.profiles ? report.profiles.e_code : 'Unknown',
       branch_name: report.branches ? report.branches.name : 'Unknown',
       branch_location: report.branches ? report.branches.location : 'Unknown',
     }));
@@ -224,7 +296,7 @@ export async function fetchReportById(reportId: string): Promise<BranchVisitSumm
           branch_code,
           category
         ),
-        users:user_id (
+        profiles:user_id (
           full_name,
           e_code
         )
@@ -238,8 +310,8 @@ export async function fetchReportById(reportId: string): Promise<BranchVisitSumm
     
     const formattedData = {
       ...data,
-      bh_name: data.users ? data.users.full_name : 'Unknown',
-      bh_code: data.users ? data.users.e_code : 'Unknown',
+      bh_name: data.profiles ? data.profiles.full_name : 'Unknown',
+      bh_code: data.profiles ? data.profiles.e_code : 'Unknown',
       branch_name: data.branches ? data.branches.name : 'Unknown',
       branch_location: data.branches ? data.branches.location : 'Unknown',
     };
@@ -267,14 +339,14 @@ export async function fetchMonthlySummaryReport(year: number, month: number) {
           branch_code,
           category
         ),
-        users:user_id (
+        profiles:user_id (
           full_name,
           e_code
         )
       `)
       .gte('visit_date', startDate)
       .lte('visit_date', endDate)
-      .in('status', ['submitted', 'approved']);
+      .in('status', REPORTED_STATUSES);
       
     if (error) {
       console.error("Error fetching monthly summary report:", error);
@@ -287,8 +359,8 @@ export async function fetchMonthlySummaryReport(year: number, month: number) {
     
     return data.map(visit => ({
       ...visit,
-      bh_name: visit.users?.full_name || 'Unknown',
-      bh_code: visit.users?.e_code || 'Unknown',
+      bh_name: visit.profiles?.full_name || 'Unknown',
+      bh_code: visit.profiles?.e_code || 'Unknown',
       branch_name: visit.branches?.name || 'Unknown',
       branch_location: visit.branches?.location || 'Unknown'
     }));
@@ -297,184 +369,3 @@ export async function fetchMonthlySummaryReport(year: number, month: number) {
     throw error;
   }
 }
-
-export async function fetchCategoryBreakdown() {
-  try {
-    const { data, error } = await supabase
-      .from("branches")
-      .select("category");
-    
-    if (error) throw error;
-    
-    // Aggregate counts by category
-    const categoryBreakdown = data.reduce((acc: Record<string, number>, branch: any) => {
-      const category = branch.category || 'Uncategorized';
-      acc[category] = (acc[category] || 0) + 1;
-      return acc;
-    }, {});
-    
-    // Return in the format expected by the UI
-    return Object.entries(categoryBreakdown).map(([name, value]) => ({
-      name,
-      value
-    }));
-  } catch (error) {
-    console.error("Error fetching category breakdown:", error);
-    throw error;
-  }
-}
-
-export async function exportBranchVisitData(dateRange?: DateRange) {
-  try {
-    let query = supabase
-      .from("branch_visits")
-      .select(`
-        *,
-        branches:branch_id (
-          id,
-          name,
-          location,
-          branch_code,
-          category
-        ),
-        users:user_id (
-          full_name,
-          e_code
-        )
-      `);
-    
-    if (dateRange?.from) {
-      query = query.gte('visit_date', dateRange.from.toISOString());
-      if (dateRange.to) {
-        query = query.lte('visit_date', dateRange.to.toISOString());
-      }
-    }
-    
-    const { data, error } = await query;
-    if (error) throw error;
-    
-    return data;
-  } catch (error) {
-    console.error("Error exporting branch visit data:", error);
-    throw error;
-  }
-}
-
-export async function exportBHPerformanceSummary() {
-  try {
-    const { data: bhs, error: bhError } = await supabase
-      .from("users")
-      .select('*')
-      .eq('role', 'BH');
-      
-    if (bhError) throw bhError;
-    
-    const bhPerformance = await Promise.all(bhs.map(async (bh) => {
-      const { data: visits, error: visitError } = await supabase
-        .from("branch_visits")
-        .select('*')
-        .eq('user_id', bh.id);
-        
-      if (visitError) throw visitError;
-      
-      return {
-        bh_name: bh.full_name,
-        bh_code: bh.e_code,
-        total_visits: visits.length,
-        submitted_reports: visits.filter(v => v.status === 'submitted').length,
-        approved_reports: visits.filter(v => v.status === 'approved').length,
-        rejected_reports: visits.filter(v => v.status === 'rejected').length,
-      };
-    }));
-    
-    return bhPerformance;
-  } catch (error) {
-    console.error("Error exporting BH performance summary:", error);
-    throw error;
-  }
-}
-
-export async function exportBranchAssignments() {
-  try {
-    const { data, error } = await supabase
-      .from("branch_assignments")
-      .select(`
-        *,
-        branches:branch_id (
-          id,
-          name,
-          location,
-          branch_code,
-          category
-        ),
-        users:user_id (
-          id,
-          full_name,
-          e_code
-        )
-      `);
-      
-    if (error) throw error;
-    
-    return data.map(assignment => ({
-      bh_name: assignment.users?.full_name || 'Unknown',
-      bh_code: assignment.users?.e_code || 'Unknown',
-      branch_name: assignment.branches?.name || 'Unknown',
-      branch_location: assignment.branches?.location || 'Unknown',
-      branch_code: assignment.branches?.branch_code || 'Unknown',
-      category: assignment.branches?.category || 'Unknown',
-      assigned_date: assignment.assigned_date,
-    }));
-  } catch (error) {
-    console.error("Error exporting branch assignments:", error);
-    throw error;
-  }
-}
-
-export async function fetchCategoryStatsByMonth(year: number, month: number) {
-  try {
-    const startDate = new Date(year, month - 1, 1).toISOString();
-    const endDate = new Date(year, month, 0).toISOString();
-    const { data, error } = await supabase
-      .from("branch_visits")
-      .select(`branch_category, manning_percentage, attrition_percentage`)
-      .gte('visit_date', startDate)
-      .lte('visit_date', endDate)
-      .in('status', ['submitted', 'approved']);
-    if (error) throw error;
-
-    // Get number of branches per category from branches table
-    const { data: branches, error: branchesError } = await supabase
-      .from("branches")
-      .select("category");
-    if (branchesError) throw branchesError;
-    const branchCounts = branches.reduce((acc: Record<string, number>, branch: any) => {
-      const cat = branch.category || 'Uncategorized';
-      acc[cat] = (acc[cat] || 0) + 1;
-      return acc;
-    }, {});
-
-    // Aggregate by category
-    type StatAgg = { visits: number; manningSum: number; attritionSum: number };
-    const stats: Record<string, StatAgg> = {};
-    data.forEach(row => {
-      const cat = row.branch_category || 'Uncategorized';
-      if (!stats[cat]) {
-        stats[cat] = { visits: 0, manningSum: 0, attritionSum: 0 };
-      }
-      stats[cat].visits += 1;
-      stats[cat].manningSum += row.manning_percentage || 0;
-      stats[cat].attritionSum += row.attrition_percentage || 0;
-    });
-    return Object.entries(stats).map(([name, obj]) => ({
-      name,
-      visits: obj.visits,
-      avgManning: obj.visits ? Math.round(obj.manningSum / obj.visits) : 0,
-      avgAttrition: obj.visits ? Math.round(obj.attritionSum / obj.visits) : 0,
-      branchCount: branchCounts[name] || 0
-    }));
-  } catch (error) {
-    console.error("Error fetching category stats by month:", error);
-    throw error;
-  }
-}
@@ -0,0 +1,184 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import { Database } from "@/integrations/supabase/types";
+import { format, subDays } from "date-fns";
+import { BranchRisk, RISK_FIELDS, RiskRule, RiskVisit, rankRiskyBranches } from "@/lib/riskRules";
+
+type RiskRuleInsert = Database['public']['Tables']['risk_rules']['Insert'];
+type RiskRuleUpdate = Database['public']['Tables']['risk_rules']['Update'];
+
+// A branch drops off the high-risk list once its latest report is this old
+export const HIGH_RISK_LOOKBACK_DAYS = 90;
+
+export interface RiskyBranchVisit extends RiskVisit {
+  branches: { name: string; location: string; category: string; zone_id: string | null } | null;
+  profiles: { full_name: string | null } | null;
+}
+
+export type RiskyBranch = BranchRisk<RiskyBranchVisit>;
+
+// Thresholds are checked here so a bad one never reaches the table
+function validateRule(rule: RiskRuleUpdate) {
+  if (rule.name !== undefined && !rule.name.trim()) {
+    throw new Error("The rule needs a name.");
+  }
+  if (rule.weight !== undefined && (!Number.isInteger(rule.weight) || rule.weight < 1)) {
+    throw new Error("The weight must be a whole number, at least 1.");
+  }
+  if (rule.field === undefined || rule.threshold === undefined) return;
+
+  if (RISK_FIELDS[rule.field].kind === "yes_no") {
+    if (!["yes", "no"].includes(rule.threshold)) {
+      throw new Error(`${RISK_FIELDS[rule.field].label} is a yes/no question; the threshold must be yes or no.`);
+    }
+    if (rule.operator !== undefined && rule.operator !== "eq") {
+      throw new Error(`${RISK_FIELDS[rule.field].label} can only be compared with "equals".`);
+    }
+  } else if (rule.threshold.trim() === "" || Number.isNaN(Number(rule.threshold))) {
+    throw new Error(`The threshold for ${RISK_FIELDS[rule.field].label} must be a number.`);
+  }
+}
+
+export async function fetchRiskRules(): Promise<RiskRule[]> {
+  try {
+    const { data, error } = await supabase
+      .from('risk_rules')
+      .select('*')
+      .order('created_at');
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching risk rules:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading risk rules",
+      description: (error as Error).message || "Unable to load risk rules"
+    });
+    return [];
+  }
+}
+
+export async function createRiskRule(rule: RiskRuleInsert) {
+  try {
+    validateRule(rule);
+
+    const { data, error } = await supabase
+      .from('risk_rules')
+      .insert({ ...rule, name: rule.name.trim() })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    toast({
+      title: "Risk rule added",
+      description: `"${data.name}" now applies to new and existing reports.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error creating risk rule:", error);
+    toast({
+      variant: "destructive",
+      title: "Could not add rule",
+      description: (error as Error).message || "Could not add the risk rule"
+    });
+    throw error;
+  }
+}
+
+// field is passed along with threshold so the threshold can be validated
+export async function updateRiskRule(id: string, changes: RiskRuleUpdate) {
+  try {
+    validateRule(changes);
+
+    const { data, error } = await supabase
+      .from('risk_rules')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    toast({
+      title: "Risk rule updated",
+      description: `"${data.name}" has been saved.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error updating risk rule:", error);
+    toast({
+      variant: "destructive",
+      title: "Update failed",
+      description: (error as Error).message || "Could not update the risk rule"
+    });
+    throw error;
+  }
+}
+
+export async function deleteRiskRule(id: string) {
+  try {
+    const { error } = await supabase
+      .from('risk_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    toast({
+      title: "Risk rule deleted",
+      description: "The rule no longer flags reports."
+    });
+  } catch (error) {
+    console.error("Error deleting risk rule:", error);
+    toast({
+      variant: "destructive",
+      title: "Delete failed",
+      description: (error as Error).message || "Could not delete the risk rule"
+    });
+    throw error;
+  }
+}
+
+// Branches whose latest report in the lookback window raises a flag, worst first.
+// With zoneId set, that zone's branches only. The latest report of each branch
+// comes from the latest_branch_visits view, so only one row per branch is read.
+export async function fetchHighRiskBranches(scope: { zoneId?: string | null } = {}): Promise<RiskyBranch[]> {
+  try {
+    let query = supabase
+      .from('latest_branch_visits')
+      .select(`
+        *,
+        branches!inner(name, location, category, zone_id),
+        profiles:user_id(full_name)
+      `)
+      .gte('visit_date', format(subDays(new Date(), HIGH_RISK_LOOKBACK_DAYS), 'yyyy-MM-dd'))
+      .order('visit_date', { ascending: false });
+
+    if (scope.zoneId) {
+      query = query.eq('branches.zone_id', scope.zoneId);
+    }
+
+    const [rules, visits] = await Promise.all([
+      supabase.from('risk_rules').select('*').eq('enabled', true),
+      query
+    ]);
+
+    if (rules.error) throw rules.error;
+    if (visits.error) throw visits.error;
+
+    return rankRiskyBranches(visits.data || [], rules.data || []);
+  } catch (error) {
+    console.error("Error fetching high-risk branches:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading high-risk branches",
+      description: (error as Error).message || "Unable to work out which branches are at risk"
+    });
+    return [];
+  }
+}
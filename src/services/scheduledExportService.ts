@@ -0,0 +1,205 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import { Database } from "@/integrations/supabase/types";
+import { ExportDefinition, EXPORTS_BUCKET, nextRunAfter } from "@/lib/exportSchedule";
+
+// The job (scripts/run-exports.ts) generates the files; the app manages the
+// definitions and reads the archive.
+export type ExportFile = Database['public']['Tables']['export_files']['Row'];
+
+export type ExportDefinitionInput = Pick<
+  Database['public']['Tables']['export_definitions']['Insert'],
+  'name' | 'report' | 'location' | 'category' | 'bh_id' | 'format' | 'schedule' | 'period'
+>;
+
+type ExportDefinitionUpdate = Partial<ExportDefinitionInput> & { active?: boolean };
+
+export async function fetchExportDefinitions(userId: string): Promise<ExportDefinition[]> {
+  try {
+    const { data, error } = await supabase
+      .from('export_definitions')
+      .select('*, bh:profiles!bh_id(full_name, e_code)')
+      .eq('user_id', userId)
+      .order('created_at');
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching export definitions:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading scheduled exports",
+      description: (error as Error).message || "Unable to load your scheduled exports"
+    });
+    return [];
+  }
+}
+
+export async function createExportDefinition(userId: string, definition: ExportDefinitionInput) {
+  try {
+    if (!definition.name.trim()) throw new Error("The export needs a name.");
+
+    const { data, error } = await supabase
+      .from('export_definitions')
+      .insert({
+        ...definition,
+        name: definition.name.trim(),
+        user_id: userId,
+        next_run_at: nextRunAfter(definition.schedule, new Date()).toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    toast({
+      title: "Export scheduled",
+      description: `"${data.name}" will be generated on schedule and kept in My Exports.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error creating export definition:", error);
+    toast({
+      variant: "destructive",
+      title: "Could not schedule export",
+      description: (error as Error).message || "Could not save the scheduled export"
+    });
+    throw error;
+  }
+}
+
+// A new schedule, or resuming a paused export, starts from the next run time
+// rather than catching up on the runs it missed
+export async function updateExportDefinition(id: string, changes: ExportDefinitionUpdate, schedule: ExportDefinition['schedule']) {
+  try {
+    if (changes.name !== undefined && !changes.name.trim()) throw new Error("The export needs a name.");
+
+    const restart = changes.active === true || (changes.schedule !== undefined && changes.schedule !== schedule);
+    const { data, error } = await supabase
+      .from('export_definitions')
+      .update({
+        ...changes,
+        ...(restart ? { next_run_at: nextRunAfter(changes.schedule || schedule, new Date()).toISOString() } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    toast({
+      title: "Scheduled export updated",
+      description: `"${data.name}" has been saved.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error updating export definition:", error);
+    toast({
+      variant: "destructive",
+      title: "Update failed",
+      description: (error as Error).message || "Could not update the scheduled export"
+    });
+    throw error;
+  }
+}
+
+// Files already generated stay in the archive
+export async function deleteExportDefinition(id: string) {
+  try {
+    const { error } = await supabase
+      .from('export_definitions')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    toast({
+      title: "Scheduled export deleted",
+      description: "Files it already generated are still in My Exports."
+    });
+  } catch (error) {
+    console.error("Error deleting export definition:", error);
+    toast({
+      variant: "destructive",
+      title: "Delete failed",
+      description: (error as Error).message || "Could not delete the scheduled export"
+    });
+    throw error;
+  }
+}
+
+export async function fetchExportFiles(userId: string): Promise<ExportFile[]> {
+  try {
+    const { data, error } = await supabase
+      .from('export_files')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching export files:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading exports",
+      description: (error as Error).message || "Unable to load your exports"
+    });
+    return [];
+  }
+}
+
+export async function downloadExportFile(file: ExportFile): Promise<Blob> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(EXPORTS_BUCKET)
+      .download(file.storage_path);
+
+    if (error) throw error;
+
+    return data;
+  } catch (error) {
+    console.error("Error downloading export file:", error);
+    toast({
+      variant: "destructive",
+      title: "Download failed",
+      description: (error as Error).message || "Could not download the export"
+    });
+    throw error;
+  }
+}
+
+export async function deleteExportFile(file: ExportFile) {
+  try {
+    const { error: storageError } = await supabase.storage
+      .from(EXPORTS_BUCKET)
+      .remove([file.storage_path]);
+
+    if (storageError) throw storageError;
+
+    const { error } = await supabase
+      .from('export_files')
+      .delete()
+      .eq('id', file.id);
+
+    if (error) throw error;
+
+    toast({
+      title: "Export deleted",
+      description: `${file.file_name} has been removed from My Exports.`
+    });
+  } catch (error) {
+    console.error("Error deleting export file:", error);
+    toast({
+      variant: "destructive",
+      title: "Delete failed",
+      description: (error as Error).message || "Could not delete the export"
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,92 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import { Database } from "@/integrations/supabase/types";
+import { BRANCH_CATEGORIES, BranchCategory } from "@/lib/metrics";
+import { BranchDue, describeInterval, rankBranchesByDue } from "@/lib/visitFrequency";
+
+type VisitFrequencyTarget = Database['public']['Tables']['visit_frequency_targets']['Row'];
+
+export async function fetchVisitTargets(): Promise<VisitFrequencyTarget[]> {
+  try {
+    const { data, error } = await supabase
+      .from('visit_frequency_targets')
+      .select('*');
+
+    if (error) throw error;
+
+    // Category order rather than alphabetical
+    return (data || []).sort(
+      (a, b) => BRANCH_CATEGORIES.indexOf(a.category) - BRANCH_CATEGORIES.indexOf(b.category)
+    );
+  } catch (error) {
+    console.error("Error fetching visit targets:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading visit targets",
+      description: (error as Error).message || "Unable to load visit frequency targets"
+    });
+    return [];
+  }
+}
+
+export async function updateVisitTarget(category: BranchCategory, intervalDays: number) {
+  try {
+    if (!Number.isInteger(intervalDays) || intervalDays < 1) {
+      throw new Error("The interval must be a whole number of days, at least 1.");
+    }
+
+    const { data, error } = await supabase
+      .from('visit_frequency_targets')
+      .upsert({ category, interval_days: intervalDays, updated_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    toast({
+      title: "Visit target updated",
+      description: `${category.charAt(0).toUpperCase() + category.slice(1)} branches: ${describeInterval(intervalDays).toLowerCase()}.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error updating visit target:", error);
+    toast({
+      variant: "destructive",
+      title: "Update failed",
+      description: (error as Error).message || "Could not update the visit target"
+    });
+    throw error;
+  }
+}
+
+// Next-due and overdue state of the branches in scope, most urgent first
+export async function fetchBranchDues(scope: { zoneId?: string | null; bhId?: string | null } = {}): Promise<BranchDue[]> {
+  try {
+    const [targets, lastVisits] = await Promise.all([
+      supabase.from('visit_frequency_targets').select('category, interval_days'),
+      supabase.rpc('branch_last_visits', {
+        zone: scope.zoneId || null,
+        bh: scope.bhId || null
+      })
+    ]);
+
+    if (targets.error) throw targets.error;
+    if (lastVisits.error) throw lastVisits.error;
+
+    const intervals: Partial<Record<BranchCategory, number>> = {};
+    (targets.data || []).forEach(target => {
+      intervals[target.category] = target.interval_days;
+    });
+
+    return rankBranchesByDue(lastVisits.data || [], intervals);
+  } catch (error) {
+    console.error("Error fetching branch due dates:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading overdue branches",
+      description: (error as Error).message || "Unable to work out which branches are due"
+    });
+    return [];
+  }
+}
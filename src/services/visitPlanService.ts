@@ -0,0 +1,151 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import { Database } from "@/integrations/supabase/types";
+
+export type VisitPlan = Database['public']['Tables']['visit_plans']['Row'];
+
+export type VisitPlanWithBranch = VisitPlan & {
+  branches: {
+    id: string;
+    name: string;
+    location: string;
+    category: string;
+    branch_code: string | null;
+  } | null;
+};
+
+const PLAN_SELECT = `
+  *,
+  branches:branch_id (
+    id,
+    name,
+    location,
+    category,
+    branch_code
+  )
+`;
+
+// Plans of a BH between two dates (inclusive), cancelled ones left out
+export async function fetchVisitPlans(userId: string, from: Date, to: Date): Promise<VisitPlanWithBranch[]> {
+  try {
+    const { data, error } = await supabase
+      .from('visit_plans')
+      .select(PLAN_SELECT)
+      .eq('user_id', userId)
+      .neq('status', 'cancelled')
+      .gte('planned_date', format(from, 'yyyy-MM-dd'))
+      .lte('planned_date', format(to, 'yyyy-MM-dd'))
+      .order('planned_date');
+
+    if (error) throw error;
+
+    return (data || []) as VisitPlanWithBranch[];
+  } catch (error) {
+    console.error("Error fetching visit plans:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading planned visits",
+      description: (error as Error).message || "Unable to load planned visits"
+    });
+    return [];
+  }
+}
+
+export async function fetchVisitPlan(planId: string): Promise<VisitPlanWithBranch | null> {
+  try {
+    const { data, error } = await supabase
+      .from('visit_plans')
+      .select(PLAN_SELECT)
+      .eq('id', planId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data as VisitPlanWithBranch | null;
+  } catch (error) {
+    console.error("Error fetching visit plan:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading planned visit",
+      description: (error as Error).message || "Unable to load the planned visit"
+    });
+    return null;
+  }
+}
+
+export async function createVisitPlan(plan: {
+  userId: string;
+  branchId: string;
+  plannedDate: Date;
+  notes?: string | null;
+}): Promise<VisitPlan> {
+  try {
+    const { data, error } = await supabase
+      .from('visit_plans')
+      .insert({
+        user_id: plan.userId,
+        branch_id: plan.branchId,
+        planned_date: format(plan.plannedDate, 'yyyy-MM-dd'),
+        notes: plan.notes?.trim() || null
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error("You already have a visit to this branch planned for that day.");
+      }
+      throw error;
+    }
+
+    toast({
+      title: "Visit planned",
+      description: `Scheduled for ${format(plan.plannedDate, 'PPP')}.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error creating visit plan:", error);
+    toast({
+      variant: "destructive",
+      title: "Scheduling failed",
+      description: (error as Error).message || "Could not schedule the visit"
+    });
+    throw error;
+  }
+}
+
+export async function cancelVisitPlan(planId: string) {
+  try {
+    const { error } = await supabase
+      .from('visit_plans')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', planId);
+
+    if (error) throw error;
+
+    toast({
+      title: "Planned visit cancelled"
+    });
+  } catch (error) {
+    console.error("Error cancelling visit plan:", error);
+    toast({
+      variant: "destructive",
+      title: "Cancel failed",
+      description: (error as Error).message || "Could not cancel the planned visit"
+    });
+    throw error;
+  }
+}
+
+// Links the plan to the visit filed from it. Runs after the visit itself was
+// saved, so it throws without a toast and the caller decides what to say.
+export async function completeVisitPlan(planId: string, visitId: string) {
+  const { error } = await supabase
+    .from('visit_plans')
+    .update({ status: 'completed', visit_id: visitId, updated_at: new Date().toISOString() })
+    .eq('id', planId);
+
+  if (error) throw error;
+}
@@ -1,6 +1,10 @@
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/components/ui/use-toast";
 import { Database } from "@/integrations/supabase/types";
+import { getUserZoneId } from "@/services/zoneService";
+import { summarize } from "@/lib/metrics";
+import { fetchVisitTotals } from "@/services/metricsService";
+import { REPORTED_STATUSES } from "@/lib/reportWorkflow";
 
 type Branch = Database['public']['Tables']['branches']['Row'];
 type BranchWithAssignments = Branch & { bh_count: number };
@@ -10,8 +14,6 @@ type BHUser = Database['public']['Tables']['profiles']['Row'] & {
   coverage?: number;
 };
 
-type BranchVisit = Database['public']['Tables']['branch_visits']['Row'];
-type Profile = Database['public']['Tables']['profiles']['Row'];
 
 type BranchVisitWithDetails = {
   id: string;
@@ -30,7 +32,13 @@ type BranchVisitWithDetails = {
 
 export async function fetchBranches(userId: string): Promise<BranchWithAssignments[]> {
   try {
-    // Get all branches with their assignments
+    // A ZH only sees the branches in their own zone
+    const zoneId = await getUserZoneId(userId);
+    if (!zoneId) {
+      return [];
+    }
+
+    // Get the zone's branches with their current assignments
     const { data: branches, error: branchError } = await supabase
       .from('branches')
       .select(`
@@ -38,7 +46,9 @@ export async function fetchBranches(userId: string): Promise<BranchWithAssignmen
         branch_assignments (
           user_id
         )
-      `) as { data: (Branch & { branch_assignments: { user_id: string }[] })[] | null, error: any };
+      `)
+      .eq('zone_id', zoneId)
+      .is('branch_assignments.unassigned_at', null);
 
     if (branchError) {
       throw branchError;
@@ -78,11 +88,17 @@ export async function fetchBranches(userId: string): Promise<BranchWithAssignmen
 
 export async function fetchBHs(userId: string): Promise<BHUser[]> {
   try {
-    // Get all BH users
+    const zoneId = await getUserZoneId(userId);
+    if (!zoneId) {
+      return [];
+    }
+
+    // Get the BH users in the ZH's zone
     const { data: bhUsers, error: bhError } = await supabase
       .from('profiles')
       .select('*')
-      .eq('role', 'BH') as { data: BHUser[] | null, error: any };
+      .eq('role', 'BH')
+      .eq('zone_id', zoneId);
 
     if (bhError) {
       throw bhError;
@@ -98,7 +114,8 @@ export async function fetchBHs(userId: string): Promise<BHUser[]> {
     const { data: assignments, error: assignmentsError } = await supabase
       .from('branch_assignments')
       .select('user_id, branch_id')
-      .in('user_id', bhUserIds);
+      .in('user_id', bhUserIds)
+      .is('unassigned_at', null);
 
     if (assignmentsError) {
       throw assignmentsError;
@@ -112,7 +129,7 @@ export async function fetchBHs(userId: string): Promise<BHUser[]> {
       .from('branch_visits')
       .select('user_id, branch_id')
       .in('user_id', bhUserIds)
-      .in('status', ['submitted', 'approved'])
+      .in('status', REPORTED_STATUSES)
       .gte('visit_date', firstDayOfMonth.toISOString())
       .lte('visit_date', today.toISOString());
 
@@ -169,71 +186,34 @@ export async function fetchDashboardStats(userId: string) {
     const today = new Date();
     const firstDayOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
 
-    // Get total branches and BHs
-    const { count: totalBranches } = await supabase
-      .from('branches')
-      .select('*', { count: 'exact', head: true });
-
-    const { count: totalBHs } = await supabase
-      .from('profiles')
-      .select('*', { count: 'exact', head: true })
-      .eq('role', 'BH');
-    
-    // Get all BHs under this ZH
-    const { data: bhs } = await supabase
-      .from('profiles')
-      .select('id')
-      .eq('role', 'BH');
-
-    const bhUserIds = bhs?.map(bh => bh.id) || [];
-
-    // Get all visits from BHs
-    const { data: visits, error: visitsError } = await supabase
-      .from('branch_visits')
-      .select('user_id, branch_id, status, visit_date')
-      .in('user_id', bhUserIds)
-      .in('status', ['submitted', 'approved']);
-
-    if (visitsError) {
-      throw visitsError;
-    }
-
-    // Get submitted visits (no date filter)
-    const { data: submittedVisits, error: submittedError } = await supabase
-      .from('branch_visits')
-      .select('id')
-      .eq('status', 'submitted')
-      .in('user_id', bhUserIds);
-
-    if (submittedError) {
-      throw submittedError;
+    const zoneId = await getUserZoneId(userId);
+    if (!zoneId) {
+      return {
+        totalBranches: 0,
+        totalBHs: 0,
+        activeBHs: 0,
+        visitedBranches: 0,
+        coverage: 0,
+        totalVisits: 0,
+        submittedApproval: 0
+      };
     }
 
-    // Calculate active BHs (BHs who have submitted visits this month)
-    const activeUserIds = new Set(
-      visits?.filter(v => {
-        const visitDate = new Date(v.visit_date);
-        return visitDate >= firstDayOfMonth && visitDate <= today;
-      }).map(v => v.user_id) || []
-    );
-    const activeBHs = bhs?.filter(bh => activeUserIds.has(bh.id)) || [];
-
-    // Calculate visited branches and other stats for this month
-    const monthlyVisits = visits?.filter(v => {
-      const visitDate = new Date(v.visit_date);
-      return visitDate >= firstDayOfMonth && visitDate <= today;
-    }) || [];
-    const visitedBranches = new Set(monthlyVisits.map(v => v.branch_id));
-    const totalsubmittedVisits = submittedVisits?.length || 0;
+    // All-time and this month's metrics for the zone, computed in the database
+    const [allTime, thisMonth] = await Promise.all([
+      fetchVisitTotals({ zoneId }),
+      fetchVisitTotals({ zoneId, from: firstDayOfMonth, to: today })
+    ]);
+    const monthly = summarize(thisMonth);
 
     return {
-      totalBranches: totalBranches || 0,
-      totalBHs: totalBHs || 0,
-      activeBHs: activeBHs?.length || 0,
-      visitedBranches: visitedBranches.size,
-      coverage: totalBranches ? Math.round((visitedBranches.size / totalBranches) * 100) : 0,
-      totalVisits: visits?.length || 0,
-      submittedApproval: totalsubmittedVisits,
+      totalBranches: allTime.totalBranches,
+      totalBHs: allTime.totalBHs,
+      activeBHs: monthly.activeBHs,
+      visitedBranches: monthly.visitedBranches,
+      coverage: monthly.coverage,
+      totalVisits: allTime.visitCount,
+      submittedApproval: allTime.awaitingReview,
     };
   } catch (error: any) {
     console.error("Error fetching dashboard stats:", error);
@@ -256,12 +236,13 @@ export async function fetchDashboardStats(userId: string) {
 
 export async function assignBranchToBH(bhUserId: string, branchId: string) {
   try {
-    // Check if assignment already exists
+    // Check if an active assignment already exists
     const { data: existingAssignment, error: checkError } = await supabase
       .from('branch_assignments')
       .select('id')
       .eq('user_id', bhUserId)
       .eq('branch_id', branchId)
+      .is('unassigned_at', null)
       .single();
 
     if (checkError && checkError.code !== 'PGRST116') {
@@ -332,12 +313,13 @@ export async function assignBranchToBH(bhUserId: string, branchId: string) {
 
 export async function unassignBranchFromBH(bhUserId: string, branchId: string) {
   try {
-    // First, verify the assignment exists and get its ID
+    // First, verify the active assignment exists and get its ID
     const { data: assignment, error: checkError } = await supabase
       .from('branch_assignments')
       .select('id')
       .eq('user_id', bhUserId)
       .eq('branch_id', branchId)
+      .is('unassigned_at', null)
       .single();
 
     if (checkError) {
@@ -362,23 +344,15 @@ export async function unassignBranchFromBH(bhUserId: string, branchId: string) {
       return null;
     }
 
-    // Delete the assignment using the ID
-    const { error: deleteError } = await supabase
+    // End the assignment rather than deleting it, so past periods keep
+    // their mapping
+    const { error: updateError } = await supabase
       .from('branch_assignments')
-      .delete()
+      .update({ unassigned_at: new Date().toISOString() })
       .eq('id', assignment.id);
 
-    if (deleteError) {
-      if (deleteError.code === '23503') {
-        // Foreign key violation
-        toast({
-          variant: "destructive",
-          title: "Cannot remove assignment",
-          description: "This assignment cannot be removed due to existing dependencies."
-        });
-        return null;
-      }
-      throw deleteError;
+    if (updateError) {
+      throw updateError;
     }
 
     toast({
@@ -398,6 +372,165 @@ export async function unassignBranchFromBH(bhUserId: string, branchId: string) {
   }
 }
 
+// Inserts the given assignments, leaving out any that are already active
+async function insertMissingAssignments(pairs: { branchId: string; userId: string }[]) {
+  if (pairs.length === 0) return 0;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('branch_assignments')
+    .select('branch_id, user_id')
+    .in('branch_id', [...new Set(pairs.map(pair => pair.branchId))])
+    .is('unassigned_at', null);
+
+  if (existingError) throw existingError;
+
+  const existingKeys = new Set((existing || []).map(row => `${row.branch_id}:${row.user_id}`));
+  const rows = pairs
+    .filter(pair => !existingKeys.has(`${pair.branchId}:${pair.userId}`))
+    .map(pair => ({ branch_id: pair.branchId, user_id: pair.userId }));
+
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase
+    .from('branch_assignments')
+    .insert(rows);
+
+  if (error) throw error;
+
+  return rows.length;
+}
+
+const pluralBranches = (count: number) => `${count} branch${count === 1 ? '' : 'es'}`;
+
+export async function bulkAssignBranches(bhUserId: string, branchIds: string[]) {
+  try {
+    const assigned = await insertMissingAssignments(
+      branchIds.map(branchId => ({ branchId, userId: bhUserId }))
+    );
+
+    toast({
+      title: "Branches assigned",
+      description: assigned === branchIds.length
+        ? `${pluralBranches(assigned)} assigned.`
+        : `${pluralBranches(assigned)} assigned; ${branchIds.length - assigned} already had this BH.`
+    });
+
+    return assigned;
+  } catch (error) {
+    console.error("Error bulk assigning branches:", error);
+    toast({
+      variant: "destructive",
+      title: "Failed to assign branches",
+      description: (error as Error).message || "An unexpected error occurred."
+    });
+    throw error;
+  }
+}
+
+// Ends the branches' assignments to one BH, or to every BH when bhUserId is null
+export async function bulkUnassignBranches(branchIds: string[], bhUserId: string | null) {
+  try {
+    let query = supabase
+      .from('branch_assignments')
+      .update({ unassigned_at: new Date().toISOString() })
+      .in('branch_id', branchIds)
+      .is('unassigned_at', null);
+
+    if (bhUserId) {
+      query = query.eq('user_id', bhUserId);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) throw error;
+
+    toast({
+      title: "Assignments removed",
+      description: `${data?.length || 0} assignment${data?.length === 1 ? '' : 's'} removed.`
+    });
+
+    return data?.length || 0;
+  } catch (error) {
+    console.error("Error bulk removing branch assignments:", error);
+    toast({
+      variant: "destructive",
+      title: "Failed to remove assignments",
+      description: (error as Error).message || "An unexpected error occurred."
+    });
+    throw error;
+  }
+}
+
+export async function transferBranches(branchIds: string[], fromUserId: string, toUserId: string) {
+  try {
+    const { data, error } = await supabase.rpc('transfer_branch_assignments', {
+      branch_ids: branchIds,
+      to_user: toUserId,
+      from_user: fromUserId
+    });
+
+    if (error) throw error;
+
+    toast({
+      title: "Branches transferred",
+      description: `${pluralBranches(data || 0)} moved to the new BH.`
+    });
+
+    return data || 0;
+  } catch (error) {
+    console.error("Error transferring branches:", error);
+    toast({
+      variant: "destructive",
+      title: "Failed to transfer branches",
+      description: (error as Error).message || "An unexpected error occurred."
+    });
+    throw error;
+  }
+}
+
+// Applies a checked CSV import. `moves` replace whoever currently holds the
+// branch; `assignments` are added alongside existing ones.
+export async function importBranchAssignments(
+  assignments: { branchId: string; userId: string }[],
+  moves: { branchId: string; userId: string }[]
+) {
+  try {
+    const assigned = await insertMissingAssignments(assignments);
+
+    const movesByUser = new Map<string, string[]>();
+    moves.forEach(move => {
+      movesByUser.set(move.userId, [...(movesByUser.get(move.userId) || []), move.branchId]);
+    });
+
+    let moved = 0;
+    for (const [userId, branchIds] of movesByUser) {
+      const { data, error } = await supabase.rpc('transfer_branch_assignments', {
+        branch_ids: branchIds,
+        to_user: userId
+      });
+      if (error) throw error;
+      moved += data || 0;
+    }
+
+    toast({
+      title: "Import complete",
+      description: moves.length > 0
+        ? `${pluralBranches(assigned)} assigned and ${pluralBranches(moved)} moved.`
+        : `${pluralBranches(assigned)} assigned.`
+    });
+
+    return { assigned, moved };
+  } catch (error) {
+    console.error("Error importing branch assignments:", error);
+    toast({
+      variant: "destructive",
+      title: "Import failed",
+      description: (error as Error).message || "An unexpected error occurred."
+    });
+    throw error;
+  }
+}
+
 export async function fetchBranchAssignments() {
   try {
     const { data, error } = await supabase
@@ -406,11 +539,12 @@ export async function fetchBranchAssignments() {
         id,
         branch_id,
         user_id,
-        profiles:user_id (
+        profiles!user_id (
           full_name,
           e_code
         )
-      `) as { data: { id: string; branch_id: string; user_id: string; profiles: Profile }[] | null, error: any };
+      `)
+      .is('unassigned_at', null);
 
     if (error) {
       throw error;
@@ -439,9 +573,12 @@ export async function fetchBranchAssignments() {
   }
 }
 
-export async function fetchRecentVisits(limit: number = 5) {
+export async function fetchRecentVisits(userId: string, limit: number = 5) {
   try {
-    // First get the visits
+    const zoneId = await getUserZoneId(userId);
+    if (!zoneId) return [];
+
+    // Only visits to branches in the ZH's zone
     const { data: rawVisits, error } = await supabase
       .from('branch_visits')
       .select(`
@@ -450,16 +587,18 @@ export async function fetchRecentVisits(limit: number = 5) {
         user_id,
         visit_date,
         status,
-        branches:branch_id (
+        branches:branch_id!inner (
           name,
           location,
-          category
+          category,
+          zone_id
         ),
         profiles:user_id (
           full_name,
           e_code
         )
       `)
+      .eq('branches.zone_id', zoneId)
       .order('visit_date', { ascending: false })
       .limit(limit);
 
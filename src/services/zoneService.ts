@@ -0,0 +1,71 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/components/ui/use-toast";
+import { Database } from "@/integrations/supabase/types";
+
+type Zone = Database['public']['Tables']['zones']['Row'];
+
+export async function fetchZones(): Promise<Zone[]> {
+  try {
+    const { data, error } = await supabase
+      .from('zones')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching zones:", error);
+    toast({
+      variant: "destructive",
+      title: "Error loading zones",
+      description: (error as Error).message || "Unable to load zones"
+    });
+    return [];
+  }
+}
+
+// Zone the given user belongs to, or null when none is set
+export async function getUserZoneId(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('zone_id')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+
+  return data?.zone_id || null;
+}
+
+export async function createZone(name: string) {
+  try {
+    const { data, error } = await supabase
+      .from('zones')
+      .insert({ name: name.trim() })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`A zone named "${name.trim()}" already exists.`);
+      }
+      throw error;
+    }
+
+    toast({
+      title: "Zone created",
+      description: `${data.name} has been added.`
+    });
+
+    return data;
+  } catch (error) {
+    console.error("Error creating zone:", error);
+    toast({
+      variant: "destructive",
+      title: "Create failed",
+      description: (error as Error).message || "Could not create zone"
+    });
+    throw error;
+  }
+}
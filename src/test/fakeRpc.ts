@@ -0,0 +1,74 @@
+// In-memory versions of the SQL functions the services call through
+// supabase.rpc, for the fake client in fakeSupabase.ts. Each mirrors the
+// latest definition in supabase/migrations closely enough for the services'
+// results to be checked; permission checks and triggers are left out.
+
+import { randomUUID } from "node:crypto";
+import type { FakeError, FakeRpc, Row } from "./fakeSupabase";
+
+// review_visit (20261018270000_review_visit.sql)
+const reviewVisit: FakeRpc = (args, tables, userId) => {
+  const visit = tables.branch_visits.find(row => row.id === args.visit_id && row.status === args.from_status);
+  if (!visit) {
+    const conflict: FakeError = {
+      code: "40001",
+      message: "This report has changed since it was opened. Reload it and try again."
+    };
+    throw conflict;
+  }
+
+  const now = new Date().toISOString();
+  visit.status = args.decision;
+  visit.updated_at = now;
+
+  const comment = typeof args.comment === "string" ? args.comment.trim() || null : null;
+  const review: Row = {
+    id: randomUUID(),
+    visit_id: args.visit_id,
+    reviewer_id: userId,
+    decision: args.decision,
+    comment,
+    created_at: now
+  };
+  tables.visit_reviews.push(review);
+  return null;
+};
+
+// bh_report_counts (20261018320000_bh_report_counts_filters.sql)
+const bhReportCounts: FakeRpc = (args, tables) => {
+  const branches = new Map(tables.branches.map(branch => [branch.id, branch]));
+  const visits = tables.branch_visits.filter(visit => {
+    const branch = branches.get(visit.branch_id);
+    const date = visit.visit_date as string;
+    return branch
+      && visit.status !== "draft"
+      && (!args.from_date || date >= (args.from_date as string))
+      && (!args.to_date || date <= (args.to_date as string))
+      && (!args.location || branch.location === args.location)
+      && (!args.branch_category || branch.category === args.branch_category);
+  });
+  const count = (rows: Row[], status: (value: unknown) => boolean) => rows.filter(row => status(row.status)).length;
+
+  return tables.profiles
+    .filter(profile => profile.role === "BH" && (!args.bh || profile.id === args.bh))
+    .map(profile => {
+      const own = visits.filter(visit => visit.user_id === profile.id);
+      return {
+        bh_id: profile.id,
+        full_name: profile.full_name,
+        e_code: profile.e_code,
+        total_visits: own.length,
+        branches_visited: new Set(own.map(visit => visit.branch_id)).size,
+        submitted_reports: count(own, status => status === "submitted" || status === "resubmitted"),
+        approved_reports: count(own, status => status === "approved"),
+        needs_revision_reports: count(own, status => status === "needs_revision"),
+        rejected_reports: count(own, status => status === "rejected")
+      };
+    })
+    .sort((a, b) => String(a.full_name).localeCompare(String(b.full_name)));
+};
+
+export const FAKE_RPC: Record<string, FakeRpc> = {
+  review_visit: reviewVisit,
+  bh_report_counts: bhReportCounts
+};
@@ -0,0 +1,646 @@
+// In-memory stand-in for the client in integrations/supabase/client.ts, so
+// tests can run the services end to end without a database.
+//
+// It covers the part of the PostgREST query builder the services use:
+//   - select strings with embedded rows: `alias:fk_column (...)`,
+//     `table!fk_column (...)`, `table!inner (...)`, one-to-many embeds, and
+//     `count` / `head` options
+//   - eq, neq, gt, gte, lt, lte, in, is, ilike, not and or filters, also on
+//     embedded columns (`branches.zone_id`)
+//   - order (including `branches(name)`), limit, range, single, maybeSingle
+//   - insert, upsert, update and delete, optionally followed by .select()
+//   - rpc, answered by functions the test passes in (see fakeRpc.ts)
+// Embeds are resolved through FOREIGN_KEYS, which mirrors the Relationships
+// in types.ts. Database-side behaviour (triggers, constraints, RLS) is not
+// emulated; the services' own checks (reportWorkflow) still run.
+
+import { randomUUID } from "node:crypto";
+import type { Database } from "@/integrations/supabase/types";
+
+export type TableName = keyof Database['public']['Tables'];
+export type Row = Record<string, unknown>;
+export type FakeTables = Partial<Record<TableName, Row[]>>;
+// Gets the signed-in user, for functions that use auth.uid()
+export type FakeRpc = (args: Record<string, unknown>, tables: FakeTables, userId: string | null) => unknown;
+
+export interface FakeError {
+  code: string;
+  message: string;
+}
+
+interface FakeResponse {
+  data: unknown;
+  error: FakeError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+// table -> foreign key column -> referenced table
+const FOREIGN_KEYS: Record<TableName, Record<string, TableName>> = {
+  profiles: { zone_id: "zones" },
+  zones: {},
+  branches: { zone_id: "zones" },
+  branch_visit_history: { changed_by: "profiles" },
+  visit_form_drafts: { user_id: "profiles", visit_id: "branch_visits" },
+  export_definitions: { user_id: "profiles", bh_id: "profiles" },
+  export_files: { user_id: "profiles", definition_id: "export_definitions" },
+  notification_preferences: { user_id: "profiles" },
+  notifications: { user_id: "profiles", visit_id: "branch_visits", branch_id: "branches", actor_id: "profiles" },
+  risk_rules: {},
+  visit_frequency_targets: {},
+  visit_plans: { user_id: "profiles", branch_id: "branches", visit_id: "branch_visits" },
+  visit_reviews: { visit_id: "branch_visits", reviewer_id: "profiles" },
+  branch_assignments: { user_id: "profiles", branch_id: "branches", assigned_by: "profiles", unassigned_by: "profiles" },
+  branch_visits: { user_id: "profiles", branch_id: "branches" }
+};
+
+// Tables keyed by something other than a generated uuid
+const PRIMARY_KEYS: Partial<Record<TableName, string>> = {
+  notification_preferences: "user_id",
+  visit_frequency_targets: "category"
+};
+
+const now = () => new Date().toISOString();
+
+// Column defaults the services rely on; other tables get an id and created_at
+const DEFAULTS: Partial<Record<TableName, () => Row>> = {
+  profiles: () => ({ is_active: true, zone_id: null, created_at: now(), updated_at: now() }),
+  branches: () => ({ id: randomUUID(), branch_code: null, zone_id: null, created_at: now(), updated_at: now() }),
+  branch_assignments: () => ({
+    id: randomUUID(),
+    assigned_at: now(),
+    unassigned_at: null,
+    assigned_by: null,
+    unassigned_by: null
+  }),
+  branch_visits: () => ({ id: randomUUID(), status: "draft", best_practices: null, created_at: now(), updated_at: now() }),
+  visit_reviews: () => ({ id: randomUUID(), comment: null, created_at: now() }),
+  notification_preferences: () => ({ review_digest: false, overdue_reminder: false, updated_at: now() }),
+  visit_frequency_targets: () => ({ updated_at: now() })
+};
+
+const defaultsFor = (table: TableName): Row =>
+  DEFAULTS[table]?.() ?? { id: randomUUID(), created_at: now() };
+
+const fail = (code: string, message: string): FakeError => ({ code, message });
+
+// ---------------------------------------------------------------------------
+// Select strings
+
+interface ColumnNode {
+  kind: "column";
+  name: string;
+  alias: string;
+}
+
+interface EmbedNode {
+  kind: "embed";
+  name: string;
+  alias: string;
+  hint: string | null;
+  inner: boolean;
+  children: SelectNode[];
+}
+
+type SelectNode = { kind: "star" } | ColumnNode | EmbedNode;
+
+// Splits on commas that are not inside parentheses
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of text) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function parseSelect(columns: string): SelectNode[] {
+  return splitTopLevel(columns.replace(/\s+/g, " ")).map((item): SelectNode => {
+    if (item === "*") return { kind: "star" };
+
+    const open = item.indexOf("(");
+    const head = (open === -1 ? item : item.slice(0, open)).replace(/\s/g, "");
+    const [aliasPart, targetPart] = head.includes(":") ? head.split(":") : [null, head];
+    const [name, ...modifiers] = targetPart.split("!");
+
+    if (open === -1) {
+      return { kind: "column", name, alias: aliasPart ?? name };
+    }
+
+    const hint = modifiers.find(modifier => modifier !== "inner" && modifier !== "left") ?? null;
+    return {
+      kind: "embed",
+      name,
+      alias: aliasPart ?? name,
+      hint,
+      inner: modifiers.includes("inner"),
+      children: parseSelect(item.slice(open + 1, item.lastIndexOf(")")))
+    };
+  });
+}
+
+interface Relation {
+  target: TableName;
+  // many-to-one: the parent's column holding the target's id;
+  // one-to-many: the target's column holding the parent's id
+  column: string;
+  many: boolean;
+}
+
+function resolveRelation(table: TableName, node: EmbedNode): Relation {
+  const parentKeys = FOREIGN_KEYS[table];
+  const hint = node.hint?.replace(new RegExp(`^${table}_|_fkey$`, "g"), "") ?? null;
+
+  // `branches:branch_id (...)` embeds through the column itself
+  if (parentKeys[node.name]) {
+    return { target: parentKeys[node.name], column: node.name, many: false };
+  }
+
+  const target = node.name as TableName;
+  if (!FOREIGN_KEYS[target]) {
+    throw fail("PGRST200", `Could not find a relationship between '${table}' and '${node.name}'`);
+  }
+
+  if (hint && parentKeys[hint] === target) {
+    return { target, column: hint, many: false };
+  }
+  if (hint && FOREIGN_KEYS[target][hint] === table) {
+    return { target, column: hint, many: true };
+  }
+
+  const toTarget = Object.keys(parentKeys).filter(column => parentKeys[column] === target);
+  if (toTarget.length === 1) return { target, column: toTarget[0], many: false };
+
+  const fromTarget = Object.keys(FOREIGN_KEYS[target]).filter(column => FOREIGN_KEYS[target][column] === table);
+  if (toTarget.length === 0 && fromTarget.length === 1) return { target, column: fromTarget[0], many: true };
+
+  throw fail(
+    "PGRST201",
+    `Could not embed because more than one relationship was found for '${table}' and '${node.name}'`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Filters
+
+type Filter = (row: Row) => boolean;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+
+// Orders two values the way Postgres would compare the column with the literal
+function compareValues(value: unknown, operand: unknown): number {
+  if (typeof value === "string" && typeof operand === "string") {
+    // Against a timestamp, a date is midnight (the session time zone is UTC)
+    if (DATE_ONLY.test(value) && TIMESTAMP.test(operand)) {
+      return Math.sign(Date.parse(`${value}T00:00:00Z`) - Date.parse(operand));
+    }
+    if (TIMESTAMP.test(value) && (TIMESTAMP.test(operand) || DATE_ONLY.test(operand))) {
+      return Math.sign(Date.parse(value) - Date.parse(operand));
+    }
+    return value < operand ? -1 : value > operand ? 1 : 0;
+  }
+  if (typeof value === "number") {
+    return Math.sign(value - Number(operand));
+  }
+  if (typeof value === "boolean") {
+    return String(value) === String(operand) ? 0 : 1;
+  }
+  return String(value) < String(operand) ? -1 : String(value) > String(operand) ? 1 : 0;
+}
+
+function operatorFilter(column: string, operator: string, operand: unknown): Filter {
+  const read = (row: Row) => row[column];
+  switch (operator) {
+    case "eq":
+      return row => read(row) !== null && read(row) !== undefined && compareValues(read(row), operand) === 0;
+    case "neq":
+      return row => read(row) !== null && read(row) !== undefined && compareValues(read(row), operand) !== 0;
+    case "gt":
+      return row => read(row) !== null && read(row) !== undefined && compareValues(read(row), operand) > 0;
+    case "gte":
+      return row => read(row) !== null && read(row) !== undefined && compareValues(read(row), operand) >= 0;
+    case "lt":
+      return row => read(row) !== null && read(row) !== undefined && compareValues(read(row), operand) < 0;
+    case "lte":
+      return row => read(row) !== null && read(row) !== undefined && compareValues(read(row), operand) <= 0;
+    case "in": {
+      const values = Array.isArray(operand)
+        ? operand
+        : String(operand).replace(/^\(|\)$/g, "").split(",").map(value => value.trim().replace(/^"|"$/g, ""));
+      return row => values.some(value => read(row) !== null && compareValues(read(row), value) === 0);
+    }
+    case "is": {
+      const expected = operand === "null" ? null : operand === "true" ? true : operand === "false" ? false : operand;
+      return row => (expected === null ? read(row) === null || read(row) === undefined : read(row) === expected);
+    }
+    case "ilike":
+    case "like": {
+      const pattern = new RegExp(
+        `^${String(operand).replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/[%*]/g, ".*")}$`,
+        operator === "ilike" ? "i" : ""
+      );
+      return row => typeof read(row) === "string" && pattern.test(read(row) as string);
+    }
+    default:
+      throw fail("PGRST100", `Unsupported operator '${operator}'`);
+  }
+}
+
+// `unassigned_at.is.null,unassigned_at.gte.2026-01-01`
+function orFilter(conditions: string): Filter {
+  const filters = splitTopLevel(conditions).map(condition => {
+    const [column, operator, ...rest] = condition.split(".");
+    const operand = rest.join(".");
+    return operator === "not"
+      ? negate(operatorFilter(column, rest[0], rest.slice(1).join(".")))
+      : operatorFilter(column, operator, operand);
+  });
+  return row => filters.some(filter => filter(row));
+}
+
+const negate = (filter: Filter): Filter => row => !filter(row);
+
+// ---------------------------------------------------------------------------
+// Query builder
+
+type Action = "select" | "insert" | "upsert" | "update" | "delete";
+
+interface Ordering {
+  column: string;
+  embed: string | null;
+  ascending: boolean;
+  nullsFirst: boolean;
+}
+
+class FakeQuery implements PromiseLike<FakeResponse> {
+  private action: Action = "select";
+  private columns: string | null = "*";
+  private returning = false;
+  private values: Row[] = [];
+  private patch: Row = {};
+  private onConflict: string | null = null;
+  private filters: Filter[] = [];
+  // Filters on embedded columns, by embed alias
+  private embedFilters = new Map<string, Filter[]>();
+  private orderings: Ordering[] = [];
+  private rangeFrom = 0;
+  private rangeTo: number | null = null;
+  private cardinality: "many" | "single" | "maybeSingle" = "many";
+  private countRows = false;
+  private head = false;
+
+  constructor(private readonly tables: FakeTables, private readonly table: TableName) {}
+
+  select(columns = "*", options: { count?: "exact" | "planned" | "estimated"; head?: boolean } = {}) {
+    if (this.action === "select") {
+      this.columns = columns;
+    } else {
+      this.returning = true;
+      this.columns = columns;
+    }
+    this.countRows = !!options.count;
+    this.head = !!options.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = "upsert";
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict ?? null;
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = "update";
+    this.patch = values;
+    return this;
+  }
+
+  delete() {
+    this.action = "delete";
+    return this;
+  }
+
+  private where(column: string, filter: (column: string) => Filter) {
+    const dot = column.indexOf(".");
+    if (dot === -1) {
+      this.filters.push(filter(column));
+    } else {
+      const alias = column.slice(0, dot);
+      this.embedFilters.set(alias, [...(this.embedFilters.get(alias) || []), filter(column.slice(dot + 1))]);
+    }
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.where(column, c => operatorFilter(c, "eq", value)); }
+  neq(column: string, value: unknown) { return this.where(column, c => operatorFilter(c, "neq", value)); }
+  gt(column: string, value: unknown) { return this.where(column, c => operatorFilter(c, "gt", value)); }
+  gte(column: string, value: unknown) { return this.where(column, c => operatorFilter(c, "gte", value)); }
+  lt(column: string, value: unknown) { return this.where(column, c => operatorFilter(c, "lt", value)); }
+  lte(column: string, value: unknown) { return this.where(column, c => operatorFilter(c, "lte", value)); }
+  in(column: string, values: unknown[]) { return this.where(column, c => operatorFilter(c, "in", values)); }
+  is(column: string, value: unknown) { return this.where(column, c => operatorFilter(c, "is", value)); }
+  ilike(column: string, pattern: string) { return this.where(column, c => operatorFilter(c, "ilike", pattern)); }
+  like(column: string, pattern: string) { return this.where(column, c => operatorFilter(c, "like", pattern)); }
+
+  not(column: string, operator: string, value: unknown) {
+    return this.where(column, c => negate(operatorFilter(c, operator, value)));
+  }
+
+  filter(column: string, operator: string, value: unknown) {
+    return this.where(column, c => operatorFilter(c, operator, value));
+  }
+
+  match(values: Row) {
+    Object.entries(values).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  or(conditions: string, options: { foreignTable?: string; referencedTable?: string } = {}) {
+    const embed = options.referencedTable ?? options.foreignTable;
+    if (embed) {
+      this.embedFilters.set(embed, [...(this.embedFilters.get(embed) || []), orFilter(conditions)]);
+    } else {
+      this.filters.push(orFilter(conditions));
+    }
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    const embedded = column.match(/^(\w+)\((\w+)\)$/);
+    const ascending = options.ascending ?? true;
+    this.orderings.push({
+      column: embedded ? embedded[2] : column,
+      embed: embedded ? embedded[1] : null,
+      ascending,
+      nullsFirst: options.nullsFirst ?? !ascending
+    });
+    return this;
+  }
+
+  limit(count: number) {
+    this.rangeTo = this.rangeFrom + count - 1;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rangeFrom = from;
+    this.rangeTo = to;
+    return this;
+  }
+
+  single() {
+    this.cardinality = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = FakeResponse, TResult2 = never>(
+    onfulfilled?: ((value: FakeResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private rows(): Row[] {
+    const rows = this.tables[this.table];
+    if (!rows) {
+      throw fail("42P01", `relation "public.${this.table}" does not exist`);
+    }
+    return rows;
+  }
+
+  private matching(): Row[] {
+    return this.rows().filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  private execute(): FakeResponse {
+    try {
+      const affected = this.mutate();
+      if (this.action !== "select" && !this.returning) {
+        return this.respond(null, null, 201);
+      }
+
+      let rows = this.project(affected, this.table, parseSelect(this.columns || "*"), true);
+      rows = this.sort(rows);
+      const count = rows.length;
+      if (this.action === "select") {
+        rows = rows.slice(this.rangeFrom, this.rangeTo === null ? undefined : this.rangeTo + 1);
+      }
+
+      if (this.head) return this.respond(null, count);
+
+      if (this.cardinality !== "many") {
+        if (rows.length > 1 || (rows.length === 0 && this.cardinality === "single")) {
+          return this.respond(null, null, 406, fail(
+            "PGRST116",
+            `JSON object requested, multiple (or no) rows returned (${rows.length} rows)`
+          ));
+        }
+        return this.respond(rows[0] ?? null, this.countRows ? count : null);
+      }
+
+      return this.respond(rows, this.countRows ? count : null);
+    } catch (error) {
+      const { code = "PGRST000", message = String(error) } = error as FakeError;
+      return this.respond(null, null, 400, { code, message });
+    }
+  }
+
+  private respond(data: unknown, count: number | null, status = 200, error: FakeError | null = null): FakeResponse {
+    return { data, error, count, status, statusText: error ? "Bad Request" : "OK" };
+  }
+
+  // Applies the write, returning the rows it touched (or those selected)
+  private mutate(): Row[] {
+    const rows = this.rows();
+    const key = PRIMARY_KEYS[this.table] ?? "id";
+
+    switch (this.action) {
+      case "select":
+        return this.matching();
+      case "insert": {
+        const inserted = this.values.map(values => ({ ...defaultsFor(this.table), ...values }));
+        inserted.forEach(row => {
+          if (rows.some(existing => existing[key] === row[key])) {
+            throw fail("23505", `duplicate key value violates unique constraint "${this.table}_pkey"`);
+          }
+        });
+        rows.push(...inserted);
+        return inserted;
+      }
+      case "upsert": {
+        const conflict = (this.onConflict ?? key).split(",").map(column => column.trim());
+        return this.values.map(values => {
+          const existing = rows.find(row => conflict.every(column => row[column] === values[column]));
+          if (existing) return Object.assign(existing, values);
+          const row = { ...defaultsFor(this.table), ...values };
+          rows.push(row);
+          return row;
+        });
+      }
+      case "update":
+        return this.matching().map(row => Object.assign(row, this.patch));
+      case "delete": {
+        const removed = this.matching();
+        this.tables[this.table] = rows.filter(row => !removed.includes(row));
+        return removed;
+      }
+    }
+  }
+
+  // Picks the selected columns and embeds; drops rows an inner embed rules out
+  private project(rows: Row[], table: TableName, nodes: SelectNode[], topLevel: boolean): Row[] {
+    const result: Row[] = [];
+
+    for (const row of rows) {
+      const projected: Row = {};
+      let keep = true;
+
+      for (const node of nodes) {
+        if (node.kind === "star") {
+          Object.assign(projected, row);
+        } else if (node.kind === "column") {
+          projected[node.alias] = row[node.name] ?? null;
+        } else {
+          const relation = resolveRelation(table, node);
+          const filters = topLevel ? this.embedFilters.get(node.alias) || this.embedFilters.get(node.name) || [] : [];
+          const related = (this.tables[relation.target] || []).filter(candidate =>
+            (relation.many ? candidate[relation.column] === row.id : candidate.id === row[relation.column])
+            && filters.every(filter => filter(candidate))
+          );
+          const embedded = this.project(related, relation.target, node.children, false);
+
+          if (relation.many) {
+            projected[node.alias] = embedded;
+            if (node.inner && embedded.length === 0) keep = false;
+          } else {
+            projected[node.alias] = embedded[0] ?? null;
+            if (node.inner && !embedded[0]) keep = false;
+          }
+        }
+      }
+
+      if (keep) result.push(projected);
+    }
+
+    return result;
+  }
+
+  private sort(rows: Row[]): Row[] {
+    if (this.orderings.length === 0) return rows;
+
+    const read = (row: Row, ordering: Ordering) =>
+      ordering.embed ? (row[ordering.embed] as Row | null)?.[ordering.column] : row[ordering.column];
+
+    return [...rows].sort((a, b) => {
+      for (const ordering of this.orderings) {
+        const left = read(a, ordering);
+        const right = read(b, ordering);
+        if (left === right) continue;
+        if (left === null || left === undefined) return ordering.nullsFirst ? -1 : 1;
+        if (right === null || right === undefined) return ordering.nullsFirst ? 1 : -1;
+        const order = compareValues(left, right);
+        if (order !== 0) return ordering.ascending ? order : -order;
+      }
+      return 0;
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Client
+
+export interface FakeSupabase {
+  from(table: TableName): FakeQuery;
+  rpc(name: string, args?: Record<string, unknown>): Promise<FakeResponse>;
+  auth: {
+    getUser(): Promise<{ data: { user: { id: string } | null }; error: null }>;
+    getSession(): Promise<{ data: { session: { user: { id: string } } | null }; error: null }>;
+    onAuthStateChange(callback: unknown): { data: { subscription: { unsubscribe(): void } } };
+  };
+  // Test controls
+  tables: FakeTables;
+  reset(tables: FakeTables, rpc?: Record<string, FakeRpc>): void;
+  signInAs(userId: string | null): void;
+}
+
+// Rows are copied on reset, so fixtures can be reused between tests
+export function createFakeSupabase(tables: FakeTables = {}, rpc: Record<string, FakeRpc> = {}): FakeSupabase {
+  let functions = rpc;
+  let userId: string | null = null;
+
+  const client: FakeSupabase = {
+    tables: {},
+
+    from(table) {
+      return new FakeQuery(client.tables, table);
+    },
+
+    async rpc(name, args = {}) {
+      const fn = functions[name];
+      if (!fn) {
+        return {
+          data: null,
+          error: fail("PGRST202", `Could not find the function public.${name} in the schema cache`),
+          count: null,
+          status: 404,
+          statusText: "Not Found"
+        };
+      }
+      try {
+        return { data: fn(args, client.tables, userId), error: null, count: null, status: 200, statusText: "OK" };
+      } catch (error) {
+        const { code = "P0001", message } = error as FakeError;
+        return { data: null, error: fail(code, message), count: null, status: 400, statusText: "Bad Request" };
+      }
+    },
+
+    auth: {
+      async getUser() {
+        return { data: { user: userId ? { id: userId } : null }, error: null };
+      },
+      async getSession() {
+        return { data: { session: userId ? { user: { id: userId } } : null }, error: null };
+      },
+      onAuthStateChange() {
+        return { data: { subscription: { unsubscribe() {} } } };
+      }
+    },
+
+    reset(next, nextRpc = functions) {
+      client.tables = Object.fromEntries(
+        (Object.keys(FOREIGN_KEYS) as TableName[]).map(table => [table, (next[table] || []).map(row => ({ ...row }))])
+      );
+      functions = nextRpc;
+    },
+
+    signInAs(id) {
+      userId = id;
+    }
+  };
+
+  client.reset(tables);
+  return client;
+}
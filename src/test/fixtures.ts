@@ -0,0 +1,231 @@
+// Seed data for the in-memory client: the same organisation as
+// supabase/seed.sql, with 4 zones, 200 branches, an admin, 2 CHs, 4 ZHs and
+// 20 BHs, and a year of visits (October 2025 to September 2026) with their
+// reviews. Ids are md5 hashes of the same labels as in seed.sql
+// (`md5('bh-01')::uuid`), so a failing test can be replayed against a local
+// database. Visit contents come from a seeded generator and are the same on
+// every run.
+
+import { createHash } from "node:crypto";
+import { format } from "date-fns";
+import type { BranchCategory } from "@/lib/metrics";
+import type { FakeTables, Row } from "./fakeSupabase";
+
+// Postgres' md5(label)::uuid
+export const seedId = (label: string): string => {
+  const hex = createHash("md5").update(label).digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+export const SEED_ZONES = [
+  { key: "north", name: "North", cities: [["Delhi", "DEL"], ["Jaipur", "JAI"], ["Lucknow", "LKO"], ["Chandigarh", "CHD"]] },
+  { key: "south", name: "South", cities: [["Chennai", "CHE"], ["Bengaluru", "BLR"], ["Hyderabad", "HYD"], ["Kochi", "COK"]] },
+  { key: "east", name: "East", cities: [["Kolkata", "KOL"], ["Patna", "PAT"], ["Bhubaneswar", "BBI"], ["Guwahati", "GAU"]] },
+  { key: "west", name: "West", cities: [["Mumbai", "MUM"], ["Pune", "PNQ"], ["Ahmedabad", "AMD"], ["Surat", "STV"]] }
+] as const;
+
+const BRANCH_AREAS = [
+  "Central", "Station Road", "Civil Lines", "Market Yard", "Ring Road", "Old Town", "New Town",
+  "Industrial Area", "Airport Road", "Cantonment", "University Road", "Lake Road", "Bus Stand"
+];
+
+// 50 branches per zone
+const CATEGORY_MIX: [BranchCategory, number][] = [
+  ["platinum", 5], ["diamond", 8], ["gold", 12], ["silver", 12], ["bronze", 13]
+];
+
+// Months between visits to a branch of each category
+const VISIT_EVERY: Record<BranchCategory, number> = { platinum: 1, diamond: 1, gold: 2, silver: 3, bronze: 3 };
+
+const BH_NAMES = [
+  "Asha Rao", "Vikram Singh", "Neha Gupta", "Rohit Sharma", "Pooja Iyer",
+  "Arjun Nair", "Kavya Reddy", "Sanjay Menon", "Divya Pillai", "Karthik Rajan",
+  "Ananya Das", "Rahul Bose", "Sneha Mukherjee", "Amit Ghosh", "Priya Sen",
+  "Meera Joshi", "Nikhil Patil", "Swati Desai", "Harsh Mehta", "Ritu Shah"
+];
+const ZH_NAMES = ["Rajesh Kapoor", "Lakshmi Narayan", "Subhash Chatterjee", "Farah Khan"];
+const CH_NAMES = ["Anita Verma", "Suresh Kumar"];
+
+const PERFORMANCE_LEVELS = ["excellent", "good", "good", "average", "below_average", "poor"];
+const FEEDBACK = [
+  "Team is settled and engaged.",
+  "Staff raised concerns about weekend rosters.",
+  "New joiners need a proper induction buddy.",
+  "Branch manager runs a good morning huddle.",
+  "Pending CWT cases discussed with the manager.",
+  "Employees asked for clarity on the incentive scheme."
+];
+
+// Reports from before SEED_REVIEWED_UNTIL have been reviewed
+export const SEED_FIRST_VISIT = "2025-10-01";
+export const SEED_REVIEWED_UNTIL = "2026-09-01";
+
+// mulberry32
+function generator(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T,>(values: readonly T[]): T => values[Math.floor(next() * values.length)],
+    yes: (probability: number) => (next() < probability ? "yes" : "no")
+  };
+}
+
+const profile = (label: string, fields: Row): Row => ({
+  id: seedId(label),
+  is_active: true,
+  zone_id: null,
+  created_at: "2025-09-01T09:00:00Z",
+  updated_at: "2025-09-01T09:00:00Z",
+  ...fields
+});
+
+export function buildFixtures(): FakeTables {
+  const random = generator(2026);
+  const zones: Row[] = [];
+  const profiles: Row[] = [
+    profile("admin", { full_name: "Admin", e_code: "E0001", role: "admin", location: "Mumbai", gender: "other" }),
+    ...CH_NAMES.map((full_name, index) => profile(`ch-0${index + 1}`, {
+      full_name,
+      e_code: `E00${index + 10}`,
+      role: "CH",
+      location: "Mumbai",
+      gender: index === 0 ? "female" : "male"
+    }))
+  ];
+  const branches: Row[] = [];
+  const assignments: Row[] = [];
+  const visits: Row[] = [];
+  const reviews: Row[] = [];
+
+  SEED_ZONES.forEach((zone, zoneIndex) => {
+    const zoneId = seedId(`zone-${zone.key}`);
+    const zh = seedId(`zh-0${zoneIndex + 1}`);
+    zones.push({ id: zoneId, name: zone.name, created_at: "2025-09-01T09:00:00Z", updated_at: "2025-09-01T09:00:00Z" });
+    profiles.push(profile(`zh-0${zoneIndex + 1}`, {
+      full_name: ZH_NAMES[zoneIndex],
+      e_code: `E01${zoneIndex + 10}`,
+      role: "ZH",
+      location: zone.cities[0][0],
+      gender: zoneIndex % 2 ? "female" : "male",
+      zone_id: zoneId
+    }));
+
+    const categories = CATEGORY_MIX.flatMap(([category, count]) => Array<BranchCategory>(count).fill(category));
+    categories.forEach((category, index) => {
+      const number = zoneIndex * 50 + index + 1;
+      const [city, code] = zone.cities[index % zone.cities.length];
+      const bhNumber = zoneIndex * 5 + Math.floor(index / 10) + 1;
+      const bh = seedId(`bh-${String(bhNumber).padStart(2, "0")}`);
+      const branchId = seedId(`branch-${String(number).padStart(3, "0")}`);
+
+      branches.push({
+        id: branchId,
+        name: `${city} ${BRANCH_AREAS[Math.floor(index / zone.cities.length)]}`,
+        location: city,
+        branch_code: `${code}-${String(number).padStart(3, "0")}`,
+        category,
+        zone_id: zoneId,
+        created_at: "2025-09-01T09:00:00Z",
+        updated_at: "2025-09-01T09:00:00Z"
+      });
+      assignments.push({
+        id: seedId(`assignment-${String(number).padStart(3, "0")}`),
+        user_id: bh,
+        branch_id: branchId,
+        assigned_at: "2025-09-01T09:00:00Z",
+        unassigned_at: null,
+        assigned_by: zh,
+        unassigned_by: null
+      });
+
+      for (let month = 0; month < 12; month++) {
+        if (month % VISIT_EVERY[category] !== number % VISIT_EVERY[category] || random.next() > 0.9) continue;
+
+        const visitDate = format(new Date(2025, 9 + month, random.int(1, 28)), "yyyy-MM-dd");
+        const reviewed = visitDate < SEED_REVIEWED_UNTIL;
+        const roll = random.next();
+        const status = reviewed
+          ? roll < 0.88 ? "approved" : roll < 0.93 ? "rejected" : roll < 0.97 ? "resubmitted" : "needs_revision"
+          : roll < 0.6 ? "submitted" : roll < 0.7 ? "draft" : roll < 0.9 ? "approved" : "needs_revision";
+        const invited = random.int(10, 40);
+        const newJoiners = random.int(0, 8);
+        const stars = random.int(0, 6);
+        const visitId = seedId(`visit-${String(visits.length + 1).padStart(4, "0")}`);
+        const submittedAt = `${visitDate}T18:00:00Z`;
+        const reviewedAt = format(new Date(`${visitDate}T12:00:00Z`).getTime() + 2 * 86400000, "yyyy-MM-dd'T'10:00:00'Z'");
+
+        visits.push({
+          id: visitId,
+          user_id: bh,
+          branch_id: branchId,
+          visit_date: visitDate,
+          branch_category: category,
+          hr_connect_session: random.next() < 0.7,
+          total_employees_invited: invited,
+          total_participants: random.int(Math.floor(invited * 0.6), invited),
+          manning_percentage: random.int(75, 100),
+          attrition_percentage: random.int(0, 15),
+          non_vendor_percentage: random.int(60, 100),
+          er_percentage: random.int(70, 100),
+          cwt_cases: random.int(0, 3),
+          performance_level: random.pick(PERFORMANCE_LEVELS),
+          new_employees_total: newJoiners,
+          new_employees_covered: random.int(0, newJoiners),
+          star_employees_total: stars,
+          star_employees_covered: random.int(0, stars),
+          leaders_aligned_with_code: random.yes(0.85),
+          employees_feel_safe: random.yes(0.9),
+          employees_feel_motivated: random.yes(0.75),
+          leaders_abusive_language: random.yes(0.08),
+          employees_comfort_escalation: random.yes(0.8),
+          inclusive_culture: random.yes(0.85),
+          feedback: random.pick(FEEDBACK),
+          best_practices: null,
+          status,
+          created_at: submittedAt,
+          updated_at: status === "submitted" || status === "draft" ? submittedAt : reviewedAt
+        });
+
+        if (status === "submitted" || status === "draft") continue;
+
+        const decision = status === "resubmitted" ? "needs_revision" : status;
+        reviews.push({
+          id: seedId(`review-${String(reviews.length + 1).padStart(4, "0")}`),
+          visit_id: visitId,
+          reviewer_id: zh,
+          decision,
+          comment: decision === "approved" ? null : "Participation figures do not match the attendance sheet.",
+          created_at: reviewedAt
+        });
+      }
+    });
+
+    for (let index = 0; index < 5; index++) {
+      const bhNumber = zoneIndex * 5 + index + 1;
+      profiles.push(profile(`bh-${String(bhNumber).padStart(2, "0")}`, {
+        full_name: BH_NAMES[bhNumber - 1],
+        e_code: `E1${String(bhNumber).padStart(3, "0")}`,
+        role: "BH",
+        location: zone.cities[index % zone.cities.length][0],
+        gender: bhNumber % 2 ? "female" : "male",
+        zone_id: zoneId
+      }));
+    }
+  });
+
+  return {
+    zones,
+    profiles,
+    branches,
+    branch_assignments: assignments,
+    branch_visits: visits,
+    visit_reviews: reviews
+  };
+}
@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { supabase } from "@/integrations/supabase/client";
+import { createBranchVisit, fetchAssignedBranchesWithDetails, fetchUserBranchVisits } from "@/services/branchService";
+import { fetchMonthlySummaryReport, fetchRecentReports, updateReportStatus } from "@/services/reportService";
+import { fetchRecentVisits } from "@/services/zhService";
+import { exportReportCsv } from "@/services/exportService";
+import { AWAITING_REVIEW_STATUSES, REPORTED_STATUSES, ReportStatus } from "@/lib/reportWorkflow";
+import type { FakeSupabase } from "./fakeSupabase";
+import { buildFixtures, seedId } from "./fixtures";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createFakeSupabase } = await import("./fakeSupabase");
+  const { FAKE_RPC } = await import("./fakeRpc");
+  return { supabase: createFakeSupabase({}, FAKE_RPC) };
+});
+
+const fake = supabase as unknown as FakeSupabase;
+
+// Asha Rao and her ZH look after the North zone
+const BH = seedId("bh-01");
+const ZH = seedId("zh-01");
+const OTHER_ZH = seedId("zh-02");
+
+const VISIT_DATE = "2026-10-14";
+
+async function submitVisit(status: ReportStatus = "submitted") {
+  const [assignment] = await fetchAssignedBranchesWithDetails(BH);
+  const result = await createBranchVisit({
+    user_id: BH,
+    branch_id: assignment.branch_id,
+    visit_date: VISIT_DATE,
+    branch_category: assignment.branches.category,
+    hr_connect_session: true,
+    total_employees_invited: 24,
+    total_participants: 21,
+    manning_percentage: 92,
+    attrition_percentage: 4,
+    leaders_aligned_with_code: "yes",
+    employees_feel_safe: "yes",
+    feedback: "Morning huddle is working well.",
+    status
+  });
+
+  expect(result.error).toBeNull();
+  return { visit: result.data, branch: assignment.branches };
+}
+
+const visitRow = (id: string) => fake.tables.branch_visits.find(visit => visit.id === id);
+
+beforeEach(() => {
+  fake.reset(buildFixtures());
+  fake.signInAs(null);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("visit report flow", () => {
+  it("takes a BH report through ZH approval into the CH reports", async () => {
+    const assigned = await fetchAssignedBranchesWithDetails(BH);
+    expect(assigned).toHaveLength(10);
+    expect(assigned.map(assignment => assignment.branches.name))
+      .toEqual([...assigned.map(assignment => assignment.branches.name)].sort());
+
+    const { visit, branch } = await submitVisit();
+    expect(visit.status).toBe("submitted");
+
+    // The ZH sees it in their zone, waiting for review; other zones do not
+    const [latest] = await fetchRecentVisits(ZH);
+    expect(latest).toMatchObject({ id: visit.id, status: "submitted", bh_name: "Asha Rao", branch_name: branch.name });
+    expect((await fetchRecentVisits(OTHER_ZH)).map(recent => recent.id)).not.toContain(visit.id);
+
+    const queue = (await fetchRecentReports(100))
+      .filter(report => AWAITING_REVIEW_STATUSES.includes(report.status as ReportStatus));
+    expect(queue.map(report => report.id)).toContain(visit.id);
+
+    fake.signInAs(ZH);
+    await updateReportStatus(visit.id, "approved", { reviewerId: ZH });
+
+    expect(visitRow(visit.id).status).toBe("approved");
+    expect(fake.tables.visit_reviews.filter(review => review.visit_id === visit.id))
+      .toEqual([expect.objectContaining({ reviewer_id: ZH, decision: "approved", comment: null })]);
+
+    const [mine] = await fetchUserBranchVisits(BH);
+    expect(mine).toMatchObject({ id: visit.id, status: "approved" });
+
+    // The CH summary and export for the month carry the approved report
+    const summary = await fetchMonthlySummaryReport(2026, 10);
+    expect(summary).toEqual([
+      expect.objectContaining({ id: visit.id, bh_name: "Asha Rao", bh_code: "E1001", branch_name: branch.name })
+    ]);
+
+    const { blob, rowCount } = await exportReportCsv("branch_visits", { year: 2026, month: 10 });
+    const [header, row] = (await blob.text()).split("\r\n");
+    expect(rowCount).toBe(1);
+    expect(header).toContain("visit_date");
+    expect(row).toContain(VISIT_DATE);
+    expect(row).toContain(branch.branch_code);
+    expect(row).toContain("Asha Rao");
+  });
+
+  it("does not let a BH approve their own report", async () => {
+    const { visit } = await submitVisit();
+
+    fake.signInAs(BH);
+    await expect(updateReportStatus(visit.id, "approved", { reviewerId: BH })).rejects.toThrow();
+
+    expect(visitRow(visit.id).status).toBe("submitted");
+    expect(fake.tables.visit_reviews.some(review => review.visit_id === visit.id)).toBe(false);
+  });
+
+  it("does not guess a role when the user's profile cannot be read", async () => {
+    const { visit } = await submitVisit();
+    const before = fake.tables.branch_visits.length;
+    const unknown = seedId("bh-missing");
+
+    const result = await createBranchVisit(
+      { user_id: unknown, branch_id: visit.branch_id, visit_date: VISIT_DATE, branch_category: "gold", status: "submitted" },
+      { silent: true }
+    );
+    expect(result.success).toBe(false);
+    expect(fake.tables.branch_visits).toHaveLength(before);
+
+    await expect(updateReportStatus(visit.id, "approved", { reviewerId: unknown })).rejects.toThrow();
+    expect(visitRow(visit.id).status).toBe("submitted");
+  });
+
+  it("needs a comment to reject, and keeps rejected reports out of the CH reports", async () => {
+    const { visit } = await submitVisit();
+
+    fake.signInAs(ZH);
+    await expect(updateReportStatus(visit.id, "rejected", { reviewerId: ZH, comment: " " }))
+      .rejects.toThrow("A comment is required when rejecting a report.");
+    expect(visitRow(visit.id).status).toBe("submitted");
+
+    await updateReportStatus(visit.id, "rejected", { reviewerId: ZH, comment: "Attendance sheet is missing." });
+
+    expect(visitRow(visit.id).status).toBe("rejected");
+    expect(await fetchMonthlySummaryReport(2026, 10)).toEqual([]);
+    expect((await exportReportCsv("branch_visits", { year: 2026, month: 10 })).rowCount).toBe(0);
+  });
+
+  it("keeps the first decision when a second reviewer acts on the same report", async () => {
+    const { visit } = await submitVisit();
+
+    fake.signInAs(ZH);
+    await updateReportStatus(visit.id, "approved", { reviewerId: ZH });
+    await expect(updateReportStatus(visit.id, "rejected", { reviewerId: ZH, comment: "Figures look wrong." }))
+      .rejects.toThrow();
+
+    expect(visitRow(visit.id).status).toBe("approved");
+    expect(fake.tables.visit_reviews.filter(review => review.visit_id === visit.id)).toHaveLength(1);
+  });
+
+  it("keeps drafts out of the ZH queue and the CH reports", async () => {
+    const { visit } = await submitVisit("draft");
+
+    const queue = (await fetchRecentReports(100))
+      .filter(report => AWAITING_REVIEW_STATUSES.includes(report.status as ReportStatus));
+    expect(queue.map(report => report.id)).not.toContain(visit.id);
+    expect(await fetchMonthlySummaryReport(2026, 10)).toEqual([]);
+  });
+});
+
+describe("seeded CH reports", () => {
+  it("summarise the reported visits of a seeded month", async () => {
+    const expected = fake.tables.branch_visits.filter(visit =>
+      (visit.visit_date as string).startsWith("2026-03")
+      && REPORTED_STATUSES.includes(visit.status as ReportStatus)
+    );
+
+    const summary = await fetchMonthlySummaryReport(2026, 3);
+
+    expect(summary.length).toBeGreaterThan(50);
+    expect(summary.map(visit => visit.id).sort()).toEqual(expected.map(visit => visit.id).sort());
+    expect(summary.every(visit => visit.bh_name !== "Unknown" && visit.branch_name !== "Unknown")).toBe(true);
+  });
+
+  it("export the month's BH performance and filter by category", async () => {
+    const performance = await exportReportCsv("bh_performance", { year: 2026, month: 3 });
+    expect(performance.rowCount).toBe(20);
+
+    const platinum = await exportReportCsv("branch_visits", { year: 2026, month: 3, category: "platinum" });
+    const lines = (await platinum.blob.text()).split("\r\n").filter(Boolean);
+    expect(platinum.rowCount).toBeGreaterThan(0);
+    expect(lines).toHaveLength(platinum.rowCount + 1);
+    expect(lines.slice(1).every(line => line.includes(",platinum,"))).toBe(true);
+  });
+});
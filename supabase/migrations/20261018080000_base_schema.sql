@@ -0,0 +1,113 @@
+-- Base schema: the tables the app started with, before migrations were kept
+-- in this repository. Every later migration alters or references them, so a
+-- fresh database (supabase db reset, CI) needs them first.
+--
+-- Databases created before this file already have these objects; everything
+-- here is "if not exists" and leaves them untouched. Mark the migration as
+-- applied there with:
+--
+--   supabase migration repair --status applied 20261018080000
+--
+-- Columns added later (profiles.is_active and zone_id, branches.zone_id,
+-- assignment history, best_practices) belong to the migrations that added
+-- them.
+
+-- One profile per auth user, filled from the sign-up metadata
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  full_name text not null,
+  e_code text not null unique,
+  role text not null check (role in ('BH', 'ZH', 'CH', 'admin')),
+  location text not null,
+  gender text not null check (gender in ('male', 'female', 'other')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, full_name, e_code, role, location, gender)
+  values (
+    new.id,
+    new.raw_user_meta_data ->> 'full_name',
+    new.raw_user_meta_data ->> 'e_code',
+    new.raw_user_meta_data ->> 'role',
+    new.raw_user_meta_data ->> 'location',
+    new.raw_user_meta_data ->> 'gender'
+  )
+  on conflict (id) do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+create table if not exists public.branches (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  location text not null,
+  branch_code text unique,
+  category text not null check (category in ('platinum', 'diamond', 'gold', 'silver', 'bronze')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Which BH looks after which branch. 20261018200000 turns these into
+-- time-bounded records and replaces the unique constraint.
+create table if not exists public.branch_assignments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  branch_id uuid not null references public.branches (id) on delete cascade,
+  assigned_at timestamptz not null default now(),
+  unique (user_id, branch_id)
+);
+
+create index if not exists branch_assignments_user_id_idx on public.branch_assignments (user_id);
+
+-- A BH's visit report. Percentages are 0-100; the qualitative answers are
+-- 'yes' / 'no'. 20261018120000 widens the status check.
+create table if not exists public.branch_visits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  branch_id uuid not null references public.branches (id) on delete cascade,
+  visit_date date not null,
+  branch_category text not null check (branch_category in ('platinum', 'diamond', 'gold', 'silver', 'bronze')),
+  hr_connect_session boolean,
+  total_employees_invited integer,
+  total_participants integer,
+  manning_percentage numeric,
+  attrition_percentage numeric,
+  non_vendor_percentage numeric,
+  er_percentage numeric,
+  cwt_cases integer,
+  performance_level text,
+  new_employees_total integer,
+  new_employees_covered integer,
+  star_employees_total integer,
+  star_employees_covered integer,
+  leaders_aligned_with_code text,
+  employees_feel_safe text,
+  employees_feel_motivated text,
+  leaders_abusive_language text,
+  employees_comfort_escalation text,
+  inclusive_culture text,
+  feedback text,
+  status text default 'draft' constraint branch_visits_status_check
+    check (status in ('draft', 'submitted', 'approved', 'rejected')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists branch_visits_user_id_idx on public.branch_visits (user_id);
+create index if not exists branch_visits_branch_id_idx on public.branch_visits (branch_id);
+create index if not exists branch_visits_visit_date_idx on public.branch_visits (visit_date);
@@ -0,0 +1,5 @@
+-- Admin console: allow administrators to switch accounts off without deleting them.
+alter table public.profiles
+  add column if not exists is_active boolean not null default true;
+
+create index if not exists profiles_role_idx on public.profiles (role);
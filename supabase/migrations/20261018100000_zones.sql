@@ -0,0 +1,17 @@
+-- Zones group branches and the people who look after them.
+-- A ZH owns the zone set on their profile; BHs and branches belong to one zone each.
+create table if not exists public.zones (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles
+  add column if not exists zone_id uuid references public.zones (id) on delete set null;
+
+alter table public.branches
+  add column if not exists zone_id uuid references public.zones (id) on delete set null;
+
+create index if not exists profiles_zone_id_idx on public.profiles (zone_id);
+create index if not exists branches_zone_id_idx on public.branches (zone_id);
@@ -0,0 +1,15 @@
+-- Every approve/reject decision on a branch visit, with who made it and why.
+create table if not exists public.visit_reviews (
+  id uuid primary key default gen_random_uuid(),
+  visit_id uuid not null references public.branch_visits (id) on delete cascade,
+  reviewer_id uuid not null references public.profiles (id),
+  decision text not null check (decision in ('approved', 'rejected')),
+  comment text,
+  created_at timestamptz not null default now(),
+  -- A rejection must tell the BH what to fix
+  constraint visit_reviews_rejection_comment_required
+    check (decision <> 'rejected' or length(trim(coalesce(comment, ''))) > 0)
+);
+
+create index if not exists visit_reviews_visit_id_idx
+  on public.visit_reviews (visit_id, created_at desc);
@@ -0,0 +1,79 @@
+-- Report state machine. Mirrors src/lib/reportWorkflow.ts; keep the two in sync.
+alter table public.branch_visits
+  drop constraint if exists branch_visits_status_check;
+
+alter table public.branch_visits
+  add constraint branch_visits_status_check
+  check (status in ('draft', 'submitted', 'needs_revision', 'resubmitted', 'approved', 'rejected'));
+
+-- Reviewers can now send a report back; that needs a comment just like a rejection
+alter table public.visit_reviews
+  drop constraint if exists visit_reviews_decision_check;
+
+alter table public.visit_reviews
+  add constraint visit_reviews_decision_check
+  check (decision in ('approved', 'rejected', 'needs_revision'));
+
+alter table public.visit_reviews
+  drop constraint if exists visit_reviews_rejection_comment_required;
+
+alter table public.visit_reviews
+  add constraint visit_reviews_rejection_comment_required
+  check (decision = 'approved' or length(trim(coalesce(comment, ''))) > 0);
+
+create or replace function public.report_transition_allowed(
+  from_status text,
+  to_status text,
+  actor_role text
+) returns boolean
+language sql
+immutable
+as $$
+  select case coalesce(from_status, 'new')
+    when 'new' then to_status in ('draft', 'submitted') and actor_role = 'BH'
+    when 'draft' then to_status in ('draft', 'submitted') and actor_role = 'BH'
+    when 'needs_revision' then to_status in ('needs_revision', 'resubmitted') and actor_role = 'BH'
+    when 'submitted' then to_status in ('approved', 'rejected', 'needs_revision') and actor_role in ('ZH', 'admin')
+    when 'resubmitted' then to_status in ('approved', 'rejected', 'needs_revision') and actor_role in ('ZH', 'admin')
+    else false
+  end;
+$$;
+
+create or replace function public.enforce_report_transition()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor_role text;
+  from_status text;
+begin
+  -- Service-role jobs (migrations, seeding) run without a user
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  select role into actor_role from public.profiles where id = auth.uid();
+
+  if tg_op = 'INSERT' then
+    from_status := null;
+  else
+    from_status := old.status;
+  end if;
+
+  if not public.report_transition_allowed(from_status, new.status, actor_role) then
+    raise exception 'A % cannot move a report from % to %',
+      coalesce(actor_role, 'user'), coalesce(from_status, 'new'), new.status
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists branch_visits_enforce_transition on public.branch_visits;
+
+create trigger branch_visits_enforce_transition
+  before insert or update on public.branch_visits
+  for each row execute function public.enforce_report_transition();
@@ -0,0 +1,83 @@
+-- Append-only audit trail of every change to a branch visit.
+-- Rows are written by trigger only; visit_id has no foreign key so the trail
+-- outlives a deleted visit.
+create table if not exists public.branch_visit_history (
+  id bigint generated always as identity primary key,
+  visit_id uuid not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  changed_by uuid references public.profiles (id),
+  changed_at timestamptz not null default now(),
+  old_status text,
+  new_status text,
+  -- { "<column>": { "old": <value>, "new": <value> } } for every column that changed
+  changes jsonb not null default '{}'::jsonb
+);
+
+create index if not exists branch_visit_history_visit_id_idx
+  on public.branch_visit_history (visit_id, changed_at);
+
+create or replace function public.record_branch_visit_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  new_row jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  diff jsonb := '{}'::jsonb;
+  col text;
+begin
+  for col in
+    select key from jsonb_object_keys(old_row || new_row) as key
+  loop
+    -- updated_at changes on every write and says nothing on its own
+    continue when col in ('updated_at', 'created_at');
+    if (old_row -> col) is distinct from (new_row -> col) then
+      diff := diff || jsonb_build_object(col, jsonb_build_object('old', old_row -> col, 'new', new_row -> col));
+    end if;
+  end loop;
+
+  if tg_op = 'UPDATE' and diff = '{}'::jsonb then
+    return null;
+  end if;
+
+  insert into public.branch_visit_history (visit_id, action, changed_by, old_status, new_status, changes)
+  values (
+    coalesce(new.id, old.id),
+    lower(tg_op),
+    auth.uid(),
+    case when tg_op = 'INSERT' then null else old.status end,
+    case when tg_op = 'DELETE' then null else new.status end,
+    diff
+  );
+
+  -- Return value of an AFTER trigger is ignored
+  return null;
+end;
+$$;
+
+drop trigger if exists branch_visits_record_change on public.branch_visits;
+
+create trigger branch_visits_record_change
+  after insert or update or delete on public.branch_visits
+  for each row execute function public.record_branch_visit_change();
+
+create or replace function public.prevent_history_mutation()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'branch_visit_history is append-only'
+    using errcode = 'insufficient_privilege';
+end;
+$$;
+
+drop trigger if exists branch_visit_history_append_only on public.branch_visit_history;
+
+create trigger branch_visit_history_append_only
+  before update or delete on public.branch_visit_history
+  for each row execute function public.prevent_history_mutation();
+
+-- Truncate bypasses row triggers
+revoke truncate, update, delete on public.branch_visit_history from anon, authenticated;
@@ -0,0 +1,13 @@
+-- Autosaved, not-yet-valid visit form state. One row per user and form
+-- ('new-visit' for the new visit form, 'visit:<id>' when editing a visit), so a
+-- half-filled form survives a refresh or a switch of device. These rows never
+-- count as reports; branch_visits only changes when the user saves or submits.
+create table if not exists public.visit_form_drafts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  form_key text not null,
+  visit_id uuid references public.branch_visits (id) on delete cascade,
+  form_values jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now(),
+  constraint visit_form_drafts_user_form_key unique (user_id, form_key)
+);
@@ -0,0 +1,125 @@
+-- Ready-made roll-ups for the CH/ZH dashboards, so the browser no longer pulls
+-- every branch_visits row to aggregate it. "Reported" visits are the ones in
+-- REPORTED_STATUSES (src/lib/reportWorkflow.ts): submitted, resubmitted, approved.
+-- Averages ignore visits that left the field empty.
+
+create index if not exists branch_visits_status_visit_date_idx
+  on public.branch_visits (status, visit_date);
+
+-- Headline numbers for a date range (the whole history when both bounds are
+-- null). With zone set, only that zone's branches, BHs and their visits count.
+create or replace function public.visit_summary(
+  from_date date default null,
+  to_date date default null,
+  zone uuid default null
+) returns table (
+  total_branches bigint,
+  total_bhs bigint,
+  visit_count bigint,
+  visited_branches bigint,
+  active_bhs bigint,
+  approved_bhs bigint,
+  awaiting_review bigint,
+  avg_manning numeric,
+  avg_attrition numeric,
+  avg_er numeric,
+  avg_non_vendor numeric,
+  total_cwt_cases bigint,
+  total_invited bigint,
+  total_participants bigint,
+  new_employees_total bigint,
+  new_employees_covered bigint
+)
+language sql
+stable
+as $$
+  with reported as (
+    select v.*
+    from public.branch_visits v
+    join public.profiles p on p.id = v.user_id
+    where v.status in ('submitted', 'resubmitted', 'approved')
+      and (from_date is null or v.visit_date >= from_date)
+      and (to_date is null or v.visit_date <= to_date)
+      and (zone is null or p.zone_id = zone)
+  )
+  select
+    (select count(*) from public.branches where zone is null or zone_id = zone),
+    (select count(*) from public.profiles where role = 'BH' and (zone is null or zone_id = zone)),
+    count(*),
+    count(distinct branch_id),
+    count(distinct user_id),
+    count(distinct user_id) filter (where status = 'approved'),
+    count(*) filter (where status in ('submitted', 'resubmitted')),
+    avg(manning_percentage),
+    avg(attrition_percentage),
+    avg(er_percentage),
+    avg(non_vendor_percentage),
+    coalesce(sum(cwt_cases), 0)::bigint,
+    coalesce(sum(total_employees_invited), 0)::bigint,
+    coalesce(sum(total_participants), 0)::bigint,
+    coalesce(sum(new_employees_total), 0)::bigint,
+    coalesce(sum(new_employees_covered), 0)::bigint
+  from reported;
+$$;
+
+-- HR parameter averages per branch category for a date range
+create or replace function public.visit_metrics_by_category(
+  from_date date default null,
+  to_date date default null
+) returns table (
+  category text,
+  visit_count bigint,
+  avg_manning numeric,
+  avg_attrition numeric,
+  avg_er numeric,
+  avg_non_vendor numeric,
+  avg_cwt_cases numeric
+)
+language sql
+stable
+as $$
+  select
+    coalesce(b.category::text, 'unknown'),
+    count(*),
+    avg(v.manning_percentage),
+    avg(v.attrition_percentage),
+    avg(v.er_percentage),
+    avg(v.non_vendor_percentage),
+    avg(v.cwt_cases)
+  from public.branch_visits v
+  left join public.branches b on b.id = v.branch_id
+  where v.status in ('submitted', 'resubmitted', 'approved')
+    and (from_date is null or v.visit_date >= from_date)
+    and (to_date is null or v.visit_date <= to_date)
+  group by 1
+  order by 1;
+$$;
+
+-- Report counts per BH in one pass (every BH, including those without visits)
+create or replace function public.bh_report_counts()
+returns table (
+  bh_id uuid,
+  full_name text,
+  e_code text,
+  total_visits bigint,
+  submitted_reports bigint,
+  approved_reports bigint,
+  rejected_reports bigint
+)
+language sql
+stable
+as $$
+  select
+    p.id,
+    p.full_name,
+    p.e_code,
+    count(v.id),
+    count(v.id) filter (where v.status in ('submitted', 'resubmitted')),
+    count(v.id) filter (where v.status = 'approved'),
+    count(v.id) filter (where v.status = 'rejected')
+  from public.profiles p
+  left join public.branch_visits v on v.user_id = p.id
+  where p.role = 'BH'
+  group by p.id, p.full_name, p.e_code
+  order by p.full_name;
+$$;
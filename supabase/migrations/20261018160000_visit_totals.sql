@@ -0,0 +1,86 @@
+-- One aggregate for every dashboard. Returns raw sums and counts only; the
+-- ratios (coverage, participation, averages) are defined once in
+-- src/lib/metrics.ts and computed from these totals.
+-- Replaces visit_summary and visit_metrics_by_category, which each baked in
+-- their own averages.
+
+drop function if exists public.visit_summary(date, date, uuid);
+drop function if exists public.visit_metrics_by_category(date, date);
+
+-- Totals for reported visits (submitted, resubmitted, approved) matching every
+-- filter that is set. Branch and BH counts honour the same filters, so coverage
+-- is relative to the same slice of branches (a BH's own assigned branches when
+-- bh is set).
+create or replace function public.visit_totals(
+  from_date date default null,
+  to_date date default null,
+  zone uuid default null,
+  branch_category text default null,
+  bh uuid default null
+) returns table (
+  total_branches bigint,
+  total_bhs bigint,
+  visit_count bigint,
+  visited_branches bigint,
+  active_bhs bigint,
+  awaiting_review bigint,
+  invited bigint,
+  participants bigint,
+  new_employees_total bigint,
+  new_employees_covered bigint,
+  manning_sum numeric,
+  manning_count bigint,
+  attrition_sum numeric,
+  attrition_count bigint,
+  er_sum numeric,
+  er_count bigint,
+  non_vendor_sum numeric,
+  non_vendor_count bigint,
+  cwt_cases bigint
+)
+language sql
+stable
+as $$
+  with reported as (
+    select v.*
+    from public.branch_visits v
+    join public.branches b on b.id = v.branch_id
+    join public.profiles p on p.id = v.user_id
+    where v.status in ('submitted', 'resubmitted', 'approved')
+      and (from_date is null or v.visit_date >= from_date)
+      and (to_date is null or v.visit_date <= to_date)
+      and (zone is null or p.zone_id = zone)
+      and (branch_category is null or b.category::text = branch_category)
+      and (bh is null or v.user_id = bh)
+  )
+  select
+    (select count(*) from public.branches b
+      where (zone is null or b.zone_id = zone)
+        and (branch_category is null or b.category::text = branch_category)
+        and (bh is null or exists (
+          select 1 from public.branch_assignments a
+          where a.branch_id = b.id and a.user_id = bh
+        ))),
+    (select count(*) from public.profiles p
+      where p.role = 'BH'
+        and (zone is null or p.zone_id = zone)
+        and (bh is null or p.id = bh)),
+    count(*),
+    count(distinct branch_id),
+    count(distinct user_id),
+    count(*) filter (where status in ('submitted', 'resubmitted')),
+    coalesce(sum(total_employees_invited), 0)::bigint,
+    coalesce(sum(total_participants), 0)::bigint,
+    coalesce(sum(new_employees_total), 0)::bigint,
+    coalesce(sum(new_employees_covered), 0)::bigint,
+    coalesce(sum(manning_percentage), 0),
+    count(manning_percentage),
+    coalesce(sum(attrition_percentage), 0),
+    count(attrition_percentage),
+    coalesce(sum(er_percentage), 0),
+    count(er_percentage),
+    coalesce(sum(non_vendor_percentage), 0),
+    count(non_vendor_percentage),
+    coalesce(sum(cwt_cases), 0)::bigint
+  from reported;
+$$;
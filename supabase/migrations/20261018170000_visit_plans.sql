@@ -0,0 +1,19 @@
+-- Visits a BH has scheduled ahead of time. A plan is 'planned' until the BH
+-- files the visit from it ('completed', linked through visit_id) or drops it
+-- ('cancelled'). Plans are not reports and never count in the metrics.
+create table if not exists public.visit_plans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  branch_id uuid not null references public.branches (id) on delete cascade,
+  planned_date date not null,
+  notes text,
+  status text not null default 'planned'
+    check (status in ('planned', 'completed', 'cancelled')),
+  visit_id uuid references public.branch_visits (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint visit_plans_user_branch_date unique (user_id, branch_id, planned_date)
+);
+
+create index if not exists visit_plans_user_date_idx
+  on public.visit_plans (user_id, planned_date);
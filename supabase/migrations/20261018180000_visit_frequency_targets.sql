@@ -0,0 +1,54 @@
+-- How often a branch of each category must be visited. Admins change the
+-- intervals from the admin console; the due dates are worked out in
+-- src/lib/visitFrequency.ts from these and branch_last_visits below.
+create table if not exists public.visit_frequency_targets (
+  category text primary key
+    check (category in ('platinum', 'diamond', 'gold', 'silver', 'bronze')),
+  interval_days integer not null check (interval_days > 0),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.visit_frequency_targets (category, interval_days) values
+  ('platinum', 30),
+  ('diamond', 30),
+  ('gold', 60),
+  ('silver', 60),
+  ('bronze', 90)
+on conflict (category) do nothing;
+
+-- Latest reported visit (by any BH) of every branch in scope. With zone set,
+-- that zone's branches; with bh set, the branches assigned to that BH.
+create or replace function public.branch_last_visits(
+  zone uuid default null,
+  bh uuid default null
+) returns table (
+  branch_id uuid,
+  name text,
+  location text,
+  branch_code text,
+  category text,
+  zone_id uuid,
+  last_visit_date date
+)
+language sql
+stable
+as $$
+  select
+    b.id,
+    b.name,
+    b.location,
+    b.branch_code,
+    b.category::text,
+    b.zone_id,
+    max(v.visit_date)
+  from public.branches b
+  left join public.branch_visits v
+    on v.branch_id = b.id
+    and v.status in ('submitted', 'resubmitted', 'approved')
+  where (zone is null or b.zone_id = zone)
+    and (bh is null or exists (
+      select 1 from public.branch_assignments a
+      where a.branch_id = b.id and a.user_id = bh
+    ))
+  group by b.id, b.name, b.location, b.branch_code, b.category, b.zone_id;
+$$;
@@ -0,0 +1,33 @@
+-- Moves branches from one BH to another in a single statement, so a
+-- transfer can never leave a branch with neither BH.
+--
+-- With from_user set, only the branches that BH holds are moved. With
+-- from_user null, every other BH holding the branches is replaced (the CSV
+-- import's "move conflicting branches"). Returns the number of branches
+-- newly assigned to to_user.
+create or replace function public.transfer_branch_assignments(
+  branch_ids uuid[],
+  to_user uuid,
+  from_user uuid default null
+) returns integer
+language sql
+as $$
+  with moved as (
+    delete from public.branch_assignments a
+    where a.branch_id = any(branch_ids)
+      and a.user_id <> to_user
+      and (from_user is null or a.user_id = from_user)
+    returning a.branch_id
+  ),
+  added as (
+    insert into public.branch_assignments (user_id, branch_id)
+    select distinct to_user, m.branch_id
+    from moved m
+    where not exists (
+      select 1 from public.branch_assignments a
+      where a.branch_id = m.branch_id and a.user_id = to_user
+    )
+    returning branch_id
+  )
+  select count(*)::integer from added;
+$$;
@@ -0,0 +1,244 @@
+-- Branch assignments become time-bounded records. Unassigning a branch now
+-- closes the row (unassigned_at) instead of deleting it, so the mapping that
+-- was in effect during any past period can be reconstructed and coverage for
+-- that period is measured against it rather than against today's mapping.
+--
+-- An assignment is active while unassigned_at is null. It was in effect
+-- during a period if it started on or before the period's last day and had
+-- not ended before the period's first day.
+
+alter table public.branch_assignments
+  add column if not exists unassigned_at timestamptz,
+  add column if not exists assigned_by uuid default auth.uid() references public.profiles (id) on delete set null,
+  add column if not exists unassigned_by uuid references public.profiles (id) on delete set null;
+
+alter table public.branch_assignments
+  drop constraint if exists branch_assignments_period_check;
+
+alter table public.branch_assignments
+  add constraint branch_assignments_period_check
+  check (unassigned_at is null or unassigned_at >= assigned_at);
+
+-- A BH may hold the same branch several times over the years, but only one
+-- active assignment at a time: replace the old (user_id, branch_id) unique
+-- constraint with a partial index.
+do $$
+declare
+  constraint_name text;
+begin
+  for constraint_name in
+    select c.conname
+    from pg_constraint c
+    where c.conrelid = 'public.branch_assignments'::regclass
+      and c.contype = 'u'
+  loop
+    execute format('alter table public.branch_assignments drop constraint %I', constraint_name);
+  end loop;
+end $$;
+
+create unique index if not exists branch_assignments_active_key
+  on public.branch_assignments (user_id, branch_id)
+  where unassigned_at is null;
+
+create index if not exists branch_assignments_branch_period_idx
+  on public.branch_assignments (branch_id, assigned_at, unassigned_at);
+
+create or replace function public.stamp_branch_unassignment()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.unassigned_at is not null and new.unassigned_at is distinct from old.unassigned_at then
+    raise exception 'Assignment % has already ended', old.id
+      using errcode = 'check_violation';
+  end if;
+
+  if new.unassigned_at is not null and new.unassigned_by is null then
+    new.unassigned_by := auth.uid();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists branch_assignments_stamp_unassignment on public.branch_assignments;
+
+create trigger branch_assignments_stamp_unassignment
+  before update on public.branch_assignments
+  for each row execute function public.stamp_branch_unassignment();
+
+-- History is kept; ending an assignment is an update
+revoke truncate, delete on public.branch_assignments from anon, authenticated;
+
+create or replace function public.assignment_in_effect(
+  assigned_at timestamptz,
+  unassigned_at timestamptz,
+  from_date date,
+  to_date date
+) returns boolean
+language sql
+stable
+as $$
+  select (to_date is null or assigned_at::date <= to_date)
+    and (unassigned_at is null or from_date is null or unassigned_at::date >= from_date);
+$$;
+
+-- visit_totals gains assigned_branches (branches in scope with an assignment
+-- in effect during the period; to bh when set, to any BH otherwise) and
+-- covered_branches (those of them with a reported visit in the period).
+-- Coverage is covered_branches / assigned_branches. With bh set,
+-- total_branches is the BH's mapping for the period too.
+drop function if exists public.visit_totals(date, date, uuid, text, uuid);
+
+create or replace function public.visit_totals(
+  from_date date default null,
+  to_date date default null,
+  zone uuid default null,
+  branch_category text default null,
+  bh uuid default null
+) returns table (
+  total_branches bigint,
+  total_bhs bigint,
+  assigned_branches bigint,
+  covered_branches bigint,
+  visit_count bigint,
+  visited_branches bigint,
+  active_bhs bigint,
+  awaiting_review bigint,
+  invited bigint,
+  participants bigint,
+  new_employees_total bigint,
+  new_employees_covered bigint,
+  manning_sum numeric,
+  manning_count bigint,
+  attrition_sum numeric,
+  attrition_count bigint,
+  er_sum numeric,
+  er_count bigint,
+  non_vendor_sum numeric,
+  non_vendor_count bigint,
+  cwt_cases bigint
+)
+language sql
+stable
+as $$
+  with mapped as (
+    select distinct a.branch_id
+    from public.branch_assignments a
+    join public.branches b on b.id = a.branch_id
+    where public.assignment_in_effect(a.assigned_at, a.unassigned_at, from_date, to_date)
+      and (zone is null or b.zone_id = zone)
+      and (branch_category is null or b.category::text = branch_category)
+      and (bh is null or a.user_id = bh)
+  ),
+  reported as (
+    select v.*
+    from public.branch_visits v
+    join public.branches b on b.id = v.branch_id
+    join public.profiles p on p.id = v.user_id
+    where v.status in ('submitted', 'resubmitted', 'approved')
+      and (from_date is null or v.visit_date >= from_date)
+      and (to_date is null or v.visit_date <= to_date)
+      and (zone is null or p.zone_id = zone)
+      and (branch_category is null or b.category::text = branch_category)
+      and (bh is null or v.user_id = bh)
+  )
+  select
+    case
+      when bh is null then
+        (select count(*) from public.branches b
+          where (zone is null or b.zone_id = zone)
+            and (branch_category is null or b.category::text = branch_category))
+      else (select count(*) from mapped)
+    end,
+    (select count(*) from public.profiles p
+      where p.role = 'BH'
+        and (zone is null or p.zone_id = zone)
+        and (bh is null or p.id = bh)),
+    (select count(*) from mapped),
+    (select count(distinct r.branch_id) from reported r join mapped m on m.branch_id = r.branch_id),
+    count(*),
+    count(distinct branch_id),
+    count(distinct user_id),
+    count(*) filter (where status in ('submitted', 'resubmitted')),
+    coalesce(sum(total_employees_invited), 0)::bigint,
+    coalesce(sum(total_participants), 0)::bigint,
+    coalesce(sum(new_employees_total), 0)::bigint,
+    coalesce(sum(new_employees_covered), 0)::bigint,
+    coalesce(sum(manning_percentage), 0),
+    count(manning_percentage),
+    coalesce(sum(attrition_percentage), 0),
+    count(attrition_percentage),
+    coalesce(sum(er_percentage), 0),
+    count(er_percentage),
+    coalesce(sum(non_vendor_percentage), 0),
+    count(non_vendor_percentage),
+    coalesce(sum(cwt_cases), 0)::bigint
+  from reported;
+$$;
+
+-- Due dates follow a BH's current branches only
+create or replace function public.branch_last_visits(
+  zone uuid default null,
+  bh uuid default null
+) returns table (
+  branch_id uuid,
+  name text,
+  location text,
+  branch_code text,
+  category text,
+  zone_id uuid,
+  last_visit_date date
+)
+language sql
+stable
+as $$
+  select
+    b.id,
+    b.name,
+    b.location,
+    b.branch_code,
+    b.category::text,
+    b.zone_id,
+    max(v.visit_date)
+  from public.branches b
+  left join public.branch_visits v
+    on v.branch_id = b.id
+    and v.status in ('submitted', 'resubmitted', 'approved')
+  where (zone is null or b.zone_id = zone)
+    and (bh is null or exists (
+      select 1 from public.branch_assignments a
+      where a.branch_id = b.id and a.user_id = bh and a.unassigned_at is null
+    ))
+  group by b.id, b.name, b.location, b.branch_code, b.category, b.zone_id;
+$$;
+
+-- Transfers end the old assignments instead of deleting them
+create or replace function public.transfer_branch_assignments(
+  branch_ids uuid[],
+  to_user uuid,
+  from_user uuid default null
+) returns integer
+language sql
+as $$
+  with moved as (
+    update public.branch_assignments a
+    set unassigned_at = now()
+    where a.branch_id = any(branch_ids)
+      and a.unassigned_at is null
+      and a.user_id <> to_user
+      and (from_user is null or a.user_id = from_user)
+    returning a.branch_id
+  ),
+  added as (
+    insert into public.branch_assignments (user_id, branch_id)
+    select distinct to_user, m.branch_id
+    from moved m
+    where not exists (
+      select 1 from public.branch_assignments a
+      where a.branch_id = m.branch_id and a.user_id = to_user and a.unassigned_at is null
+    )
+    returning branch_id
+  )
+  select count(*)::integer from added;
+$$;
@@ -0,0 +1,43 @@
+-- Threshold rules that flag risky visit reports. Each enabled rule compares
+-- one visit field with a threshold; a visit that matches raises a red or
+-- amber flag and adds the rule's weight to its risk score. Rules are
+-- evaluated in the app (src/lib/riskRules.ts), so the fields and operators
+-- allowed here must match the ones it knows.
+create table if not exists public.risk_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  field text not null check (field in (
+    'manning_percentage',
+    'attrition_percentage',
+    'er_percentage',
+    'non_vendor_percentage',
+    'cwt_cases',
+    'leaders_aligned_with_code',
+    'employees_feel_safe',
+    'employees_feel_motivated',
+    'leaders_abusive_language',
+    'employees_comfort_escalation',
+    'inclusive_culture'
+  )),
+  operator text not null check (operator in ('gt', 'gte', 'lt', 'lte', 'eq')),
+  -- A number for the percentage and count fields, 'yes' or 'no' otherwise
+  threshold text not null,
+  severity text not null check (severity in ('red', 'amber')),
+  weight integer not null default 1 check (weight > 0),
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.risk_rules (name, field, operator, threshold, severity, weight)
+select * from (values
+  ('Very high attrition', 'attrition_percentage', 'gte', '40', 'red', 3),
+  ('High attrition', 'attrition_percentage', 'gte', '25', 'amber', 1),
+  ('Abusive language by leaders', 'leaders_abusive_language', 'eq', 'yes', 'red', 3),
+  ('Employees do not feel safe', 'employees_feel_safe', 'eq', 'no', 'red', 3),
+  ('Employees not comfortable escalating', 'employees_comfort_escalation', 'eq', 'no', 'amber', 1),
+  ('Culture not inclusive', 'inclusive_culture', 'eq', 'no', 'amber', 1),
+  ('Low manning', 'manning_percentage', 'lt', '80', 'amber', 1),
+  ('Several CWT cases', 'cwt_cases', 'gte', '3', 'amber', 1)
+) as seed (name, field, operator, threshold, severity, weight)
+where not exists (select 1 from public.risk_rules);
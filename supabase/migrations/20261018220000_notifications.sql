@@ -0,0 +1,248 @@
+-- In-app notifications. Rows are written by the triggers and functions below,
+-- never by the app directly; the app only lists them and marks them read.
+--
+--   report_submitted / report_resubmitted  -> the ZHs of the branch's zone
+--   report_approved / report_rejected / report_needs_revision -> the visit's BH
+--   branch_assigned / branch_unassigned    -> the BH concerned
+--   visit_overdue                          -> BHs holding an overdue branch
+--
+-- Nobody is notified of their own action.
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  kind text not null check (kind in (
+    'report_submitted',
+    'report_resubmitted',
+    'report_approved',
+    'report_rejected',
+    'report_needs_revision',
+    'branch_assigned',
+    'branch_unassigned',
+    'visit_overdue'
+  )),
+  title text not null,
+  body text,
+  -- In-app path the notification opens
+  link text,
+  visit_id uuid references public.branch_visits (id) on delete cascade,
+  branch_id uuid references public.branches (id) on delete cascade,
+  actor_id uuid references public.profiles (id) on delete set null,
+  -- Set for notifications that must be sent at most once per user
+  dedupe_key text,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_created_idx
+  on public.notifications (user_id, created_at desc);
+
+create index if not exists notifications_user_unread_idx
+  on public.notifications (user_id)
+  where read_at is null;
+
+create unique index if not exists notifications_user_dedupe_key
+  on public.notifications (user_id, dedupe_key)
+  where dedupe_key is not null;
+
+-- Submissions go to the reviewers of the branch's zone
+create or replace function public.notify_report_submitted()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  branch_name text;
+  branch_zone uuid;
+  bh_name text;
+begin
+  if new.status not in ('submitted', 'resubmitted') then
+    return null;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    if old.status is not distinct from new.status then
+      return null;
+    end if;
+  end if;
+
+  select b.name, b.zone_id into branch_name, branch_zone
+  from public.branches b where b.id = new.branch_id;
+
+  select p.full_name into bh_name from public.profiles p where p.id = new.user_id;
+
+  insert into public.notifications (user_id, kind, title, body, link, visit_id, branch_id, actor_id)
+  select
+    zh.id,
+    'report_' || new.status,
+    case new.status
+      when 'submitted' then 'New report to review'
+      else 'Revised report to review'
+    end,
+    format('%s %s the %s visit report for %s.',
+      coalesce(bh_name, 'A BH'),
+      new.status,
+      to_char(new.visit_date, 'DD Mon YYYY'),
+      coalesce(branch_name, 'a branch')),
+    '/zh/review-reports',
+    new.id,
+    new.branch_id,
+    auth.uid()
+  from public.profiles zh
+  where zh.role = 'ZH'
+    and zh.zone_id = branch_zone
+    and zh.id is distinct from auth.uid();
+
+  return null;
+end;
+$$;
+
+drop trigger if exists branch_visits_notify_submitted on public.branch_visits;
+
+create trigger branch_visits_notify_submitted
+  after insert or update of status on public.branch_visits
+  for each row execute function public.notify_report_submitted();
+
+-- Review decisions go to the BH, with the reviewer's comment
+create or replace function public.notify_report_reviewed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  visit public.branch_visits%rowtype;
+  branch_name text;
+begin
+  select * into visit from public.branch_visits v where v.id = new.visit_id;
+  if not found or visit.user_id is not distinct from new.reviewer_id then
+    return null;
+  end if;
+
+  select b.name into branch_name from public.branches b where b.id = visit.branch_id;
+
+  insert into public.notifications (user_id, kind, title, body, link, visit_id, branch_id, actor_id)
+  values (
+    visit.user_id,
+    'report_' || new.decision,
+    case new.decision
+      when 'approved' then 'Report approved'
+      when 'rejected' then 'Report rejected'
+      else 'Report sent back for revision'
+    end,
+    format('Your %s visit report for %s was %s.',
+      to_char(visit.visit_date, 'DD Mon YYYY'),
+      coalesce(branch_name, 'a branch'),
+      case new.decision when 'needs_revision' then 'sent back for revision' else new.decision end)
+      || coalesce(' "' || new.comment || '"', ''),
+    '/bh/my-visits',
+    visit.id,
+    visit.branch_id,
+    new.reviewer_id
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists visit_reviews_notify_reviewed on public.visit_reviews;
+
+create trigger visit_reviews_notify_reviewed
+  after insert on public.visit_reviews
+  for each row execute function public.notify_report_reviewed();
+
+-- Assignments and unassignments (including transfers) go to the BH
+create or replace function public.notify_assignment_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  branch_name text;
+  assigned boolean := tg_op = 'INSERT';
+begin
+  -- Only the update that ends an assignment counts
+  if not assigned then
+    if old.unassigned_at is not null or new.unassigned_at is null then
+      return null;
+    end if;
+  end if;
+
+  if new.user_id is not distinct from auth.uid() then
+    return null;
+  end if;
+
+  select b.name into branch_name from public.branches b where b.id = new.branch_id;
+
+  insert into public.notifications (user_id, kind, title, body, link, branch_id, actor_id)
+  values (
+    new.user_id,
+    case when assigned then 'branch_assigned' else 'branch_unassigned' end,
+    case when assigned then 'Branch assigned to you' else 'Branch unassigned' end,
+    case
+      when assigned then format('%s has been added to your branches.', coalesce(branch_name, 'A branch'))
+      else format('%s is no longer one of your branches.', coalesce(branch_name, 'A branch'))
+    end,
+    '/branches/' || new.branch_id,
+    new.branch_id,
+    auth.uid()
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists branch_assignments_notify_change on public.branch_assignments;
+
+create trigger branch_assignments_notify_change
+  after insert or update of unassigned_at on public.branch_assignments
+  for each row execute function public.notify_assignment_change();
+
+-- Tells BHs about their branches that are past the visit frequency target
+-- (see src/lib/visitFrequency.ts). Each branch is announced once per missed
+-- due date. Called for the signed-in BH when they open the app, and for every
+-- BH when run without a user (scheduled job). Returns the number of new
+-- notifications.
+create or replace function public.notify_overdue_visits()
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with due as (
+    select
+      a.user_id,
+      b.id as branch_id,
+      b.name,
+      max(v.visit_date) + t.interval_days as due_date
+    from public.branch_assignments a
+    join public.branches b on b.id = a.branch_id
+    join public.visit_frequency_targets t on t.category = b.category::text
+    left join public.branch_visits v
+      on v.branch_id = b.id
+      and v.status in ('submitted', 'resubmitted', 'approved')
+    where a.unassigned_at is null
+      and (auth.uid() is null or a.user_id = auth.uid())
+    group by a.user_id, b.id, b.name, t.interval_days
+  ),
+  added as (
+    insert into public.notifications (user_id, kind, title, body, link, branch_id, dedupe_key)
+    select
+      d.user_id,
+      'visit_overdue',
+      'Branch visit overdue',
+      case
+        when d.due_date is null then format('%s has never been visited.', d.name)
+        else format('%s was due for a visit on %s.', d.name, to_char(d.due_date, 'DD Mon YYYY'))
+      end,
+      '/branches/' || d.branch_id,
+      d.branch_id,
+      'visit_overdue:' || d.branch_id || ':' || coalesce(d.due_date::text, 'never')
+    from due d
+    where d.due_date is null or d.due_date < current_date
+    on conflict (user_id, dedupe_key) where dedupe_key is not null do nothing
+    returning 1
+  )
+  select count(*)::integer from added;
+$$;
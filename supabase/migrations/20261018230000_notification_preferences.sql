@@ -0,0 +1,50 @@
+-- Email digests are opt-in. ZHs can ask for a daily email of the reports
+-- awaiting their review, BHs for a weekly reminder of their overdue branches.
+-- The digest job (scripts/send-digests.ts) reads the opted-in users through
+-- digest_recipients() and stamps last_*_at after each email it sends.
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  review_digest boolean not null default false,
+  overdue_reminder boolean not null default false,
+  last_review_digest_at timestamptz,
+  last_overdue_reminder_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+-- Email addresses live in auth.users, so only the service role may call this
+create or replace function public.digest_recipients()
+returns table (
+  user_id uuid,
+  email text,
+  full_name text,
+  role text,
+  zone_id uuid,
+  review_digest boolean,
+  overdue_reminder boolean,
+  last_review_digest_at timestamptz,
+  last_overdue_reminder_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.id,
+    u.email::text,
+    p.full_name,
+    p.role::text,
+    p.zone_id,
+    np.review_digest,
+    np.overdue_reminder,
+    np.last_review_digest_at,
+    np.last_overdue_reminder_at
+  from public.notification_preferences np
+  join public.profiles p on p.id = np.user_id
+  join auth.users u on u.id = p.id
+  where p.is_active
+    and u.email is not null
+    and ((p.role = 'ZH' and np.review_digest) or (p.role = 'BH' and np.overdue_reminder));
+$$;
+
+revoke execute on function public.digest_recipients() from public, anon, authenticated;
@@ -0,0 +1,65 @@
+-- Scheduled report exports. A user saves an export definition (the report,
+-- the CHReports filters and a file format) with a schedule; the export job
+-- (scripts/run-exports.ts) generates every definition whose next_run_at has
+-- passed, uploads the file to the private "exports" bucket and records it in
+-- export_files, the user's "My Exports" archive.
+create table if not exists public.export_definitions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null,
+  report text not null check (report in ('branch_visits', 'bh_performance', 'branch_assignments')),
+  -- Filters; null means all
+  location text,
+  category text check (category in ('platinum', 'diamond', 'gold', 'silver', 'bronze')),
+  bh_id uuid references public.profiles (id) on delete set null,
+  format text not null default 'csv' check (format in ('csv', 'xlsx')),
+  schedule text not null check (schedule in ('daily', 'weekly', 'monthly')),
+  -- Which month a run exports, relative to the day it runs
+  period text not null default 'previous_month' check (period in ('current_month', 'previous_month')),
+  active boolean not null default true,
+  next_run_at timestamptz not null,
+  last_run_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists export_definitions_due_idx
+  on public.export_definitions (next_run_at)
+  where active;
+
+create table if not exists public.export_files (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  -- Kept when the definition is deleted, so the archive outlives it
+  definition_id uuid references public.export_definitions (id) on delete set null,
+  file_name text not null,
+  report text not null,
+  format text not null,
+  period_start date not null,
+  period_end date not null,
+  row_count integer not null default 0,
+  size_bytes integer not null default 0,
+  -- Object path in the exports bucket: <user_id>/<file id>/<file_name>
+  storage_path text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists export_files_user_idx
+  on public.export_files (user_id, created_at desc);
+
+insert into storage.buckets (id, name, public)
+values ('exports', 'exports', false)
+on conflict (id) do nothing;
+
+-- The job uploads with the service role; users may only read their own folder
+drop policy if exists "Users read their own exports" on storage.objects;
+create policy "Users read their own exports"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'exports' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users delete their own exports" on storage.objects;
+create policy "Users delete their own exports"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'exports' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,5 @@
+-- Best practices the BH noted at the branch. createBranchVisit has always
+-- written this column, but no migration created it, so inserts failed on
+-- databases built from this directory.
+alter table public.branch_visits
+  add column if not exists best_practices text;
@@ -0,0 +1,159 @@
+-- Row level security for visits, form drafts and profiles, following the
+-- role model the UI already applies:
+--   BH     reads and writes their own visits and drafts
+--   ZH     reads the visits to branches in their zone and may only change
+--          their status (the report workflow decides which changes)
+--   CH     reads every visit, writes nothing
+--   admin  reads every visit, reviews like a ZH, and is the only role that
+--          may change profiles
+-- A deactivated account has no role and so no access. The service role
+-- (jobs, seeding) bypasses all of this.
+
+-- The signed-in user's role and zone. Security definer so the policies can
+-- read profiles without going through the profiles policies.
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid() and is_active;
+$$;
+
+create or replace function public.current_user_zone_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select zone_id from public.profiles where id = auth.uid() and is_active;
+$$;
+
+-- Visits ----------------------------------------------------------------------
+
+alter table public.branch_visits enable row level security;
+
+drop policy if exists "BHs read their own visits" on public.branch_visits;
+create policy "BHs read their own visits"
+  on public.branch_visits for select
+  to authenticated
+  using (user_id = auth.uid() and public.current_user_role() = 'BH');
+
+drop policy if exists "ZHs read visits in their zone" on public.branch_visits;
+create policy "ZHs read visits in their zone"
+  on public.branch_visits for select
+  to authenticated
+  using (
+    public.current_user_role() = 'ZH'
+    and exists (
+      select 1 from public.branches b
+      where b.id = branch_id and b.zone_id = public.current_user_zone_id()
+    )
+  );
+
+drop policy if exists "CHs and admins read every visit" on public.branch_visits;
+create policy "CHs and admins read every visit"
+  on public.branch_visits for select
+  to authenticated
+  using (public.current_user_role() in ('CH', 'admin'));
+
+drop policy if exists "BHs add their own visits" on public.branch_visits;
+create policy "BHs add their own visits"
+  on public.branch_visits for insert
+  to authenticated
+  with check (user_id = auth.uid() and public.current_user_role() = 'BH');
+
+drop policy if exists "BHs edit their own visits" on public.branch_visits;
+create policy "BHs edit their own visits"
+  on public.branch_visits for update
+  to authenticated
+  using (user_id = auth.uid() and public.current_user_role() = 'BH')
+  with check (user_id = auth.uid());
+
+drop policy if exists "ZHs review visits in their zone" on public.branch_visits;
+create policy "ZHs review visits in their zone"
+  on public.branch_visits for update
+  to authenticated
+  using (
+    public.current_user_role() = 'ZH'
+    and exists (
+      select 1 from public.branches b
+      where b.id = branch_id and b.zone_id = public.current_user_zone_id()
+    )
+  );
+
+drop policy if exists "Admins review every visit" on public.branch_visits;
+create policy "Admins review every visit"
+  on public.branch_visits for update
+  to authenticated
+  using (public.current_user_role() = 'admin');
+
+-- Only reports that are still the BH's to work on, as on My Visits
+drop policy if exists "BHs delete their own open visits" on public.branch_visits;
+create policy "BHs delete their own open visits"
+  on public.branch_visits for delete
+  to authenticated
+  using (
+    user_id = auth.uid()
+    and public.current_user_role() = 'BH'
+    and status in ('draft', 'needs_revision')
+  );
+
+-- Policies pick rows, not columns: a reviewer may change a report's status
+-- (enforce_report_transition decides which) but none of what the BH reported
+create or replace function public.restrict_reviewer_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is null or old.user_id = auth.uid() then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - 'status' - 'updated_at') is distinct from (to_jsonb(old) - 'status' - 'updated_at') then
+    raise exception 'Only the status of another user''s report can be changed'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists branch_visits_restrict_reviewer_changes on public.branch_visits;
+
+create trigger branch_visits_restrict_reviewer_changes
+  before update on public.branch_visits
+  for each row execute function public.restrict_reviewer_changes();
+
+-- Form drafts -----------------------------------------------------------------
+
+alter table public.visit_form_drafts enable row level security;
+
+drop policy if exists "Users manage their own drafts" on public.visit_form_drafts;
+create policy "Users manage their own drafts"
+  on public.visit_form_drafts for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Profiles --------------------------------------------------------------------
+
+-- Names and E-Codes appear on every report, so any signed-in user may read
+-- them. Profiles are created by handle_new_user; after that only an admin
+-- changes them, role and is_active included.
+alter table public.profiles enable row level security;
+
+drop policy if exists "Signed-in users read profiles" on public.profiles;
+create policy "Signed-in users read profiles"
+  on public.profiles for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins update profiles" on public.profiles;
+create policy "Admins update profiles"
+  on public.profiles for update
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
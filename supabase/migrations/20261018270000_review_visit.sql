@@ -0,0 +1,31 @@
+-- A reviewer's decision in one transaction: the status change and the
+-- visit_reviews row with the reason either both happen or neither does.
+--
+-- from_status is the status the reviewer decided on. If another reviewer has
+-- acted since, the report is left as it is and the call fails, instead of the
+-- later decision silently overwriting the earlier one. enforce_report_transition
+-- still checks that the caller may make the change.
+create or replace function public.review_visit(
+  visit_id uuid,
+  from_status text,
+  decision text,
+  comment text default null
+) returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  update public.branch_visits v
+  set status = review_visit.decision, updated_at = now()
+  where v.id = review_visit.visit_id
+    and v.status = review_visit.from_status;
+
+  if not found then
+    raise exception 'This report has changed since it was opened. Reload it and try again.'
+      using errcode = 'serialization_failure';
+  end if;
+
+  insert into public.visit_reviews (visit_id, reviewer_id, decision, comment)
+  values (review_visit.visit_id, auth.uid(), review_visit.decision, nullif(trim(review_visit.comment), ''));
+end;
+$$;
@@ -0,0 +1,47 @@
+-- visit_totals per BH, for the top performers ranking and the monthly pack.
+-- Each row is exactly what visit_totals returns with bh set to that BH, so a
+-- BH's coverage is relative to the branches mapped to them during the period.
+-- Only BHs with a reported visit in scope are returned.
+create or replace function public.bh_visit_totals(
+  from_date date default null,
+  to_date date default null,
+  zone uuid default null,
+  branch_category text default null,
+  bh uuid default null
+) returns table (
+  user_id uuid,
+  full_name text,
+  e_code text,
+  total_branches bigint,
+  total_bhs bigint,
+  assigned_branches bigint,
+  covered_branches bigint,
+  visit_count bigint,
+  visited_branches bigint,
+  active_bhs bigint,
+  awaiting_review bigint,
+  invited bigint,
+  participants bigint,
+  new_employees_total bigint,
+  new_employees_covered bigint,
+  manning_sum numeric,
+  manning_count bigint,
+  attrition_sum numeric,
+  attrition_count bigint,
+  er_sum numeric,
+  er_count bigint,
+  non_vendor_sum numeric,
+  non_vendor_count bigint,
+  cwt_cases bigint
+)
+language sql
+stable
+as $$
+  select p.id, p.full_name, p.e_code, t.*
+  from public.profiles p
+  cross join lateral public.visit_totals(from_date, to_date, zone, branch_category, p.id) t
+  where p.role = 'BH'
+    and (zone is null or p.zone_id = zone)
+    and (bh is null or p.id = bh)
+    and t.visit_count > 0;
+$$;
@@ -0,0 +1,8 @@
+-- A cancelled plan should not stop the BH from planning the same branch on the
+-- same day again, so only plans that are still planned or completed have to
+-- be unique per BH, branch and date.
+alter table public.visit_plans drop constraint if exists visit_plans_user_branch_date;
+
+create unique index if not exists visit_plans_user_branch_date
+  on public.visit_plans (user_id, branch_id, planned_date)
+  where status <> 'cancelled';
@@ -0,0 +1,5 @@
+-- notify_overdue_visits runs as its owner and, without a signed-in user,
+-- notifies every BH. Only signed-in users (for themselves) and the scheduled
+-- job may call it.
+revoke execute on function public.notify_overdue_visits() from public, anon;
+grant execute on function public.notify_overdue_visits() to authenticated, service_role;
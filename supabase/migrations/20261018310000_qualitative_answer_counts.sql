@@ -0,0 +1,38 @@
+-- Yes/no counts per qualitative question over the reported visits of a
+-- period, for the monthly pack. Answers are compared trimmed and lowercased;
+-- a blank answer is not counted and any other answer only counts as answered.
+-- Questions nobody answered have no row.
+create or replace function public.qualitative_answer_counts(
+  from_date date default null,
+  to_date date default null
+) returns table (
+  field text,
+  yes bigint,
+  no bigint,
+  answered bigint
+)
+language sql
+stable
+as $$
+  select
+    q.field,
+    count(*) filter (where q.answer = 'yes'),
+    count(*) filter (where q.answer = 'no'),
+    count(*)
+  from public.branch_visits v
+  cross join lateral (
+    values
+      ('leaders_aligned_with_code', v.leaders_aligned_with_code),
+      ('employees_feel_safe', v.employees_feel_safe),
+      ('employees_feel_motivated', v.employees_feel_motivated),
+      ('leaders_abusive_language', v.leaders_abusive_language),
+      ('employees_comfort_escalation', v.employees_comfort_escalation),
+      ('inclusive_culture', v.inclusive_culture)
+  ) as raw (field, value)
+  cross join lateral (select raw.field, nullif(lower(trim(raw.value)), '') as answer) q
+  where v.status in ('submitted', 'resubmitted', 'approved')
+    and (from_date is null or v.visit_date >= from_date)
+    and (to_date is null or v.visit_date <= to_date)
+    and q.answer is not null
+  group by q.field;
+$$;
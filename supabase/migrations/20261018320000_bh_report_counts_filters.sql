@@ -0,0 +1,54 @@
+-- bh_report_counts with the CH report filters (period, branch location,
+-- branch category, BH), so the BH performance export is counted in the
+-- database instead of from every visit of the month. Drafts are not reports
+-- and no longer count; every BH still gets a row, with or without visits.
+-- The old signature is dropped rather than left as an overload.
+drop function if exists public.bh_report_counts();
+
+create or replace function public.bh_report_counts(
+  from_date date default null,
+  to_date date default null,
+  location text default null,
+  branch_category text default null,
+  bh uuid default null
+) returns table (
+  bh_id uuid,
+  full_name text,
+  e_code text,
+  total_visits bigint,
+  branches_visited bigint,
+  submitted_reports bigint,
+  approved_reports bigint,
+  needs_revision_reports bigint,
+  rejected_reports bigint
+)
+language sql
+stable
+as $$
+  select
+    p.id,
+    p.full_name,
+    p.e_code,
+    count(v.id),
+    count(distinct v.branch_id),
+    count(v.id) filter (where v.status in ('submitted', 'resubmitted')),
+    count(v.id) filter (where v.status = 'approved'),
+    count(v.id) filter (where v.status = 'needs_revision'),
+    count(v.id) filter (where v.status = 'rejected')
+  from public.profiles p
+  left join (
+    public.branch_visits v
+    join public.branches b on b.id = v.branch_id
+  )
+    on v.user_id = p.id
+    and v.status <> 'draft'
+    and (from_date is null or v.visit_date >= from_date)
+    and (to_date is null or v.visit_date <= to_date)
+    -- qualified: an unqualified location is the branches column
+    and (bh_report_counts.location is null or b.location = bh_report_counts.location)
+    and (branch_category is null or b.category::text = branch_category)
+  where p.role = 'BH'
+    and (bh is null or p.id = bh)
+  group by p.id, p.full_name, p.e_code
+  order by p.full_name;
+$$;
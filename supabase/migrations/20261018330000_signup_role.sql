@@ -0,0 +1,29 @@
+-- Sign-up metadata is written by the client, so it must not decide anyone's
+-- role. A new account is an active BH; one that asked to be a ZH is created
+-- as an inactive ZH until an admin activates it (inactive users have no role
+-- in the policies, see current_user_role). CH and admin accounts are only
+-- ever made by an admin.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pending_zh boolean := new.raw_user_meta_data ->> 'role' = 'ZH';
+begin
+  insert into public.profiles (id, full_name, e_code, role, is_active, location, gender)
+  values (
+    new.id,
+    new.raw_user_meta_data ->> 'full_name',
+    new.raw_user_meta_data ->> 'e_code',
+    case when pending_zh then 'ZH' else 'BH' end,
+    not pending_zh,
+    new.raw_user_meta_data ->> 'location',
+    new.raw_user_meta_data ->> 'gender'
+  )
+  on conflict (id) do nothing;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,244 @@
+-- Row level security for the tables 20261018260000 left open, with the same
+-- role model (current_user_role / current_user_zone_id; a deactivated account
+-- has no role). Rows written by triggers and security definer functions, and
+-- everything the jobs do with the service role, are not affected.
+
+-- Visit history and reviews ---------------------------------------------------
+
+-- A visit's trail and decisions are visible to whoever may read the visit;
+-- the subqueries go through the branch_visits policies. The trail outlives a
+-- deleted visit, and only CHs and admins still see it then.
+alter table public.branch_visit_history enable row level security;
+
+drop policy if exists "Users read the history of visits they can read" on public.branch_visit_history;
+create policy "Users read the history of visits they can read"
+  on public.branch_visit_history for select
+  to authenticated
+  using (exists (select 1 from public.branch_visits v where v.id = visit_id));
+
+drop policy if exists "CHs and admins read all history" on public.branch_visit_history;
+create policy "CHs and admins read all history"
+  on public.branch_visit_history for select
+  to authenticated
+  using (public.current_user_role() in ('CH', 'admin'));
+
+alter table public.visit_reviews enable row level security;
+
+drop policy if exists "Users read the reviews of visits they can read" on public.visit_reviews;
+create policy "Users read the reviews of visits they can read"
+  on public.visit_reviews for select
+  to authenticated
+  using (exists (select 1 from public.branch_visits v where v.id = visit_id));
+
+-- review_visit inserts as the reviewer, so this is who may decide
+drop policy if exists "Reviewers record their own decisions" on public.visit_reviews;
+create policy "Reviewers record their own decisions"
+  on public.visit_reviews for insert
+  to authenticated
+  with check (
+    reviewer_id = auth.uid()
+    and (
+      public.current_user_role() = 'admin'
+      or (
+        public.current_user_role() = 'ZH'
+        and exists (
+          select 1
+          from public.branch_visits v
+          join public.branches b on b.id = v.branch_id
+          where v.id = visit_id and b.zone_id = public.current_user_zone_id()
+        )
+      )
+    )
+  );
+
+-- Notifications -----------------------------------------------------------------
+
+-- Written by triggers and notify_overdue_visits; users read their own and may
+-- only mark them read.
+alter table public.notifications enable row level security;
+
+drop policy if exists "Users read their own notifications" on public.notifications;
+create policy "Users read their own notifications"
+  on public.notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users mark their own notifications read" on public.notifications;
+create policy "Users mark their own notifications read"
+  on public.notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+revoke update on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+alter table public.notification_preferences enable row level security;
+
+drop policy if exists "Users manage their own notification preferences" on public.notification_preferences;
+create policy "Users manage their own notification preferences"
+  on public.notification_preferences for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Branch assignments --------------------------------------------------------------
+
+-- Who holds a branch is shown on every branch page. A ZH assigns, unassigns
+-- and transfers the branches and BHs of their own zone; an admin any.
+-- Assignments are ended, never deleted, so nobody deletes them.
+alter table public.branch_assignments enable row level security;
+
+drop policy if exists "Signed-in users read assignments" on public.branch_assignments;
+create policy "Signed-in users read assignments"
+  on public.branch_assignments for select
+  to authenticated
+  using (public.current_user_role() is not null);
+
+drop policy if exists "ZHs assign in their zone" on public.branch_assignments;
+create policy "ZHs assign in their zone"
+  on public.branch_assignments for insert
+  to authenticated
+  with check (
+    public.current_user_role() = 'ZH'
+    and exists (
+      select 1 from public.branches b
+      where b.id = branch_id and b.zone_id = public.current_user_zone_id()
+    )
+    and exists (
+      select 1 from public.profiles p
+      where p.id = user_id and p.role = 'BH' and p.zone_id = public.current_user_zone_id()
+    )
+  );
+
+drop policy if exists "ZHs end assignments in their zone" on public.branch_assignments;
+create policy "ZHs end assignments in their zone"
+  on public.branch_assignments for update
+  to authenticated
+  using (
+    public.current_user_role() = 'ZH'
+    and exists (
+      select 1 from public.branches b
+      where b.id = branch_id and b.zone_id = public.current_user_zone_id()
+    )
+  )
+  with check (
+    public.current_user_role() = 'ZH'
+    and exists (
+      select 1 from public.branches b
+      where b.id = branch_id and b.zone_id = public.current_user_zone_id()
+    )
+  );
+
+drop policy if exists "Admins manage assignments" on public.branch_assignments;
+create policy "Admins manage assignments"
+  on public.branch_assignments for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- Visit plans -------------------------------------------------------------------
+
+alter table public.visit_plans enable row level security;
+
+drop policy if exists "BHs manage their own plans" on public.visit_plans;
+create policy "BHs manage their own plans"
+  on public.visit_plans for all
+  to authenticated
+  using (user_id = auth.uid() and public.current_user_role() = 'BH')
+  with check (user_id = auth.uid() and public.current_user_role() = 'BH');
+
+-- Reference data ------------------------------------------------------------------
+
+-- Zones, risk rules and visit frequency targets are read across the app and
+-- changed only from the admin console.
+alter table public.zones enable row level security;
+
+drop policy if exists "Signed-in users read zones" on public.zones;
+create policy "Signed-in users read zones"
+  on public.zones for select
+  to authenticated
+  using (public.current_user_role() is not null);
+
+drop policy if exists "Admins manage zones" on public.zones;
+create policy "Admins manage zones"
+  on public.zones for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+alter table public.risk_rules enable row level security;
+
+drop policy if exists "Signed-in users read risk rules" on public.risk_rules;
+create policy "Signed-in users read risk rules"
+  on public.risk_rules for select
+  to authenticated
+  using (public.current_user_role() is not null);
+
+drop policy if exists "Admins manage risk rules" on public.risk_rules;
+create policy "Admins manage risk rules"
+  on public.risk_rules for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+alter table public.visit_frequency_targets enable row level security;
+
+drop policy if exists "Signed-in users read visit targets" on public.visit_frequency_targets;
+create policy "Signed-in users read visit targets"
+  on public.visit_frequency_targets for select
+  to authenticated
+  using (public.current_user_role() is not null);
+
+drop policy if exists "Admins manage visit targets" on public.visit_frequency_targets;
+create policy "Admins manage visit targets"
+  on public.visit_frequency_targets for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
+
+-- Scheduled exports -----------------------------------------------------------------
+
+-- The export job runs with the service role and exports company-wide data, so
+-- only CHs and admins may schedule exports. Users see and remove their own
+-- definitions and files; only the job adds files.
+alter table public.export_definitions enable row level security;
+
+drop policy if exists "Users read their own export definitions" on public.export_definitions;
+create policy "Users read their own export definitions"
+  on public.export_definitions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "CHs and admins schedule exports" on public.export_definitions;
+create policy "CHs and admins schedule exports"
+  on public.export_definitions for insert
+  to authenticated
+  with check (user_id = auth.uid() and public.current_user_role() in ('CH', 'admin'));
+
+drop policy if exists "CHs and admins change their own exports" on public.export_definitions;
+create policy "CHs and admins change their own exports"
+  on public.export_definitions for update
+  to authenticated
+  using (user_id = auth.uid() and public.current_user_role() in ('CH', 'admin'))
+  with check (user_id = auth.uid() and public.current_user_role() in ('CH', 'admin'));
+
+drop policy if exists "Users delete their own export definitions" on public.export_definitions;
+create policy "Users delete their own export definitions"
+  on public.export_definitions for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+alter table public.export_files enable row level security;
+
+drop policy if exists "Users read their own export files" on public.export_files;
+create policy "Users read their own export files"
+  on public.export_files for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users delete their own export files" on public.export_files;
+create policy "Users delete their own export files"
+  on public.export_files for delete
+  to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,17 @@
+-- Row level security on branches. Every ZH policy scopes by branches.zone_id,
+-- so only an admin may add branches or change them, zone included; anyone
+-- signed in reads them.
+alter table public.branches enable row level security;
+
+drop policy if exists "Signed-in users read branches" on public.branches;
+create policy "Signed-in users read branches"
+  on public.branches for select
+  to authenticated
+  using (public.current_user_role() is not null);
+
+drop policy if exists "Admins manage branches" on public.branches;
+create policy "Admins manage branches"
+  on public.branches for all
+  to authenticated
+  using (public.current_user_role() = 'admin')
+  with check (public.current_user_role() = 'admin');
@@ -0,0 +1,6 @@
+-- An assignment is only ever ended, never edited: a ZH who could update
+-- user_id or branch_id would move a branch to another BH, or an assignment
+-- to another zone's branch, without a trace. Signed-in users (ZHs and
+-- admins, per the policies) may only set unassigned_at.
+revoke update on public.branch_assignments from anon, authenticated;
+grant update (unassigned_at) on public.branch_assignments to authenticated;
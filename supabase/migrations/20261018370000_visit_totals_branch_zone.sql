@@ -0,0 +1,90 @@
+-- visit_totals scoped the reported visits by the BH's zone but the branch
+-- counts by the branch's zone, so a zone's coverage could count visits to
+-- other zones' branches and miss visits to its own by BHs from elsewhere. A
+-- visit now belongs to the zone of its branch, as in the row level security
+-- policies and the ZH visit lists.
+create or replace function public.visit_totals(
+  from_date date default null,
+  to_date date default null,
+  zone uuid default null,
+  branch_category text default null,
+  bh uuid default null
+) returns table (
+  total_branches bigint,
+  total_bhs bigint,
+  assigned_branches bigint,
+  covered_branches bigint,
+  visit_count bigint,
+  visited_branches bigint,
+  active_bhs bigint,
+  awaiting_review bigint,
+  invited bigint,
+  participants bigint,
+  new_employees_total bigint,
+  new_employees_covered bigint,
+  manning_sum numeric,
+  manning_count bigint,
+  attrition_sum numeric,
+  attrition_count bigint,
+  er_sum numeric,
+  er_count bigint,
+  non_vendor_sum numeric,
+  non_vendor_count bigint,
+  cwt_cases bigint
+)
+language sql
+stable
+as $$
+  with mapped as (
+    select distinct a.branch_id
+    from public.branch_assignments a
+    join public.branches b on b.id = a.branch_id
+    where public.assignment_in_effect(a.assigned_at, a.unassigned_at, from_date, to_date)
+      and (zone is null or b.zone_id = zone)
+      and (branch_category is null or b.category::text = branch_category)
+      and (bh is null or a.user_id = bh)
+  ),
+  reported as (
+    select v.*
+    from public.branch_visits v
+    join public.branches b on b.id = v.branch_id
+    where v.status in ('submitted', 'resubmitted', 'approved')
+      and (from_date is null or v.visit_date >= from_date)
+      and (to_date is null or v.visit_date <= to_date)
+      and (zone is null or b.zone_id = zone)
+      and (branch_category is null or b.category::text = branch_category)
+      and (bh is null or v.user_id = bh)
+  )
+  select
+    case
+      when bh is null then
+        (select count(*) from public.branches b
+          where (zone is null or b.zone_id = zone)
+            and (branch_category is null or b.category::text = branch_category))
+      else (select count(*) from mapped)
+    end,
+    (select count(*) from public.profiles p
+      where p.role = 'BH'
+        and (zone is null or p.zone_id = zone)
+        and (bh is null or p.id = bh)),
+    (select count(*) from mapped),
+    (select count(distinct r.branch_id) from reported r join mapped m on m.branch_id = r.branch_id),
+    count(*),
+    count(distinct branch_id),
+    count(distinct user_id),
+    count(*) filter (where status in ('submitted', 'resubmitted')),
+    coalesce(sum(total_employees_invited), 0)::bigint,
+    coalesce(sum(total_participants), 0)::bigint,
+    coalesce(sum(new_employees_total), 0)::bigint,
+    coalesce(sum(new_employees_covered), 0)::bigint,
+    coalesce(sum(manning_percentage), 0),
+    count(manning_percentage),
+    coalesce(sum(attrition_percentage), 0),
+    count(attrition_percentage),
+    coalesce(sum(er_percentage), 0),
+    count(er_percentage),
+    coalesce(sum(non_vendor_percentage), 0),
+    count(non_vendor_percentage),
+    coalesce(sum(cwt_cases), 0)::bigint
+  from reported;
+$$;
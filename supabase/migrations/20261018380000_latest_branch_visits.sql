@@ -0,0 +1,15 @@
+-- The latest reported visit of every branch, for the high-risk list: the app
+-- scores one row per branch instead of reducing every recent visit itself,
+-- which the API's row limit would cut short. security_invoker keeps the
+-- branch_visits policies in force for whoever reads the view.
+create or replace view public.latest_branch_visits
+with (security_invoker = true)
+as
+  select distinct on (v.branch_id) v.*
+  from public.branch_visits v
+  where v.status in ('submitted', 'resubmitted', 'approved')
+  order by v.branch_id, v.visit_date desc, v.created_at desc;
+
+create index if not exists branch_visits_branch_reported_idx
+  on public.branch_visits (branch_id, visit_date desc, created_at desc)
+  where status in ('submitted', 'resubmitted', 'approved');
@@ -0,0 +1,42 @@
+-- The CH heatmap counted only approved visits and filtered by branch category
+-- in the browser, so its answers did not match the monthly pack's. It now
+-- reads the same counts, which take the category filter the heatmap needs.
+drop function if exists public.qualitative_answer_counts(date, date);
+
+create or replace function public.qualitative_answer_counts(
+  from_date date default null,
+  to_date date default null,
+  branch_category text default null
+) returns table (
+  field text,
+  yes bigint,
+  no bigint,
+  answered bigint
+)
+language sql
+stable
+as $$
+  select
+    q.field,
+    count(*) filter (where q.answer = 'yes'),
+    count(*) filter (where q.answer = 'no'),
+    count(*)
+  from public.branch_visits v
+  join public.branches b on b.id = v.branch_id
+  cross join lateral (
+    values
+      ('leaders_aligned_with_code', v.leaders_aligned_with_code),
+      ('employees_feel_safe', v.employees_feel_safe),
+      ('employees_feel_motivated', v.employees_feel_motivated),
+      ('leaders_abusive_language', v.leaders_abusive_language),
+      ('employees_comfort_escalation', v.employees_comfort_escalation),
+      ('inclusive_culture', v.inclusive_culture)
+  ) as raw (field, value)
+  cross join lateral (select raw.field, nullif(lower(trim(raw.value)), '') as answer) q
+  where v.status in ('submitted', 'resubmitted', 'approved')
+    and (from_date is null or v.visit_date >= from_date)
+    and (to_date is null or v.visit_date <= to_date)
+    and (branch_category is null or b.category::text = branch_category)
+    and q.answer is not null
+  group by q.field;
+$$;
@@ -0,0 +1,254 @@
+-- Seed data for a local database (supabase db reset): 4 zones, 200 branches
+-- across all categories, an admin, 2 CHs, 4 ZHs and 20 BHs, and a year of
+-- visits (October 2025 to September 2026) with their reviews.
+--
+-- Every user signs in with <label>@example.com and the password
+-- "password123", e.g. bh-01@example.com, zh-01@example.com, ch-01@example.com.
+-- Ids are md5(label)::uuid, the same as in src/test/fixtures.ts, which builds
+-- this organisation for the in-memory client the tests use.
+
+-- Users -----------------------------------------------------------------------
+
+insert into public.zones (id, name)
+values
+  (md5('zone-north')::uuid, 'North'),
+  (md5('zone-south')::uuid, 'South'),
+  (md5('zone-east')::uuid, 'East'),
+  (md5('zone-west')::uuid, 'West');
+
+create temporary table seed_zones (zone_index int, zone_key text, cities text[], codes text[]);
+
+insert into seed_zones
+values
+  (0, 'north', array['Delhi', 'Jaipur', 'Lucknow', 'Chandigarh'], array['DEL', 'JAI', 'LKO', 'CHD']),
+  (1, 'south', array['Chennai', 'Bengaluru', 'Hyderabad', 'Kochi'], array['CHE', 'BLR', 'HYD', 'COK']),
+  (2, 'east', array['Kolkata', 'Patna', 'Bhubaneswar', 'Guwahati'], array['KOL', 'PAT', 'BBI', 'GAU']),
+  (3, 'west', array['Mumbai', 'Pune', 'Ahmedabad', 'Surat'], array['MUM', 'PNQ', 'AMD', 'STV']);
+
+create temporary table seed_users (label text, full_name text, e_code text, role text, location text, gender text, zone_key text);
+
+insert into seed_users
+values
+  ('admin', 'Admin', 'E0001', 'admin', 'Mumbai', 'other', null),
+  ('ch-01', 'Anita Verma', 'E0010', 'CH', 'Mumbai', 'female', null),
+  ('ch-02', 'Suresh Kumar', 'E0011', 'CH', 'Mumbai', 'male', null),
+  ('zh-01', 'Rajesh Kapoor', 'E0110', 'ZH', 'Delhi', 'male', 'north'),
+  ('zh-02', 'Lakshmi Narayan', 'E0111', 'ZH', 'Chennai', 'female', 'south'),
+  ('zh-03', 'Subhash Chatterjee', 'E0112', 'ZH', 'Kolkata', 'male', 'east'),
+  ('zh-04', 'Farah Khan', 'E0113', 'ZH', 'Mumbai', 'female', 'west');
+
+-- Five BHs per zone, each looking after ten branches
+insert into seed_users
+select
+  'bh-' || lpad(n::text, 2, '0'),
+  (array[
+    'Asha Rao', 'Vikram Singh', 'Neha Gupta', 'Rohit Sharma', 'Pooja Iyer',
+    'Arjun Nair', 'Kavya Reddy', 'Sanjay Menon', 'Divya Pillai', 'Karthik Rajan',
+    'Ananya Das', 'Rahul Bose', 'Sneha Mukherjee', 'Amit Ghosh', 'Priya Sen',
+    'Meera Joshi', 'Nikhil Patil', 'Swati Desai', 'Harsh Mehta', 'Ritu Shah'
+  ])[n],
+  'E1' || lpad(n::text, 3, '0'),
+  'BH',
+  z.cities[(n - 1) % 5 % 4 + 1],
+  case when n % 2 = 1 then 'female' else 'male' end,
+  z.zone_key
+from generate_series(1, 20) as n
+join seed_zones z on z.zone_index = (n - 1) / 5;
+
+-- handle_new_user creates the profiles from the metadata, as BHs (and
+-- pending ZHs); the roles are set below, as an admin would
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change_token_new, email_change
+)
+select
+  '00000000-0000-0000-0000-000000000000',
+  md5(label)::uuid,
+  'authenticated',
+  'authenticated',
+  label || '@example.com',
+  crypt('password123', gen_salt('bf')),
+  '2025-09-01 09:00:00+00',
+  '{"provider": "email", "providers": ["email"]}',
+  jsonb_build_object('full_name', full_name, 'e_code', e_code, 'role', role, 'location', location, 'gender', gender),
+  '2025-09-01 09:00:00+00',
+  '2025-09-01 09:00:00+00',
+  '', '', '', ''
+from seed_users;
+
+insert into auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+select
+  md5(label)::uuid,
+  md5(label)::uuid,
+  md5(label)::uuid::text,
+  jsonb_build_object('sub', md5(label)::uuid::text, 'email', label || '@example.com'),
+  'email',
+  '2025-09-01 09:00:00+00',
+  '2025-09-01 09:00:00+00',
+  '2025-09-01 09:00:00+00'
+from seed_users;
+
+update public.profiles p
+set role = u.role,
+  is_active = true,
+  zone_id = case when u.zone_key is null then null else md5('zone-' || u.zone_key)::uuid end
+from seed_users u
+where p.id = md5(u.label)::uuid;
+
+-- Branches --------------------------------------------------------------------
+
+-- 50 per zone: 5 platinum, 8 diamond, 12 gold, 12 silver, 13 bronze
+create temporary table seed_branches as
+select
+  z.zone_index * 50 + i + 1 as number,
+  z.zone_key,
+  z.cities[i % 4 + 1] as city,
+  z.codes[i % 4 + 1] as code,
+  (array[
+    'Central', 'Station Road', 'Civil Lines', 'Market Yard', 'Ring Road', 'Old Town', 'New Town',
+    'Industrial Area', 'Airport Road', 'Cantonment', 'University Road', 'Lake Road', 'Bus Stand'
+  ])[i / 4 + 1] as area,
+  case
+    when i < 5 then 'platinum'
+    when i < 13 then 'diamond'
+    when i < 25 then 'gold'
+    when i < 37 then 'silver'
+    else 'bronze'
+  end as category,
+  'bh-' || lpad((z.zone_index * 5 + i / 10 + 1)::text, 2, '0') as bh_label,
+  'zh-0' || (z.zone_index + 1) as zh_label
+from seed_zones z
+cross join generate_series(0, 49) as i;
+
+insert into public.branches (id, name, location, branch_code, category, zone_id, created_at, updated_at)
+select
+  md5('branch-' || lpad(number::text, 3, '0'))::uuid,
+  city || ' ' || area,
+  city,
+  code || '-' || lpad(number::text, 3, '0'),
+  category,
+  md5('zone-' || zone_key)::uuid,
+  '2025-09-01 09:00:00+00',
+  '2025-09-01 09:00:00+00'
+from seed_branches;
+
+-- History, notifications and the transition checks are for live changes, not
+-- for loading a year that already happened
+set session_replication_role = replica;
+
+insert into public.branch_assignments (id, user_id, branch_id, assigned_at, assigned_by)
+select
+  md5('assignment-' || lpad(number::text, 3, '0'))::uuid,
+  md5(bh_label)::uuid,
+  md5('branch-' || lpad(number::text, 3, '0'))::uuid,
+  '2025-09-01 09:00:00+00',
+  md5(zh_label)::uuid
+from seed_branches;
+
+-- Visits ----------------------------------------------------------------------
+
+select setseed(0.2026);
+
+-- Platinum and diamond branches are visited monthly, gold every other month,
+-- silver and bronze quarterly; one visit in ten is missed
+create temporary table seed_visits as
+select
+  md5('visit-' || lpad((row_number() over (order by b.number, m))::text, 4, '0'))::uuid as id,
+  b.number,
+  b.category,
+  b.bh_label,
+  b.zh_label,
+  (date '2025-10-01' + make_interval(months => m) + make_interval(days => floor(random() * 28)::int))::date as visit_date,
+  random() as roll
+from seed_branches b
+cross join generate_series(0, 11) as m
+where m % (case b.category when 'gold' then 2 when 'silver' then 3 when 'bronze' then 3 else 1 end)
+  = b.number % (case b.category when 'gold' then 2 when 'silver' then 3 when 'bronze' then 3 else 1 end);
+
+delete from seed_visits where random() > 0.9;
+
+-- Reports before September have been reviewed; September's are still coming in
+alter table seed_visits add column status text;
+
+update seed_visits
+set status = case
+  when visit_date < date '2026-09-01' then
+    case when roll < 0.88 then 'approved' when roll < 0.93 then 'rejected' when roll < 0.97 then 'resubmitted' else 'needs_revision' end
+  else
+    case when roll < 0.6 then 'submitted' when roll < 0.7 then 'draft' when roll < 0.9 then 'approved' else 'needs_revision' end
+end;
+
+insert into public.branch_visits (
+  id, user_id, branch_id, visit_date, branch_category, hr_connect_session,
+  total_employees_invited, total_participants,
+  manning_percentage, attrition_percentage, non_vendor_percentage, er_percentage, cwt_cases, performance_level,
+  new_employees_total, new_employees_covered, star_employees_total, star_employees_covered,
+  leaders_aligned_with_code, employees_feel_safe, employees_feel_motivated,
+  leaders_abusive_language, employees_comfort_escalation, inclusive_culture,
+  feedback, status, created_at, updated_at
+)
+select
+  v.id,
+  md5(v.bh_label)::uuid,
+  md5('branch-' || lpad(v.number::text, 3, '0'))::uuid,
+  v.visit_date,
+  v.category,
+  random() < 0.7,
+  m.invited,
+  m.invited - floor(random() * (m.invited * 0.4))::int,
+  75 + floor(random() * 26),
+  floor(random() * 16),
+  60 + floor(random() * 41),
+  70 + floor(random() * 31),
+  floor(random() * 4)::int,
+  (array['excellent', 'good', 'good', 'average', 'below_average', 'poor'])[1 + floor(random() * 6)::int],
+  m.new_joiners,
+  floor(random() * (m.new_joiners + 1))::int,
+  m.stars,
+  floor(random() * (m.stars + 1))::int,
+  case when random() < 0.85 then 'yes' else 'no' end,
+  case when random() < 0.9 then 'yes' else 'no' end,
+  case when random() < 0.75 then 'yes' else 'no' end,
+  case when random() < 0.08 then 'yes' else 'no' end,
+  case when random() < 0.8 then 'yes' else 'no' end,
+  case when random() < 0.85 then 'yes' else 'no' end,
+  (array[
+    'Team is settled and engaged.',
+    'Staff raised concerns about weekend rosters.',
+    'New joiners need a proper induction buddy.',
+    'Branch manager runs a good morning huddle.',
+    'Pending CWT cases discussed with the manager.',
+    'Employees asked for clarity on the incentive scheme.'
+  ])[1 + floor(random() * 6)::int],
+  v.status,
+  v.visit_date + time '18:00',
+  case
+    when v.status in ('submitted', 'draft') then v.visit_date + time '18:00'
+    else v.visit_date + 2 + time '10:00'
+  end
+from seed_visits v
+cross join lateral (
+  select
+    10 + floor(random() * 31)::int as invited,
+    floor(random() * 9)::int as new_joiners,
+    floor(random() * 7)::int as stars
+  -- Reference v so the values are drawn per visit
+  where v.id is not null
+) m;
+
+-- The ZH's decision on every reviewed report; a resubmitted report was sent back first
+insert into public.visit_reviews (id, visit_id, reviewer_id, decision, comment, created_at)
+select
+  md5('review-' || v.id::text)::uuid,
+  v.id,
+  md5(v.zh_label)::uuid,
+  case when v.status = 'resubmitted' then 'needs_revision' else v.status end,
+  case when v.status = 'approved' then null else 'Participation figures do not match the attendance sheet.' end,
+  v.visit_date + 2 + time '10:00'
+from seed_visits v
+where v.status not in ('submitted', 'draft');
+
+set session_replication_role = origin;
+
+drop table seed_visits, seed_branches, seed_users, seed_zones;
@@ -0,0 +1,237 @@
+-- Row level security on branches, branch assignments and the admin-managed
+-- reference data (zones, risk rules, visit frequency targets). Run with
+-- `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(20);
+
+-- Two zones with a branch, a BH and a ZH each, a CH and an admin
+insert into public.zones (id, name)
+values
+  ('ee000000-0000-0000-0000-000000000001', 'Test North'),
+  ('ee000000-0000-0000-0000-000000000002', 'Test South');
+
+insert into public.branches (id, name, location, branch_code, category, zone_id)
+values
+  ('ff000000-0000-0000-0000-000000000001', 'Delhi Central', 'Delhi', 'TST-001', 'gold', 'ee000000-0000-0000-0000-000000000001'),
+  ('ff000000-0000-0000-0000-000000000002', 'Chennai Central', 'Chennai', 'TST-002', 'gold', 'ee000000-0000-0000-0000-000000000002');
+
+insert into auth.users (id, email, raw_user_meta_data)
+select id::uuid, e_code || '@example.com',
+  jsonb_build_object('full_name', e_code, 'e_code', e_code, 'role', role, 'location', 'Delhi', 'gender', 'other')
+from (values
+  ('bb000000-0000-0000-0000-000000000001', 'TBH1', 'BH'),
+  ('bb000000-0000-0000-0000-000000000002', 'TBH2', 'BH'),
+  ('dd000000-0000-0000-0000-000000000001', 'TZH1', 'ZH'),
+  ('cc000000-0000-0000-0000-000000000001', 'TCH1', 'CH'),
+  ('aa000000-0000-0000-0000-000000000001', 'TAD1', 'admin')
+) as u (id, e_code, role);
+
+-- Sign-up only makes BHs and pending ZHs; give the test users their roles
+update public.profiles p
+set role = u.raw_user_meta_data ->> 'role', is_active = true
+from auth.users u
+where u.id = p.id and p.e_code like 'T%';
+
+update public.profiles set zone_id = 'ee000000-0000-0000-0000-000000000001'
+where id in ('bb000000-0000-0000-0000-000000000001', 'dd000000-0000-0000-0000-000000000001');
+update public.profiles set zone_id = 'ee000000-0000-0000-0000-000000000002'
+where id = 'bb000000-0000-0000-0000-000000000002';
+
+-- The South BH holds the South branch
+insert into public.branch_assignments (user_id, branch_id)
+values ('bb000000-0000-0000-0000-000000000002', 'ff000000-0000-0000-0000-000000000002');
+
+-- Branches ------------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  $$select branch_code from public.branches where branch_code like 'TST-%'$$,
+  array['TST-001', 'TST-002'],
+  'Signed-in users read branches'
+);
+
+select throws_ok(
+  $$insert into public.branches (name, location, branch_code, category)
+    values ('Rogue Branch', 'Delhi', 'TST-099', 'gold')$$,
+  '42501',
+  null,
+  'A BH cannot add a branch'
+);
+
+update public.branches set zone_id = 'ee000000-0000-0000-0000-000000000001', name = 'Renamed'
+where id = 'ff000000-0000-0000-0000-000000000002';
+
+-- A ZH moving a branch into their zone would get its visits and assignments
+set local request.jwt.claims to '{"sub": "dd000000-0000-0000-0000-000000000001"}';
+
+update public.branches set zone_id = 'ee000000-0000-0000-0000-000000000001'
+where id = 'ff000000-0000-0000-0000-000000000002';
+
+reset role;
+
+select results_eq(
+  $$select name, zone_id from public.branches where id = 'ff000000-0000-0000-0000-000000000002'$$,
+  $$values ('Chennai Central', 'ee000000-0000-0000-0000-000000000002'::uuid)$$,
+  'Neither a BH nor a ZH can change a branch or its zone'
+);
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "aa000000-0000-0000-0000-000000000001"}';
+
+select lives_ok(
+  $$update public.branches set name = 'Chennai Main' where id = 'ff000000-0000-0000-0000-000000000002'$$,
+  'An admin changes a branch'
+);
+
+reset role;
+
+-- Assignments ---------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  $$select branch_id from public.branch_assignments
+    where branch_id in ('ff000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000002')$$,
+  array['ff000000-0000-0000-0000-000000000002'::uuid],
+  'Signed-in users read who holds a branch'
+);
+
+select throws_ok(
+  $$insert into public.branch_assignments (user_id, branch_id)
+    values ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001')$$,
+  '42501',
+  null,
+  'A BH cannot assign branches'
+);
+
+update public.branch_assignments set unassigned_at = now()
+where branch_id = 'ff000000-0000-0000-0000-000000000002';
+
+set local request.jwt.claims to '{"sub": "dd000000-0000-0000-0000-000000000001"}';
+
+select throws_ok(
+  $$insert into public.branch_assignments (user_id, branch_id)
+    values ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000002')$$,
+  '42501',
+  null,
+  'A ZH cannot assign a branch of another zone'
+);
+
+select throws_ok(
+  $$insert into public.branch_assignments (user_id, branch_id)
+    values ('bb000000-0000-0000-0000-000000000002', 'ff000000-0000-0000-0000-000000000001')$$,
+  '42501',
+  null,
+  'A ZH cannot assign a BH of another zone'
+);
+
+select lives_ok(
+  $$insert into public.branch_assignments (user_id, branch_id)
+    values ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001')$$,
+  'A ZH assigns a branch of their zone to a BH of their zone'
+);
+
+select throws_ok(
+  $$update public.branch_assignments set user_id = 'bb000000-0000-0000-0000-000000000002'
+    where branch_id = 'ff000000-0000-0000-0000-000000000001'$$,
+  '42501',
+  null,
+  'A ZH can only end an assignment, not hand it to someone else'
+);
+
+update public.branch_assignments set unassigned_at = now()
+where branch_id = 'ff000000-0000-0000-0000-000000000002';
+
+delete from public.branch_assignments
+where branch_id = 'ff000000-0000-0000-0000-000000000001';
+
+reset role;
+
+select is(
+  (select unassigned_at from public.branch_assignments where branch_id = 'ff000000-0000-0000-0000-000000000002'),
+  null,
+  'Neither the BH nor another zone''s ZH can end an assignment'
+);
+
+select is(
+  (select count(*)::int from public.branch_assignments where branch_id = 'ff000000-0000-0000-0000-000000000001'),
+  1,
+  'Assignments are not deleted'
+);
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "aa000000-0000-0000-0000-000000000001"}';
+
+select lives_ok(
+  $$update public.branch_assignments set unassigned_at = now()
+    where branch_id = 'ff000000-0000-0000-0000-000000000002'$$,
+  'An admin ends an assignment in any zone'
+);
+
+reset role;
+
+select isnt(
+  (select unassigned_at from public.branch_assignments where branch_id = 'ff000000-0000-0000-0000-000000000002'),
+  null,
+  'The admin''s change is saved'
+);
+
+-- Reference data ------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  $$select name from public.zones where name like 'Test %'$$,
+  array['Test North', 'Test South'],
+  'Signed-in users read zones'
+);
+
+select isnt_empty('select id from public.risk_rules where enabled', 'Signed-in users read the risk rules');
+
+select throws_ok(
+  $$insert into public.zones (name) values ('Test East')$$,
+  '42501',
+  null,
+  'A BH cannot add a zone'
+);
+
+set local request.jwt.claims to '{"sub": "cc000000-0000-0000-0000-000000000001"}';
+
+update public.risk_rules set enabled = false;
+update public.visit_frequency_targets set interval_days = 1;
+
+reset role;
+
+select is(
+  (select count(*)::int from public.risk_rules where not enabled)
+    + (select count(*)::int from public.visit_frequency_targets where interval_days = 1),
+  0,
+  'A CH cannot change the risk rules or visit targets'
+);
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "aa000000-0000-0000-0000-000000000001"}';
+
+select lives_ok(
+  $$update public.visit_frequency_targets set interval_days = 45 where category = 'gold'$$,
+  'An admin changes a visit target'
+);
+
+reset role;
+
+select is(
+  (select interval_days from public.visit_frequency_targets where category = 'gold'),
+  45,
+  'The admin''s change is saved'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,219 @@
+-- Row level security on branch_visits. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(21);
+
+-- Two zones with a branch, a BH and a ZH each, a CH and an admin
+insert into public.zones (id, name)
+values
+  ('ee000000-0000-0000-0000-000000000001', 'Test North'),
+  ('ee000000-0000-0000-0000-000000000002', 'Test South');
+
+insert into public.branches (id, name, location, branch_code, category, zone_id)
+values
+  ('ff000000-0000-0000-0000-000000000001', 'Delhi Central', 'Delhi', 'TST-001', 'gold', 'ee000000-0000-0000-0000-000000000001'),
+  ('ff000000-0000-0000-0000-000000000002', 'Chennai Central', 'Chennai', 'TST-002', 'gold', 'ee000000-0000-0000-0000-000000000002');
+
+insert into auth.users (id, email, raw_user_meta_data)
+select id::uuid, e_code || '@example.com',
+  jsonb_build_object('full_name', e_code, 'e_code', e_code, 'role', role, 'location', 'Delhi', 'gender', 'other')
+from (values
+  ('bb000000-0000-0000-0000-000000000001', 'TBH1', 'BH'),
+  ('bb000000-0000-0000-0000-000000000002', 'TBH2', 'BH'),
+  ('dd000000-0000-0000-0000-000000000001', 'TZH1', 'ZH'),
+  ('dd000000-0000-0000-0000-000000000002', 'TZH2', 'ZH'),
+  ('cc000000-0000-0000-0000-000000000001', 'TCH1', 'CH'),
+  ('aa000000-0000-0000-0000-000000000001', 'TAD1', 'admin')
+) as u (id, e_code, role);
+
+-- Sign-up only makes BHs and pending ZHs; give the test users their roles
+update public.profiles p
+set role = u.raw_user_meta_data ->> 'role', is_active = true
+from auth.users u
+where u.id = p.id and p.e_code like 'T%';
+
+update public.profiles set zone_id = 'ee000000-0000-0000-0000-000000000001'
+where id in ('bb000000-0000-0000-0000-000000000001', 'dd000000-0000-0000-0000-000000000001');
+update public.profiles set zone_id = 'ee000000-0000-0000-0000-000000000002'
+where id in ('bb000000-0000-0000-0000-000000000002', 'dd000000-0000-0000-0000-000000000002');
+
+-- North: a submitted report and a draft; South: a submitted report
+insert into public.branch_visits (id, user_id, branch_id, visit_date, branch_category, status, feedback)
+values
+  ('10000000-0000-0000-0000-000000000001', 'bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-01', 'gold', 'submitted', 'North report'),
+  ('10000000-0000-0000-0000-000000000002', 'bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-02', 'gold', 'draft', 'North draft'),
+  ('20000000-0000-0000-0000-000000000001', 'bb000000-0000-0000-0000-000000000002', 'ff000000-0000-0000-0000-000000000002', '2026-10-01', 'gold', 'submitted', 'South report');
+
+-- BH ------------------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  'select id from public.branch_visits',
+  array['10000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000002']::uuid[],
+  'A BH reads only their own visits'
+);
+
+select lives_ok(
+  $$insert into public.branch_visits (id, user_id, branch_id, visit_date, branch_category, status)
+    values ('10000000-0000-0000-0000-000000000003', 'bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-03', 'gold', 'draft')$$,
+  'A BH adds a visit of their own'
+);
+
+select throws_ok(
+  $$insert into public.branch_visits (user_id, branch_id, visit_date, branch_category, status)
+    values ('bb000000-0000-0000-0000-000000000002', 'ff000000-0000-0000-0000-000000000002', '2026-10-03', 'gold', 'draft')$$,
+  '42501',
+  null,
+  'A BH cannot add a visit for another BH'
+);
+
+select lives_ok(
+  $$update public.branch_visits set feedback = 'Edited draft' where id = '10000000-0000-0000-0000-000000000002'$$,
+  'A BH edits their own draft'
+);
+
+select throws_ok(
+  $$update public.branch_visits set status = 'approved' where id = '10000000-0000-0000-0000-000000000001'$$,
+  '23514',
+  null,
+  'A BH cannot approve their own report'
+);
+
+update public.branch_visits set feedback = 'Tampered' where id = '20000000-0000-0000-0000-000000000001';
+delete from public.branch_visits where id = '10000000-0000-0000-0000-000000000001';
+delete from public.branch_visits where id = '10000000-0000-0000-0000-000000000002';
+
+reset role;
+
+select is(
+  (select feedback from public.branch_visits where id = '20000000-0000-0000-0000-000000000001'),
+  'South report',
+  'A BH cannot edit another BH''s visit'
+);
+
+select ok(
+  exists (select 1 from public.branch_visits where id = '10000000-0000-0000-0000-000000000001'),
+  'A BH cannot delete a report under review'
+);
+
+select ok(
+  not exists (select 1 from public.branch_visits where id = '10000000-0000-0000-0000-000000000002'),
+  'A BH deletes their own draft'
+);
+
+-- ZH ------------------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "dd000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  'select id from public.branch_visits',
+  array['10000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000003']::uuid[],
+  'A ZH reads the visits in their zone only'
+);
+
+select throws_ok(
+  $$update public.branch_visits set status = 'approved', feedback = 'Rewritten' where id = '10000000-0000-0000-0000-000000000001'$$,
+  '42501',
+  null,
+  'A ZH cannot change what the BH reported'
+);
+
+select lives_ok(
+  $$update public.branch_visits set status = 'approved', updated_at = now() where id = '10000000-0000-0000-0000-000000000001'$$,
+  'A ZH approves a report in their zone'
+);
+
+select throws_ok(
+  $$insert into public.branch_visits (user_id, branch_id, visit_date, branch_category, status)
+    values ('dd000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-04', 'gold', 'draft')$$,
+  '42501',
+  null,
+  'A ZH cannot add visits'
+);
+
+update public.branch_visits set status = 'approved' where id = '20000000-0000-0000-0000-000000000001';
+delete from public.branch_visits where id = '10000000-0000-0000-0000-000000000001';
+
+reset role;
+
+select is(
+  (select status from public.branch_visits where id = '10000000-0000-0000-0000-000000000001'),
+  'approved',
+  'The approval is saved'
+);
+
+select is(
+  (select status from public.branch_visits where id = '20000000-0000-0000-0000-000000000001'),
+  'submitted',
+  'A ZH cannot review a report from another zone'
+);
+
+-- CH ------------------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "cc000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  $$select id from public.branch_visits where id in ('10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001')$$,
+  array['10000000-0000-0000-0000-000000000001', '20000000-0000-0000-0000-000000000001']::uuid[],
+  'A CH reads visits in every zone'
+);
+
+select throws_ok(
+  $$insert into public.branch_visits (user_id, branch_id, visit_date, branch_category, status)
+    values ('cc000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-04', 'gold', 'draft')$$,
+  '42501',
+  null,
+  'A CH cannot add visits'
+);
+
+update public.branch_visits set status = 'rejected' where id = '20000000-0000-0000-0000-000000000001';
+delete from public.branch_visits where id = '20000000-0000-0000-0000-000000000001';
+
+reset role;
+
+select is(
+  (select status from public.branch_visits where id = '20000000-0000-0000-0000-000000000001'),
+  'submitted',
+  'A CH cannot change or delete visits'
+);
+
+-- Others ----------------------------------------------------------------------
+
+update public.profiles set is_active = false where id = 'bb000000-0000-0000-0000-000000000002';
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000002"}';
+
+select is_empty('select id from public.branch_visits', 'A deactivated BH reads nothing');
+
+set local request.jwt.claims to '{"sub": "aa000000-0000-0000-0000-000000000001"}';
+
+select lives_ok(
+  $$update public.branch_visits set status = 'needs_revision' where id = '20000000-0000-0000-0000-000000000001'$$,
+  'An admin reviews a report in any zone'
+);
+
+reset role;
+
+select is(
+  (select status from public.branch_visits where id = '20000000-0000-0000-0000-000000000001'),
+  'needs_revision',
+  'The admin''s decision is saved'
+);
+
+set local role anon;
+set local request.jwt.claims to '{}';
+
+select is_empty('select id from public.branch_visits', 'Anonymous users read nothing');
+
+reset role;
+
+select * from finish();
+
+rollback;
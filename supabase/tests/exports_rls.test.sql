@@ -0,0 +1,95 @@
+-- Row level security on scheduled exports and their files. Run with
+-- `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+insert into auth.users (id, email, raw_user_meta_data)
+select id::uuid, e_code || '@example.com',
+  jsonb_build_object('full_name', e_code, 'e_code', e_code, 'role', role, 'location', 'Delhi', 'gender', 'other')
+from (values
+  ('bb000000-0000-0000-0000-000000000001', 'TBH1', 'BH'),
+  ('cc000000-0000-0000-0000-000000000001', 'TCH1', 'CH'),
+  ('aa000000-0000-0000-0000-000000000001', 'TAD1', 'admin')
+) as u (id, e_code, role);
+
+-- Sign-up only makes BHs and pending ZHs; give the test users their roles
+update public.profiles p
+set role = u.raw_user_meta_data ->> 'role', is_active = true
+from auth.users u
+where u.id = p.id and p.e_code like 'T%';
+
+-- A CH's monthly export with one file so far, and a file of the admin's
+insert into public.export_definitions (id, user_id, name, report, schedule, next_run_at)
+values ('30000000-0000-0000-0000-000000000001', 'cc000000-0000-0000-0000-000000000001', 'CH monthly', 'bh_performance', 'monthly', now());
+
+insert into public.export_files (user_id, definition_id, file_name, report, format, period_start, period_end, storage_path)
+values
+  ('cc000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001', 'ch.csv', 'bh_performance', 'csv', '2026-09-01', '2026-09-30', 'cc/ch.csv'),
+  ('aa000000-0000-0000-0000-000000000001', null, 'admin.csv', 'branch_visits', 'csv', '2026-09-01', '2026-09-30', 'aa/admin.csv');
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select throws_ok(
+  $$insert into public.export_definitions (user_id, name, report, schedule, next_run_at)
+    values ('bb000000-0000-0000-0000-000000000001', 'All visits', 'branch_visits', 'daily', now())$$,
+  '42501',
+  null,
+  'A BH cannot schedule an export'
+);
+
+update public.export_definitions set bh_id = null, report = 'branch_visits';
+
+select is_empty('select id from public.export_files', 'A BH reads no one else''s export files');
+
+set local request.jwt.claims to '{"sub": "cc000000-0000-0000-0000-000000000001"}';
+
+select lives_ok(
+  $$insert into public.export_definitions (user_id, name, report, schedule, next_run_at)
+    values ('cc000000-0000-0000-0000-000000000001', 'CH daily', 'branch_visits', 'daily', now())$$,
+  'A CH schedules an export'
+);
+
+select throws_ok(
+  $$insert into public.export_definitions (user_id, name, report, schedule, next_run_at)
+    values ('aa000000-0000-0000-0000-000000000001', 'For the admin', 'branch_visits', 'daily', now())$$,
+  '42501',
+  null,
+  'A CH cannot schedule an export for someone else'
+);
+
+select set_eq(
+  'select file_name from public.export_files',
+  array['ch.csv'],
+  'A CH reads only their own export files'
+);
+
+select throws_ok(
+  $$insert into public.export_files (user_id, file_name, report, format, period_start, period_end, storage_path)
+    values ('cc000000-0000-0000-0000-000000000001', 'fake.csv', 'branch_visits', 'csv', '2026-09-01', '2026-09-30', 'cc/fake.csv')$$,
+  '42501',
+  null,
+  'Only the export job adds files'
+);
+
+set local request.jwt.claims to '{"sub": "aa000000-0000-0000-0000-000000000001"}';
+
+select is_empty(
+  $$select id from public.export_definitions where user_id <> 'aa000000-0000-0000-0000-000000000001'$$,
+  'An admin reads only their own export definitions'
+);
+
+reset role;
+
+select is(
+  (select report from public.export_definitions where id = '30000000-0000-0000-0000-000000000001'),
+  'bh_performance',
+  'A BH cannot change someone else''s export'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,167 @@
+-- Row level security on profiles and visit_form_drafts. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(15);
+
+insert into auth.users (id, email, raw_user_meta_data)
+select id::uuid, e_code || '@example.com',
+  jsonb_build_object('full_name', e_code, 'e_code', e_code, 'role', role, 'location', 'Delhi', 'gender', 'other')
+from (values
+  ('bb000000-0000-0000-0000-000000000001', 'TBH1', 'BH'),
+  ('bb000000-0000-0000-0000-000000000002', 'TBH2', 'BH'),
+  ('dd000000-0000-0000-0000-000000000001', 'TZH1', 'ZH'),
+  ('aa000000-0000-0000-0000-000000000001', 'TAD1', 'admin'),
+  ('aa000000-0000-0000-0000-000000000002', 'TAD2', 'admin')
+) as u (id, e_code, role);
+
+-- Sign-up only makes BHs and pending ZHs; give the test users their roles
+update public.profiles p
+set role = u.raw_user_meta_data ->> 'role', is_active = true
+from auth.users u
+where u.id = p.id and p.e_code like 'T%';
+
+update public.profiles set is_active = false where id = 'aa000000-0000-0000-0000-000000000002';
+
+insert into public.visit_form_drafts (user_id, form_key, form_values)
+values
+  ('bb000000-0000-0000-0000-000000000001', 'new-visit', '{"feedback": "Half done"}'),
+  ('bb000000-0000-0000-0000-000000000002', 'new-visit', '{"feedback": "Not yours"}');
+
+-- Sign-up -------------------------------------------------------------------
+
+insert into auth.users (id, email, raw_user_meta_data)
+values
+  ('99000000-0000-0000-0000-000000000001', 'su1@example.com',
+    '{"full_name": "Wants Admin", "e_code": "SU1", "role": "admin", "location": "Delhi", "gender": "other"}'),
+  ('99000000-0000-0000-0000-000000000002', 'su2@example.com',
+    '{"full_name": "Wants ZH", "e_code": "SU2", "role": "ZH", "location": "Delhi", "gender": "other"}');
+
+select results_eq(
+  $$select role, is_active from public.profiles where id = '99000000-0000-0000-0000-000000000001'$$,
+  $$values ('BH', true)$$,
+  'A sign-up asking to be an admin becomes an active BH'
+);
+
+select results_eq(
+  $$select role, is_active from public.profiles where id = '99000000-0000-0000-0000-000000000002'$$,
+  $$values ('ZH', false)$$,
+  'A sign-up asking to be a ZH waits inactive for an admin'
+);
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "99000000-0000-0000-0000-000000000002"}';
+
+select is(public.current_user_role(), null::text, 'A pending ZH has no role yet');
+
+reset role;
+
+-- Profiles ------------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  $$select e_code from public.profiles where e_code like 'T%'$$,
+  array['TBH1', 'TBH2', 'TZH1', 'TAD1', 'TAD2'],
+  'Signed-in users read every profile'
+);
+
+update public.profiles set role = 'admin' where id = 'bb000000-0000-0000-0000-000000000001';
+
+set local request.jwt.claims to '{"sub": "dd000000-0000-0000-0000-000000000001"}';
+
+update public.profiles set role = 'ZH' where id = 'bb000000-0000-0000-0000-000000000002';
+
+set local request.jwt.claims to '{"sub": "aa000000-0000-0000-0000-000000000002"}';
+
+update public.profiles set role = 'CH' where id = 'bb000000-0000-0000-0000-000000000002';
+
+reset role;
+
+select is(
+  (select role from public.profiles where id = 'bb000000-0000-0000-0000-000000000001'),
+  'BH',
+  'A BH cannot change their own role'
+);
+
+select is(
+  (select role from public.profiles where id = 'bb000000-0000-0000-0000-000000000002'),
+  'BH',
+  'Neither a ZH nor a deactivated admin can change a role'
+);
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "aa000000-0000-0000-0000-000000000001"}';
+
+select lives_ok(
+  $$update public.profiles set role = 'ZH' where id = 'bb000000-0000-0000-0000-000000000002'$$,
+  'An admin changes a role'
+);
+
+select throws_ok(
+  $$insert into public.profiles (id, full_name, e_code, role, location, gender)
+    values ('aa000000-0000-0000-0000-000000000009', 'Direct', 'TAD9', 'admin', 'Delhi', 'other')$$,
+  '42501',
+  null,
+  'Profiles are only created at sign-up'
+);
+
+reset role;
+
+select is(
+  (select role from public.profiles where id = 'bb000000-0000-0000-0000-000000000002'),
+  'ZH',
+  'The admin''s change is saved'
+);
+
+set local role anon;
+set local request.jwt.claims to '{}';
+
+select is_empty('select id from public.profiles', 'Anonymous users read no profiles');
+
+reset role;
+
+-- Form drafts ---------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select results_eq(
+  'select form_values ->> ''feedback'' from public.visit_form_drafts',
+  array['Half done'],
+  'A BH reads only their own drafts'
+);
+
+select lives_ok(
+  $$insert into public.visit_form_drafts (user_id, form_key, form_values)
+    values ('bb000000-0000-0000-0000-000000000001', 'visit:edit', '{}')$$,
+  'A BH saves a draft of their own'
+);
+
+select throws_ok(
+  $$insert into public.visit_form_drafts (user_id, form_key, form_values)
+    values ('bb000000-0000-0000-0000-000000000002', 'visit:edit', '{}')$$,
+  '42501',
+  null,
+  'A BH cannot save a draft for another user'
+);
+
+delete from public.visit_form_drafts where user_id = 'bb000000-0000-0000-0000-000000000002';
+
+set local request.jwt.claims to '{"sub": "dd000000-0000-0000-0000-000000000001"}';
+
+select is_empty('select id from public.visit_form_drafts', 'A ZH reads no BH drafts');
+
+reset role;
+
+select is(
+  (select count(*)::int from public.visit_form_drafts where user_id = 'bb000000-0000-0000-0000-000000000002'),
+  1,
+  'A BH cannot delete another user''s draft'
+);
+
+select * from finish();
+
+rollback;
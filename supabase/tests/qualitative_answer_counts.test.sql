@@ -0,0 +1,52 @@
+-- qualitative_answer_counts on a small fixture. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(3);
+
+insert into public.branches (id, name, location, branch_code, category)
+values
+  ('ff000000-0000-0000-0000-000000000001', 'Delhi Central', 'Delhi', 'TST-001', 'gold'),
+  ('ff000000-0000-0000-0000-000000000002', 'Lucknow Central', 'Lucknow', 'TST-002', 'silver');
+
+insert into auth.users (id, email, raw_user_meta_data)
+values (
+  'bb000000-0000-0000-0000-000000000001', 'TBH1@example.com',
+  jsonb_build_object('full_name', 'TBH1', 'e_code', 'TBH1', 'role', 'BH', 'location', 'Delhi', 'gender', 'other')
+);
+
+-- The draft and the rejected report never count, and "Maybe" is only answered
+insert into public.branch_visits (user_id, branch_id, visit_date, branch_category, status, employees_feel_safe)
+values
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-02', 'gold', 'approved', 'Yes'),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-09', 'gold', 'submitted', ' yes '),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-12', 'gold', 'draft', 'No'),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000002', '2026-10-05', 'silver', 'rejected', 'No'),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000002', '2026-10-20', 'silver', 'resubmitted', 'Maybe'),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000002', '2026-11-03', 'silver', 'approved', 'No');
+
+select results_eq(
+  $$select yes, no, answered from public.qualitative_answer_counts('2026-10-01', '2026-10-31')
+    where field = 'employees_feel_safe'$$,
+  $$values (2::bigint, 0::bigint, 3::bigint)$$,
+  'Every reported visit of the period counts, whatever its review status'
+);
+
+select results_eq(
+  $$select yes, no, answered from public.qualitative_answer_counts(
+    '2026-10-01', '2026-11-30', branch_category => 'silver')
+    where field = 'employees_feel_safe'$$,
+  $$values (0::bigint, 1::bigint, 2::bigint)$$,
+  'The category narrows the counts to its branches'
+);
+
+select is_empty(
+  $$select field from public.qualitative_answer_counts('2026-10-01', '2026-10-31')
+    where field <> 'employees_feel_safe'$$,
+  'Questions nobody answered have no row'
+);
+
+select * from finish();
+
+rollback;
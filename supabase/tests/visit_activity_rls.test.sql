@@ -0,0 +1,212 @@
+-- Row level security on visit history, reviews, notifications, notification
+-- preferences and visit plans. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(20);
+
+-- Two zones with a branch, a BH and a ZH each, and a CH
+insert into public.zones (id, name)
+values
+  ('ee000000-0000-0000-0000-000000000001', 'Test North'),
+  ('ee000000-0000-0000-0000-000000000002', 'Test South');
+
+insert into public.branches (id, name, location, branch_code, category, zone_id)
+values
+  ('ff000000-0000-0000-0000-000000000001', 'Delhi Central', 'Delhi', 'TST-001', 'gold', 'ee000000-0000-0000-0000-000000000001'),
+  ('ff000000-0000-0000-0000-000000000002', 'Chennai Central', 'Chennai', 'TST-002', 'gold', 'ee000000-0000-0000-0000-000000000002');
+
+insert into auth.users (id, email, raw_user_meta_data)
+select id::uuid, e_code || '@example.com',
+  jsonb_build_object('full_name', e_code, 'e_code', e_code, 'role', role, 'location', 'Delhi', 'gender', 'other')
+from (values
+  ('bb000000-0000-0000-0000-000000000001', 'TBH1', 'BH'),
+  ('bb000000-0000-0000-0000-000000000002', 'TBH2', 'BH'),
+  ('dd000000-0000-0000-0000-000000000001', 'TZH1', 'ZH'),
+  ('dd000000-0000-0000-0000-000000000002', 'TZH2', 'ZH'),
+  ('cc000000-0000-0000-0000-000000000001', 'TCH1', 'CH')
+) as u (id, e_code, role);
+
+-- Sign-up only makes BHs and pending ZHs; give the test users their roles
+update public.profiles p
+set role = u.raw_user_meta_data ->> 'role', is_active = true
+from auth.users u
+where u.id = p.id and p.e_code like 'T%';
+
+update public.profiles set zone_id = 'ee000000-0000-0000-0000-000000000001'
+where id in ('bb000000-0000-0000-0000-000000000001', 'dd000000-0000-0000-0000-000000000001');
+update public.profiles set zone_id = 'ee000000-0000-0000-0000-000000000002'
+where id in ('bb000000-0000-0000-0000-000000000002', 'dd000000-0000-0000-0000-000000000002');
+
+-- A submitted report in each zone; the South one already reviewed
+insert into public.branch_visits (id, user_id, branch_id, visit_date, branch_category, status, feedback)
+values
+  ('10000000-0000-0000-0000-000000000001', 'bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-01', 'gold', 'submitted', 'North report'),
+  ('20000000-0000-0000-0000-000000000001', 'bb000000-0000-0000-0000-000000000002', 'ff000000-0000-0000-0000-000000000002', '2026-10-01', 'gold', 'submitted', 'South report');
+
+insert into public.visit_reviews (visit_id, reviewer_id, decision, comment)
+values ('20000000-0000-0000-0000-000000000001', 'dd000000-0000-0000-0000-000000000002', 'rejected', 'South only');
+
+-- History -------------------------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  'select distinct visit_id from public.branch_visit_history',
+  array['10000000-0000-0000-0000-000000000001'::uuid],
+  'A BH reads the history of their own visits only'
+);
+
+select throws_ok(
+  $$insert into public.branch_visit_history (visit_id, action, changes)
+    values ('20000000-0000-0000-0000-000000000001', 'update', '{}')$$,
+  '42501',
+  null,
+  'Users cannot write history'
+);
+
+set local request.jwt.claims to '{"sub": "dd000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  'select distinct visit_id from public.branch_visit_history',
+  array['10000000-0000-0000-0000-000000000001'::uuid],
+  'A ZH reads the history of visits in their zone only'
+);
+
+set local request.jwt.claims to '{"sub": "cc000000-0000-0000-0000-000000000001"}';
+
+select set_eq(
+  'select distinct visit_id from public.branch_visit_history',
+  array['10000000-0000-0000-0000-000000000001'::uuid, '20000000-0000-0000-0000-000000000001'::uuid],
+  'A CH reads the history of every visit'
+);
+
+-- Reviews -------------------------------------------------------------------
+
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select is_empty('select id from public.visit_reviews', 'A BH reads no reviews of other BHs'' visits');
+
+set local request.jwt.claims to '{"sub": "dd000000-0000-0000-0000-000000000001"}';
+
+select throws_ok(
+  $$insert into public.visit_reviews (visit_id, reviewer_id, decision)
+    values ('20000000-0000-0000-0000-000000000001', 'dd000000-0000-0000-0000-000000000001', 'approved')$$,
+  '42501',
+  null,
+  'A ZH cannot review a visit in another zone'
+);
+
+select throws_ok(
+  $$insert into public.visit_reviews (visit_id, reviewer_id, decision)
+    values ('10000000-0000-0000-0000-000000000001', 'dd000000-0000-0000-0000-000000000002', 'approved')$$,
+  '42501',
+  null,
+  'A ZH cannot record a review in someone else''s name'
+);
+
+select lives_ok(
+  $$insert into public.visit_reviews (visit_id, reviewer_id, decision)
+    values ('10000000-0000-0000-0000-000000000001', 'dd000000-0000-0000-0000-000000000001', 'approved')$$,
+  'A ZH reviews a visit in their zone'
+);
+
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select throws_ok(
+  $$insert into public.visit_reviews (visit_id, reviewer_id, decision)
+    values ('10000000-0000-0000-0000-000000000001', 'bb000000-0000-0000-0000-000000000001', 'approved')$$,
+  '42501',
+  null,
+  'A BH cannot review their own visit'
+);
+
+-- Notifications -------------------------------------------------------------
+
+-- The North ZH was told of the submission, the North BH of the approval
+select set_eq(
+  'select distinct user_id from public.notifications',
+  array['bb000000-0000-0000-0000-000000000001'::uuid],
+  'A BH reads only their own notifications'
+);
+
+select throws_ok(
+  $$insert into public.notifications (user_id, kind, title)
+    values ('dd000000-0000-0000-0000-000000000001', 'report_submitted', 'Fake')$$,
+  '42501',
+  null,
+  'Users cannot create notifications'
+);
+
+select lives_ok(
+  'update public.notifications set read_at = now()',
+  'A BH marks their notifications read'
+);
+
+select throws_ok(
+  $$update public.notifications set title = 'Changed'$$,
+  '42501',
+  null,
+  'Only read_at can be changed'
+);
+
+reset role;
+
+select is(
+  (select count(*)::int from public.notifications
+    where user_id = 'dd000000-0000-0000-0000-000000000001' and read_at is not null),
+  0,
+  'A BH cannot mark another user''s notifications read'
+);
+
+-- Preferences and plans -----------------------------------------------------
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000001"}';
+
+select lives_ok(
+  $$insert into public.notification_preferences (user_id, overdue_reminder)
+    values ('bb000000-0000-0000-0000-000000000001', true)$$,
+  'A BH saves their own email preferences'
+);
+
+select throws_ok(
+  $$insert into public.notification_preferences (user_id, overdue_reminder)
+    values ('bb000000-0000-0000-0000-000000000002', true)$$,
+  '42501',
+  null,
+  'A BH cannot save another user''s preferences'
+);
+
+select lives_ok(
+  $$insert into public.visit_plans (user_id, branch_id, planned_date)
+    values ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-11-02')$$,
+  'A BH plans a visit of their own'
+);
+
+select throws_ok(
+  $$insert into public.visit_plans (user_id, branch_id, planned_date)
+    values ('bb000000-0000-0000-0000-000000000002', 'ff000000-0000-0000-0000-000000000002', '2026-11-02')$$,
+  '42501',
+  null,
+  'A BH cannot plan a visit for another BH'
+);
+
+set local request.jwt.claims to '{"sub": "bb000000-0000-0000-0000-000000000002"}';
+
+select is_empty(
+  'select user_id from public.notification_preferences union all select user_id from public.visit_plans',
+  'Another BH reads none of their preferences or plans'
+);
+
+set local request.jwt.claims to '{"sub": "dd000000-0000-0000-0000-000000000001"}';
+
+select is_empty('select id from public.visit_plans', 'A ZH reads no BH plans');
+
+reset role;
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,107 @@
+-- visit_totals on a small fixture. Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+-- North has four branches and two BHs, South one branch and one BH. BH1 also
+-- filed a report for the South branch.
+insert into public.zones (id, name)
+values
+  ('ee000000-0000-0000-0000-000000000001', 'Test North'),
+  ('ee000000-0000-0000-0000-000000000002', 'Test South');
+
+insert into public.branches (id, name, location, branch_code, category, zone_id)
+values
+  ('ff000000-0000-0000-0000-000000000001', 'Delhi Central', 'Delhi', 'TST-001', 'gold', 'ee000000-0000-0000-0000-000000000001'),
+  ('ff000000-0000-0000-0000-000000000002', 'Delhi North', 'Delhi', 'TST-002', 'gold', 'ee000000-0000-0000-0000-000000000001'),
+  ('ff000000-0000-0000-0000-000000000003', 'Jaipur Central', 'Jaipur', 'TST-003', 'gold', 'ee000000-0000-0000-0000-000000000001'),
+  ('ff000000-0000-0000-0000-000000000004', 'Lucknow Central', 'Lucknow', 'TST-004', 'silver', 'ee000000-0000-0000-0000-000000000001'),
+  ('ff000000-0000-0000-0000-000000000005', 'Chennai Central', 'Chennai', 'TST-005', 'gold', 'ee000000-0000-0000-0000-000000000002');
+
+insert into auth.users (id, email, raw_user_meta_data)
+select id::uuid, e_code || '@example.com',
+  jsonb_build_object('full_name', e_code, 'e_code', e_code, 'role', 'BH', 'location', 'Delhi', 'gender', 'other')
+from (values
+  ('bb000000-0000-0000-0000-000000000001', 'TBH1'),
+  ('bb000000-0000-0000-0000-000000000002', 'TBH2'),
+  ('bb000000-0000-0000-0000-000000000003', 'TBH3')
+) as u (id, e_code);
+
+update public.profiles set zone_id = 'ee000000-0000-0000-0000-000000000001'
+where id in ('bb000000-0000-0000-0000-000000000001', 'bb000000-0000-0000-0000-000000000002');
+update public.profiles set zone_id = 'ee000000-0000-0000-0000-000000000002'
+where id = 'bb000000-0000-0000-0000-000000000003';
+
+insert into public.branch_assignments (user_id, branch_id, assigned_at)
+values
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-01-01'),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000002', '2026-01-01'),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000003', '2026-01-01'),
+  ('bb000000-0000-0000-0000-000000000002', 'ff000000-0000-0000-0000-000000000004', '2026-01-01'),
+  ('bb000000-0000-0000-0000-000000000003', 'ff000000-0000-0000-0000-000000000005', '2026-01-01');
+
+-- The draft and the rejected report never count
+insert into public.branch_visits (
+  user_id, branch_id, visit_date, branch_category, status,
+  total_employees_invited, total_participants, manning_percentage
+)
+values
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-02', 'gold', 'approved', 20, 15, 90),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000001', '2026-10-09', 'gold', 'submitted', 10, 10, 80),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000002', '2026-10-12', 'gold', 'resubmitted', 10, 5, null),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000003', '2026-10-14', 'gold', 'draft', 50, 50, 10),
+  ('bb000000-0000-0000-0000-000000000002', 'ff000000-0000-0000-0000-000000000004', '2026-10-05', 'silver', 'rejected', 30, 30, 50),
+  ('bb000000-0000-0000-0000-000000000001', 'ff000000-0000-0000-0000-000000000005', '2026-10-20', 'gold', 'approved', 40, 20, 70),
+  ('bb000000-0000-0000-0000-000000000003', 'ff000000-0000-0000-0000-000000000005', '2026-10-21', 'gold', 'submitted', 10, 10, 60);
+
+-- Sums ----------------------------------------------------------------------
+
+select results_eq(
+  $$select invited, participants, awaiting_review from public.visit_totals(
+    '2026-10-01', '2026-10-31', zone => 'ee000000-0000-0000-0000-000000000001')$$,
+  $$values (40::bigint, 30::bigint, 2::bigint)$$,
+  'Participation is summed over reported visits, and submitted and resubmitted ones await review'
+);
+
+select results_eq(
+  $$select manning_sum, manning_count from public.visit_totals(
+    '2026-10-01', '2026-10-31', zone => 'ee000000-0000-0000-0000-000000000001')$$,
+  $$values (170::numeric, 2::bigint)$$,
+  'A blank HR parameter is left out of its average'
+);
+
+-- Zones ---------------------------------------------------------------------
+
+select results_eq(
+  $$select visit_count, visited_branches, active_bhs from public.visit_totals(
+    '2026-10-01', '2026-10-31', zone => 'ee000000-0000-0000-0000-000000000001')$$,
+  $$values (3::bigint, 2::bigint, 1::bigint)$$,
+  'A zone counts the visits to its own branches only'
+);
+
+select results_eq(
+  $$select visit_count, visited_branches, active_bhs from public.visit_totals(
+    '2026-10-01', '2026-10-31', zone => 'ee000000-0000-0000-0000-000000000002')$$,
+  $$values (2::bigint, 1::bigint, 2::bigint)$$,
+  'A visit by a BH from another zone counts for the branch''s zone'
+);
+
+select results_eq(
+  $$select total_branches, assigned_branches, covered_branches from public.visit_totals(
+    '2026-10-01', '2026-10-31', zone => 'ee000000-0000-0000-0000-000000000001')$$,
+  $$values (4::bigint, 4::bigint, 2::bigint)$$,
+  'A zone''s coverage is measured against its own branches'
+);
+
+select results_eq(
+  $$select visit_count, total_branches, covered_branches from public.visit_totals(
+    '2026-10-01', '2026-10-31', bh => 'bb000000-0000-0000-0000-000000000001')$$,
+  $$values (4::bigint, 3::bigint, 2::bigint)$$,
+  'A BH''s coverage is measured against their own mapping, wherever they reported'
+);
+
+select * from finish();
+
+rollback;